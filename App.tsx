@@ -12,6 +12,7 @@ import SettingsScreen from "./screens/SettingsScreen"
 import AuthManager from "./screens/AuthManager"
 import UserProfileScreen from "./screens/UserProfileScreen"
 import DemoJudgesPanel from "./components/DemoJudgesPanel"
+import ExitGuidanceOverlay from "./components/ExitGuidanceOverlay"
 import AppInitializer from "./utils/AppInitializer"
 import { theme } from "./theme/colors"
 import { Ionicons } from "@expo/vector-icons"
@@ -199,6 +200,7 @@ export default function App() {
           />
         </Tab.Navigator>
       </NavigationContainer>
+      <ExitGuidanceOverlay />
     </SafeAreaProvider>
   )
 }
@@ -0,0 +1,390 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, Switch, ScrollView, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button } from './ui';
+import { theme } from '../theme/colors';
+import { alertRulesEngine } from '../services/alertRules';
+import { zoneRegistry } from '../services/zoneRegistry';
+import { Storage } from '../services/storage';
+import { PREDEFINED_WAYPOINTS, Waypoint } from '../data/waypoints';
+import { describeCondition } from '../utils/alertRules';
+import type { AlertPriority, AlertRule, RuleComparison, RuleCondition } from '../types';
+
+type Kind = RuleCondition['kind'];
+type WeatherMetric = Extract<RuleCondition, { kind: 'weather' }>['metric'];
+
+const KINDS: { kind: Kind; label: string }[] = [
+  { kind: 'weather', label: 'Weather' },
+  { kind: 'tide', label: 'Tide' },
+  { kind: 'zone_entry', label: 'Zone' },
+  { kind: 'price', label: 'Price' },
+  { kind: 'date', label: 'Date' }
+];
+const METRICS: { metric: WeatherMetric; label: string }[] = [
+  { metric: 'windKmh', label: 'Wind km/h' },
+  { metric: 'waveM', label: 'Wave m' },
+  { metric: 'visibilityKm', label: 'Visibility km' },
+  { metric: 'pressureHpa', label: 'Pressure hPa' }
+];
+const PRIORITIES: AlertPriority[] = ['low', 'medium', 'high', 'critical'];
+
+// Fields of the condition being built, kept as typed text until it is added
+interface Draft {
+  kind: Kind;
+  metric: WeatherMetric;
+  op: RuleComparison;
+  value: string;
+  event: 'high' | 'low';
+  hours: string;
+  zoneId: string | null;
+  species: string;
+  days: string;
+  date: string;
+}
+
+const EMPTY_DRAFT: Draft = {
+  kind: 'weather',
+  metric: 'windKmh',
+  op: 'above',
+  value: '',
+  event: 'high',
+  hours: '2',
+  zoneId: null,
+  species: '',
+  days: '3',
+  date: ''
+};
+
+function Chip(props: { label: string; selected: boolean; onPress: () => void }) {
+  return (
+    <TouchableOpacity style={[styles.chip, props.selected && styles.chipSelected]} onPress={props.onPress}>
+      <Text style={[styles.chipText, props.selected && styles.chipTextSelected]}>{props.label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+// The condition described by the draft, or an error message saying what is wrong with it
+function toCondition(draft: Draft): RuleCondition | string {
+  const value = Number(draft.value);
+  switch (draft.kind) {
+    case 'weather':
+      if (!draft.value || !Number.isFinite(value)) return 'Enter a number for the weather threshold.';
+      return { kind: 'weather', metric: draft.metric, op: draft.op, value };
+    case 'tide': {
+      const hours = Number(draft.hours);
+      if (!(hours > 0)) return 'Enter how many hours ahead to look for the tide.';
+      return { kind: 'tide', event: draft.event, withinHours: hours };
+    }
+    case 'zone_entry':
+      return draft.zoneId ? { kind: 'zone_entry', zoneId: draft.zoneId } : { kind: 'zone_entry' };
+    case 'price':
+      if (!draft.species.trim()) return 'Enter the species name.';
+      if (!draft.value || !(value > 0)) return 'Enter a price in ₹ per kg.';
+      return { kind: 'price', species: draft.species.trim(), op: draft.op, value };
+    case 'date': {
+      const days = Number(draft.days);
+      if (!Number.isInteger(days) || days < 0) return 'Enter a whole number of days.';
+      if (draft.date && !/^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/.test(draft.date)) return 'Enter the date as MM-DD.';
+      return draft.date ? { kind: 'date', daysBefore: days, date: draft.date } : { kind: 'date', daysBefore: days };
+    }
+  }
+}
+
+/**
+ * List, switch on and off, and create personal alert rules
+ */
+export default function AlertRuleEditor() {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [spots, setSpots] = useState<Waypoint[]>(PREDEFINED_WAYPOINTS);
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState('');
+  const [match, setMatch] = useState<AlertRule['match']>('any');
+  const [priority, setPriority] = useState<AlertPriority>('high');
+  const [spot, setSpot] = useState<Waypoint | null>(null);
+  const [conditions, setConditions] = useState<RuleCondition[]>([]);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+
+  useEffect(() => {
+    alertRulesEngine.getRules().then(setRules);
+    Storage.getImportedWaypoints().then(imported => setSpots([...imported, ...PREDEFINED_WAYPOINTS]));
+    return alertRulesEngine.addListener(setRules);
+  }, []);
+
+  const zones = zoneRegistry.getZones();
+  const edit = (next: Partial<Draft>) => setDraft({ ...draft, ...next });
+
+  const reset = () => {
+    setEditing(false);
+    setName('');
+    setMatch('any');
+    setPriority('high');
+    setSpot(null);
+    setConditions([]);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const addCondition = () => {
+    const condition = toCondition(draft);
+    if (typeof condition === 'string') {
+      Alert.alert('Condition incomplete', condition);
+      return;
+    }
+    setConditions([...conditions, condition]);
+    setDraft({ ...EMPTY_DRAFT, kind: draft.kind });
+  };
+
+  const saveRule = async () => {
+    if (!name.trim() || conditions.length === 0) {
+      Alert.alert('Rule incomplete', 'Give the rule a name and add at least one condition.');
+      return;
+    }
+    await alertRulesEngine.saveRule({
+      id: `rule_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      name: name.trim(),
+      enabled: true,
+      match,
+      conditions,
+      ...(spot && { spot: { lat: spot.lat, lon: spot.lon, label: spot.label } }),
+      priority,
+      createdAt: Date.now()
+    });
+    reset();
+  };
+
+  const deleteRule = (rule: AlertRule) => {
+    Alert.alert('Delete rule', `Delete "${rule.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => alertRulesEngine.deleteRule(rule.id) }
+    ]);
+  };
+
+  return (
+    <View>
+      <Text style={styles.label}>My Alert Rules</Text>
+      {rules.length === 0 && !editing && (
+        <Text style={styles.help}>No rules yet. For example: warn me if wind is above 25 km/h at my spot.</Text>
+      )}
+
+      {rules.map(rule => (
+        <View key={rule.id} style={styles.rule}>
+          <View style={styles.ruleText}>
+            <Text style={styles.ruleName}>{rule.name}</Text>
+            <Text style={styles.help}>
+              {rule.conditions.map(describeCondition).join(rule.match === 'all' ? ' and ' : ' or ')}
+              {rule.spot ? ` at ${rule.spot.label}` : ''}
+            </Text>
+          </View>
+          <Switch value={rule.enabled} onValueChange={enabled => alertRulesEngine.saveRule({ ...rule, enabled })} />
+          <TouchableOpacity onPress={() => deleteRule(rule)} style={styles.delete}>
+            <Ionicons name="trash-outline" size={20} color={theme.danger} />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      {!editing ? (
+        <Button title="New Rule" variant="ghost" onPress={() => setEditing(true)} />
+      ) : (
+        <View style={styles.form}>
+          <TextInput style={styles.input} placeholder="Rule name, e.g. Rough sea at my spot" value={name} onChangeText={setName} />
+
+          {conditions.map((condition, index) => (
+            <View key={index} style={styles.conditionRow}>
+              <Text style={styles.conditionText}>
+                {index > 0 ? (match === 'all' ? 'and ' : 'or ') : ''}
+                {describeCondition(condition)}
+              </Text>
+              <TouchableOpacity onPress={() => setConditions(conditions.filter((_, i) => i !== index))}>
+                <Ionicons name="close-circle" size={18} color={theme.textMuted} />
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          <Text style={styles.subLabel}>Add condition</Text>
+          <View style={styles.chips}>
+            {KINDS.map(({ kind, label }) => (
+              <Chip key={kind} label={label} selected={draft.kind === kind} onPress={() => edit({ kind })} />
+            ))}
+          </View>
+
+          {draft.kind === 'weather' && (
+            <View style={styles.chips}>
+              {METRICS.map(({ metric, label }) => (
+                <Chip key={metric} label={label} selected={draft.metric === metric} onPress={() => edit({ metric })} />
+              ))}
+            </View>
+          )}
+          {(draft.kind === 'weather' || draft.kind === 'price') && (
+            <View style={styles.chips}>
+              {draft.kind === 'price' && (
+                <TextInput style={[styles.input, styles.inline]} placeholder="Species" value={draft.species} onChangeText={species => edit({ species })} />
+              )}
+              <Chip label="above" selected={draft.op === 'above'} onPress={() => edit({ op: 'above' })} />
+              <Chip label="below" selected={draft.op === 'below'} onPress={() => edit({ op: 'below' })} />
+              <TextInput
+                style={[styles.input, styles.number]}
+                placeholder={draft.kind === 'price' ? '₹/kg' : 'value'}
+                keyboardType="numeric"
+                value={draft.value}
+                onChangeText={value => edit({ value })}
+              />
+            </View>
+          )}
+          {draft.kind === 'tide' && (
+            <View style={styles.chips}>
+              <Chip label="High tide" selected={draft.event === 'high'} onPress={() => edit({ event: 'high' })} />
+              <Chip label="Low tide" selected={draft.event === 'low'} onPress={() => edit({ event: 'low' })} />
+              <Text style={styles.help}>within</Text>
+              <TextInput style={[styles.input, styles.number]} keyboardType="numeric" value={draft.hours} onChangeText={hours => edit({ hours })} />
+              <Text style={styles.help}>hours</Text>
+            </View>
+          )}
+          {draft.kind === 'zone_entry' && (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.scrollChips}>
+              <Chip label="Any restricted zone" selected={draft.zoneId === null} onPress={() => edit({ zoneId: null })} />
+              {zones.map(zone => (
+                <Chip key={zone.id} label={zone.name} selected={draft.zoneId === zone.id} onPress={() => edit({ zoneId: zone.id })} />
+              ))}
+            </ScrollView>
+          )}
+          {draft.kind === 'date' && (
+            <View style={styles.chips}>
+              <TextInput style={[styles.input, styles.number]} keyboardType="numeric" value={draft.days} onChangeText={days => edit({ days })} />
+              <Text style={styles.help}>days before</Text>
+              <TextInput
+                style={[styles.input, styles.inline]}
+                placeholder="MM-DD, blank for next ban"
+                value={draft.date}
+                onChangeText={date => edit({ date })}
+              />
+            </View>
+          )}
+          <Button title="Add Condition" variant="ghost" onPress={addCondition} />
+
+          <Text style={styles.subLabel}>Alert when</Text>
+          <View style={styles.chips}>
+            <Chip label="Any condition" selected={match === 'any'} onPress={() => setMatch('any')} />
+            <Chip label="All conditions" selected={match === 'all'} onPress={() => setMatch('all')} />
+          </View>
+
+          <Text style={styles.subLabel}>Check weather, tides and prices at</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.scrollChips}>
+            <Chip label="My boat" selected={spot === null} onPress={() => setSpot(null)} />
+            {spots.map(waypoint => (
+              <Chip key={waypoint.id} label={waypoint.label} selected={spot?.id === waypoint.id} onPress={() => setSpot(waypoint)} />
+            ))}
+          </ScrollView>
+
+          <Text style={styles.subLabel}>Priority</Text>
+          <View style={styles.chips}>
+            {PRIORITIES.map(level => (
+              <Chip key={level} label={level} selected={priority === level} onPress={() => setPriority(level)} />
+            ))}
+          </View>
+
+          <View style={styles.actions}>
+            <Button title="Cancel" variant="ghost" onPress={reset} />
+            <Button title="Save Rule" onPress={saveRule} />
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: theme.fg,
+  },
+  subLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.fg,
+    marginTop: 12,
+  },
+  help: {
+    color: '#475569',
+  },
+  rule: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 10,
+  },
+  ruleText: {
+    flex: 1,
+  },
+  ruleName: {
+    fontWeight: '600',
+    color: theme.fg,
+  },
+  delete: {
+    padding: 4,
+  },
+  form: {
+    marginTop: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#CBD5E1',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    color: theme.fg,
+    backgroundColor: '#FFFFFF',
+  },
+  inline: {
+    flex: 1,
+    minWidth: 120,
+  },
+  number: {
+    width: 80,
+  },
+  conditionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  conditionText: {
+    flex: 1,
+    color: theme.fg,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  scrollChips: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.primary,
+  },
+  chipSelected: {
+    backgroundColor: theme.primary,
+  },
+  chipText: {
+    fontSize: 12,
+    color: theme.primary,
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 8,
+  },
+});
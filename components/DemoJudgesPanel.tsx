@@ -23,6 +23,10 @@ import {
 import { boundaryAlertSystem } from '../services/boundaryAlertSystem';
 import { notificationService } from '../services/notificationService';
 import { modeConfig } from '../services/modeConfig';
+import { trackReplay } from '../services/trackReplay';
+import { exitGuidance } from '../services/exitGuidance';
+import ReplayRegressionTester from '../utils/ReplayRegressionTester';
+import CapFixtureTester from '../utils/CapFixtureTester';
 import colors from '../theme/colors';
 
 interface DemoStats {
@@ -42,6 +46,7 @@ const DemoJudgesPanel: React.FC = () => {
     soundsPlayed: 0
   });
   const [activeAlerts, setActiveAlerts] = useState<any[]>([]);
+  const [isReplaying, setIsReplaying] = useState(trackReplay.isReplaying());
 
   useEffect(() => {
     // Initialize services
@@ -182,6 +187,62 @@ const DemoJudgesPanel: React.FC = () => {
     setIsMonitoring(!isMonitoring);
   };
 
+  // ⏯️ TRACK REPLAY
+
+  const toggleTrackReplay = async () => {
+    if (trackReplay.isReplaying()) {
+      trackReplay.stop();
+      setIsReplaying(false);
+      Alert.alert('⏹️ Replay Stopped', 'Boundary monitoring is back on the phone GPS.');
+      return;
+    }
+
+    try {
+      const result = await trackReplay.pickAndStart({ speed: 10 });
+      if (!result) return;
+      if (!result.provider) {
+        Alert.alert('❌ Replay Failed', result.errors.slice(0, 3).join('\n'));
+        return;
+      }
+      if (!isMonitoring) {
+        await boundaryAlertSystem.startMonitoring();
+        setIsMonitoring(true);
+      }
+      setIsReplaying(true);
+      const { total } = result.provider.getProgress();
+      Alert.alert(
+        '⏯️ Replaying Track',
+        `${total} fixes at 10x speed${result.errors.length ? `, ${result.errors.length} skipped` : ''}`
+      );
+    } catch (error) {
+      console.error('❌ Track replay failed:', error);
+      Alert.alert('❌ Replay Failed', 'Could not read the track file.');
+    }
+  };
+
+  const runReplayRegressions = async () => {
+    if (trackReplay.isReplaying()) {
+      Alert.alert('⏯️ Replay Running', 'Stop the track replay before running the regression cases.');
+      return;
+    }
+    const { passed, results } = await ReplayRegressionTester.runAll();
+    setIsMonitoring(boundaryAlertSystem.isMonitoringActive());
+    Alert.alert(
+      passed ? '✅ Replay Regressions Passed' : '❌ Replay Regressions Failed',
+      results
+        .map(result => `${result.passed ? '✅' : '❌'} ${result.id}${result.missed.length ? `, missed ${result.missed.length}` : ''}${result.unexpected.length ? `, ${result.unexpected.length} unexpected` : ''}`)
+        .join('\n')
+    );
+  };
+
+  const runCapFixtureCheck = async () => {
+    const { passed, results } = await CapFixtureTester.runAll();
+    Alert.alert(
+      passed ? '✅ CAP Fixtures Passed' : '❌ CAP Fixtures Failed',
+      results.map(result => `${result.passed ? '✅' : '❌'} ${result.id}${result.failures.length ? `: ${result.failures[0]}` : ''}`).join('\n')
+    );
+  };
+
   // 🎛️ MODE CONTROLS
 
   const toggleSystemMode = async () => {
@@ -320,6 +381,21 @@ const DemoJudgesPanel: React.FC = () => {
           <Text style={styles.buttonText}>🎬 Multi-Zone Sequence</Text>
           <Text style={styles.buttonSubtext}>Progressive violations demo</Text>
         </TouchableOpacity>
+
+        <TouchableOpacity style={styles.primaryButton} onPress={toggleTrackReplay}>
+          <Text style={styles.buttonText}>{isReplaying ? '⏹️ Stop Track Replay' : '⏯️ Replay GPS Track'}</Text>
+          <Text style={styles.buttonSubtext}>GPX, NMEA or saved tracking data at 10x speed</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.primaryButton} onPress={runReplayRegressions}>
+          <Text style={styles.buttonText}>🧪 Run Replay Regressions</Text>
+          <Text style={styles.buttonSubtext}>Recorded tracks checked against the alerts they must raise</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.primaryButton} onPress={runCapFixtureCheck}>
+          <Text style={styles.buttonText}>📡 Run CAP Fixture Check</Text>
+          <Text style={styles.buttonSubtext}>Sample IMD and INCOIS warnings through the parser, update and cancel</Text>
+        </TouchableOpacity>
       </View>
 
       {/* Push Notification Demos */}
@@ -383,6 +459,19 @@ const DemoJudgesPanel: React.FC = () => {
               <Text style={styles.alertDistance}>
                 {alert.distance.toFixed(0)}m away
               </Text>
+              {alert.imbl && (
+                <Text style={styles.alertDistance}>
+                  🧭 Steer {Math.round(alert.imbl.bearingToIndiaDeg)}° for Indian waters
+                </Text>
+              )}
+              {(alert.type === 'entered' || alert.type === 'violation') && (
+                <TouchableOpacity
+                  style={styles.guideButton}
+                  onPress={() => exitGuidance.start(alert.zoneId, { lat: alert.location.latitude, lon: alert.location.longitude })}
+                >
+                  <Text style={styles.smallButtonText}>🧭 Guide Me Out</Text>
+                </TouchableOpacity>
+              )}
             </View>
           ))}
         </View>
@@ -628,6 +717,13 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#6c757d',
   },
+  guideButton: {
+    backgroundColor: '#0F766E',
+    padding: 10,
+    borderRadius: 6,
+    alignItems: 'center',
+    marginTop: 8,
+  },
   controlsSection: {
     margin: 15,
     backgroundColor: 'white',
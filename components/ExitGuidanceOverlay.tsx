@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, View, Text, TouchableOpacity, StyleSheet, StatusBar } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { palette } from '../theme/colors';
+import { exitGuidance, ExitGuidance } from '../services/exitGuidance';
+
+function formatDistance(km: number): string {
+  return km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`;
+}
+
+function turnText(turnDeg: number): string {
+  const amount = Math.abs(Math.round(turnDeg));
+  if (amount < 10) return 'Hold your course';
+  return `Turn ${amount}° to ${turnDeg < 0 ? 'port' : 'starboard'}`;
+}
+
+/**
+ * Full-screen heading and distance display while exit guidance runs
+ */
+export default function ExitGuidanceOverlay() {
+  const [guidance, setGuidance] = useState<ExitGuidance | null>(exitGuidance.getGuidance());
+
+  useEffect(() => exitGuidance.addListener(setGuidance), []);
+
+  if (!guidance) return null;
+
+  const { outside, bearingDeg, turnDeg, route } = guidance;
+  // With a known heading the arrow is relative to the bow; otherwise it is north-up
+  const arrowDeg = turnDeg ?? bearingDeg ?? 0;
+
+  return (
+    <Modal visible animationType="fade" onRequestClose={() => exitGuidance.stop()}>
+      <StatusBar barStyle="light-content" />
+      <View style={[styles.container, outside ? styles.clear : styles.inside]}>
+        <Text style={styles.zoneName}>{guidance.zoneName}</Text>
+
+        {outside ? (
+          <View style={styles.center}>
+            <Ionicons name="checkmark-circle" size={160} color={palette.white} />
+            <Text style={styles.headline}>Clear of the zone</Text>
+          </View>
+        ) : bearingDeg !== null && route ? (
+          <View style={styles.center}>
+            <View style={{ transform: [{ rotate: `${arrowDeg}deg` }] }}>
+              <Ionicons name="arrow-up" size={200} color={palette.white} />
+            </View>
+            <Text style={styles.bearing}>
+              {guidance.compass} {Math.round(bearingDeg)}°
+            </Text>
+            <Text style={styles.distance}>{formatDistance(route.distanceKm)}</Text>
+            <Text style={styles.detail}>
+              {turnDeg !== null ? turnText(turnDeg) : 'Arrow points north-up until your heading is known'}
+            </Text>
+            {route.waypoints.length > 2 && (
+              <Text style={styles.detail}>Route goes round {route.waypoints.length - 2} corner(s) of another restricted zone</Text>
+            )}
+            {!route.avoidsRestricted && (
+              <Text style={styles.warning}>⚠️ No way round nearby restricted zones; this route crosses one</Text>
+            )}
+          </View>
+        ) : (
+          <View style={styles.center}>
+            <Ionicons name="navigate" size={160} color={palette.white} />
+            <Text style={styles.headline}>{route === null ? 'Almost clear, keep going' : 'Finding a way out…'}</Text>
+          </View>
+        )}
+
+        <TouchableOpacity style={styles.button} onPress={() => exitGuidance.stop()}>
+          <Text style={styles.buttonText}>{outside ? 'Close' : 'Stop Guidance'}</Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 64,
+    paddingBottom: 40,
+    paddingHorizontal: 24,
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  inside: {
+    backgroundColor: palette.gray900,
+  },
+  clear: {
+    backgroundColor: palette.primary,
+  },
+  center: {
+    alignItems: 'center',
+  },
+  zoneName: {
+    color: palette.white,
+    fontSize: 20,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  headline: {
+    color: palette.white,
+    fontSize: 32,
+    fontWeight: '700',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  bearing: {
+    color: palette.white,
+    fontSize: 56,
+    fontWeight: '800',
+    marginTop: 8,
+  },
+  distance: {
+    color: palette.warningLight,
+    fontSize: 64,
+    fontWeight: '800',
+  },
+  detail: {
+    color: palette.gray200,
+    fontSize: 18,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  warning: {
+    color: palette.dangerLight,
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  button: {
+    alignSelf: 'stretch',
+    height: 64,
+    borderRadius: 16,
+    backgroundColor: palette.white,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonText: {
+    color: palette.gray900,
+    fontSize: 20,
+    fontWeight: '700',
+  },
+});
@@ -34,6 +34,11 @@ export const CONFIG = {
   // API Endpoints
   OPENWEATHER_BASE_URL: OPENWEATHER_BASE_URL || "https://api.openweathermap.org/data/2.5",
   OPENWEATHER_MARINE_URL: OPENWEATHER_MARINE_URL || "https://api.openweathermap.org/data/2.5/marine",
+
+  // Official CAP 1.2 warning feeds; NDMA's SACHET feed carries IMD, INCOIS and Coast Guard alerts
+  CAP_FEEDS: [
+    "https://sachet.ndma.gov.in/cap_public_website/rss/rss_india.xml",
+  ],
   
   // Indian Coastal Waters - Maritime Boundaries
   INDIAN_EEZ_BOUNDARIES: {
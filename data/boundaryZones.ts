@@ -0,0 +1,186 @@
+// Boundary definitions used by the on-device monitors
+// Kept in data/ so the zone registry can load them without importing the services
+
+import type { BoundaryZone } from '../services/boundaryAlertSystem';
+import type { MaritimeBoundary } from '../services/maritimeBoundary';
+
+// Mumbai coast zones watched by the boundary alert system (alertDistance in meters)
+export const BOUNDARY_ALERT_ZONES: BoundaryZone[] = [
+  {
+    id: 'intl_waters_west',
+    name: 'International Waters - West',
+    type: 'international',
+    coordinates: [
+      { latitude: 19.2000, longitude: 72.7000 },
+      { latitude: 19.2000, longitude: 72.6000 },
+      { latitude: 18.8000, longitude: 72.6000 },
+      { latitude: 18.8000, longitude: 72.7000 }
+    ],
+    alertDistance: 5000, // 5 km warning
+    severity: 'emergency',
+    description: 'International waters - crossing prohibited without proper documentation'
+  },
+  {
+    id: 'marine_protected_area',
+    name: 'Marine Protected Area',
+    type: 'protected',
+    coordinates: [
+      { latitude: 19.1500, longitude: 72.8200 },
+      { latitude: 19.1500, longitude: 72.8800 },
+      { latitude: 19.1000, longitude: 72.8800 },
+      { latitude: 19.1000, longitude: 72.8200 }
+    ],
+    alertDistance: 2000, // 2 km warning
+    severity: 'critical',
+    description: 'Protected marine sanctuary - fishing prohibited'
+  },
+  {
+    id: 'naval_restricted_zone',
+    name: 'Naval Restricted Zone',
+    type: 'military',
+    coordinates: [
+      { latitude: 18.9500, longitude: 72.8300 },
+      { latitude: 18.9500, longitude: 72.8600 },
+      { latitude: 18.9200, longitude: 72.8600 },
+      { latitude: 18.9200, longitude: 72.8300 }
+    ],
+    alertDistance: 3000, // 3 km warning
+    severity: 'emergency',
+    description: 'Naval operations area - entry strictly prohibited'
+  },
+  {
+    id: 'no_fishing_zone',
+    name: 'Breeding Ground - No Fishing',
+    type: 'no_fishing',
+    coordinates: [
+      { latitude: 19.0800, longitude: 72.8500 },
+      { latitude: 19.0800, longitude: 72.8900 },
+      { latitude: 19.0500, longitude: 72.8900 },
+      { latitude: 19.0500, longitude: 72.8500 }
+    ],
+    alertDistance: 1500, // 1.5 km warning
+    severity: 'warning',
+    description: 'Fish breeding area - no fishing during breeding season'
+  }
+];
+
+// Indian maritime boundaries used for violation tracking (distances in km)
+export const MARITIME_BOUNDARIES: MaritimeBoundary[] = [
+  {
+    id: 'india_pakistan_boundary',
+    name: 'India-Pakistan Maritime Boundary',
+    type: 'international_boundary',
+    coordinates: [
+      { lat: 24.0, lon: 68.0 },
+      { lat: 23.5, lon: 68.2 },
+      { lat: 23.0, lon: 68.5 },
+      { lat: 22.5, lon: 69.0 }
+    ],
+    restrictions: {
+      fishingAllowed: false,
+      requiresPermit: false,
+      seasonalRestrictions: { banned: [], permitted: [] },
+      timeRestrictions: { allowedHours: [], bannedHours: [] },
+      gearRestrictions: [],
+      speciesRestrictions: []
+    },
+    penalties: {
+      fine: { min: 500000, max: 2000000, currency: 'INR' },
+      imprisonment: { min: 6, max: 24, unit: 'months' },
+      vesselSeizure: true,
+      licenseRevocation: true
+    },
+    warningDistance: 10,
+    criticalDistance: 2
+  },
+  {
+    id: 'mumbai_naval_zone',
+    name: 'Mumbai Naval Restricted Zone',
+    type: 'restricted_military',
+    coordinates: [
+      { lat: 18.95, lon: 72.8 },
+      { lat: 18.95, lon: 72.85 },
+      { lat: 18.92, lon: 72.85 },
+      { lat: 18.92, lon: 72.8 }
+    ],
+    restrictions: {
+      fishingAllowed: false,
+      requiresPermit: false,
+      seasonalRestrictions: { banned: [], permitted: [] },
+      timeRestrictions: { allowedHours: [], bannedHours: [] },
+      gearRestrictions: [],
+      speciesRestrictions: []
+    },
+    penalties: {
+      fine: { min: 100000, max: 500000, currency: 'INR' },
+      imprisonment: { min: 1, max: 6, unit: 'months' },
+      vesselSeizure: true,
+      licenseRevocation: false
+    },
+    warningDistance: 5,
+    criticalDistance: 1
+  },
+  {
+    id: 'goa_monsoon_ban',
+    name: 'Goa Monsoon Fishing Ban Zone',
+    type: 'seasonal_ban',
+    coordinates: [
+      { lat: 15.8, lon: 73.5 },
+      { lat: 15.8, lon: 74.2 },
+      { lat: 15.0, lon: 74.2 },
+      { lat: 15.0, lon: 73.5 }
+    ],
+    restrictions: {
+      fishingAllowed: true,
+      requiresPermit: true,
+      seasonalRestrictions: {
+        banned: [{ start: '2024-06-01', end: '2024-07-31' }],
+        permitted: [{ start: '2024-08-01', end: '2024-05-31' }]
+      },
+      timeRestrictions: { allowedHours: [], bannedHours: [] },
+      gearRestrictions: ['purse_seine', 'trawl_net'],
+      speciesRestrictions: ['juvenile_fish']
+    },
+    penalties: {
+      fine: { min: 50000, max: 200000, currency: 'INR' },
+      imprisonment: { min: 15, max: 90, unit: 'days' },
+      vesselSeizure: false,
+      licenseRevocation: false
+    },
+    warningDistance: 15,
+    criticalDistance: 5
+  },
+  {
+    id: 'kerala_marine_sanctuary',
+    name: 'Kerala Marine Protected Area',
+    type: 'marine_protected',
+    coordinates: [
+      { lat: 10.2, lon: 76.0 },
+      { lat: 10.2, lon: 76.3 },
+      { lat: 9.8, lon: 76.3 },
+      { lat: 9.8, lon: 76.0 }
+    ],
+    restrictions: {
+      fishingAllowed: true,
+      requiresPermit: true,
+      seasonalRestrictions: {
+        banned: [{ start: '2024-04-01', end: '2024-06-30' }],
+        permitted: []
+      },
+      timeRestrictions: {
+        allowedHours: [{ start: '06:00', end: '18:00' }],
+        bannedHours: [{ start: '18:00', end: '06:00' }]
+      },
+      gearRestrictions: ['bottom_trawl', 'dynamite_fishing'],
+      speciesRestrictions: ['turtle', 'shark', 'ray']
+    },
+    penalties: {
+      fine: { min: 75000, max: 300000, currency: 'INR' },
+      imprisonment: { min: 1, max: 12, unit: 'months' },
+      vesselSeizure: false,
+      licenseRevocation: true
+    },
+    warningDistance: 8,
+    criticalDistance: 2
+  }
+];
@@ -0,0 +1,197 @@
+// Sample CAP 1.2 documents shaped like IMD, INCOIS and Coast Guard warnings.
+// Times are built from the given send time so the fixtures never go stale; used in demo mode and for trying the parser.
+// Fixed-time .xml documents for the parse and ingest check are in data/cap (run by utils/CapFixtureTester.ts)
+
+const CAP_NS = "urn:oasis:names:tc:emergency:cap:1.2"
+const HOUR_MS = 60 * 60 * 1000
+
+const iso = (time: number) => new Date(time).toISOString().replace(/\.\d{3}Z$/, "+00:00")
+
+// Deep depression over the east-central Arabian Sea, off the Mumbai and north Konkan coast
+export function imdDepressionWarning(sent: number) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<alert xmlns="${CAP_NS}">
+  <identifier>IMD-MUM-2025-0412</identifier>
+  <sender>imd.gov.in</sender>
+  <sent>${iso(sent)}</sent>
+  <status>Actual</status>
+  <msgType>Alert</msgType>
+  <scope>Public</scope>
+  <info>
+    <language>en-IN</language>
+    <category>Met</category>
+    <event>Deep Depression</event>
+    <urgency>Immediate</urgency>
+    <severity>Severe</severity>
+    <certainty>Likely</certainty>
+    <effective>${iso(sent)}</effective>
+    <expires>${iso(sent + 36 * HOUR_MS)}</expires>
+    <senderName>IMD Regional Meteorological Centre, Mumbai</senderName>
+    <headline>Fishermen warning: deep depression over east-central Arabian Sea</headline>
+    <description>Squally weather with wind speed 50-60 km/h gusting to 70 km/h and rough to very rough sea off the Mumbai and north Konkan coast.</description>
+    <instruction>Fishermen are advised not to venture into the sea. Those at sea should return to the coast.</instruction>
+    <area>
+      <areaDesc>Sea area off Mumbai and north Konkan coast</areaDesc>
+      <polygon>18.20,71.60 20.20,71.60 20.20,72.95 18.20,72.95 18.20,71.60</polygon>
+    </area>
+  </info>
+  <info>
+    <language>hi-IN</language>
+    <category>Met</category>
+    <event>गहरा दबाव</event>
+    <urgency>Immediate</urgency>
+    <severity>Severe</severity>
+    <certainty>Likely</certainty>
+    <expires>${iso(sent + 36 * HOUR_MS)}</expires>
+    <headline>मछुआरों के लिए चेतावनी</headline>
+    <area>
+      <areaDesc>मुंबई और उत्तर कोंकण तट से दूर समुद्री क्षेत्र</areaDesc>
+      <polygon>18.20,71.60 20.20,71.60 20.20,72.95 18.20,72.95 18.20,71.60</polygon>
+    </area>
+  </info>
+</alert>`
+}
+
+// The same warning, upgraded once the depression intensifies into a cyclonic storm
+export function imdCycloneUpdate(sent: number, originalSent: number) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<alert xmlns="${CAP_NS}">
+  <identifier>IMD-MUM-2025-0413</identifier>
+  <sender>imd.gov.in</sender>
+  <sent>${iso(sent)}</sent>
+  <status>Actual</status>
+  <msgType>Update</msgType>
+  <scope>Public</scope>
+  <references>imd.gov.in,IMD-MUM-2025-0412,${iso(originalSent)}</references>
+  <info>
+    <language>en-IN</language>
+    <category>Met</category>
+    <event>Cyclonic Storm</event>
+    <urgency>Immediate</urgency>
+    <severity>Extreme</severity>
+    <certainty>Observed</certainty>
+    <expires>${iso(sent + 48 * HOUR_MS)}</expires>
+    <senderName>IMD Regional Meteorological Centre, Mumbai</senderName>
+    <headline>Cyclone warning: total suspension of fishing operations</headline>
+    <description>Gale wind speed 65-75 km/h gusting to 85 km/h, very rough to high sea off the Mumbai, Konkan and Goa coast.</description>
+    <instruction>Total suspension of fishing operations. Boats at sea must return to the nearest harbour immediately.</instruction>
+    <area>
+      <areaDesc>Sea area off Mumbai, Konkan and Goa coast</areaDesc>
+      <polygon>15.00,71.20 20.20,71.20 20.20,73.00 17.00,73.30 15.00,73.80 15.00,71.20</polygon>
+    </area>
+  </info>
+</alert>`
+}
+
+export function imdCycloneCancel(sent: number, cancelled: { identifier: string; sent: number }[]) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<alert xmlns="${CAP_NS}">
+  <identifier>IMD-MUM-2025-0420</identifier>
+  <sender>imd.gov.in</sender>
+  <sent>${iso(sent)}</sent>
+  <status>Actual</status>
+  <msgType>Cancel</msgType>
+  <scope>Public</scope>
+  <references>${cancelled.map((alert) => `imd.gov.in,${alert.identifier},${iso(alert.sent)}`).join(" ")}</references>
+</alert>`
+}
+
+// High-wave alert along the Kerala coast, targeted with a circle
+export function incoisHighWaveAlert(sent: number) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<alert xmlns="${CAP_NS}">
+  <identifier>INCOIS-HWA-2025-0187</identifier>
+  <sender>incois.gov.in</sender>
+  <sent>${iso(sent)}</sent>
+  <status>Actual</status>
+  <msgType>Alert</msgType>
+  <scope>Public</scope>
+  <info>
+    <language>en-IN</language>
+    <category>Met</category>
+    <event>High Wave Alert</event>
+    <urgency>Expected</urgency>
+    <severity>Moderate</severity>
+    <certainty>Likely</certainty>
+    <onset>${iso(sent + 6 * HOUR_MS)}</onset>
+    <expires>${iso(sent + 30 * HOUR_MS)}</expires>
+    <senderName>INCOIS Ocean State Forecast</senderName>
+    <headline>High waves of 3.0 to 3.5 m along the Kerala coast</headline>
+    <description>High waves in the range of 3.0-3.5 m with surge currents of 45-70 cm/s are forecast from Kollam to Kozhikode.</description>
+    <instruction>Small boats should not venture into the sea. Secure boats in the harbour with safe distance between them.</instruction>
+    <area>
+      <areaDesc>Kerala coast, Kollam to Kozhikode</areaDesc>
+      <circle>9.95,76.00 90</circle>
+    </area>
+  </info>
+</alert>`
+}
+
+// A tsunami drill; not an Actual alert, so it must never reach the fisherman
+export function incoisTsunamiExercise(sent: number) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<alert xmlns="${CAP_NS}">
+  <identifier>INCOIS-TWS-EX-2025-02</identifier>
+  <sender>incois.gov.in</sender>
+  <sent>${iso(sent)}</sent>
+  <status>Exercise</status>
+  <msgType>Alert</msgType>
+  <scope>Public</scope>
+  <info>
+    <language>en-IN</language>
+    <category>Geo</category>
+    <event>Tsunami Warning (Exercise)</event>
+    <urgency>Immediate</urgency>
+    <severity>Extreme</severity>
+    <certainty>Possible</certainty>
+    <expires>${iso(sent + 6 * HOUR_MS)}</expires>
+    <headline>EXERCISE: tsunami warning for the Andaman and Nicobar Islands</headline>
+    <area>
+      <areaDesc>Andaman and Nicobar Islands</areaDesc>
+      <circle>11.62,92.73 300</circle>
+    </area>
+  </info>
+</alert>`
+}
+
+// Coast Guard notice of a live-firing exercise closing a sea area off Goa
+export function coastGuardNavigationWarning(sent: number) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<alert xmlns="${CAP_NS}">
+  <identifier>ICG-NAVAREA-2025-311</identifier>
+  <sender>indiancoastguard.gov.in</sender>
+  <sent>${iso(sent)}</sent>
+  <status>Actual</status>
+  <msgType>Alert</msgType>
+  <scope>Public</scope>
+  <info>
+    <language>en-IN</language>
+    <category>Safety Transport</category>
+    <event>Firing Exercise</event>
+    <urgency>Expected</urgency>
+    <severity>Severe</severity>
+    <certainty>Observed</certainty>
+    <effective>${iso(sent + 2 * HOUR_MS)}</effective>
+    <expires>${iso(sent + 14 * HOUR_MS)}</expires>
+    <senderName>Coast Guard District Headquarters, Goa</senderName>
+    <headline>Sea area off Mormugao closed for live firing</headline>
+    <description>Live firing exercise in the sea area west of Mormugao from 0600 to 1800 hrs.</description>
+    <instruction>Fishing boats and all vessels are to keep clear of the area.</instruction>
+    <area>
+      <areaDesc>West of Mormugao</areaDesc>
+      <polygon>15.30,73.35 15.55,73.35 15.55,73.62 15.30,73.62 15.30,73.35</polygon>
+    </area>
+  </info>
+</alert>`
+}
+
+// The documents a demo-mode feed serves, sent an hour before `now`
+export function capFixtureFeed(now: number): string[] {
+  const sent = now - HOUR_MS
+  return [
+    imdDepressionWarning(sent),
+    incoisHighWaveAlert(sent),
+    incoisTsunamiExercise(sent),
+    coastGuardNavigationWarning(sent),
+  ]
+}
@@ -0,0 +1,64 @@
+// International Maritime Boundary Lines (IMBL) with India's neighbours
+// Turning points follow the published boundary agreements, rounded to ~0.1'; approximate and for
+// alerting only, not for legal navigation
+
+export interface ImblLine {
+  id: string
+  name: string
+  neighbour: string // country on the far side of the line
+  indiaSide: "left" | "right" // side of the line India is on, walking from the first point to the last
+  points: { lat: number; lon: number }[]
+  source: string
+}
+
+export const IMBL_LINES: ImblLine[] = [
+  // Bay of Bengal, Palk Strait and Gulf of Mannar, north-east to south-west
+  {
+    id: "imbl_india_sri_lanka",
+    name: "India-Sri Lanka IMBL",
+    neighbour: "Sri Lanka",
+    indiaSide: "right",
+    points: [
+      { lat: 11.4433, lon: 83.3667 },
+      { lat: 11.2667, lon: 82.4067 },
+      { lat: 11.045, lon: 81.9333 },
+      { lat: 10.695, lon: 81.0417 },
+      { lat: 10.55, lon: 80.7667 },
+      { lat: 10.14, lon: 80.1583 },
+      { lat: 10.0833, lon: 80.05 },
+      { lat: 9.95, lon: 79.5833 },
+      { lat: 9.6692, lon: 79.3767 },
+      { lat: 9.3633, lon: 79.5117 },
+      { lat: 9.2167, lon: 79.5333 },
+      { lat: 9.1, lon: 79.5333 },
+      { lat: 9.0, lon: 79.5217 },
+      { lat: 8.8967, lon: 79.4883 },
+      { lat: 8.6667, lon: 79.3033 },
+      { lat: 8.62, lon: 79.2167 },
+      { lat: 8.52, lon: 79.0783 },
+      { lat: 8.37, lon: 78.9233 },
+      { lat: 8.2033, lon: 78.895 },
+      { lat: 7.5883, lon: 78.7617 },
+      { lat: 7.35, lon: 78.6467 },
+      { lat: 6.5133, lon: 78.2033 },
+      { lat: 5.8983, lon: 77.845 }
+    ],
+    source: "India-Sri Lanka maritime boundary agreements, 1974 and 1976"
+  },
+
+  // Arabian Sea, seaward from the mouth of Sir Creek
+  {
+    id: "imbl_india_pakistan",
+    name: "India-Pakistan IMBL",
+    neighbour: "Pakistan",
+    indiaSide: "left",
+    points: [
+      { lat: 23.6, lon: 68.2 },
+      { lat: 23.3, lon: 67.8 },
+      { lat: 22.9, lon: 67.3 },
+      { lat: 22.4, lon: 66.8 },
+      { lat: 21.8, lon: 66.2 }
+    ],
+    source: "Approximate; the boundary beyond Sir Creek is not agreed"
+  }
+]
@@ -2,6 +2,8 @@
 // Based on CMFRI (Central Marine Fisheries Research Institute) data
 // Real Indian marine fish species with scientifically validated behavior patterns
 
+import { SpatialIndex } from '../utils/spatialIndex';
+
 export interface ProductionFishSpecies {
   scientificName: string;
   commonName: string;
@@ -360,6 +362,15 @@ export const PRODUCTION_FISH_DATABASE: ProductionFishSpecies[] = [
   }
 ];
 
+const MAJOR_MARKETS = [
+  { name: "Versova Fish Market", code: "VER001", lat: 19.1375, lon: 72.8174 },
+  { name: "Cochin Fish Market", code: "COC001", lat: 9.9312, lon: 76.2673 },
+  { name: "Chennai Fish Market", code: "CHE001", lat: 13.0827, lon: 80.2707 },
+  { name: "Mangalore Fish Market", code: "MAN001", lat: 12.9141, lon: 74.8560 }
+];
+
+const MARKET_INDEX = SpatialIndex.fromPoints(MAJOR_MARKETS, market => market);
+
 // Production-ready market price API integration
 export class ProductionMarketPriceService {
   private baseUrl = "https://api.india-fish-market.gov.in"; // Hypothetical government API
@@ -464,15 +475,7 @@ export class ProductionMarketPriceService {
   }
   
   private findNearestMarket(location: { lat: number; lon: number }) {
-    const majorMarkets = [
-      { name: "Versova Fish Market", code: "VER001", lat: 19.1375, lon: 72.8174 },
-      { name: "Cochin Fish Market", code: "COC001", lat: 9.9312, lon: 76.2673 },
-      { name: "Chennai Fish Market", code: "CHE001", lat: 13.0827, lon: 80.2707 },
-      { name: "Mangalore Fish Market", code: "MAN001", lat: 12.9141, lon: 74.8560 }
-    ];
-    
-    // Find closest market based on haversine distance
-    return majorMarkets[0]; // Simplified for now
+    return MARKET_INDEX.nearest(location, 1)[0]?.item ?? MAJOR_MARKETS[0];
   }
   
   private getFallbackPrices() {
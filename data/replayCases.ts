@@ -0,0 +1,79 @@
+// Recorded-track regression cases for the boundary alert pipeline (run by utils/ReplayRegressionTester.ts)
+// Each track is written out as GPX, one fix a minute, so it goes through the same parser as an exported track
+
+import { haversineKm } from "../utils/geo"
+import type { ReplayCase } from "../utils/ReplayRegressionTester"
+
+type Waypoint = [number, number] // lat, lon
+
+const FIX_INTERVAL_MS = 60 * 1000
+
+// A boat steering straight from waypoint to waypoint at a steady speed
+function gpxTrack(name: string, start: string, waypoints: Waypoint[], knots = 8): string {
+  const stepKm = (knots * 1.852 * FIX_INTERVAL_MS) / 3600000
+  const points: Waypoint[] = []
+  for (let i = 0; i < waypoints.length - 1; i++) {
+    const [a, b] = [waypoints[i], waypoints[i + 1]]
+    const steps = Math.max(1, Math.round(haversineKm({ lat: a[0], lon: a[1] }, { lat: b[0], lon: b[1] }) / stepKm))
+    for (let s = 0; s < steps; s++) {
+      points.push([a[0] + ((b[0] - a[0]) * s) / steps, a[1] + ((b[1] - a[1]) * s) / steps])
+    }
+  }
+  points.push(waypoints[waypoints.length - 1])
+
+  const startMs = Date.parse(start)
+  const trkpts = points.map(
+    ([lat, lon], i) =>
+      `<trkpt lat="${lat.toFixed(5)}" lon="${lon.toFixed(5)}">` +
+      `<time>${new Date(startMs + i * FIX_INTERVAL_MS).toISOString()}</time><hdop>1.0</hdop></trkpt>`
+  )
+  return `<?xml version="1.0"?><gpx version="1.1"><trk><name>${name}</name><trkseg>${trkpts.join("")}</trkseg></trk></gpx>`
+}
+
+export const REPLAY_CASES: ReplayCase[] = [
+  {
+    id: "palk_strait_crossing",
+    description: "Out of Rameswaram across the India-Sri Lanka IMBL: every IMBL stage up to emergency contacts",
+    fileName: "palk_strait_crossing.gpx",
+    track: gpxTrack("Palk Strait crossing", "2025-03-01T02:00:00Z", [
+      [9.3, 79.28],
+      [9.5, 79.47],
+    ]),
+    expected: [
+      { zoneId: "imbl_india_sri_lanka", type: "imbl", stage: "warning" },
+      { zoneId: "imbl_india_sri_lanka", type: "imbl", stage: "siren" },
+      { zoneId: "imbl_india_sri_lanka", type: "imbl", stage: "contacts" },
+      { zoneId: "indo_lanka_boundary" },
+    ],
+  },
+  {
+    id: "palk_strait_turn_back",
+    description: "Turns back about 6 km short of the IMBL: a warning, never the siren or contacts",
+    fileName: "palk_strait_turn_back.gpx",
+    track: gpxTrack("Palk Strait turn back", "2025-03-01T02:00:00Z", [
+      [9.38, 79.355],
+      [9.44, 79.413],
+      [9.38, 79.355],
+    ]),
+    expected: [
+      { zoneId: "imbl_india_sri_lanka", type: "imbl", stage: "warning" },
+      { zoneId: "indo_lanka_boundary" },
+    ],
+    forbidden: [
+      { zoneId: "imbl_india_sri_lanka", stage: "siren" },
+      { zoneId: "imbl_india_sri_lanka", stage: "contacts" },
+      { zoneId: "indo_lanka_boundary", type: "violation" },
+    ],
+  },
+  {
+    id: "gulf_of_mannar_clear",
+    description: "Fishing well clear of every zone and the IMBL: no alert at all",
+    fileName: "gulf_of_mannar_clear.gpx",
+    track: gpxTrack("Gulf of Mannar", "2025-03-01T02:00:00Z", [
+      [9.05, 78.95],
+      [9.1, 79.1],
+      [9.05, 78.95],
+    ]),
+    expected: [],
+  },
+]
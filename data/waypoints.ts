@@ -0,0 +1,74 @@
+// Named marks offered in the trip planner's waypoint picker
+
+export type Waypoint = {
+  id: string
+  lat: number
+  lon: number
+  label: string
+  region: string
+}
+
+export const PREDEFINED_WAYPOINTS: Waypoint[] = [
+  // Mumbai Coast
+  { id: 'mumbai_harbor', lat: 19.0760, lon: 72.8777, label: 'Mumbai Harbor', region: 'Mumbai' },
+  { id: 'gateway_india', lat: 19.0656, lon: 72.8738, label: 'Gateway of India', region: 'Mumbai' },
+  { id: 'marine_drive', lat: 18.9437, lon: 72.8235, label: 'Marine Drive Coast', region: 'Mumbai' },
+  { id: 'elephanta_caves', lat: 18.9633, lon: 72.9314, label: 'Elephanta Island', region: 'Mumbai' },
+  { id: 'alibaug_coast', lat: 18.6414, lon: 72.8722, label: 'Alibaug Coast', region: 'Mumbai' },
+  { id: 'juhu_beach', lat: 19.1075, lon: 72.8263, label: 'Juhu Beach', region: 'Mumbai' },
+  { id: 'versova_beach', lat: 19.1336, lon: 72.8147, label: 'Versova Beach', region: 'Mumbai' },
+  { id: 'worli_coast', lat: 19.0176, lon: 72.8170, label: 'Worli Coast', region: 'Mumbai' },
+  
+  // Konkan Coast
+  { id: 'ratnagiri_port', lat: 16.9944, lon: 73.3011, label: 'Ratnagiri Port', region: 'Konkan' },
+  { id: 'malvan_coast', lat: 16.0660, lon: 73.4692, label: 'Malvan Coast', region: 'Konkan' },
+  { id: 'vengurla_rocks', lat: 15.8644, lon: 73.6311, label: 'Vengurla Rocks', region: 'Konkan' },
+  { id: 'sindhudurg_fort', lat: 16.0660, lon: 73.4692, label: 'Sindhudurg Fort', region: 'Konkan' },
+  { id: 'dapoli_coast', lat: 17.7644, lon: 73.1833, label: 'Dapoli Coast', region: 'Konkan' },
+  { id: 'harihareshwar', lat: 18.0161, lon: 73.0097, label: 'Harihareshwar Beach', region: 'Konkan' },
+  
+  // Goa Waters
+  { id: 'panaji_harbor', lat: 15.4909, lon: 73.8278, label: 'Panaji Harbor', region: 'Goa' },
+  { id: 'baga_beach', lat: 15.5557, lon: 73.7515, label: 'Baga Beach', region: 'Goa' },
+  { id: 'calangute_beach', lat: 15.5394, lon: 73.7546, label: 'Calangute Beach', region: 'Goa' },
+  { id: 'dona_paula', lat: 15.4553, lon: 73.8063, label: 'Dona Paula', region: 'Goa' },
+  { id: 'mormugao_port', lat: 15.4000, lon: 73.8069, label: 'Mormugao Port', region: 'Goa' },
+  
+  // Popular Fishing Zones
+  { id: 'deep_water_zone_1', lat: 19.1200, lon: 72.9200, label: 'Deep Water Zone 1', region: 'Fishing Zones' },
+  { id: 'deep_water_zone_2', lat: 19.1500, lon: 72.9500, label: 'Deep Water Zone 2', region: 'Fishing Zones' },
+  { id: 'deep_water_zone_3', lat: 18.8500, lon: 72.9800, label: 'Deep Water Zone 3', region: 'Fishing Zones' },
+  { id: 'pomfret_beds', lat: 19.0900, lon: 72.9100, label: 'Pomfret Beds', region: 'Fishing Zones' },
+  { id: 'prawn_beds', lat: 18.9800, lon: 72.9000, label: 'Prawn Beds', region: 'Fishing Zones' },
+  { id: 'kingfish_zone', lat: 19.1800, lon: 72.9800, label: 'Kingfish Zone', region: 'Fishing Zones' },
+  { id: 'tuna_grounds', lat: 19.2500, lon: 73.0500, label: 'Tuna Grounds', region: 'Fishing Zones' },
+  { id: 'mackerel_zone', lat: 18.7500, lon: 72.8800, label: 'Mackerel Zone', region: 'Fishing Zones' },
+  { id: 'sardine_beds', lat: 18.6800, lon: 72.8500, label: 'Sardine Beds', region: 'Fishing Zones' },
+  { id: 'reef_fishing_1', lat: 19.0500, lon: 73.0200, label: 'Reef Fishing Area 1', region: 'Fishing Zones' },
+  { id: 'reef_fishing_2', lat: 18.9200, lon: 73.0100, label: 'Reef Fishing Area 2', region: 'Fishing Zones' },
+  
+  // Karnataka Coast
+  { id: 'mangalore_port', lat: 12.8644, lon: 74.8419, label: 'Mangalore Port', region: 'Karnataka' },
+  { id: 'udupi_coast', lat: 13.3409, lon: 74.7421, label: 'Udupi Coast', region: 'Karnataka' },
+  { id: 'karwar_bay', lat: 14.8167, lon: 74.1167, label: 'Karwar Bay', region: 'Karnataka' },
+  { id: 'honavar_port', lat: 14.2833, lon: 74.4500, label: 'Honavar Port', region: 'Karnataka' },
+  
+  // Kerala Waters
+  { id: 'kochi_harbor', lat: 9.9312, lon: 76.2673, label: 'Kochi Harbor', region: 'Kerala' },
+  { id: 'alleppey_backwaters', lat: 9.4981, lon: 76.3388, label: 'Alleppey Coast', region: 'Kerala' },
+  { id: 'trivandrum_coast', lat: 8.5241, lon: 76.9366, label: 'Trivandrum Coast', region: 'Kerala' },
+  { id: 'kollam_port', lat: 8.8932, lon: 76.6141, label: 'Kollam Port', region: 'Kerala' },
+  
+  // Safety & Emergency Points
+  { id: 'coast_guard', lat: 19.0729, lon: 72.8826, label: 'Coast Guard Station', region: 'Emergency' },
+  { id: 'emergency_dock', lat: 19.0567, lon: 72.8697, label: 'Emergency Dock', region: 'Emergency' },
+  { id: 'rescue_station_1', lat: 18.9200, lon: 72.8300, label: 'Rescue Station 1', region: 'Emergency' },
+  { id: 'rescue_station_2', lat: 19.1800, lon: 72.9500, label: 'Rescue Station 2', region: 'Emergency' },
+  
+  // Services & Facilities
+  { id: 'fuel_station', lat: 19.0689, lon: 72.8789, label: 'Marine Fuel Station', region: 'Services' },
+  { id: 'repair_yard', lat: 19.0456, lon: 72.8656, label: 'Boat Repair Yard', region: 'Services' },
+  { id: 'fish_market_1', lat: 19.0422, lon: 72.8347, label: 'Sassoon Dock Fish Market', region: 'Services' },
+  { id: 'marine_supplies', lat: 19.0689, lon: 72.8789, label: 'Marine Supplies Store', region: 'Services' },
+  { id: 'weather_station', lat: 19.0760, lon: 72.8777, label: 'Weather Monitoring Station', region: 'Services' },
+]
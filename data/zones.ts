@@ -10,6 +10,8 @@ export interface Zone extends ZonePolygon {
   restrictions?: string
   season?: "all_year" | "seasonal" | "banned"
   description?: string
+  holes?: { lat: number; lon: number }[][] // islands or areas cut out of the zone
+  closures?: { start: string; end: string; reason: string }[] // annual "MM-DD" ranges, e.g. from an imported file
 }
 
 export const ZONES: Zone[] = [
@@ -162,23 +164,27 @@ export const getFishingGrounds = (): Zone[] => {
   return ZONES.filter(zone => zone.kind === "safe")
 }
 
+// Annual closures ("MM-DD") for seasonal zones
+export const getSeasonalClosures = (zone: Zone): { start: string; end: string; reason: string }[] => {
+  if (zone.season !== "seasonal") return []
+  if (zone.closures) return zone.closures
+  if (zone.id.includes("goa") || zone.id.includes("mangalore")) {
+    return [{ start: "06-01", end: "07-31", reason: "West coast monsoon ban" }]
+  }
+  if (zone.id.includes("chennai") || zone.id.includes("vizag")) {
+    return [{ start: "04-01", end: "06-30", reason: "East coast breeding season" }]
+  }
+  return []
+}
+
 // Check if fishing is allowed in current season
 export const isFishingAllowed = (zone: Zone, currentDate: Date = new Date()): boolean => {
-  const currentMonth = currentDate.getMonth() + 1 // 1-12
-  
   if (zone.season === "banned" || zone.kind === "restricted") {
     return false
   }
-  
-  if (zone.season === "seasonal") {
-    // Check monsoon restrictions
-    if (zone.id.includes("goa") || zone.id.includes("mangalore")) {
-      return currentMonth < 6 || currentMonth > 7 // West coast monsoon
-    }
-    if (zone.id.includes("chennai") || zone.id.includes("vizag")) {
-      return currentMonth < 4 || currentMonth > 6 // East coast restrictions
-    }
-  }
-  
-  return true
+
+  const today = `${String(currentDate.getMonth() + 1).padStart(2, "0")}-${String(currentDate.getDate()).padStart(2, "0")}`
+  return !getSeasonalClosures(zone).some(({ start, end }) =>
+    start <= end ? today >= start && today <= end : today >= start || today <= end
+  )
 }
@@ -1,3 +1,5 @@
 import { registerRootComponent } from "expo"
+// Defines the background location task before anything else, for headless starts by the OS
+import "./services/backgroundMonitoring"
 import App from "./App"
 registerRootComponent(App)
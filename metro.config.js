@@ -5,6 +5,9 @@ const config = getDefaultConfig(__dirname);
 // Enable web platform
 config.resolver.platforms = ['ios', 'android', 'native', 'web'];
 
+// CAP warning fixtures (data/cap) are bundled as assets
+config.resolver.assetExts.push('xml');
+
 // Configure web aliases for better compatibility
 config.resolver.alias = {
   'react-native': 'react-native-web',
@@ -1,12 +1,14 @@
 import React, { useEffect, useState } from "react"
-import { View, Text, StyleSheet, FlatList, TouchableOpacity, RefreshControl } from "react-native"
+import { View, Text, StyleSheet, SectionList, TouchableOpacity, RefreshControl } from "react-native"
 import { Button, Card, SectionTitle, Badge } from "../components/ui"
-import { alertStorage, StoredAlert } from "../services/alertStorage"
+import { alertStorage } from "../services/alertStorage"
+import { groupAlerts } from "../utils/alerts"
+import type { AlertEscalation, AlertItem } from "../types"
 import { theme } from "../theme/colors"
 import { Ionicons } from "@expo/vector-icons"
 
 export default function AlertsScreen() {
-  const [alerts, setAlerts] = useState<StoredAlert[]>([])
+  const [alerts, setAlerts] = useState<AlertItem[]>([])
   const [loading, setLoading] = useState(false)
   const [filter, setFilter] = useState<'all' | 'unread' | 'demo' | 'real'>('all')
 
@@ -14,7 +16,7 @@ export default function AlertsScreen() {
     setLoading(true)
     try {
       // Get alerts based on current filter
-      let filteredAlerts: StoredAlert[];
+      let filteredAlerts: AlertItem[];
       switch (filter) {
         case 'unread':
           filteredAlerts = alertStorage.getAlerts({ isRead: false });
@@ -68,6 +70,7 @@ export default function AlertsScreen() {
       weather: 'cloud-circle',
       fishing: 'fish',
       regulatory: 'document-text',
+      seasonal_ban: 'calendar',
       demo: 'play-circle'
     };
     return icons[type] || 'information-circle';
@@ -94,9 +97,23 @@ export default function AlertsScreen() {
     }
   }
 
+  const describeEscalation = (escalation: AlertEscalation) => {
+    const time = new Date(escalation.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    switch (escalation.step) {
+      case 'loud': return `${time} • Re-alerted with alarm sound`;
+      case 'vibration': return `${time} • Re-alerted with vibration`;
+      case 'contact':
+        if (escalation.error) return `${time} • Contact not reached: ${escalation.error}`;
+        return escalation.contact?.channel === 'sms'
+          ? `${time} • SMS sent to ${escalation.contact.name}`
+          : `${time} • Prompted to call ${escalation.contact?.name}`;
+    }
+  }
+
   const stats = alertStorage.getStatistics();
+  const sections = groupAlerts(alerts);
 
-  const renderAlert = ({ item }: { item: StoredAlert }) => (
+  const renderAlert = ({ item }: { item: AlertItem }) => (
     <Card style={!item.isRead ? {...styles.alertCard, ...styles.unreadCard} : styles.alertCard}>
       <View style={styles.alertHeader}>
         <View style={styles.alertTitleRow}>
@@ -128,6 +145,32 @@ export default function AlertsScreen() {
           📍 {item.location.latitude.toFixed(4)}, {item.location.longitude.toFixed(4)}
         </Text>
       )}
+
+      {item.areas?.length || item.expiresAt ? (
+        <Text style={styles.locationText}>
+          {item.areas?.some(area => area.label) ? `🗺️ ${item.areas.map(area => area.label).filter(Boolean).join(', ')} ` : null}
+          {item.expiresAt ? `⏳ Until ${new Date(item.expiresAt).toLocaleString()}` : null}
+        </Text>
+      ) : null}
+
+      {item.history?.length ? (
+        <View style={styles.historyContainer}>
+          <Text style={styles.historyText}>
+            🧵 Updated {item.history.length} {item.history.length === 1 ? 'time' : 'times'}
+          </Text>
+          {item.history.slice(-3).reverse().map((revision, index) => (
+            <Text key={index} style={styles.historyText}>
+              ↳ {new Date(revision.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} • {revision.title} ({revision.priority})
+            </Text>
+          ))}
+        </View>
+      ) : null}
+
+      {item.escalations?.map((escalation, index) => (
+        <Text key={index} style={styles.escalationText}>
+          📣 {describeEscalation(escalation)}
+        </Text>
+      ))}
       
       {!item.isRead && (
         <TouchableOpacity 
@@ -186,10 +229,16 @@ export default function AlertsScreen() {
         />
       </View>
       
-      <FlatList
-        data={alerts}
+      <SectionList
+        sections={sections}
         keyExtractor={(item) => item.id}
         renderItem={renderAlert}
+        renderSectionHeader={({ section }) => (
+          <Text style={styles.sectionHeader}>
+            {section.title} ({section.data.length})
+          </Text>
+        )}
+        stickySectionHeadersEnabled={false}
         ListEmptyComponent={
           <View style={styles.emptyContainer}>
             <Text style={styles.emptyText}>No alerts to display</Text>
@@ -261,6 +310,14 @@ const styles = StyleSheet.create({
     flex: 1,
   },
   
+  sectionHeader: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#475569',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  
   alertCard: {
     marginBottom: 12,
     borderLeftWidth: 4,
@@ -317,6 +374,19 @@ const styles = StyleSheet.create({
     fontStyle: 'italic',
     marginBottom: 8,
   },
+  historyContainer: {
+    marginBottom: 6,
+  },
+  historyText: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginBottom: 2,
+  },
+  escalationText: {
+    fontSize: 12,
+    color: '#dc2626',
+    marginBottom: 4,
+  },
   
   markReadButton: {
     alignSelf: 'flex-start',
@@ -15,10 +15,11 @@ import {
   Platform,
 } from 'react-native'
 import { Ionicons } from '@expo/vector-icons'
-import AsyncStorage from '@react-native-async-storage/async-storage'
-import { collection, addDoc, serverTimestamp, query, where, getDocs } from 'firebase/firestore'
-import { db } from '../services/firebase'
 import { authService } from '../services/auth'
+import { Storage } from '../services/storage'
+import { syncEngine } from '../services/syncEngine'
+import { checkConnectivity } from '../utils/networkState'
+import type { CatchLog } from '../types'
 import { theme, palette } from '../theme/colors'
 import { 
   EnhancedCard, 
@@ -32,6 +33,10 @@ import { FishIdentificationResult } from '../services/fishRecognition'
 
 const { width, height } = Dimensions.get('window')
 
+// History is read from the catch store a page at a time; the summary covers a fixed recent window
+const HISTORY_PAGE_SIZE = 30
+const SUMMARY_WINDOW_MS = 30 * 24 * 60 * 60 * 1000
+
 // Comprehensive list of fish species commonly found in Indian waters
 const getFishSpecies = (t: any) => [
   // Popular Marine Fish
@@ -57,20 +62,6 @@ const getFishSpecies = (t: any) => [
   { id: 'anchovy', name: t('fish_species.anchovy'), category: 'Marine', emoji: '🐟' },
 ]
 
-interface CatchEntry {
-  id: string
-  fishSpecies: string
-  weight: number
-  quantity: number
-  timestamp: number
-  location?: {
-    latitude: number
-    longitude: number
-  }
-  status: 'synced' | 'pending'
-  userId?: string
-}
-
 interface LogbookScreenProps {
   navigation?: any
 }
@@ -86,8 +77,11 @@ const LogbookScreen: React.FC<LogbookScreenProps> = ({ navigation }) => {
   const [selectedFish, setSelectedFish] = useState<typeof FISH_SPECIES[0] | null>(null)
   const [weight, setWeight] = useState(0)
   const [quantity, setQuantity] = useState(1)
-  const [catchHistory, setCatchHistory] = useState<CatchEntry[]>([])
-  const [isOnline, setIsOnline] = useState(true) // Mock as always online for demo
+  const [catchHistory, setCatchHistory] = useState<CatchLog[]>([])
+  const [hasMoreHistory, setHasMoreHistory] = useState(false)
+  const [recentCatches, setRecentCatches] = useState<CatchLog[]>([])
+  const [pendingCount, setPendingCount] = useState(0)
+  const [isOnline, setIsOnline] = useState(true)
   const [loading, setLoading] = useState(false)
   const [showSpeciesModal, setShowSpeciesModal] = useState(false)
   const [showHistory, setShowHistory] = useState(false)
@@ -98,6 +92,7 @@ const LogbookScreen: React.FC<LogbookScreenProps> = ({ navigation }) => {
   const fadeAnim = useRef(new Animated.Value(0)).current
   const slideAnim = useRef(new Animated.Value(height)).current
   const weightAnim = useRef(new Animated.Value(0)).current
+  const loadingMoreRef = useRef(false)
 
   useEffect(() => {
     initializeScreen()
@@ -111,8 +106,13 @@ const LogbookScreen: React.FC<LogbookScreenProps> = ({ navigation }) => {
         syncPendingEntries()
       }
     })
+    // Background sync runs mark catches synced or failed
+    const unsubscribeSync = syncEngine.addListener(() => loadCatchHistory())
     
-    return () => unsubscribe()
+    return () => {
+      unsubscribe()
+      unsubscribeSync()
+    }
   }, [])
 
   const initializeScreen = () => {
@@ -134,119 +134,69 @@ const LogbookScreen: React.FC<LogbookScreenProps> = ({ navigation }) => {
     ]).start()
   }
 
-  const checkNetworkStatus = () => {
-    // Simple network status simulation
-    // In production, replace this with @react-native-community/netinfo
-    setIsOnline(true) // Mock as always online for demo
+  const checkNetworkStatus = async () => {
+    const online = await checkConnectivity()
+    setIsOnline(online)
     
-    if (true) { // Always try to sync in demo
+    if (online) {
       syncPendingEntries()
     }
   }
 
   const loadCatchHistory = async () => {
     try {
-      const currentUser = authService.getCurrentUser()
-      
-      if (currentUser) {
-        // Load from Firebase Firestore (primary source)
-        try {
-          const catchesQuery = query(
-            collection(db, 'catches'),
-            where('userId', '==', currentUser.uid)
-          )
-          
-          const catchesSnapshot = await getDocs(catchesQuery)
-          const firebaseCatches = catchesSnapshot.docs.map(doc => ({
-            id: doc.id,
-            ...doc.data(),
-            status: 'synced' // Firebase entries are always synced
-          })) as CatchEntry[]
-          
-          // Sort by timestamp (newest first)
-          firebaseCatches.sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0))
-          
-          // Set Firebase catches as the primary source
-          setCatchHistory(firebaseCatches)
-          
-          // Also update local storage with Firebase data for offline access
-          await AsyncStorage.setItem('catch_history', JSON.stringify(firebaseCatches))
-          
-        } catch (firebaseError) {
-          console.error('Error loading from Firebase:', firebaseError)
-          
-          // Fallback to local storage if Firebase fails
-          const stored = await AsyncStorage.getItem('catch_history')
-          if (stored) {
-            const localCatches = JSON.parse(stored)
-            setCatchHistory(localCatches)
-          }
-        }
-      } else {
-        // User not logged in, load from local storage only
-        const stored = await AsyncStorage.getItem('catch_history')
-        if (stored) {
-          const localCatches = JSON.parse(stored)
-          setCatchHistory(localCatches)
-        }
-      }
+      const [firstPage, recent, queue] = await Promise.all([
+        Storage.queryCatches({ limit: HISTORY_PAGE_SIZE }),
+        Storage.queryCatches({ from: Date.now() - SUMMARY_WINDOW_MS }),
+        Storage.getSyncQueue(),
+      ])
+      setCatchHistory(firstPage)
+      setHasMoreHistory(firstPage.length === HISTORY_PAGE_SIZE)
+      setRecentCatches(recent)
+      setPendingCount(queue.filter(entry => entry.kind === 'catch' && entry.op === 'upsert').length)
     } catch (error) {
       console.error('Error loading catch history:', error)
     }
   }
 
+  const loadMoreHistory = async () => {
+    if (!hasMoreHistory || loadingMoreRef.current) return
+    loadingMoreRef.current = true
+    try {
+      const page = await Storage.queryCatches({ limit: HISTORY_PAGE_SIZE, offset: catchHistory.length })
+      setCatchHistory(current => [...current, ...page])
+      setHasMoreHistory(page.length === HISTORY_PAGE_SIZE)
+    } catch (error) {
+      console.error('Error loading more catch history:', error)
+    } finally {
+      loadingMoreRef.current = false
+    }
+  }
+
   const openHistoryModal = async () => {
     setShowHistory(true)
     // Refresh catch history when modal opens to ensure latest data
     await loadCatchHistory()
   }
 
-  const saveCatchLocally = async (catchEntry: CatchEntry) => {
+  // Saved catches are queued for the sync engine, which pushes them once the boat is back online
+  const saveCatchLocally = async (catchLog: CatchLog) => {
     try {
-      const updatedHistory = [catchEntry, ...catchHistory]
-      setCatchHistory(updatedHistory)
-      await AsyncStorage.setItem('catch_history', JSON.stringify(updatedHistory))
+      await Storage.saveCatches([catchLog, ...(await Storage.getCatches())])
+      await loadCatchHistory()
     } catch (error) {
       console.error('Error saving locally:', error)
-    }
-  }
-
-  const syncToFirestore = async (catchEntry: CatchEntry) => {
-    try {
-      if (!currentUser) throw new Error('User not authenticated')
-      
-      const docRef = await addDoc(collection(db, 'catches'), {
-        ...catchEntry,
-        userId: currentUser.uid,
-        timestamp: serverTimestamp(),
-        syncedAt: serverTimestamp(),
-      })
-      
-      // Update local entry as synced
-      const updatedHistory = catchHistory.map(entry =>
-        entry.id === catchEntry.id ? { ...entry, status: 'synced' as const } : entry
-      )
-      setCatchHistory(updatedHistory)
-      await AsyncStorage.setItem('catch_history', JSON.stringify(updatedHistory))
-      
-      console.log('Catch synced to Firestore:', docRef.id)
-    } catch (error) {
-      console.error('Error syncing to Firestore:', error)
       throw error
     }
   }
 
   const syncPendingEntries = async () => {
-    if (!isOnline || !currentUser) return
-    
-    const pendingEntries = catchHistory.filter(entry => entry.status === 'pending')
+    if (!authService.getCurrentUser()) return
     
-    for (const entry of pendingEntries) {
-      try {
-        await syncToFirestore(entry)
-      } catch (error) {
-        console.error('Failed to sync entry:', entry.id, error)
-      }
+    try {
+      await syncEngine.syncNow()
+    } catch (error) {
+      console.error('Failed to sync catches:', error)
     }
   }
 
@@ -259,29 +209,29 @@ const LogbookScreen: React.FC<LogbookScreenProps> = ({ navigation }) => {
     setLoading(true)
 
     try {
-      const catchEntry: CatchEntry = {
+      const catchLog: CatchLog = {
         id: Date.now().toString(),
-        fishSpecies: selectedFish.name,
-        weight,
+        species: selectedFish.name,
+        weightKg: weight, // per piece, as entered
         quantity,
         timestamp: Date.now(),
-        status: isOnline ? 'synced' : 'pending',
-        userId: currentUser?.uid,
+        syncStatus: 'pending',
       }
 
       // Save locally first
-      await saveCatchLocally(catchEntry)
+      await saveCatchLocally(catchLog)
 
       // Try to sync online if connected
       if (isOnline && currentUser) {
-        try {
-          await syncToFirestore(catchEntry)
+        await syncPendingEntries()
+        const saved = (await Storage.getCatches()).find(c => c.id === catchLog.id)
+        if (saved?.syncStatus === 'synced') {
           Alert.alert(
             '🎣 Catch Logged!',
             `${quantity}x ${selectedFish.name} (${weight}kg) saved successfully!`,
             [{ text: 'Great!', style: 'default' }]
           )
-        } catch (error) {
+        } else {
           Alert.alert(
             '📱 Saved Offline',
             'Catch saved locally. Will sync when connection is restored.',
@@ -448,20 +398,20 @@ const LogbookScreen: React.FC<LogbookScreenProps> = ({ navigation }) => {
           {/* Statistics Summary */}
           <View style={styles.historySummary}>
             <View style={styles.historySummaryCard}>
-              <Text style={styles.summaryNumber}>{catchHistory.length}</Text>
-              <Text style={styles.historySummaryLabel}>Total Catches</Text>
+              <Text style={styles.summaryNumber}>{recentCatches.length}</Text>
+              <Text style={styles.historySummaryLabel}>Catches (30 days)</Text>
             </View>
             <View style={styles.historySummaryCard}>
               <Text style={styles.summaryNumber}>
-                {catchHistory.reduce((sum, catch_) => sum + (catch_.weight * catch_.quantity), 0).toFixed(1)}kg
+                {recentCatches.reduce((sum, catch_) => sum + (catch_.weightKg ?? 0) * (catch_.quantity ?? 1), 0).toFixed(1)}kg
               </Text>
-              <Text style={styles.historySummaryLabel}>Total Weight</Text>
+              <Text style={styles.historySummaryLabel}>Weight (30 days)</Text>
             </View>
             <View style={styles.historySummaryCard}>
               <Text style={styles.summaryNumber}>
-                {new Set(catchHistory.map(catch_ => new Date(catch_.timestamp).toDateString())).size}
+                {new Set(recentCatches.map(catch_ => new Date(catch_.timestamp).toDateString())).size}
               </Text>
-              <Text style={styles.historySummaryLabel}>Fishing Days</Text>
+              <Text style={styles.historySummaryLabel}>Fishing Days (30 days)</Text>
             </View>
           </View>
           
@@ -475,6 +425,8 @@ const LogbookScreen: React.FC<LogbookScreenProps> = ({ navigation }) => {
             <FlatList
               data={catchHistory}
               keyExtractor={item => item.id}
+              onEndReached={loadMoreHistory}
+              onEndReachedThreshold={0.5}
               showsVerticalScrollIndicator={false}
               nestedScrollEnabled={true}
               contentContainerStyle={styles.historyList}
@@ -482,13 +434,13 @@ const LogbookScreen: React.FC<LogbookScreenProps> = ({ navigation }) => {
                 <View style={styles.enhancedHistoryItem}>
                   <View style={styles.historyIconContainer}>
                     <Text style={styles.historyEmoji}>
-                      {FISH_SPECIES.find(fish => fish.name === item.fishSpecies)?.emoji || '🐟'}
+                      {FISH_SPECIES.find(fish => fish.name === item.species)?.emoji || '🐟'}
                     </Text>
                   </View>
                   
                   <View style={styles.historyContentContainer}>
                     <View style={styles.historyMainInfo}>
-                      <Text style={styles.enhancedHistoryFishName}>{item.fishSpecies}</Text>
+                      <Text style={styles.enhancedHistoryFishName}>{item.species}</Text>
                       <Text style={styles.enhancedHistoryDate}>
                         {new Date(item.timestamp).toLocaleDateString('en-IN', {
                           day: '2-digit',
@@ -503,23 +455,23 @@ const LogbookScreen: React.FC<LogbookScreenProps> = ({ navigation }) => {
                     <View style={styles.historyMetrics}>
                       <View style={styles.metricItem}>
                         <Ionicons name="barbell" size={16} color={theme.primary} />
-                        <Text style={styles.metricValue}>{item.weight.toFixed(1)} kg each</Text>
+                        <Text style={styles.metricValue}>{(item.weightKg ?? 0).toFixed(1)} kg each</Text>
                       </View>
                       <View style={styles.metricItem}>
                         <Ionicons name="fish" size={16} color={theme.success} />
-                        <Text style={styles.metricValue}>{item.quantity} pieces</Text>
+                        <Text style={styles.metricValue}>{item.quantity ?? 1} pieces</Text>
                       </View>
                       <View style={styles.metricItem}>
                         <Ionicons name="calculator" size={16} color={theme.info} />
-                        <Text style={styles.metricTotal}>{(item.weight * item.quantity).toFixed(1)} kg total</Text>
+                        <Text style={styles.metricTotal}>{((item.weightKg ?? 0) * (item.quantity ?? 1)).toFixed(1)} kg total</Text>
                       </View>
                     </View>
                   </View>
                   
                   <View style={styles.historyStatusContainer}>
                     <ProfessionalBadge 
-                      label={item.status === 'synced' ? 'Synced' : 'Pending'} 
-                      variant={item.status === 'synced' ? 'success' : 'warning'} 
+                      label={item.syncStatus === 'synced' ? 'Synced' : item.syncStatus === 'failed' ? 'Failed' : 'Pending'} 
+                      variant={item.syncStatus === 'synced' ? 'success' : item.syncStatus === 'failed' ? 'danger' : 'warning'} 
                       size="small"
                     />
                   </View>
@@ -588,8 +540,6 @@ const LogbookScreen: React.FC<LogbookScreenProps> = ({ navigation }) => {
     </EnhancedCard>
   )
 
-  const pendingCount = catchHistory.filter(entry => entry.status === 'pending').length
-
   return (
     <Animated.View style={[styles.container, { opacity: fadeAnim }]}>
       <LoadingOverlay visible={loading} />
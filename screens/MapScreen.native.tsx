@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from "react"
+import React, { useState, useEffect, useRef, useCallback, useMemo } from "react"
 import { 
   View, 
   Text, 
@@ -14,7 +14,7 @@ import {
 import { Ionicons } from "@expo/vector-icons"
 import { useTranslation } from "react-i18next"
 import * as Location from "expo-location"
-import MapView, { Marker, Polygon, Polyline, UrlTile } from "react-native-maps"
+import MapView, { Marker, Polygon, Polyline, Region, UrlTile } from "react-native-maps"
 
 import { theme } from "../theme/colors"
 import { 
@@ -24,9 +24,18 @@ import {
   LoadingOverlay 
 } from "../components/modernUI"
 import SOSButton from "../components/SOSButton"
+import { zoneRegistry } from "../services/zoneRegistry"
+import { Storage } from "../services/storage"
+import type { BoundaryViolation, GPSTrackingData } from "../services/maritimeBoundary"
+import { SpatialIndex } from "../utils/spatialIndex"
 
 const { width, height } = Dimensions.get('window')
 
+// The own-track layer shows the last day of fixes inside the visible region, newest kept when capped
+const TRACK_WINDOW_MS = 24 * 60 * 60 * 1000
+const TRACK_POINT_LIMIT = 2000
+const TRACK_VIOLATION_LIMIT = 100
+
 // Mock PFZ Lines - Realistic ocean-based potential fishing zones
 const mockPFZLines = [
   // Mumbai Coast PFZ Lines
@@ -198,6 +207,8 @@ interface LayerToggleState {
   indiaBoundary: boolean
   landingCentres: boolean
   sst: boolean
+  regulatoryZones: boolean
+  track: boolean
 }
 
 export default function MapScreen() {
@@ -218,8 +229,12 @@ export default function MapScreen() {
     bathymetry: false,
     indiaBoundary: true,
     landingCentres: false,
-    sst: false
+    sst: false,
+    regulatoryZones: true,
+    track: true
   })
+  const [track, setTrack] = useState<GPSTrackingData[]>([])
+  const [trackViolations, setTrackViolations] = useState<BoundaryViolation[]>([])
 
   const mapRef = useRef<MapView>(null)
   const fadeAnim = useRef(new Animated.Value(0)).current
@@ -236,6 +251,7 @@ export default function MapScreen() {
   useEffect(() => {
     getCurrentLocation()
     loadWFSData()
+    loadTrack(initialRegion)
     
     // Fade in animation
     Animated.timing(fadeAnim, {
@@ -720,29 +736,28 @@ export default function MapScreen() {
     }).start()
   }
 
+  // Built once per loaded set, so the nearest of the 1000+ centres is found without measuring to each
+  const landingCentreIndex = useMemo(
+    () =>
+      SpatialIndex.fromPoints(
+        landingCentresData.filter(centre => centre.geometry.type === 'Point'),
+        centre => {
+          const [lon, lat] = centre.geometry.coordinates as number[]
+          return { lat, lon }
+        }
+      ),
+    [landingCentresData]
+  )
+
   const findNearestLandingCentre = () => {
     if (!position || landingCentresData.length === 0) {
       Alert.alert(t('map.info'), t('map.location_data_unavailable'))
       return
     }
 
-    let nearestCentre: INCOISFeature | null = null
-    let minDistance = Infinity
-
-    landingCentresData.forEach((centre: INCOISFeature) => {
-      if (centre.geometry.type === 'Point') {
-        const [lon, lat] = centre.geometry.coordinates as number[]
-        const distance = calculateDistance(position.lat, position.lon, lat, lon)
-        
-        if (distance < minDistance) {
-          minDistance = distance
-          nearestCentre = centre
-        }
-      }
-    })
-
-    if (nearestCentre !== null) {
-      const centre = nearestCentre as INCOISFeature
+    const [nearest] = landingCentreIndex.nearest(position)
+    if (nearest) {
+      const { item: centre, distanceKm: minDistance } = nearest
       const [lon, lat] = centre.geometry.coordinates as number[]
       mapRef.current?.animateToRegion({
         latitude: lat,
@@ -759,19 +774,6 @@ export default function MapScreen() {
     }
   }
 
-  // Haversine formula for distance calculation
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371 // Earth's radius in kilometers
-    const dLat = (lat2 - lat1) * Math.PI / 180
-    const dLon = (lon2 - lon1) * Math.PI / 180
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-      Math.sin(dLon/2) * Math.sin(dLon/2)
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a))
-    return R * c
-  }
-
   const checkPFZViolation = () => {
     if (!position) {
       Alert.alert(t('map.info'), t('map.current_location_unavailable'))
@@ -1046,6 +1048,87 @@ export default function MapScreen() {
     })
   }
 
+  // Ranged, bounding-box queries keep a long track history off the map thread
+  const loadTrack = useCallback(async (region: Region) => {
+    const query = {
+      from: Date.now() - TRACK_WINDOW_MS,
+      bbox: {
+        minLat: region.latitude - region.latitudeDelta / 2,
+        maxLat: region.latitude + region.latitudeDelta / 2,
+        minLon: region.longitude - region.longitudeDelta / 2,
+        maxLon: region.longitude + region.longitudeDelta / 2,
+      },
+    }
+    try {
+      const [points, violations] = await Promise.all([
+        Storage.queryTrackingData({ ...query, limit: TRACK_POINT_LIMIT }),
+        Storage.queryViolations({ ...query, limit: TRACK_VIOLATION_LIMIT }),
+      ])
+      setTrack(points.reverse())
+      setTrackViolations(violations)
+    } catch (error) {
+      console.error('Error loading track:', error)
+    }
+  }, [])
+
+  const renderTrack = () => {
+    if (!layerToggles.track) return null
+
+    return (
+      <>
+        {track.length > 1 && (
+          <Polyline
+            coordinates={track.map((p) => ({ latitude: p.location.lat, longitude: p.location.lon }))}
+            strokeColor="rgba(37, 99, 235, 0.9)"
+            strokeWidth={3}
+            lineCap="round"
+            lineJoin="round"
+          />
+        )}
+        {trackViolations.map((violation) => (
+          <Marker
+            key={`violation-${violation.id}`}
+            coordinate={{ latitude: violation.location.lat, longitude: violation.location.lon }}
+            title={violation.boundary.name}
+            description={`${violation.violationType} · ${new Date(violation.timestamp).toLocaleString()}`}
+            pinColor="red"
+          />
+        ))}
+      </>
+    )
+  }
+
+  // Same zones the boundary alerts and trip planner use; red when closed right now
+  const renderRegulatoryZones = () => {
+    if (!layerToggles.regulatoryZones) return null
+
+    const now = new Date()
+    return zoneRegistry
+      .getZones()
+      .filter((zone) => zone.polygon.outer.length >= 3)
+      .map((zone) => {
+        const closed = zoneRegistry.isRestricted(zone, now)
+        return (
+          <Polygon
+            key={`zone-${zone.id}`}
+            coordinates={zone.polygon.outer.map((p) => ({ latitude: p.lat, longitude: p.lon }))}
+            holes={zone.polygon.holes?.map((ring) => ring.map((p) => ({ latitude: p.lat, longitude: p.lon })))}
+            strokeColor={closed ? "rgba(220, 38, 38, 0.9)" : "rgba(22, 163, 74, 0.9)"}
+            fillColor={closed ? "rgba(220, 38, 38, 0.15)" : "rgba(22, 163, 74, 0.1)"}
+            strokeWidth={2}
+            tappable
+            onPress={() => {
+              Alert.alert(
+                zone.name,
+                `${closed ? "⛔ Fishing not allowed now" : "✅ Fishing allowed"}\n${zone.description ?? ""}`,
+                [{ text: "OK" }]
+              )
+            }}
+          />
+        )
+      })
+  }
+
   const renderIndiaBoundary = () => {
     if (!layerToggles.indiaBoundary) return null
 
@@ -1086,6 +1169,8 @@ export default function MapScreen() {
       { key: 'bathymetry', name: 'Bathymetry', color: '#4169E1', description: 'Ocean depth information' },
       { key: 'landingCentres', name: 'Landing Centres', color: '#FF1493', description: 'Fishing landing centres' },
       { key: 'sst', name: 'Sea Surface Temp', color: '#ff1493', description: 'Sea surface temperature' },
+      { key: 'regulatoryZones', name: 'Regulated Zones', color: '#DC2626', description: 'Restricted, protected and fishing zones' },
+      { key: 'track', name: 'My Track', color: '#2563EB', description: 'Last 24 hours of your track and boundary violations' },
     ]
 
     return (
@@ -1150,6 +1235,7 @@ export default function MapScreen() {
           showsPointsOfInterest={true}
           showsBuildings={false}
           showsIndoors={false}
+          onRegionChangeComplete={loadTrack}
         >
           {/* WMS Layers - PFZ Lines: Disabled since we have real WFS vector data */}
           {/*layerToggles.pfzLines && (
@@ -1191,8 +1277,10 @@ export default function MapScreen() {
           {renderPFZLines()}
           {renderPFZSectors()}
           {renderEEZ()}
+          {renderRegulatoryZones()}
           {renderIndiaBoundary()}
           {renderLandingCentres()}
+          {renderTrack()}
 
           {/* User Location Marker */}
           {position && (
@@ -4,7 +4,6 @@ import { Ionicons } from "@expo/vector-icons"
 import * as Location from "expo-location"
 
 import { theme } from "../theme/colors"
-import { ZONES, isFishingAllowed } from "../data/zones"
 import { fishPredictionService, FishPrediction } from "../services/fishPrediction"
 import { maritimeBoundaryService } from "../services/maritimeBoundary"
 import { EnhancedCard, ModernButton, ProfessionalBadge, LoadingOverlay } from "../components/modernUI"
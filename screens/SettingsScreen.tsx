@@ -1,40 +1,250 @@
 import { useEffect, useState } from "react"
-import { View, Text, StyleSheet, Switch, Alert, TouchableOpacity } from "react-native"
+import { View, Text, StyleSheet, Switch, Alert, TouchableOpacity, ScrollView, TextInput } from "react-native"
 import { Button, Card, SectionTitle } from "../components/ui"
-import { Storage } from "../services/storage"
+import { DEFAULT_SETTINGS, Storage } from "../services/storage"
 import type { AppSettings } from "../types"
 import { theme } from "../theme/colors"
 import { trueOfflineOTP } from "../services/trueOfflineOTP"
+import { syncEngine } from "../services/syncEngine"
+import { authService } from "../services/auth"
+import { backupService, RestoreMode } from "../services/backupService"
+import { zoneImportService } from "../services/zoneImportService"
+import { capAlertService } from "../services/capAlerts"
+import { evidenceLog, ReportCheck } from "../services/evidenceLog"
+import { backgroundMonitoring } from "../services/backgroundMonitoring"
+import { alertStorage } from "../services/alertStorage"
+import type { GeoFormat } from "../utils/geoFormats"
 import { Ionicons } from "@expo/vector-icons"
 import LanguageSelector from "../components/LanguageSelector"
+import AlertRuleEditor from "../components/AlertRuleEditor"
 import { useTranslation } from 'react-i18next'
 
 export default function SettingsScreen() {
   const { t } = useTranslation()
-  const [settings, setSettings] = useState<AppSettings>({ lowPowerMode: true, gpsPollSeconds: 60 })
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS)
   const [testPhoneNumber, setTestPhoneNumber] = useState("+1234567890")
+  const [monitoring, setMonitoring] = useState(false)
+  const [backupPassphrase, setBackupPassphrase] = useState("")
 
   useEffect(() => {
-    ;(async () => setSettings(await Storage.getSettings()))()
+    ;(async () => {
+      setSettings(await Storage.getSettings())
+      setMonitoring((await Storage.getMonitoringState()).active)
+    })()
   }, [])
 
   const update = async (next: Partial<AppSettings>) => {
     const merged = { ...settings, ...next }
     setSettings(merged)
     await Storage.saveSettings(merged)
+    await backgroundMonitoring.applySettings(merged)
+  }
+
+  const toggleMonitoring = async (on: boolean) => {
+    if (!on) {
+      await backgroundMonitoring.stop()
+      setMonitoring(false)
+      return
+    }
+    const mode = await backgroundMonitoring.start()
+    setMonitoring(mode !== "denied")
+    if (mode === "denied") {
+      Alert.alert("Permission Required", "Location access is required for boundary monitoring.")
+    } else if (mode === "foreground") {
+      Alert.alert(
+        "Background location off",
+        "Monitoring runs only while SeaSure is open. Allow location \"all the time\" to keep it running with the screen locked."
+      )
+    }
   }
 
   const clearCache = async () => {
-    await Storage.saveCatches([])
-    await Storage.saveTrips([])
+    // Clearing the local cache must not delete the cloud copies
+    await Storage.saveCatches([], { skipSyncQueue: true })
+    await Storage.saveTrips([], { skipSyncQueue: true })
     await Storage.saveForecast(null)
-    await Storage.saveAlerts([])
+    await alertStorage.clearAllAlerts()
     Alert.alert("Cleared", "Offline cache cleared.")
   }
 
   const syncNow = async () => {
-    // TODO: integrate Firebase Firestore sync
-    Alert.alert("Sync", "Offline items queued for sync (stub).")
+    // Records sync to the signed-in user's account; without one nothing is sent
+    if (!authService.getCurrentUser()) {
+      Alert.alert("Sync", "Sign in to upload your catches and trips. They stay saved on this phone until then.")
+      return
+    }
+    try {
+      const result = await syncEngine.syncNow({ force: true })
+      const pending = await syncEngine.getPendingCount()
+      Alert.alert(
+        "Sync",
+        `Uploaded ${result.pushed}, removed ${result.deleted}, failed ${result.failed}.\n${pending} item(s) still waiting.`
+      )
+    } catch (error) {
+      Alert.alert("❌ Error", "Sync failed")
+      console.error(error)
+    }
+  }
+
+  const backupNow = async () => {
+    try {
+      const result = await backupService.exportToFile({ passphrase: backupPassphrase || undefined })
+      const identity = result.profileIncluded
+        ? "Boat ID, licence and contact number are sealed with your passphrase."
+        : "Boat ID, licence and contact number were left out; set a backup passphrase to include them."
+      Alert.alert(
+        "Backup",
+        result.shared
+          ? `Backup ready. ${identity}`
+          : `Backup saved to:\n${result.uri}\n\nCopy this file to your new phone to restore. ${identity}`
+      )
+    } catch (error) {
+      Alert.alert("❌ Error", "Backup failed")
+      console.error(error)
+    }
+  }
+
+  const restoreBackup = async () => {
+    let uri: string | null
+    try {
+      uri = await backupService.pickBackupFile()
+    } catch (error) {
+      Alert.alert("❌ Error", "Could not open the backup file")
+      console.error(error)
+      return
+    }
+    if (!uri) return
+    const file = uri
+    const run = async (mode: RestoreMode) => {
+      try {
+        const result = await backupService.importFromFile(file, mode, { passphrase: backupPassphrase || undefined })
+        if (!result.valid) {
+          Alert.alert("❌ Restore failed", result.errors.join("\n"))
+          return
+        }
+        setSettings(await Storage.getSettings())
+        Alert.alert(
+          "✅ Restored",
+          "Your logbook, contacts and history have been restored." +
+            (result.profileRestored ? "" : "\n\nBoat ID, licence and contact number were not restored; enter the backup passphrase to restore them.")
+        )
+      } catch (error) {
+        Alert.alert("❌ Error", "Could not read the backup file")
+        console.error(error)
+      }
+    }
+    Alert.alert("Restore backup", "Keep the data already on this phone and add the backup, or replace everything?", [
+      { text: "Cancel", style: "cancel" },
+      { text: "Merge", onPress: () => run("merge") },
+      { text: "Replace", style: "destructive", onPress: () => run("replace") },
+    ])
+  }
+
+  const importZones = async () => {
+    try {
+      const summary = await zoneImportService.pickAndImport()
+      if (!summary) return
+      const skipped = summary.errors.length ? `\n\nSkipped ${summary.errors.length}:\n${summary.errors.slice(0, 5).join("\n")}` : ""
+      Alert.alert(
+        "Zones imported",
+        `Zones: ${summary.zonesAdded} new, ${summary.zonesUpdated} updated.\nWaypoints: ${summary.waypointsAdded} new, ${summary.waypointsUpdated} updated.${skipped}`
+      )
+    } catch (error) {
+      Alert.alert("❌ Error", "Could not read the zone file")
+      console.error(error)
+    }
+  }
+
+  const importCapWarning = async () => {
+    try {
+      const summary = await capAlertService.pickAndImport()
+      if (!summary) return
+      const skipped = summary.skipped.length ? `\n\nSkipped ${summary.skipped.length}:\n${summary.skipped.slice(0, 5).join("\n")}` : ""
+      Alert.alert(
+        "Warnings imported",
+        `${summary.added} new, ${summary.updated} updated, ${summary.withdrawn} withdrawn.\n${summary.notified} apply to your position or active trip route.${skipped}`
+      )
+    } catch (error) {
+      Alert.alert("❌ Error", "Could not read the CAP file")
+      console.error(error)
+    }
+  }
+
+  const exportZones = () => {
+    const run = async (format: GeoFormat) => {
+      try {
+        const { uri, shared } = await zoneImportService.exportToFile(format)
+        if (!shared) Alert.alert("Zones exported", `Saved to:\n${uri}`)
+      } catch (error) {
+        Alert.alert("❌ Error", "Export failed")
+        console.error(error)
+      }
+    }
+    Alert.alert("Export zones", "Choose a file format for zones and waypoints.", [
+      { text: "Cancel", style: "cancel" },
+      { text: "GeoJSON", onPress: () => run("geojson") },
+      { text: "KML", onPress: () => run("kml") },
+    ])
+  }
+
+  const exportEvidence = () => {
+    const run = async (days: number, pdf: boolean) => {
+      try {
+        const to = Date.now()
+        const result = await evidenceLog.exportReport(to - days * 24 * 60 * 60 * 1000, to, { pdf })
+        Alert.alert(
+          "Evidence exported",
+          result.shared
+            ? `${result.entries} entries shared.\n\nKeep the JSON file: it is what proves the report is genuine.`
+            : `${result.entries} entries saved to:\n${result.pdfUri ? `${result.pdfUri}\n` : ""}${result.jsonUri}\n\nKeep the JSON file: it is what proves the report is genuine.`
+        )
+      } catch (error) {
+        Alert.alert("❌ Error", error instanceof Error ? error.message : "Export failed")
+        console.error(error)
+      }
+    }
+    const chooseFormat = (days: number) =>
+      Alert.alert("Evidence report", "Signed JSON only, or with a printable PDF?", [
+        { text: "Cancel", style: "cancel" },
+        { text: "JSON", onPress: () => run(days, false) },
+        { text: "PDF + JSON", onPress: () => run(days, true) },
+      ])
+    Alert.alert("Evidence report", "Export the signed voyage log for which period?", [
+      { text: "Cancel", style: "cancel" },
+      { text: "Last 24 hours", onPress: () => chooseFormat(1) },
+      { text: "Last 7 days", onPress: () => chooseFormat(7) },
+    ])
+  }
+
+  const verifyEvidence = () => {
+    const show = (title: string, result: ReportCheck | Omit<ReportCheck, "fromThisDevice">) => {
+      const problems = result.problems.slice(0, 5).map((p) => `• ${p.seq >= 0 ? `#${p.seq} ` : ""}${p.detail}`)
+      const origin = "fromThisDevice" in result && !result.fromThisDevice ? "\nSigned by another device." : ""
+      Alert.alert(
+        result.valid ? `✅ ${title} intact` : `❌ ${title} tampered`,
+        result.valid
+          ? `${result.checked} entries checked; none edited or removed.${origin}`
+          : `${result.problems.length} problem(s):\n${problems.join("\n")}${origin}`
+      )
+    }
+    const run = async (which: "log" | "report") => {
+      try {
+        if (which === "log") {
+          show("Evidence log", await evidenceLog.verifyLog())
+          return
+        }
+        const result = await evidenceLog.pickAndVerifyReport()
+        if (result) show("Report", result)
+      } catch (error) {
+        Alert.alert("❌ Error", "Verification failed")
+        console.error(error)
+      }
+    }
+    Alert.alert("Verify evidence", "Check the log on this phone, or an exported report file?", [
+      { text: "Cancel", style: "cancel" },
+      { text: "This phone", onPress: () => run("log") },
+      { text: "Report file", onPress: () => run("report") },
+    ])
   }
 
   // Offline OTP Test Functions
@@ -93,7 +303,7 @@ export default function SettingsScreen() {
   }
 
   return (
-    <View style={styles.container}>
+    <ScrollView style={styles.container}>
       <SectionTitle>{t('settings.title')}</SectionTitle>
 
       {/* Language Selector */}
@@ -110,7 +320,35 @@ export default function SettingsScreen() {
       </Card>
 
       <Card style={{ marginBottom: 12 }}>
-        <Text style={styles.label}>GPS Poll Interval (seconds)</Text>
+        <Text style={styles.label}>Adaptive GPS Polling</Text>
+        <View style={styles.row}>
+          <Text style={styles.help}>Polls faster near zones and at speed, slower in open water and on low battery.</Text>
+          <Switch value={settings.adaptivePolling} onValueChange={(v) => update({ adaptivePolling: v })} />
+        </View>
+        {settings.adaptivePolling && (
+          <>
+            <Text style={[styles.label, { marginTop: 12 }]}>Battery Must Last (hours)</Text>
+            <View style={styles.row}>
+              <Button
+                title="-2"
+                variant="ghost"
+                onPress={() => update({ tripHours: Math.max(4, settings.tripHours - 2) })}
+              />
+              <Text style={styles.value}>{settings.tripHours}</Text>
+              <Button
+                title="+2"
+                variant="ghost"
+                onPress={() => update({ tripHours: Math.min(24, settings.tripHours + 2) })}
+              />
+            </View>
+          </>
+        )}
+      </Card>
+
+      <Card style={{ marginBottom: 12 }}>
+        <Text style={styles.label}>
+          {settings.adaptivePolling ? "GPS Interval in Open Water (seconds)" : "GPS Poll Interval (seconds)"}
+        </Text>
         <View style={styles.row}>
           <Button
             title="-30"
@@ -126,12 +364,51 @@ export default function SettingsScreen() {
         </View>
       </Card>
 
+      <Card style={{ marginBottom: 12 }}>
+        <Text style={styles.label}>Boundary Monitoring</Text>
+        <View style={styles.row}>
+          <Text style={styles.help}>
+            Keeps checking zones and the IMBL with the screen locked
+            {settings.adaptivePolling ? "." : `, every ${settings.gpsPollSeconds}s.`}
+          </Text>
+          <Switch value={monitoring} onValueChange={toggleMonitoring} />
+        </View>
+      </Card>
+
+      <Card style={{ marginBottom: 12 }}>
+        <AlertRuleEditor />
+      </Card>
+
       <Card style={{ marginBottom: 12 }}>
         <Text style={styles.label}>Offline Data</Text>
         <View style={styles.row}>
           <Button title="Clear Cache" variant="danger" onPress={clearCache} />
           <Button title="Sync Now" onPress={syncNow} />
         </View>
+        <TextInput
+          style={styles.input}
+          value={backupPassphrase}
+          onChangeText={setBackupPassphrase}
+          placeholder="Backup passphrase (protects boat ID, licence, contact)"
+          secureTextEntry
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <View style={styles.row}>
+          <Button title="Back Up" variant="ghost" onPress={backupNow} />
+          <Button title="Restore" variant="ghost" onPress={restoreBackup} />
+        </View>
+        <View style={styles.row}>
+          <Button title="Import Zones" variant="ghost" onPress={importZones} />
+          <Button title="Export Zones" variant="ghost" onPress={exportZones} />
+        </View>
+        <View style={styles.row}>
+          <Button title="Import CAP Warning" variant="ghost" onPress={importCapWarning} />
+        </View>
+        <View style={styles.row}>
+          <Button title="Evidence Report" variant="ghost" onPress={exportEvidence} />
+          <Button title="Verify Evidence" variant="ghost" onPress={verifyEvidence} />
+        </View>
       </Card>
 
       {/* Offline OTP Testing Section */}
@@ -167,10 +444,10 @@ export default function SettingsScreen() {
         </View>
       </Card>
 
-      <Text style={{ color: "#64748B" }}>
-        API and Firebase integration are intentionally stubbed to emphasize the offline-first frontend.
+      <Text style={{ color: "#64748B", marginBottom: 32 }}>
+        Catch logs and trips are saved offline first and upload automatically once a connection is available.
       </Text>
-    </View>
+    </ScrollView>
   )
 }
 
@@ -180,6 +457,7 @@ const styles = StyleSheet.create({
   label: { fontSize: 16, fontWeight: "700", color: theme.fg },
   help: { color: "#475569", flex: 1, marginRight: 8 },
   value: { fontWeight: "700", color: theme.fg },
+  input: { borderWidth: 1, borderColor: "#CBD5E1", borderRadius: 8, paddingHorizontal: 12, paddingVertical: 8, marginTop: 8, color: theme.fg },
   otpButtonGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
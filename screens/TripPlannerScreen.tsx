@@ -16,10 +16,13 @@ import { Ionicons } from "@expo/vector-icons"
 import { Button, Card, SectionTitle } from "../components/ui"
 import { Storage } from "../services/storage"
 import type { TripPlan } from "../types"
-import { optimizeOrder } from "../utils/geo"
+import { optimizeRoute } from "../utils/routeOptimizer"
 import { theme } from "../theme/colors"
 import { smartTripPlanningService } from "../services/smartTripPlanning"
 import { fishPredictionService } from "../services/fishPrediction"
+import { zoneImportService } from "../services/zoneImportService"
+import { alertStorage } from "../services/alertStorage"
+import type { Waypoint } from "../data/waypoints"
 import { 
   EnhancedCard, 
   ModernButton, 
@@ -31,72 +34,6 @@ import SOSButton from "../components/SOSButton"
 
 const { width, height } = Dimensions.get('window')
 
-// Predefined waypoint locations for easier selection
-const PREDEFINED_WAYPOINTS = [
-  // Mumbai Coast
-  { id: 'mumbai_harbor', lat: 19.0760, lon: 72.8777, label: 'Mumbai Harbor', region: 'Mumbai' },
-  { id: 'gateway_india', lat: 19.0656, lon: 72.8738, label: 'Gateway of India', region: 'Mumbai' },
-  { id: 'marine_drive', lat: 18.9437, lon: 72.8235, label: 'Marine Drive Coast', region: 'Mumbai' },
-  { id: 'elephanta_caves', lat: 18.9633, lon: 72.9314, label: 'Elephanta Island', region: 'Mumbai' },
-  { id: 'alibaug_coast', lat: 18.6414, lon: 72.8722, label: 'Alibaug Coast', region: 'Mumbai' },
-  { id: 'juhu_beach', lat: 19.1075, lon: 72.8263, label: 'Juhu Beach', region: 'Mumbai' },
-  { id: 'versova_beach', lat: 19.1336, lon: 72.8147, label: 'Versova Beach', region: 'Mumbai' },
-  { id: 'worli_coast', lat: 19.0176, lon: 72.8170, label: 'Worli Coast', region: 'Mumbai' },
-  
-  // Konkan Coast
-  { id: 'ratnagiri_port', lat: 16.9944, lon: 73.3011, label: 'Ratnagiri Port', region: 'Konkan' },
-  { id: 'malvan_coast', lat: 16.0660, lon: 73.4692, label: 'Malvan Coast', region: 'Konkan' },
-  { id: 'vengurla_rocks', lat: 15.8644, lon: 73.6311, label: 'Vengurla Rocks', region: 'Konkan' },
-  { id: 'sindhudurg_fort', lat: 16.0660, lon: 73.4692, label: 'Sindhudurg Fort', region: 'Konkan' },
-  { id: 'dapoli_coast', lat: 17.7644, lon: 73.1833, label: 'Dapoli Coast', region: 'Konkan' },
-  { id: 'harihareshwar', lat: 18.0161, lon: 73.0097, label: 'Harihareshwar Beach', region: 'Konkan' },
-  
-  // Goa Waters
-  { id: 'panaji_harbor', lat: 15.4909, lon: 73.8278, label: 'Panaji Harbor', region: 'Goa' },
-  { id: 'baga_beach', lat: 15.5557, lon: 73.7515, label: 'Baga Beach', region: 'Goa' },
-  { id: 'calangute_beach', lat: 15.5394, lon: 73.7546, label: 'Calangute Beach', region: 'Goa' },
-  { id: 'dona_paula', lat: 15.4553, lon: 73.8063, label: 'Dona Paula', region: 'Goa' },
-  { id: 'mormugao_port', lat: 15.4000, lon: 73.8069, label: 'Mormugao Port', region: 'Goa' },
-  
-  // Popular Fishing Zones
-  { id: 'deep_water_zone_1', lat: 19.1200, lon: 72.9200, label: 'Deep Water Zone 1', region: 'Fishing Zones' },
-  { id: 'deep_water_zone_2', lat: 19.1500, lon: 72.9500, label: 'Deep Water Zone 2', region: 'Fishing Zones' },
-  { id: 'deep_water_zone_3', lat: 18.8500, lon: 72.9800, label: 'Deep Water Zone 3', region: 'Fishing Zones' },
-  { id: 'pomfret_beds', lat: 19.0900, lon: 72.9100, label: 'Pomfret Beds', region: 'Fishing Zones' },
-  { id: 'prawn_beds', lat: 18.9800, lon: 72.9000, label: 'Prawn Beds', region: 'Fishing Zones' },
-  { id: 'kingfish_zone', lat: 19.1800, lon: 72.9800, label: 'Kingfish Zone', region: 'Fishing Zones' },
-  { id: 'tuna_grounds', lat: 19.2500, lon: 73.0500, label: 'Tuna Grounds', region: 'Fishing Zones' },
-  { id: 'mackerel_zone', lat: 18.7500, lon: 72.8800, label: 'Mackerel Zone', region: 'Fishing Zones' },
-  { id: 'sardine_beds', lat: 18.6800, lon: 72.8500, label: 'Sardine Beds', region: 'Fishing Zones' },
-  { id: 'reef_fishing_1', lat: 19.0500, lon: 73.0200, label: 'Reef Fishing Area 1', region: 'Fishing Zones' },
-  { id: 'reef_fishing_2', lat: 18.9200, lon: 73.0100, label: 'Reef Fishing Area 2', region: 'Fishing Zones' },
-  
-  // Karnataka Coast
-  { id: 'mangalore_port', lat: 12.8644, lon: 74.8419, label: 'Mangalore Port', region: 'Karnataka' },
-  { id: 'udupi_coast', lat: 13.3409, lon: 74.7421, label: 'Udupi Coast', region: 'Karnataka' },
-  { id: 'karwar_bay', lat: 14.8167, lon: 74.1167, label: 'Karwar Bay', region: 'Karnataka' },
-  { id: 'honavar_port', lat: 14.2833, lon: 74.4500, label: 'Honavar Port', region: 'Karnataka' },
-  
-  // Kerala Waters
-  { id: 'kochi_harbor', lat: 9.9312, lon: 76.2673, label: 'Kochi Harbor', region: 'Kerala' },
-  { id: 'alleppey_backwaters', lat: 9.4981, lon: 76.3388, label: 'Alleppey Coast', region: 'Kerala' },
-  { id: 'trivandrum_coast', lat: 8.5241, lon: 76.9366, label: 'Trivandrum Coast', region: 'Kerala' },
-  { id: 'kollam_port', lat: 8.8932, lon: 76.6141, label: 'Kollam Port', region: 'Kerala' },
-  
-  // Safety & Emergency Points
-  { id: 'coast_guard', lat: 19.0729, lon: 72.8826, label: 'Coast Guard Station', region: 'Emergency' },
-  { id: 'emergency_dock', lat: 19.0567, lon: 72.8697, label: 'Emergency Dock', region: 'Emergency' },
-  { id: 'rescue_station_1', lat: 18.9200, lon: 72.8300, label: 'Rescue Station 1', region: 'Emergency' },
-  { id: 'rescue_station_2', lat: 19.1800, lon: 72.9500, label: 'Rescue Station 2', region: 'Emergency' },
-  
-  // Services & Facilities
-  { id: 'fuel_station', lat: 19.0689, lon: 72.8789, label: 'Marine Fuel Station', region: 'Services' },
-  { id: 'repair_yard', lat: 19.0456, lon: 72.8656, label: 'Boat Repair Yard', region: 'Services' },
-  { id: 'fish_market_1', lat: 19.0422, lon: 72.8347, label: 'Sassoon Dock Fish Market', region: 'Services' },
-  { id: 'marine_supplies', lat: 19.0689, lon: 72.8789, label: 'Marine Supplies Store', region: 'Services' },
-  { id: 'weather_station', lat: 19.0760, lon: 72.8777, label: 'Weather Monitoring Station', region: 'Services' },
-]
-
 export default function TripPlannerScreen() {
   const [trips, setTrips] = useState<TripPlan[]>([])
   const [open, setOpen] = useState(false)
@@ -107,10 +44,12 @@ export default function TripPlannerScreen() {
   const [loading, setLoading] = useState(false)
   const [smartRecommendations, setSmartRecommendations] = useState<any>(null)
   const [selectedTrip, setSelectedTrip] = useState<TripPlan | null>(null)
+  const [activeTripId, setActiveTripId] = useState<string | null>(null)
   const [showQuickActions, setShowQuickActions] = useState(false)
   const [quickSuggestions, setQuickSuggestions] = useState<any[]>([])
   const [showWaypointPicker, setShowWaypointPicker] = useState<number | null>(null)
   const [waypointFilter, setWaypointFilter] = useState('')
+  const [pickerWaypoints, setPickerWaypoints] = useState<Waypoint[]>(zoneImportService.getAllWaypoints())
   const fadeAnim = useRef(new Animated.Value(0)).current
 
   useEffect(() => {
@@ -124,10 +63,17 @@ export default function TripPlannerScreen() {
     }).start()
   }, [])
 
+  // Marks imported from cooperative files appear alongside the built-in ones
+  useEffect(() => {
+    zoneImportService.initialize().then(() => setPickerWaypoints(zoneImportService.getAllWaypoints()))
+    return zoneImportService.addListener(() => setPickerWaypoints(zoneImportService.getAllWaypoints()))
+  }, [])
+
   const loadTrips = async () => {
     try {
       const savedTrips = await Storage.getTrips()
       setTrips(savedTrips)
+      setActiveTripId(await alertStorage.getActiveTripId())
     } catch (error) {
       console.error('Error loading trips:', error)
     }
@@ -144,6 +90,13 @@ export default function TripPlannerScreen() {
     console.log('Editing trip:', trip.name)
   }
 
+  // Alerts for areas on the route of the trip being sailed are shown before the boat gets there
+  const handleToggleActiveTrip = async (trip: TripPlan) => {
+    const next = activeTripId === trip.id ? null : trip.id
+    await alertStorage.setActiveTrip(next)
+    setActiveTripId(next)
+  }
+
   const handleDeleteTrip = (trip: any) => {
     // Show confirmation dialog and delete trip
     console.log('Deleting trip:', trip.name)
@@ -242,7 +195,7 @@ export default function TripPlannerScreen() {
     }
   }
 
-  const filteredWaypoints = PREDEFINED_WAYPOINTS.filter(wp => 
+  const filteredWaypoints = pickerWaypoints.filter(wp => 
     wp.label.toLowerCase().includes(waypointFilter.toLowerCase()) ||
     wp.region.toLowerCase().includes(waypointFilter.toLowerCase())
   )
@@ -353,7 +306,8 @@ export default function TripPlannerScreen() {
       .map((w) => ({ lat: Number(w.lat), lon: Number(w.lon), label: w.label?.trim() }))
       .filter((p) => !Number.isNaN(p.lat) && !Number.isNaN(p.lon))
     const start = points[0] ?? { lat: 18.97, lon: 72.82 }
-    const order = optimizeOrder(start, points)
+    // The first waypoint is the start, so the route is open-ended rather than a tour back to it
+    const { order } = optimizeRoute(start, points, { returnToStart: false })
     const trip: TripPlan = {
       id: `${Date.now()}`,
       name: name.trim() || "Trip",
@@ -362,7 +316,8 @@ export default function TripPlannerScreen() {
       createdAt: Date.now(),
       syncStatus: "pending",
     }
-    const next = [trip, ...trips]
+    // Stored trips, not the list on screen, which may predate the sync engine's updates
+    const next = [trip, ...(await Storage.getTrips())]
     setTrips(next)
     await Storage.saveTrips(next)
     setOpen(false)
@@ -565,6 +520,16 @@ export default function TripPlannerScreen() {
             
             {/* Trip Action Buttons */}
             <View style={styles.tripActions}>
+              <TouchableOpacity 
+                style={[styles.tripActionButton, activeTripId === item.id && styles.activeTripButton]}
+                onPress={() => handleToggleActiveTrip(item)}
+              >
+                <Ionicons name="navigate" size={16} color={activeTripId === item.id ? '#FFFFFF' : theme.primary} />
+                <Text style={[styles.tripActionText, activeTripId === item.id && styles.activeTripText]}>
+                  {activeTripId === item.id ? 'Sailing' : 'Sail'}
+                </Text>
+              </TouchableOpacity>
+
               <TouchableOpacity 
                 style={styles.tripActionButton}
                 onPress={() => handleViewTrip(item)}
@@ -1212,4 +1177,11 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: theme.muted,
   },
+  activeTripButton: {
+    backgroundColor: theme.primary,
+    borderColor: theme.primary,
+  },
+  activeTripText: {
+    color: '#FFFFFF',
+  },
 })
@@ -0,0 +1,186 @@
+/**
+ * 📣 Alert Escalation
+ * Escalates danger alerts that nobody acknowledges
+ *
+ * Features:
+ * - Applies to critical boundary alerts and high or critical weather warnings
+ * - Re-notifies with a louder sound, then again with vibration, then messages the primary emergency contact
+ * - The contact gets the boat's current position by SMS, or the skipper is prompted to call
+ * - Stops as soon as the alert is read, dismissed, expires or no longer applies to the boat
+ * - Every step is recorded on the alert and in the evidence log
+ * - No contact is messaged while a recorded track is replayed
+ * - Timers while the app runs; background location fixes advance it when timers are suspended
+ */
+
+import { Vibration } from 'react-native';
+import { alertStorage } from './alertStorage';
+import { notificationService } from './notificationService';
+import { emergencyService } from './emergencyService';
+import { locationSource } from './locationProvider';
+import { Storage } from './storage';
+import type { AlertEscalation, AlertEscalationStep, AlertItem, AlertPriority, AlertType } from '../types';
+
+// Each step is taken this long after the alert was raised, if it is still unacknowledged
+export const ESCALATION_POLICY: { step: AlertEscalationStep; afterMs: number }[] = [
+  { step: 'loud', afterMs: 2 * 60 * 1000 },
+  { step: 'vibration', afterMs: 5 * 60 * 1000 },
+  { step: 'contact', afterMs: 10 * 60 * 1000 }
+];
+
+// Alert types that escalate, and from which priority
+const ESCALATED: Partial<Record<AlertType, AlertPriority[]>> = {
+  boundary: ['critical'],
+  weather: ['high', 'critical']
+};
+
+// Alerts older than this are not escalated any further, e.g. after the phone was off for hours
+const MAX_AGE_MS = 60 * 60 * 1000;
+const VIBRATION_PATTERN = [0, 1500, 500, 1500, 500, 1500];
+
+class AlertEscalationService {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private ready: Promise<void> | null = null;
+  private checking: Promise<void> | null = null;
+
+  /**
+   * Follow the alert store and take each step when it falls due
+   */
+  async start(): Promise<void> {
+    await this.loadAlerts();
+    if (!this.unsubscribe) this.unsubscribe = alertStorage.addListener(() => this.schedule());
+    await this.checkNow();
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Take every step that is due; also called on background location fixes, when timers may not run
+   */
+  checkNow(now: number = Date.now()): Promise<void> {
+    if (!this.checking) {
+      this.checking = this.runDueSteps(now).finally(() => {
+        this.checking = null;
+        this.schedule();
+      });
+    }
+    return this.checking;
+  }
+
+  /**
+   * The next step an alert is waiting for, or null once it is acknowledged, stale or fully escalated
+   */
+  nextStep(alert: AlertItem, now: number = Date.now()): { step: AlertEscalationStep; dueAt: number } | null {
+    if (!ESCALATED[alert.type]?.includes(alert.priority)) return null;
+    // An alert that turned active again, e.g. as the boat re-entered its area, escalates afresh
+    const since = alert.activatedAt ?? alert.timestamp;
+    if (alert.isRead || alert.dismissedAt || now - since > MAX_AGE_MS) return null;
+    const taken = alert.escalations?.filter(escalation => escalation.at >= since).length ?? 0;
+    const next = ESCALATION_POLICY[taken];
+    return next ? { step: next.step, dueAt: since + next.afterMs } : null;
+  }
+
+  private async runDueSteps(now: number): Promise<void> {
+    await this.loadAlerts();
+    for (const alert of alertStorage.getAlerts()) {
+      const next = this.nextStep(alert, now);
+      if (!next || next.dueAt > now) continue;
+      try {
+        await this.escalate(alert, next.step, now);
+      } catch (error) {
+        console.error(`❌ Failed to escalate alert ${alert.id}:`, error);
+      }
+    }
+  }
+
+  private async escalate(alert: AlertItem, step: AlertEscalationStep, now: number): Promise<void> {
+    const position = await this.currentPosition(alert);
+    const minutes = Math.round((now - (alert.activatedAt ?? alert.timestamp)) / 60000);
+    const escalation: AlertEscalation = { step, at: now, ...(position && { position }) };
+    console.log(`📣 Escalating unacknowledged alert "${alert.title}" (${step}, ${minutes} min)`);
+
+    if (step === 'contact' && !locationSource.isUsingDevice()) {
+      // Nobody ashore is messaged while a recorded track is replayed
+      escalation.error = 'Track replay running, contact not messaged';
+    } else if (step === 'contact') {
+      const boatId = await Storage.getBoatId();
+      const message =
+        `SeaSure alert${boatId ? ` for boat ${boatId}` : ''}: ${alert.title}. ${alert.message} ` +
+        `Not acknowledged on board for ${minutes} minutes.`;
+      const delivery = await emergencyService.notifyPrimaryContact(message, position);
+      if (delivery) {
+        const { contact, channel } = delivery;
+        escalation.contact = { name: contact.name, phoneNumber: contact.phoneNumber, channel };
+        if (!delivery.sent) escalation.error = delivery.error;
+      } else {
+        escalation.error = 'No primary emergency contact set';
+      }
+    } else {
+      if (step === 'vibration') Vibration.vibrate(VIBRATION_PATTERN);
+      await notificationService.sendNotification(
+        {
+          id: alert.id, // already stored, so this only re-notifies
+          type: alert.type,
+          title: `🔁 ${alert.title}`,
+          message: `Not acknowledged for ${minutes} min. ${alert.message}`,
+          priority: 'critical',
+          timestamp: alert.timestamp,
+          location: alert.location,
+          data: { ...alert.data, escalation: step }
+        },
+        { escalation: step }
+      );
+    }
+
+    await alertStorage.recordEscalation(alert.id, escalation);
+  }
+
+  private async currentPosition(alert: AlertItem): Promise<{ latitude: number; longitude: number } | undefined> {
+    // A replayed position is not where the boat is
+    if (!locationSource.isUsingDevice()) return alert.location;
+    try {
+      const fix = await locationSource.provider.getCurrentPosition({ highAccuracy: true });
+      return { latitude: fix.latitude, longitude: fix.longitude };
+    } catch (error) {
+      console.warn('⚠️ No current position for escalation, using where the alert was raised:', error);
+      return alert.location;
+    }
+  }
+
+  /**
+   * Wake up for the earliest step still to come
+   */
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (!this.unsubscribe) return;
+
+    const now = Date.now();
+    const dueTimes = alertStorage
+      .getAlerts()
+      .map(alert => this.nextStep(alert, now)?.dueAt)
+      .filter((dueAt): dueAt is number => dueAt !== undefined);
+    if (!dueTimes.length) return;
+
+    const delay = Math.max(0, Math.min(...dueTimes) - now);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.checkNow().catch(error => console.error('❌ Alert escalation check failed:', error));
+    }, delay);
+  }
+
+  private loadAlerts(): Promise<void> {
+    // A headless start by the OS has not loaded the alert store yet
+    if (!this.ready) this.ready = alertStorage.initialize();
+    return this.ready;
+  }
+}
+
+// Export singleton instance
+export const alertEscalation = new AlertEscalationService();
+export default alertEscalation;
@@ -0,0 +1,265 @@
+/**
+ * 📐 Alert Rules Engine
+ * Checks the fisherman's own alert rules and raises an alert when one starts to match
+ *
+ * Features:
+ * - Declarative conditions on weather, tides, zone entry, market prices and dates
+ * - Weather, tides and prices at a saved spot or at the boat
+ * - Only fetches the data that enabled rules need, at most every half hour per place
+ * - Zone entry checked on every position the boundary alert system accepts
+ * - Alerts once when a rule starts to match, again only after it has stopped matching
+ * - Raised through notificationService, which also writes them to the alert store
+ */
+
+import { Storage } from './storage';
+import { notificationService } from './notificationService';
+import { OFFLINE_WEATHER_WARNING, weatherService } from './weather';
+import { productionTidalService } from './productionTidalService';
+import { productionMarketDataService } from './productionMarketDataService';
+import { zoneRegistry } from './zoneRegistry';
+import { getSeasonalClosures, ZONES } from '../data/zones';
+import { evaluateRule, RuleContext } from '../utils/alertRules';
+import type { AlertRule, AlertRuleState, AlertType, RuleCondition } from '../types';
+
+type Place = { lat: number; lon: number };
+
+// Weather, tides and prices for a place are fetched at most this often
+const REFRESH_MS = 30 * 60 * 1000;
+// Places within about a kilometre share fetched data
+const placeKey = (place: Place) => `${place.lat.toFixed(2)},${place.lon.toFixed(2)}`;
+
+// The alert type follows the first condition of a rule
+const ALERT_TYPES: Record<RuleCondition['kind'], AlertType> = {
+  weather: 'weather',
+  tide: 'fishing',
+  zone_entry: 'boundary',
+  price: 'fishing',
+  date: 'regulatory'
+};
+
+class AlertRulesEngine {
+  private rules: AlertRule[] = [];
+  private states = new Map<string, AlertRuleState>();
+  private loading: Promise<void> | null = null;
+  private checking: Promise<void> = Promise.resolve();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private position: Place | null = null;
+  private zonesInside: RuleContext['zonesInside'] = null;
+  private placeData = new Map<string, { fetchedAt: number; context: Partial<RuleContext> }>();
+  private listeners: Array<(rules: AlertRule[]) => void> = [];
+
+  /**
+   * Load rules and check them every half hour while the app runs
+   */
+  async start(): Promise<void> {
+    await this.load();
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        this.evaluate().catch(error => console.error('❌ Alert rule check failed:', error));
+      }, REFRESH_MS);
+    }
+    if (!this.position) {
+      const [last] = await Storage.queryTrackingData({ limit: 1 });
+      if (last) this.position = last.location;
+    }
+    await this.evaluate();
+    console.log(`✅ Alert rules engine started (${this.rules.filter(rule => rule.enabled).length} active rules)`);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async getRules(): Promise<AlertRule[]> {
+    await this.load();
+    return [...this.rules];
+  }
+
+  /**
+   * Add a rule, or replace the one with the same id; it is checked straight away
+   */
+  async saveRule(rule: AlertRule): Promise<void> {
+    await this.load();
+    const exists = this.rules.some(existing => existing.id === rule.id);
+    this.rules = exists ? this.rules.map(existing => (existing.id === rule.id ? rule : existing)) : [...this.rules, rule];
+    // An edited rule starts afresh, so it can alert on what already holds
+    this.states.delete(rule.id);
+    await this.persist();
+    await this.evaluate({ only: [rule.id] });
+  }
+
+  async deleteRule(ruleId: string): Promise<void> {
+    await this.load();
+    this.rules = this.rules.filter(rule => rule.id !== ruleId);
+    this.states.delete(ruleId);
+    await this.persist();
+  }
+
+  /**
+   * Put back rules from a backup bundle, either replacing or merging by id; they are checked on the next round
+   */
+  async restoreRules(rules: AlertRule[], mode: 'merge' | 'replace'): Promise<void> {
+    await this.load();
+    if (mode === 'replace') {
+      this.rules = [...rules];
+      this.states.clear();
+    } else {
+      const ids = new Set(this.rules.map(rule => rule.id));
+      this.rules = [...this.rules, ...rules.filter(rule => !ids.has(rule.id))];
+    }
+    await this.persist();
+  }
+
+  addListener(callback: (rules: AlertRule[]) => void): () => void {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter(listener => listener !== callback);
+    };
+  }
+
+  /**
+   * New boat position from the boundary alert system; zone entry rules are checked at once
+   */
+  async updatePosition(position: Place): Promise<void> {
+    this.position = position;
+    const zones = zoneRegistry.getZonesContaining(position);
+    this.zonesInside = zones.map(zone => ({ id: zone.id, name: zone.name, restricted: zoneRegistry.isRestricted(zone) }));
+    await this.load();
+    const zoneRules = this.rules.filter(rule => rule.conditions.some(condition => condition.kind === 'zone_entry'));
+    if (zoneRules.length) await this.evaluate({ only: zoneRules.map(rule => rule.id), fetch: false });
+  }
+
+  /**
+   * Check enabled rules, fetching what they need unless told to use cached data only
+   */
+  evaluate(options: { only?: string[]; fetch?: boolean } = {}): Promise<void> {
+    // One check at a time, so a rule cannot alert twice from overlapping checks
+    const run = this.checking.then(() => this.evaluateNow(options));
+    this.checking = run.catch(() => {});
+    return run;
+  }
+
+  private async evaluateNow(options: { only?: string[]; fetch?: boolean }): Promise<void> {
+    await this.load();
+    const now = Date.now();
+    const rules = this.rules.filter(rule => rule.enabled && (!options.only || options.only.includes(rule.id)));
+    let changed = false;
+
+    for (const rule of rules) {
+      const context = await this.contextFor(rule, now, options.fetch ?? true);
+      const { matched, reasons, missing } = evaluateRule(rule, context);
+      const previous = this.states.get(rule.id);
+      // Losing the data for a condition is not the same as it no longer holding
+      if (!matched && missing.length && previous) continue;
+      if (matched && !previous?.matched) {
+        await this.raise(rule, reasons, now);
+        this.states.set(rule.id, { ruleId: rule.id, matched, lastFiredAt: now });
+        changed = true;
+      } else if (!matched && previous?.matched) {
+        this.states.set(rule.id, { ...previous, matched: false });
+        changed = true;
+      } else if (!previous) {
+        this.states.set(rule.id, { ruleId: rule.id, matched, lastFiredAt: null });
+        changed = true;
+      }
+    }
+
+    if (changed) await Storage.saveAlertRuleState(Array.from(this.states.values()));
+  }
+
+  private async raise(rule: AlertRule, reasons: string[], now: number): Promise<void> {
+    const place = rule.spot ?? this.position;
+    await notificationService.sendNotification({
+      id: `rule_${rule.id}_${now}`,
+      type: ALERT_TYPES[rule.conditions[0].kind],
+      title: rule.name,
+      message: `${reasons.join('\n')}${rule.spot ? `\nAt ${rule.spot.label}` : ''}`,
+      priority: rule.priority,
+      timestamp: now,
+      location: place ? { latitude: place.lat, longitude: place.lon } : undefined,
+      // A rule matching again soon after updates its earlier alert
+      dedupKey: `rule:${rule.id}`,
+      data: { ruleId: rule.id, reasons }
+    });
+    console.log(`📐 Alert rule "${rule.name}" matched: ${reasons.join('; ')}`);
+  }
+
+  private async contextFor(rule: AlertRule, now: number, fetch: boolean): Promise<RuleContext> {
+    const kinds = new Set(rule.conditions.map(condition => condition.kind));
+    const context: RuleContext = { now, zonesInside: this.zonesInside };
+    if (kinds.has('date')) context.bans = this.seasonalBans();
+
+    const place = rule.spot ?? this.position;
+    if (!place || !(kinds.has('weather') || kinds.has('tide') || kinds.has('price'))) return context;
+    return { ...context, ...(await this.placeContext(place, kinds, now, fetch)) };
+  }
+
+  /**
+   * Weather, tides and prices at a place, from cache when fresh enough
+   */
+  private async placeContext(place: Place, kinds: Set<RuleCondition['kind']>, now: number, fetch: boolean): Promise<Partial<RuleContext>> {
+    const key = placeKey(place);
+    const cached = this.placeData.get(key);
+    if (!fetch) return { ...cached?.context };
+    const fresh = !!cached && now - cached.fetchedAt < REFRESH_MS;
+    const context: Partial<RuleContext> = fresh ? { ...cached.context } : {};
+
+    if (kinds.has('weather') && (!fresh || context.weather === undefined)) {
+      const weather = await weatherService.getCurrentWeather(place.lat, place.lon);
+      // The offline placeholder is not a reading, so weather rules wait for real data
+      context.weather = weather.warnings.includes(OFFLINE_WEATHER_WARNING)
+        ? null
+        : { windKmh: weather.windSpeed, waveM: weather.waveHeight, visibilityKm: weather.visibility, pressureHpa: weather.pressure };
+    }
+    if (kinds.has('tide') && (!fresh || context.tides === undefined)) {
+      const tides = await productionTidalService.getTidalPredictions(place, 2);
+      context.tides = tides.predictions.map(p => ({ time: new Date(p.datetime).getTime(), type: p.type, heightM: p.height }));
+    }
+    if (kinds.has('price') && (!fresh || context.prices === undefined)) {
+      const report = await productionMarketDataService.getMarketReport(place);
+      context.prices = Object.fromEntries(report.prices.map(p => [p.species.toLowerCase(), p.price]));
+    }
+
+    this.placeData.set(key, { fetchedAt: fresh ? cached.fetchedAt : now, context });
+    return context;
+  }
+
+  private seasonalBans(): RuleContext['bans'] {
+    const seen = new Set<string>();
+    const bans: { name: string; start: string }[] = [];
+    for (const zone of ZONES) {
+      for (const closure of getSeasonalClosures(zone)) {
+        const key = `${closure.reason}|${closure.start}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        bans.push({ name: closure.reason, start: closure.start });
+      }
+    }
+    return bans;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = Promise.all([Storage.getAlertRules(), Storage.getAlertRuleState()])
+        .then(([rules, states]) => {
+          this.rules = rules;
+          this.states = new Map(states.map(state => [state.ruleId, state]));
+        })
+        .catch(error => {
+          console.error('❌ Failed to load alert rules:', error);
+        });
+    }
+    return this.loading;
+  }
+
+  private async persist(): Promise<void> {
+    await Storage.saveAlertRules(this.rules);
+    await Storage.saveAlertRuleState(Array.from(this.states.values()));
+    this.listeners.forEach(listener => listener([...this.rules]));
+  }
+}
+
+// Export singleton instance
+export const alertRulesEngine = new AlertRulesEngine();
+export default alertRulesEngine;
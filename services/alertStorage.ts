@@ -1,33 +1,36 @@
 /**
  * 🗄️ Alert Storage Service
- * Manages alert persistence and retrieval for Alerts screen
+ * The one repository for every alert the app raises
  * 
  * Features:
- * - Store triggered alerts from demo and real scenarios
+ * - Store alerts from weather, boundary, regulatory, seasonal ban, emergency and demo producers
  * - Retrieve alerts for Alerts screen display  
  * - Alert categorization and filtering
  * - Cleanup old alerts
- * - Cross-session persistence
+ * - Cross-session persistence in the cfm.alerts record table
+ * - Alerts with an area are shown only while the boat or its active trip route is in it
+ * - Validity times: alerts expire, and re-activate when the boat enters their area again
+ * - Alerts raised again under a dedup key update one thread, with the earlier versions as its history
+ * - Counts are per thread rather than per stored row
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-export interface StoredAlert {
-  id: string;
-  type: 'weather' | 'boundary' | 'emergency' | 'fishing' | 'regulatory' | 'demo';
-  title: string;
-  message: string;
-  priority: 'low' | 'medium' | 'high' | 'critical';
-  timestamp: number;
-  location?: {
-    latitude: number;
-    longitude: number;
-  };
-  data?: any;
-  source: 'demo' | 'real' | 'boundary_system';
-  isRead: boolean;
-  dismissedAt?: number;
-}
+import { Storage } from './storage';
+import { evidenceLog } from './evidenceLog';
+import { zoneRegistry } from './zoneRegistry';
+import {
+  AlertTarget,
+  isAlertLive,
+  isInForce,
+  isRevision,
+  isThreadOpen,
+  isUpgrade,
+  reviseAlert,
+  threadHeads,
+  threadKey
+} from '../utils/alerts';
+import type { AlertEscalation, AlertItem, TripPlan } from '../types';
+
+type Place = { lat: number; lon: number };
 
 export interface AlertFilter {
   type?: string[];
@@ -36,22 +39,38 @@ export interface AlertFilter {
   isRead?: boolean;
   startDate?: number;
   endDate?: number;
+  includeInactive?: boolean; // expired, not yet valid, or for an area the boat is not in; left out by default
+}
+
+// An alert that turned active within this time is not announced again, so GPS jitter at an area's edge stays quiet
+const REANNOUNCE_AFTER_MS = 30 * 60 * 1000;
+// Longest wait before validity times are checked again; setTimeout cannot take much more than 24 days
+const MAX_TIMER_MS = 24 * 60 * 60 * 1000;
+
+// Waypoints of a trip in the order they will be sailed
+function tripRoute(trip: TripPlan): Place[] {
+  const order = trip.optimizedOrder ?? trip.waypoints.map((_, index) => index);
+  return order.map(index => trip.waypoints[index]).filter(Boolean);
 }
 
 class AlertStorageService {
-  private static readonly STORAGE_KEY = 'seasure_alerts';
   private static readonly MAX_ALERTS = 100; // Maximum alerts to store
   private static readonly CLEANUP_DAYS = 7; // Days to keep alerts
   
-  private alerts: StoredAlert[] = [];
-  private listeners: ((alerts: StoredAlert[]) => void)[] = [];
+  private alerts: AlertItem[] = [];
+  private loading: Promise<void> | null = null;
+  private listeners: ((alerts: AlertItem[]) => void)[] = [];
+  private activationListeners: ((alert: AlertItem) => void)[] = [];
+  private position: Place | null = null;
+  private route: Place[] | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
 
   /**
    * Initialize the alert storage service
    */
   async initialize(): Promise<void> {
     try {
-      await this.loadAlertsFromStorage();
+      await this.load();
       await this.cleanupOldAlerts();
       console.log('✅ Alert storage service initialized');
     } catch (error) {
@@ -60,15 +79,27 @@ class AlertStorageService {
   }
 
   /**
-   * Store a new alert
+   * Store a new alert; one whose id is already stored is left as it is, and one with the dedup key
+   * of an open thread updates that thread. True when a row was added or a thread got a new version.
    */
-  async storeAlert(alert: Omit<StoredAlert, 'isRead' | 'timestamp'> & { timestamp?: number }): Promise<void> {
-    const newAlert: StoredAlert = {
+  async storeAlert(alert: Omit<AlertItem, 'isRead' | 'timestamp'> & { timestamp?: number }): Promise<boolean> {
+    await this.load();
+    const now = Date.now();
+    const newAlert: AlertItem = {
       ...alert,
-      timestamp: alert.timestamp || Date.now(),
+      timestamp: alert.timestamp || now,
       isRead: false
     };
 
+    // Newest first, so this is the latest thread under the key
+    const thread = alert.dedupKey && this.alerts.find(existing => existing.dedupKey === alert.dedupKey);
+    if (thread && isThreadOpen(thread, now)) return this.updateThread(thread, newAlert, now);
+    // Producers that run repeatedly use stable ids so the same alert is only raised once
+    if (this.alerts.some(existing => existing.id === alert.id)) return false;
+
+    newAlert.active = isAlertLive(newAlert, now, this.target());
+    if (newAlert.active) newAlert.activatedAt = now;
+
     this.alerts.unshift(newAlert); // Add to beginning
     
     // Limit number of stored alerts
@@ -78,16 +109,54 @@ class AlertStorageService {
 
     await this.saveAlertsToStorage();
     this.notifyListeners();
+    await this.logAlert(newAlert);
 
-    console.log(`📦 Stored alert: ${alert.type} - ${alert.title}`);
+    console.log(`📦 Stored alert: ${alert.type} - ${alert.title}${newAlert.active ? '' : ' (not active here yet)'}`);
+    this.scheduleRefresh();
+    return true;
+  }
+
+  /**
+   * Apply an alert raised again to its thread; an upgrade, e.g. a wind warning turned danger, makes it new again.
+   * A dismissed thread stays dismissed unless it gets worse, but still takes the update's details, area and validity.
+   */
+  private async updateThread(thread: AlertItem, update: AlertItem, now: number): Promise<boolean> {
+    const upgrade = isUpgrade(thread.priority, update.priority);
+    // Boundary alerts are only raised as the boat crosses into a worse level, so a critical one is always a new crossing
+    const renewed = upgrade || (!!thread.dismissedAt && update.type === 'boundary' && update.priority === 'critical');
+
+    const revision = isRevision(thread, update);
+    const revised = reviseAlert(thread, update);
+    revised.active = isAlertLive(revised, now, this.target());
+    if (renewed) {
+      revised.isRead = false;
+      delete revised.dismissedAt;
+    }
+    // Escalation counts from activatedAt, so an upgraded danger alert escalates afresh
+    if (revised.active && (renewed || !this.isActive(thread, now))) revised.activatedAt = now;
+
+    this.alerts = this.alerts.map(alert => (alert === thread ? revised : alert)).sort((a, b) => b.timestamp - a.timestamp);
+    await this.saveAlertsToStorage();
+    this.notifyListeners();
+    if (revision) {
+      await this.logAlert(revised, { previousTitle: thread.title, previousPriority: thread.priority });
+      console.log(`🧵 Updated alert: ${thread.title} (${thread.priority}) → ${revised.title} (${revised.priority})`);
+    }
+    this.scheduleRefresh(now);
+    return revision;
   }
 
   /**
    * Get all alerts with optional filtering
    */
-  getAlerts(filter?: AlertFilter): StoredAlert[] {
+  getAlerts(filter?: AlertFilter): AlertItem[] {
     let filteredAlerts = [...this.alerts];
 
+    if (!filter?.includeInactive) {
+      const now = Date.now();
+      filteredAlerts = filteredAlerts.filter(alert => this.isActive(alert, now));
+    }
+
     if (filter) {
       if (filter.type && filter.type.length > 0) {
         filteredAlerts = filteredAlerts.filter(alert => filter.type!.includes(alert.type));
@@ -121,11 +190,13 @@ class AlertStorageService {
    * Mark alert as read
    */
   async markAsRead(alertId: string): Promise<void> {
+    await this.load();
     const alert = this.alerts.find(a => a.id === alertId);
     if (alert && !alert.isRead) {
       alert.isRead = true;
       await this.saveAlertsToStorage();
       this.notifyListeners();
+      await evidenceLog.append('acknowledgement', { alertId, action: 'read' });
     }
   }
 
@@ -133,17 +204,19 @@ class AlertStorageService {
    * Mark all alerts as read
    */
   async markAllAsRead(): Promise<void> {
-    let hasChanges = false;
+    await this.load();
+    const alertIds: string[] = [];
     this.alerts.forEach(alert => {
       if (!alert.isRead) {
         alert.isRead = true;
-        hasChanges = true;
+        alertIds.push(alert.id);
       }
     });
 
-    if (hasChanges) {
+    if (alertIds.length > 0) {
       await this.saveAlertsToStorage();
       this.notifyListeners();
+      await evidenceLog.append('acknowledgement', { alertIds, action: 'read' });
     }
   }
 
@@ -151,18 +224,144 @@ class AlertStorageService {
    * Dismiss an alert
    */
   async dismissAlert(alertId: string): Promise<void> {
+    await this.load();
     const alert = this.alerts.find(a => a.id === alertId);
     if (alert) {
       alert.dismissedAt = Date.now();
       await this.saveAlertsToStorage();
       this.notifyListeners();
+      await evidenceLog.append('acknowledgement', { alertId, action: 'dismissed' });
+    }
+  }
+
+  /**
+   * End an alert its issuer has updated or cancelled; unlike dismissing, nobody on board acknowledged it
+   */
+  async withdrawAlert(alertId: string): Promise<void> {
+    await this.load();
+    const alert = this.alerts.find(a => a.id === alertId);
+    const now = Date.now();
+    if (alert && isInForce(alert, now)) {
+      alert.expiresAt = now;
+      alert.active = false;
+      await this.saveAlertsToStorage();
+      this.notifyListeners();
+    }
+  }
+
+  /**
+   * New boat position from the boundary alert system; alerts for areas it enters turn active
+   */
+  async updatePosition(position: Place): Promise<void> {
+    this.position = position;
+    await this.refreshActive();
+  }
+
+  /**
+   * Choose the trip plan being sailed, or none; alerts for areas on its route are shown
+   */
+  async setActiveTrip(tripId: string | null): Promise<void> {
+    await this.load();
+    await Storage.saveActiveTripId(tripId);
+    await this.loadRoute();
+    await this.refreshActive();
+  }
+
+  async getActiveTripId(): Promise<string | null> {
+    return Storage.getActiveTripId();
+  }
+
+  /**
+   * End the open thread under a dedup key, e.g. as the boat leaves the zone; the next alert starts a new one
+   */
+  async closeThread(dedupKey: string, now: number = Date.now()): Promise<void> {
+    await this.load();
+    const thread = this.alerts.find(alert => alert.dedupKey === dedupKey);
+    if (!thread || thread.closedAt !== undefined) return;
+    thread.closedAt = now;
+    await this.saveAlertsToStorage();
+  }
+
+  /**
+   * A stored alert by id, or else the latest thread under the dedup key
+   */
+  findAlert(alertId: string, dedupKey?: string): AlertItem | undefined {
+    return this.alerts.find(a => a.id === alertId) ?? (dedupKey ? this.alerts.find(a => a.dedupKey === dedupKey) : undefined);
+  }
+
+  /**
+   * Whether a stored alert is currently in force and relevant to the boat
+   */
+  isAlertActive(alertId: string): boolean {
+    const alert = this.alerts.find(a => a.id === alertId);
+    return !!alert && this.isActive(alert, Date.now());
+  }
+
+  /**
+   * Re-check validity and targeting; an alert that turns active again is marked unread and announced
+   */
+  async refreshActive(now: number = Date.now()): Promise<void> {
+    await this.load();
+    const target = this.target();
+    const announced: AlertItem[] = [];
+    let changed = false;
+
+    for (const alert of this.alerts) {
+      const active = isAlertLive(alert, now, target);
+      // Alerts stored before targeting count as active
+      if (active === (alert.active ?? true)) continue;
+      changed = true;
+      alert.active = active;
+      if (!active) continue;
+      if (!alert.activatedAt || now - alert.activatedAt > REANNOUNCE_AFTER_MS) {
+        alert.isRead = false;
+        delete alert.dismissedAt;
+        announced.push(alert);
+      }
+      alert.activatedAt = now;
+    }
+
+    if (changed) {
+      await this.saveAlertsToStorage();
+      this.notifyListeners();
     }
+    for (const alert of announced) {
+      console.log(`🗺️ Alert active here: ${alert.title}`);
+      this.activationListeners.forEach(listener => {
+        try {
+          listener({ ...alert });
+        } catch (error) {
+          console.error('❌ Error in alert activation listener:', error);
+        }
+      });
+    }
+    this.scheduleRefresh(now);
+  }
+
+  /**
+   * Record a step taken because the alert went unacknowledged
+   */
+  async recordEscalation(alertId: string, escalation: AlertEscalation): Promise<void> {
+    await this.load();
+    const alert = this.alerts.find(a => a.id === alertId);
+    if (!alert) return;
+    alert.escalations = [...(alert.escalations ?? []), escalation];
+    await this.saveAlertsToStorage();
+    this.notifyListeners();
+    await evidenceLog.append('escalation', {
+      alertId,
+      step: escalation.step,
+      location: escalation.position && { lat: escalation.position.latitude, lon: escalation.position.longitude },
+      contact: escalation.contact,
+      error: escalation.error
+    });
   }
 
   /**
    * Clear all alerts
    */
   async clearAllAlerts(): Promise<void> {
+    await this.load();
     this.alerts = [];
     await this.saveAlertsToStorage();
     this.notifyListeners();
@@ -170,14 +369,33 @@ class AlertStorageService {
   }
 
   /**
-   * Get unread alert count
+   * Restore alerts from a backup bundle, either replacing or merging by id
+   */
+  async restoreAlerts(alerts: AlertItem[], mode: 'merge' | 'replace'): Promise<void> {
+    await this.load();
+    if (mode === 'replace') {
+      this.alerts = [...alerts];
+    } else {
+      const existingIds = new Set(this.alerts.map(alert => alert.id));
+      this.alerts = [...this.alerts, ...alerts.filter(alert => !existingIds.has(alert.id))];
+    }
+
+    this.alerts.sort((a, b) => b.timestamp - a.timestamp);
+    this.alerts = this.alerts.slice(0, AlertStorageService.MAX_ALERTS);
+
+    await this.saveAlertsToStorage();
+    this.notifyListeners();
+  }
+
+  /**
+   * Get unread alert count, one per thread
    */
   getUnreadCount(): number {
-    return this.alerts.filter(alert => !alert.isRead).length;
+    return new Set(this.getAlerts({ isRead: false }).map(threadKey)).size;
   }
 
   /**
-   * Get alert statistics
+   * Get alert statistics, counting each thread once by its latest version
    */
   getStatistics(): {
     total: number;
@@ -186,15 +404,16 @@ class AlertStorageService {
     byPriority: Record<string, number>;
     bySource: Record<string, number>;
   } {
+    const alerts = threadHeads(this.getAlerts());
     const stats = {
-      total: this.alerts.length,
+      total: alerts.length,
       unread: this.getUnreadCount(),
       byType: {} as Record<string, number>,
       byPriority: {} as Record<string, number>,
       bySource: {} as Record<string, number>
     };
 
-    this.alerts.forEach(alert => {
+    alerts.forEach(alert => {
       // Count by type
       stats.byType[alert.type] = (stats.byType[alert.type] || 0) + 1;
       
@@ -211,7 +430,7 @@ class AlertStorageService {
   /**
    * Add listener for alert updates
    */
-  addListener(callback: (alerts: StoredAlert[]) => void): () => void {
+  addListener(callback: (alerts: AlertItem[]) => void): () => void {
     this.listeners.push(callback);
     
     // Return unsubscribe function
@@ -221,26 +440,89 @@ class AlertStorageService {
   }
 
   /**
-   * Load alerts from AsyncStorage
+   * Called with an alert when it turns active, e.g. as the boat enters its area; for presenting it again
    */
-  private async loadAlertsFromStorage(): Promise<void> {
-    try {
-      const storedData = await AsyncStorage.getItem(AlertStorageService.STORAGE_KEY);
-      if (storedData) {
-        this.alerts = JSON.parse(storedData);
-        console.log(`📱 Loaded ${this.alerts.length} alerts from storage`);
-      }
-    } catch (error) {
-      console.error('❌ Failed to load alerts from storage:', error);
+  addActivationListener(callback: (alert: AlertItem) => void): () => void {
+    this.activationListeners.push(callback);
+    return () => {
+      this.activationListeners = this.activationListeners.filter(listener => listener !== callback);
+    };
+  }
+
+  private async logAlert(alert: AlertItem, extra: Record<string, unknown> = {}): Promise<void> {
+    await evidenceLog.append('alert', {
+      alertId: alert.id,
+      type: alert.type,
+      title: alert.title,
+      message: alert.message,
+      priority: alert.priority,
+      source: alert.source,
+      alertTime: alert.timestamp,
+      location: alert.location && { lat: alert.location.latitude, lon: alert.location.longitude },
+      ...extra
+    });
+  }
+
+  private isActive(alert: AlertItem, now: number): boolean {
+    return alert.active !== false && isInForce(alert, now);
+  }
+
+  private target(): AlertTarget {
+    return {
+      position: this.position,
+      route: this.route,
+      zonePolygon: zoneId => zoneRegistry.getZone(zoneId)?.polygon ?? null
+    };
+  }
+
+  private async loadRoute(): Promise<void> {
+    const tripId = await Storage.getActiveTripId();
+    const trip = tripId ? (await Storage.getTrips()).find(t => t.id === tripId) : undefined;
+    this.route = trip ? tripRoute(trip) : null;
+  }
+
+  /**
+   * Wake up when the next alert becomes valid or expires
+   */
+  private scheduleRefresh(now: number = Date.now()): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    const upcoming = this.alerts
+      .flatMap(alert => [alert.validFrom, alert.expiresAt])
+      .filter((time): time is number => time !== undefined && time > now);
+    if (!upcoming.length) return;
+
+    const delay = Math.min(Math.min(...upcoming) - now, MAX_TIMER_MS);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.refreshActive().catch(error => console.error('❌ Alert validity check failed:', error));
+    }, delay);
+  }
+
+  /**
+   * Load alerts from the record table, once
+   */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = Promise.all([Storage.getAlerts(), this.loadRoute()])
+        .then(([alerts]) => {
+          this.alerts = [...alerts].sort((a, b) => b.timestamp - a.timestamp);
+          console.log(`📱 Loaded ${this.alerts.length} alerts from storage`);
+          this.scheduleRefresh();
+        })
+        .catch(error => {
+          console.error('❌ Failed to load alerts from storage:', error);
+        });
     }
+    return this.loading;
   }
 
   /**
-   * Save alerts to AsyncStorage
+   * Save alerts to the record table
    */
   private async saveAlertsToStorage(): Promise<void> {
     try {
-      await AsyncStorage.setItem(AlertStorageService.STORAGE_KEY, JSON.stringify(this.alerts));
+      await Storage.saveAlerts(this.alerts);
     } catch (error) {
       console.error('❌ Failed to save alerts to storage:', error);
     }
@@ -253,7 +535,8 @@ class AlertStorageService {
     const cutoffTime = Date.now() - (AlertStorageService.CLEANUP_DAYS * 24 * 60 * 60 * 1000);
     const originalCount = this.alerts.length;
     
-    this.alerts = this.alerts.filter(alert => alert.timestamp > cutoffTime);
+    // Long-running alerts such as a seasonal ban are kept for as long as they are valid
+    this.alerts = this.alerts.filter(alert => alert.timestamp > cutoffTime || (alert.expiresAt ?? 0) > Date.now());
     
     if (this.alerts.length < originalCount) {
       await this.saveAlertsToStorage();
@@ -287,45 +570,6 @@ class AlertStorageService {
       source: 'demo'
     });
   }
-
-  /**
-   * Store boundary alert from boundary system
-   */
-  async storeBoundaryAlert(
-    zoneId: string, 
-    zoneName: string, 
-    alertType: string, 
-    distance: number,
-    location: { latitude: number; longitude: number }
-  ): Promise<void> {
-    const titles = {
-      approaching: '⚠️ Approaching Restricted Area',
-      entered: '🚨 Entered Buffer Zone', 
-      violation: '🆘 BOUNDARY VIOLATION'
-    };
-
-    const priorities = {
-      approaching: 'medium',
-      entered: 'high',
-      violation: 'critical'
-    };
-
-    await this.storeAlert({
-      id: `boundary_${zoneId}_${Date.now()}`,
-      type: 'boundary',
-      title: titles[alertType as keyof typeof titles] || 'Boundary Alert',
-      message: `${zoneName}: ${distance.toFixed(0)}m away`,
-      priority: priorities[alertType as keyof typeof priorities] as any || 'medium',
-      location,
-      source: 'boundary_system',
-      data: {
-        zoneId,
-        zoneName,
-        alertType,
-        distance
-      }
-    });
-  }
 }
 
 // Export singleton instance
@@ -1,33 +1,109 @@
-import type { AlertItem } from "../types"
-import { Storage } from "./storage"
+import type { AlertPriority } from "../types"
+import { getSeasonalClosures, ZONES } from "../data/zones"
+import { alertStorage } from "./alertStorage"
+import { ComplianceAlert, productionRegulatoryService } from "./productionRegulatoryService"
+import { closurePeriod, weatherDedupKey } from "../utils/alerts"
 
-export async function listAlerts(): Promise<AlertItem[]> {
-  return Storage.getAlerts()
+// Producers for alerts that are not raised through notificationService or the boundary alert system.
+// Each uses a stable id, so running one again does not repeat an alert already in the repository.
+// Each gives its alert an area and validity, so it is shown only where and while it applies.
+
+const WEATHER_WINDOW_MS = 6 * 60 * 60 * 1000
+// A weather reading describes the sea this far round the place it was taken
+const WEATHER_RADIUS_KM = 50
+// Compliance alerts are fetched for this radius round the boat
+const COMPLIANCE_RADIUS_KM = 50
+// A compliance notice without an end of its own stays current this long after it takes effect
+const COMPLIANCE_NOTICE_MS = 7 * 24 * 60 * 60 * 1000
+
+const slug = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "")
+
+function weatherPriority(warning: string): AlertPriority {
+  if (/thunderstorm|dangerous wind/i.test(warning)) return "critical"
+  if (/high wind|poor visibility/i.test(warning)) return "high"
+  return "medium"
+}
+
+// Seasonal closures of fishing grounds in force on `date`
+export async function raiseSeasonalBanAlerts(date: Date = new Date()) {
+  const today = `${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`
+  for (const zone of ZONES) {
+    for (const closure of getSeasonalClosures(zone)) {
+      const wraps = closure.start > closure.end
+      const inForce = wraps ? today >= closure.start || today <= closure.end : today >= closure.start && today <= closure.end
+      if (!inForce) continue
+      // A closure running over New Year started the year before
+      const year = wraps && today <= closure.end ? date.getFullYear() - 1 : date.getFullYear()
+      await alertStorage.storeAlert({
+        id: `seasonal_ban_${zone.id}_${year}-${closure.start}`,
+        type: "seasonal_ban",
+        title: "Seasonal Ban Notice",
+        message: `${closure.reason}: no fishing in ${zone.name} from ${closure.start} to ${closure.end} (MM-DD).`,
+        priority: "high",
+        source: "real",
+        data: { zoneId: zone.id, ...closure },
+        areas: [{ kind: "zone", zoneId: zone.id, label: zone.name }],
+        ...closurePeriod(closure, year),
+      })
+    }
+  }
 }
 
-export async function addAlert(item: AlertItem) {
-  const items = await Storage.getAlerts()
-  items.unshift(item)
-  await Storage.saveAlerts(items)
+// Warnings from a live weather reading, raised once per warning every six hours; a warning for the same
+// hazard, e.g. high wind turned dangerous, updates the alert already raised
+export async function raiseWeatherWarnings(warnings: string[], position: { lat: number; lon: number }) {
+  const window = Math.floor(Date.now() / WEATHER_WINDOW_MS)
+  for (const warning of warnings) {
+    const [title, advice] = warning.split(" - ")
+    await alertStorage.storeAlert({
+      id: `weather_${slug(title)}_${window}`,
+      type: "weather",
+      title,
+      message: advice ?? warning,
+      priority: weatherPriority(warning),
+      location: { latitude: position.lat, longitude: position.lon },
+      source: "real",
+      areas: [{ kind: "circle", center: position, radiusKm: WEATHER_RADIUS_KM }],
+      expiresAt: (window + 1) * WEATHER_WINDOW_MS,
+      dedupKey: weatherDedupKey(title),
+    })
+  }
 }
 
-export async function markAlertRead(id: string) {
-  const items = await Storage.getAlerts()
-  const updated = items.map((a) => (a.id === id ? { ...a, read: true } : a))
-  await Storage.saveAlerts(updated)
+// Notice of an upcoming ban is current until the ban starts, when the seasonal ban alert takes over;
+// other notices for a week from when they take effect
+function complianceValidity(notice: ComplianceAlert): { validFrom?: number; expiresAt?: number } {
+  const effective = Date.parse(notice.effectiveDate)
+  if (Number.isNaN(effective)) return {}
+  if (notice.type === "ban_upcoming") return { expiresAt: effective }
+  return { validFrom: effective, expiresAt: effective + COMPLIANCE_NOTICE_MS }
 }
 
-export async function seedSeasonalBanIfEmpty() {
-  const items = await Storage.getAlerts()
-  if (items.length === 0) {
-    await addAlert({
-      id: "ban-sample",
-      type: "seasonal-ban",
-      title: "Seasonal Ban Notice",
-      message: "Monsoon trawling ban in effect from June 1 to July 31.",
-      severity: "warn",
-      timestamp: Date.now(),
-      read: false,
+// Regulatory compliance notices covering the boat's position
+export async function raiseComplianceAlerts(position: { lat: number; lon: number }) {
+  const notices = await productionRegulatoryService.getComplianceAlerts({ ...position, radius: COMPLIANCE_RADIUS_KM })
+  for (const notice of notices) {
+    await alertStorage.storeAlert({
+      id: `regulatory_${slug(notice.title)}_${notice.effectiveDate.slice(0, 10)}`,
+      type: notice.type === "ban_upcoming" ? "seasonal_ban" : "regulatory",
+      title: notice.title,
+      message: [notice.description, ...notice.actionRequired].join("\n• "),
+      priority: notice.severity,
+      location: { latitude: notice.applicableArea.lat, longitude: notice.applicableArea.lon },
+      source: "real",
+      areas: [
+        {
+          kind: "circle",
+          center: { lat: notice.applicableArea.lat, lon: notice.applicableArea.lon },
+          radiusKm: notice.applicableArea.radius,
+        },
+      ],
+      ...complianceValidity(notice),
+      data: { authority: notice.source, effectiveDate: notice.effectiveDate, contact: notice.contactInfo },
     })
   }
 }
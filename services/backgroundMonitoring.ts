@@ -0,0 +1,257 @@
+/**
+ * 🌙 Background Boundary Monitoring
+ * Keeps zone and IMBL checks running while the screen is locked or the app is closed
+ *
+ * Features:
+ * - expo-location background updates through an expo-task-manager task
+ * - GPS interval from the adaptive poll scheduler, or the fixed interval in settings
+ * - Fixes reach the boundary alert system and the track recorder through the device location provider
+ * - Android foreground service notification while monitoring runs
+ * - Resumes after an app restart, including a headless start by the OS
+ * - Advances escalation of unacknowledged danger alerts while timers are suspended
+ */
+
+import * as Location from 'expo-location';
+import * as TaskManager from 'expo-task-manager';
+import { Storage } from './storage';
+import { boundaryAlertSystem } from './boundaryAlertSystem';
+import { maritimeBoundaryService } from './maritimeBoundary';
+import { locationSource, toLocationFix } from './locationProvider';
+import { modeConfig } from './modeConfig';
+import { pollScheduler } from './pollScheduler';
+import { alertEscalation } from './alertEscalation';
+import { runStorageMigrations } from './storageMigrations';
+import { zoneImportService } from './zoneImportService';
+import { haversineKm } from '../utils/geo';
+import type { AppSettings, LocationFix } from '../types';
+
+export const BACKGROUND_LOCATION_TASK = 'seasure-background-location';
+// A boat that has moved this far is checked at once, as the foreground watcher does, whatever the poll interval
+const MOVE_TRIGGER_METERS = 50;
+
+// 'background' keeps going with the screen locked; 'foreground' only while the app is open
+export type MonitoringMode = 'background' | 'foreground' | 'denied';
+
+class BackgroundMonitoringService {
+  private running = false;
+  private mode: MonitoringMode = 'denied';
+  private starting: Promise<MonitoringMode> | null = null;
+  private settings: AppSettings | null = null;
+  private lastFix: LocationFix | null = null;
+
+  constructor() {
+    pollScheduler.addListener(seconds => {
+      this.applyInterval(seconds).catch(error => console.error('❌ Failed to change GPS interval:', error));
+    });
+  }
+
+  /**
+   * Start monitoring at the user's request, asking for background location if needed
+   */
+  async start(): Promise<MonitoringMode> {
+    return this.run(true);
+  }
+
+  /**
+   * Pick monitoring back up if it was running when the app last closed; never prompts
+   */
+  async resume(): Promise<boolean> {
+    const state = await Storage.getMonitoringState();
+    if (!state.active) {
+      // A task left running by an earlier install or crash would drain the battery for nothing
+      if (await this.hasStartedUpdates()) await Location.stopLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
+      return false;
+    }
+    if (this.running) return true;
+    const mode = await this.run(false);
+    console.log(`🌙 Resumed boundary monitoring (${mode})`);
+    return mode !== 'denied';
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    this.mode = 'denied';
+    try {
+      if (await this.hasStartedUpdates()) await Location.stopLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
+    } catch (error) {
+      console.error('❌ Failed to stop background location updates:', error);
+    }
+    await locationSource.setBackgroundUpdates(false);
+    pollScheduler.stop();
+    boundaryAlertSystem.stopMonitoring();
+    await boundaryAlertSystem.setPollInterval(null);
+    maritimeBoundaryService.stopBoundaryMonitoring();
+    await Storage.saveMonitoringState({ active: false, startedAt: null, pollSeconds: pollScheduler.getIntervalSeconds() });
+    console.log('🌙 Stopped boundary monitoring');
+  }
+
+  /**
+   * Pass changed settings to the scheduler, restarting location updates if the accuracy changed
+   */
+  async applySettings(settings: AppSettings): Promise<void> {
+    if (!this.running) return;
+    const previous = this.settings;
+    this.settings = settings;
+    pollScheduler.configure(settings);
+    if (this.mode === 'background' && previous?.lowPowerMode !== settings.lowPowerMode) {
+      await this.startUpdates(settings, pollScheduler.getIntervalSeconds());
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  getStatus(): { running: boolean; mode: MonitoringMode; pollSeconds: number } {
+    return { running: this.running, mode: this.mode, pollSeconds: pollScheduler.getIntervalSeconds() };
+  }
+
+  /**
+   * Move every part of monitoring to a new GPS interval
+   */
+  private async applyInterval(seconds: number): Promise<void> {
+    if (!this.running || !this.settings) return;
+    if (this.mode === 'background') await this.startUpdates(this.settings, seconds);
+    await boundaryAlertSystem.setPollInterval(seconds);
+    await maritimeBoundaryService.setTrackingInterval(seconds);
+    const state = await Storage.getMonitoringState();
+    if (state.active) await Storage.saveMonitoringState({ ...state, pollSeconds: seconds });
+  }
+
+  private run(interactive: boolean): Promise<MonitoringMode> {
+    // Startup and the first background fix can both ask to resume at once
+    if (!this.starting) {
+      this.starting = this.startNow(interactive).finally(() => {
+        this.starting = null;
+      });
+    }
+    return this.starting;
+  }
+
+  private async startNow(interactive: boolean): Promise<MonitoringMode> {
+    try {
+      const settings = await Storage.getSettings();
+      this.settings = settings;
+      const state = await Storage.getMonitoringState();
+      const startedAt = state.active && state.startedAt ? state.startedAt : Date.now();
+
+      const foreground = interactive
+        ? await Location.requestForegroundPermissionsAsync()
+        : await Location.getForegroundPermissionsAsync();
+      if (foreground.status !== 'granted') {
+        console.error('❌ Location permission not granted');
+        return 'denied';
+      }
+      const background = interactive
+        ? await Location.requestBackgroundPermissionsAsync()
+        : await Location.getBackgroundPermissionsAsync();
+
+      // The battery budget runs from the start of the trip, not from a restart
+      await pollScheduler.start(settings, startedAt);
+      const seconds = pollScheduler.getIntervalSeconds();
+
+      if (background.status === 'granted') {
+        await this.startUpdates(settings, seconds);
+        await locationSource.setBackgroundUpdates(true);
+        this.mode = 'background';
+      } else {
+        console.warn('⚠️ Background location not granted; monitoring stops when the app is closed');
+        await locationSource.setBackgroundUpdates(false);
+        this.mode = 'foreground';
+      }
+
+      await boundaryAlertSystem.setPollInterval(seconds);
+      await boundaryAlertSystem.startMonitoring();
+      await maritimeBoundaryService.startBoundaryMonitoring({
+        trackingInterval: seconds,
+        highAccuracy: !settings.lowPowerMode,
+        backgroundTracking: this.mode === 'background'
+      });
+
+      this.running = true;
+      await Storage.saveMonitoringState({ active: true, startedAt, pollSeconds: seconds });
+      console.log(`✅ Boundary monitoring running (${this.mode}, every ${seconds}s${settings.adaptivePolling ? ' to start' : ''})`);
+      return this.mode;
+    } catch (error) {
+      console.error('❌ Failed to start boundary monitoring:', error);
+      return 'denied';
+    }
+  }
+
+  private async startUpdates(settings: AppSettings, seconds: number): Promise<void> {
+    const intervalMs = seconds * 1000;
+    // Starting again with the same task name replaces the options of a running task
+    await Location.startLocationUpdatesAsync(BACKGROUND_LOCATION_TASK, {
+      accuracy: settings.lowPowerMode ? Location.Accuracy.Balanced : Location.Accuracy.High,
+      timeInterval: intervalMs,
+      distanceInterval: 0,
+      deferredUpdatesInterval: intervalMs,
+      activityType: Location.ActivityType.OtherNavigation,
+      pausesUpdatesAutomatically: false, // a drifting boat looks stationary but still crosses lines
+      showsBackgroundLocationIndicator: true,
+      foregroundService: {
+        notificationTitle: 'SeaSure boundary monitoring',
+        notificationBody: `Checking restricted zones and the IMBL every ${seconds} seconds`,
+        notificationColor: '#0F766E',
+        killServiceOnDestroy: false
+      }
+    });
+  }
+
+  private async hasStartedUpdates(): Promise<boolean> {
+    try {
+      return await Location.hasStartedLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
+    } catch {
+      return false; // task not registered yet
+    }
+  }
+
+  /**
+   * Fixes delivered by the background task, thinned to one per poll interval unless the boat has moved on
+   */
+  async handleLocations(fixes: LocationFix[]): Promise<void> {
+    if (!this.running) {
+      // Started headless by the OS: the UI, and with it the app initializer, never ran
+      await runStorageMigrations();
+      await modeConfig.initialize();
+      await zoneImportService.initialize();
+      if (!(await this.resume())) return;
+    }
+
+    const due: LocationFix[] = [];
+    for (const fix of [...fixes].sort((a, b) => a.timestamp - b.timestamp)) {
+      // iOS ignores timeInterval and batches freely, so the poll interval is applied here too
+      if (this.lastFix && fix.timestamp - this.lastFix.timestamp < pollScheduler.getIntervalSeconds() * 1000) {
+        if (fix.timestamp <= this.lastFix.timestamp) continue; // no newer than the fix last delivered
+        const movedKm = haversineKm(
+          { lat: this.lastFix.latitude, lon: this.lastFix.longitude },
+          { lat: fix.latitude, lon: fix.longitude }
+        );
+        if (movedKm * 1000 < MOVE_TRIGGER_METERS) continue;
+      }
+      this.lastFix = fix;
+      due.push(fix);
+    }
+    if (due.length) await locationSource.deliverBackgroundFixes(due);
+    // JS timers do not fire while the app is in the background
+    await alertEscalation.checkNow();
+  }
+}
+
+// Export singleton instance
+export const backgroundMonitoring = new BackgroundMonitoringService();
+export default backgroundMonitoring;
+
+// Must be defined when the bundle loads, so a headless start by the OS finds it (see index.js)
+TaskManager.defineTask<{ locations: Location.LocationObject[] }>(BACKGROUND_LOCATION_TASK, async ({ data, error }) => {
+  if (error) {
+    console.error('❌ Background location error:', error.message);
+    return;
+  }
+  if (!data?.locations?.length) return;
+  try {
+    await backgroundMonitoring.handleLocations(data.locations.map(toLocationFix));
+  } catch (taskError) {
+    console.error('❌ Background boundary check failed:', taskError);
+  }
+});
@@ -0,0 +1,545 @@
+/**
+ * 💾 Backup & Restore Service
+ * Moves a fisherman's data between phones as a single JSON bundle
+ *
+ * Features:
+ * - Versioned bundle covering logbook, tracks, alerts, alert rules, imported zones, contacts and settings
+ * - Shared through the system share sheet; restored from a file the user picks
+ * - Boat id, licence and contact number sealed with a backup passphrase, never in plaintext
+ * - SHA-256 checksum to catch truncated or edited files
+ * - Validation before anything is written
+ * - Merge (keep local on id clash) or replace restore modes; a failed replace puts the old data back
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import * as DocumentPicker from 'expo-document-picker';
+import { File, Paths } from 'expo-file-system';
+import i18n from '../i18n';
+import { Storage } from './storage';
+import { SecureStorage } from './secureStorage';
+import { LATEST_SCHEMA_VERSION } from './storageMigrations';
+import { alertStorage } from './alertStorage';
+import { emergencyService, EmergencyContact, EmergencyLog } from './emergencyService';
+import { tutorialManager, TutorialState } from './tutorialManager';
+import { modeConfig } from './modeConfig';
+import { zoneImportService } from './zoneImportService';
+import { alertRulesEngine } from './alertRules';
+import { reviveDates } from '../utils/json';
+import { mergeAlerts } from '../utils/alerts';
+import { shareFile } from '../utils/shareFile';
+import type { BoundaryViolation, GPSTrackingData } from './maritimeBoundary';
+import type { CatchAnalysis } from './fishPrediction';
+import type { SmartTripPlan } from './smartTripPlanning';
+import type { Zone } from '../data/zones';
+import type { Waypoint } from '../data/waypoints';
+import type {
+  AlertItem,
+  AlertRule,
+  AppSettings,
+  CatchLog,
+  SyncQueueEntry,
+  TrackRetentionPolicy,
+  TripPlan,
+} from '../types';
+
+export const BACKUP_FORMAT = 'seasure-backup';
+export const BACKUP_VERSION = 4;
+
+const LANGUAGE_KEY = 'user-language';
+
+export interface BackupProfile {
+  boatId: string;
+  licenseNumber: string;
+  contactNumber: string;
+}
+
+// The evidence logs stay on the phone that recorded them: cfm.evidence_log is signed with a device key that never
+// leaves its Keychain / Keystore, so another phone could not verify it, and cfm.imbl_evidence holds the same IMBL records
+export interface BackupData {
+  catches: CatchLog[];
+  trips: TripPlan[];
+  trackingData: GPSTrackingData[];
+  violations: BoundaryViolation[];
+  alerts: AlertItem[];
+  historicalCatches: CatchAnalysis[];
+  smartTripPlans: SmartTripPlan[];
+  // Version 4 on; empty when restoring an older bundle
+  importedZones: Zone[];
+  importedWaypoints: Waypoint[];
+  alertRules: AlertRule[];
+  activeTripId: string | null; // trip plan being sailed, whose route decides which area alerts show
+  syncQueue: SyncQueueEntry[];
+  settings: AppSettings;
+  trackRetentionPolicy: TrackRetentionPolicy;
+  // Identity details sealed with the backup passphrase; null when the backup was made without one
+  sealedProfile: string | null;
+  // Version 1 and 2 bundles only: identity details in plaintext
+  profile?: BackupProfile;
+  // Version 1 bundles only: the second alert store, folded into alerts on restore
+  storedAlerts?: unknown[];
+  emergencyContacts: EmergencyContact[];
+  emergencyLogs: EmergencyLog[];
+  tutorialState: TutorialState;
+  systemMode: 'MOCK' | 'REAL';
+  language: string | null;
+}
+
+export interface BackupBundle {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  createdAt: number;
+  checksum: string; // SHA-256 of JSON.stringify(data)
+  data: BackupData;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupValidation {
+  valid: boolean;
+  errors: string[];
+  bundle?: BackupBundle;
+  profileRestored?: boolean; // false when the identity details were sealed and no passphrase was given
+}
+
+export interface BackupExport {
+  uri: string;
+  shared: boolean; // false where there is no share sheet; the file is then only in the app's documents
+  profileIncluded: boolean;
+}
+
+// Collections that must be arrays of objects carrying a string id
+const ID_COLLECTIONS: (keyof BackupData)[] = [
+  'catches',
+  'trips',
+  'violations',
+  'alerts',
+  'smartTripPlans',
+  'emergencyContacts',
+  'emergencyLogs',
+];
+// Added in version 4; older bundles restore without them
+const V4_ID_COLLECTIONS: (keyof BackupData)[] = ['importedZones', 'importedWaypoints', 'alertRules'];
+const PLAIN_COLLECTIONS: (keyof BackupData)[] = ['trackingData', 'historicalCatches', 'syncQueue'];
+
+function mergeById<T extends { id: string }>(local: T[], incoming: T[]): T[] {
+  const ids = new Set(local.map(item => item.id));
+  return [...local, ...incoming.filter(item => !ids.has(item.id))];
+}
+
+function isProfile(value: any): value is BackupProfile {
+  return (
+    !!value &&
+    typeof value.boatId === 'string' &&
+    typeof value.licenseNumber === 'string' &&
+    typeof value.contactNumber === 'string'
+  );
+}
+
+function isTutorialState(value: any): value is TutorialState {
+  return (
+    !!value &&
+    typeof value.onboardingCompleted === 'boolean' &&
+    !!value.featuresIntroduced &&
+    typeof value.featuresIntroduced === 'object' &&
+    typeof value.lastTutorialVersion === 'string'
+  );
+}
+
+const RETENTION_FIELDS: (keyof TrackRetentionPolicy)[] = [
+  'fullResolutionHours',
+  'maxAgeDays',
+  'protectedMaxAgeDays',
+  'maxPoints',
+  'toleranceMeters',
+  'protectWindowMinutes',
+];
+
+function isRetentionPolicy(value: any): value is TrackRetentionPolicy {
+  return !!value && RETENTION_FIELDS.every(field => typeof value[field] === 'number' && value[field] >= 0);
+}
+
+function trackKey(point: GPSTrackingData): string {
+  return `${new Date(point.timestamp).getTime()}:${point.location.lat}:${point.location.lon}`;
+}
+
+// Analyses carry no id; one per species, place and time
+function analysisKey(analysis: CatchAnalysis): string {
+  return `${new Date(analysis.timestamp).getTime()}:${analysis.location.lat}:${analysis.location.lon}:${analysis.species}`;
+}
+
+class BackupService {
+  /**
+   * Collect everything worth moving to a new phone into a bundle.
+   * Identity details only go in sealed with the passphrase; without one they are left out.
+   */
+  async createBackup(options: { passphrase?: string } = {}): Promise<BackupBundle> {
+    const { data, profile } = await this.snapshot();
+    if (options.passphrase) {
+      data.sealedProfile = await SecureStorage.seal(JSON.stringify(profile), options.passphrase);
+    }
+
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      schemaVersion: LATEST_SCHEMA_VERSION,
+      createdAt: Date.now(),
+      checksum: await this.checksum(data),
+      data,
+    };
+  }
+
+  /**
+   * Write a fresh backup to the app's documents and offer it to the share sheet, to save or send it off the phone
+   */
+  async exportToFile(options: { passphrase?: string } = {}): Promise<BackupExport> {
+    const bundle = await this.createBackup(options);
+    const stamp = new Date(bundle.createdAt).toISOString().replace(/[:.]/g, '-');
+    const file = new File(Paths.document, `seasure-backup-${stamp}.json`);
+    file.create({ overwrite: true });
+    file.write(JSON.stringify(bundle));
+    console.log(`💾 Backup written to ${file.uri}`);
+
+    const shared = await shareFile(file.uri, {
+      mimeType: 'application/json',
+      title: 'Save SeaSure backup',
+      uti: 'public.json',
+    });
+    return { uri: file.uri, shared, profileIncluded: bundle.data.sealedProfile !== null };
+  }
+
+  /**
+   * Let the user choose a backup file, e.g. from Drive, WhatsApp or Files; null when they cancel
+   */
+  async pickBackupFile(): Promise<string | null> {
+    const picked = await DocumentPicker.getDocumentAsync({ type: '*/*', copyToCacheDirectory: true });
+    if (picked.canceled || !picked.assets?.length) return null;
+    return picked.assets[0].uri;
+  }
+
+  /**
+   * Read and restore a bundle previously written by exportToFile
+   */
+  async importFromFile(uri: string, mode: RestoreMode, options: { passphrase?: string } = {}): Promise<BackupValidation> {
+    const text = await new File(uri).text();
+    return this.restoreBackup(text, mode, options);
+  }
+
+  /**
+   * Check a bundle's format, version, checksum and shape without writing anything
+   */
+  async validateBackup(input: string | unknown): Promise<BackupValidation> {
+    const errors: string[] = [];
+    let parsed: any;
+
+    try {
+      parsed = typeof input === 'string' ? JSON.parse(input) : input;
+    } catch {
+      return { valid: false, errors: ['Backup is not valid JSON'] };
+    }
+
+    if (!parsed || parsed.format !== BACKUP_FORMAT) {
+      return { valid: false, errors: ['Not a SeaSure backup file'] };
+    }
+    if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+      errors.push(`Unsupported backup version ${parsed.version}; please update the app`);
+    }
+    if (typeof parsed.schemaVersion !== 'number' || parsed.schemaVersion > LATEST_SCHEMA_VERSION) {
+      errors.push('Backup was made by a newer version of the app');
+    }
+    if (!parsed.data || typeof parsed.data !== 'object') {
+      return { valid: false, errors: [...errors, 'Backup has no data section'] };
+    }
+
+    if (parsed.checksum !== (await this.checksum(parsed.data))) {
+      errors.push('Checksum mismatch: the file is damaged or was edited');
+    }
+
+    const { data } = parsed;
+    for (const field of ID_COLLECTIONS) {
+      const items = data[field];
+      if (!Array.isArray(items)) {
+        errors.push(`${field} is missing`);
+      } else if (items.some((item: any) => !item || typeof item.id !== 'string')) {
+        errors.push(`${field} contains records without an id`);
+      }
+    }
+    for (const field of parsed.version >= 4 ? V4_ID_COLLECTIONS : []) {
+      const items = data[field];
+      if (!Array.isArray(items)) {
+        errors.push(`${field} is missing`);
+      } else if (items.some((item: any) => !item || typeof item.id !== 'string')) {
+        errors.push(`${field} contains records without an id`);
+      }
+    }
+    for (const field of PLAIN_COLLECTIONS) {
+      if (!Array.isArray(data[field])) errors.push(`${field} is missing`);
+    }
+    if (!data.settings || typeof data.settings.gpsPollSeconds !== 'number') {
+      errors.push('settings are missing');
+    }
+    if (!isRetentionPolicy(data.trackRetentionPolicy)) {
+      errors.push('trackRetentionPolicy is missing or incomplete');
+    }
+    if (!isTutorialState(data.tutorialState)) {
+      errors.push('tutorialState is missing or incomplete');
+    }
+    if (parsed.version >= 3) {
+      if (data.sealedProfile !== null && !SecureStorage.isSealed(data.sealedProfile)) {
+        errors.push('The sealed identity details are damaged');
+      }
+    } else if (!isProfile(data.profile)) {
+      errors.push('profile is missing or incomplete');
+    }
+    if (parsed.version >= 4 && data.activeTripId !== null && typeof data.activeTripId !== 'string') {
+      errors.push('activeTripId is invalid');
+    }
+    if (data.systemMode !== 'MOCK' && data.systemMode !== 'REAL') {
+      errors.push('systemMode is missing');
+    }
+    if (data.language !== null && typeof data.language !== 'string') {
+      errors.push('language is invalid');
+    }
+
+    return errors.length > 0 ? { valid: false, errors } : { valid: true, errors, bundle: parsed as BackupBundle };
+  }
+
+  /**
+   * Validate and apply a bundle. Nothing is written unless validation passes,
+   * and a replace that fails part way puts the phone's previous data back.
+   */
+  async restoreBackup(
+    input: string | unknown,
+    mode: RestoreMode,
+    options: { passphrase?: string } = {}
+  ): Promise<BackupValidation> {
+    const validation = await this.validateBackup(
+      typeof input === 'string' ? input : JSON.stringify(input)
+    );
+    if (!validation.valid || !validation.bundle) return validation;
+
+    // Re-read with date revival so tracks and violations get real Date objects back
+    const data: BackupData = JSON.parse(JSON.stringify(validation.bundle.data), reviveDates);
+    data.importedZones = data.importedZones ?? [];
+    data.importedWaypoints = data.importedWaypoints ?? [];
+    data.alertRules = data.alertRules ?? [];
+    data.activeTripId = data.activeTripId ?? null;
+
+    let profile = data.profile ?? null;
+    if (data.sealedProfile && options.passphrase) {
+      const opened = await SecureStorage.unseal(data.sealedProfile, options.passphrase);
+      if (opened === null) return { valid: false, errors: ['Wrong backup passphrase'] };
+      const parsed = JSON.parse(opened);
+      if (!isProfile(parsed)) return { valid: false, errors: ['The sealed identity details are damaged'] };
+      profile = parsed;
+    }
+
+    if (mode === 'replace') {
+      const previous = await this.snapshot();
+      try {
+        await this.replaceAll(data, profile);
+      } catch (error) {
+        console.error('❌ Restore failed, putting the previous data back:', error);
+        try {
+          await this.replaceAll(previous.data, previous.profile);
+        } catch (rollbackError) {
+          console.error('❌ Failed to put the previous data back:', rollbackError);
+        }
+        return { valid: false, errors: ['Restore failed part way; the data on this phone was put back as it was'] };
+      }
+    } else {
+      await this.mergeAll(data, profile);
+      // Alerts go through the repository, which keeps them in memory as well
+      await alertStorage.restoreAlerts(mergeAlerts(data.alerts, data.storedAlerts ?? []), mode);
+      // The trip being sailed on this phone wins; the bundle's only fills in for none
+      if (data.activeTripId && !(await alertStorage.getActiveTripId())) {
+        await alertStorage.setActiveTrip(data.activeTripId);
+      }
+      if (!tutorialManager.getTutorialState().onboardingCompleted) {
+        await tutorialManager.restoreTutorialState(data.tutorialState);
+      }
+    }
+
+    console.log(`💾 Backup from ${new Date(validation.bundle.createdAt).toLocaleString()} restored (${mode})`);
+    return { ...validation, profileRestored: profile !== null };
+  }
+
+  /**
+   * Everything a backup holds, as it is on this phone now; the identity details are kept apart
+   */
+  private async snapshot(): Promise<{ data: BackupData; profile: BackupProfile }> {
+    const [
+      catches,
+      trips,
+      trackingData,
+      violations,
+      alerts,
+      historicalCatches,
+      smartTripPlans,
+      importedZones,
+      importedWaypoints,
+      alertRules,
+      activeTripId,
+      syncQueue,
+      settings,
+      trackRetentionPolicy,
+      boatId,
+      licenseNumber,
+      contactNumber,
+      emergencyContacts,
+      emergencyLogs,
+      tutorialState,
+      language,
+    ] = await Promise.all([
+      Storage.getCatches(),
+      Storage.getTrips(),
+      Storage.getTrackingData(),
+      Storage.getViolations(),
+      Storage.getAlerts(),
+      Storage.getHistoricalCatches(),
+      Storage.getSmartTripPlans(),
+      Storage.getImportedZones(),
+      Storage.getImportedWaypoints(),
+      Storage.getAlertRules(),
+      Storage.getActiveTripId(),
+      Storage.getSyncQueue(),
+      Storage.getSettings(),
+      Storage.getTrackRetentionPolicy(),
+      Storage.getBoatId(),
+      Storage.getLicenseNumber(),
+      Storage.getContactNumber(),
+      emergencyService.getEmergencyContacts(),
+      emergencyService.getEmergencyLogs(),
+      tutorialManager.loadTutorialState(),
+      AsyncStorage.getItem(LANGUAGE_KEY),
+    ]);
+
+    return {
+      data: {
+        catches,
+        trips,
+        trackingData,
+        violations,
+        alerts,
+        historicalCatches,
+        smartTripPlans,
+        importedZones,
+        importedWaypoints,
+        alertRules,
+        activeTripId,
+        syncQueue,
+        settings,
+        trackRetentionPolicy,
+        sealedProfile: null,
+        emergencyContacts,
+        emergencyLogs,
+        tutorialState,
+        systemMode: modeConfig.getCurrentMode(),
+        language,
+      },
+      profile: { boatId, licenseNumber, contactNumber },
+    };
+  }
+
+  /**
+   * Overwrite everything with the bundle's data; identity details are only touched when the bundle has them
+   */
+  private async replaceAll(data: BackupData, profile: BackupProfile | null): Promise<void> {
+    // Restored records keep their own sync state; they must not be re-queued wholesale
+    await Storage.saveCatches(data.catches, { skipSyncQueue: true });
+    await Storage.saveTrips(data.trips, { skipSyncQueue: true });
+    await Storage.saveSyncQueue(data.syncQueue);
+    await Storage.saveTrackingData(data.trackingData);
+    await Storage.saveViolations(data.violations);
+    await Storage.saveHistoricalCatches(data.historicalCatches);
+    await Storage.saveSmartTripPlans(data.smartTripPlans);
+    // Through the service, so boundary monitoring picks the zones up straight away
+    await zoneImportService.restoreImports(data.importedZones, data.importedWaypoints, 'replace');
+    await alertRulesEngine.restoreRules(data.alertRules, 'replace');
+    await Storage.saveSettings(data.settings);
+    await Storage.saveTrackRetentionPolicy(data.trackRetentionPolicy);
+    if (profile) {
+      await Storage.saveBoatId(profile.boatId);
+      await Storage.saveLicenseNumber(profile.licenseNumber);
+      await Storage.saveContactNumber(profile.contactNumber);
+    }
+    await emergencyService.saveEmergencyContacts(data.emergencyContacts);
+    await emergencyService.saveEmergencyLogs(data.emergencyLogs);
+    await alertStorage.restoreAlerts(mergeAlerts(data.alerts, data.storedAlerts ?? []), 'replace');
+    await alertStorage.setActiveTrip(data.activeTripId);
+    await tutorialManager.restoreTutorialState(data.tutorialState);
+    await modeConfig.setMode(data.systemMode);
+    if (data.language) {
+      await AsyncStorage.setItem(LANGUAGE_KEY, data.language);
+      await i18n.changeLanguage(data.language);
+    }
+  }
+
+  private async mergeAll(data: BackupData, profile: BackupProfile | null): Promise<void> {
+    const [catches, trips, syncQueue, tracking, violations, historical, plans, contacts, logs] =
+      await Promise.all([
+        Storage.getCatches(),
+        Storage.getTrips(),
+        Storage.getSyncQueue(),
+        Storage.getTrackingData(),
+        Storage.getViolations(),
+        Storage.getHistoricalCatches(),
+        Storage.getSmartTripPlans(),
+        emergencyService.getEmergencyContacts(),
+        emergencyService.getEmergencyLogs(),
+      ]);
+
+    await Storage.saveCatches(mergeById(catches, data.catches), { skipSyncQueue: true });
+    await Storage.saveTrips(mergeById(trips, data.trips), { skipSyncQueue: true });
+
+    const queued = new Set(syncQueue.map(e => `${e.kind}:${e.recordId}`));
+    await Storage.saveSyncQueue([
+      ...syncQueue,
+      ...data.syncQueue.filter(e => !queued.has(`${e.kind}:${e.recordId}`)),
+    ]);
+
+    const knownPoints = new Set(tracking.map(trackKey));
+    await Storage.saveTrackingData(
+      [...tracking, ...data.trackingData.filter(p => !knownPoints.has(trackKey(p)))].sort(
+        (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+      )
+    );
+
+    await Storage.saveViolations(mergeById(violations, data.violations));
+    const knownAnalyses = new Set(historical.map(analysisKey));
+    await Storage.saveHistoricalCatches([
+      ...historical,
+      ...data.historicalCatches.filter(analysis => !knownAnalyses.has(analysisKey(analysis))),
+    ]);
+    await Storage.saveSmartTripPlans(mergeById(plans, data.smartTripPlans));
+    await zoneImportService.restoreImports(data.importedZones, data.importedWaypoints, 'merge');
+    await alertRulesEngine.restoreRules(data.alertRules, 'merge');
+
+    // A primary contact already set on this phone stays primary
+    const hasPrimary = contacts.some(c => c.isPrimary);
+    await emergencyService.saveEmergencyContacts(
+      mergeById(
+        contacts,
+        data.emergencyContacts.map(c => (hasPrimary ? { ...c, isPrimary: false } : c))
+      )
+    );
+    await emergencyService.saveEmergencyLogs(
+      mergeById(logs, data.emergencyLogs).sort((a, b) => b.timestamp - a.timestamp)
+    );
+
+    // Only fill identity details this phone does not have yet
+    if (!profile) return;
+    if (!(await Storage.getBoatId())) await Storage.saveBoatId(profile.boatId);
+    if (!(await Storage.getLicenseNumber())) await Storage.saveLicenseNumber(profile.licenseNumber);
+    if (!(await Storage.getContactNumber())) await Storage.saveContactNumber(profile.contactNumber);
+  }
+
+  private async checksum(data: unknown): Promise<string> {
+    return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, JSON.stringify(data));
+  }
+}
+
+// Export singleton instance
+export const backupService = new BackupService();
+export default backupService;
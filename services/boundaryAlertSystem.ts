@@ -4,6 +4,9 @@
  * 
  * Features:
  * - Real-time boundary monitoring
+ * - Predictive alerts from course and speed over ground
+ * - GPS jitter filtering with per-zone hysteresis and dwell times
+ * - IMBL escalation: warning, then siren with vibration, then emergency contacts
  * - Loud buzzer sounds for violations
  * - Different alert levels and sounds
  * - Demo mode for judges
@@ -11,9 +14,22 @@
  */
 
 import { Audio } from 'expo-av';
-import * as Location from 'expo-location';
+import { Vibration } from 'react-native';
 import { notificationService } from './notificationService';
 import { alertStorage } from './alertStorage';
+import { alertRulesEngine } from './alertRules';
+import { emergencyService } from './emergencyService';
+import { Storage } from './storage';
+import { evidenceLog } from './evidenceLog';
+import { zoneRegistry, RegistryZone, ZoneHysteresis, ZoneKind } from './zoneRegistry';
+import { boundaryDedupKey } from '../utils/alerts';
+import { compassPoint, firstEdgeCrossing } from '../utils/geodesy';
+import { ImblAssessment, imblStage, isHigherImblStage, nearestImbl } from '../utils/imbl';
+import { estimateMotion, Motion } from '../utils/motion';
+import { FilteredFix, PositionFilter } from '../utils/positionFilter';
+import { locationSource } from './locationProvider';
+import { pollScheduler } from './pollScheduler';
+import type { ImblEvidence, ImblStage, LocationFix } from '../types';
 
 export interface BoundaryZone {
   id: string;
@@ -23,16 +39,23 @@ export interface BoundaryZone {
     latitude: number;
     longitude: number;
   }[];
+  holes?: {
+    latitude: number;
+    longitude: number;
+  }[][]; // Areas inside the zone that are excluded from it
   alertDistance: number; // Distance in meters to trigger warning
   severity: 'warning' | 'critical' | 'emergency';
   description: string;
+  hysteresis?: ZoneHysteresis;
 }
 
+export type BoundaryAlertType = 'approaching' | 'entered' | 'violation' | 'predicted' | 'imbl';
+
 export interface BoundaryAlert {
   id: string;
   zoneId: string;
   zoneName: string;
-  type: 'approaching' | 'entered' | 'violation';
+  type: BoundaryAlertType;
   severity: 'warning' | 'critical' | 'emergency';
   distance: number;
   timestamp: number;
@@ -40,13 +63,95 @@ export interface BoundaryAlert {
     latitude: number;
     longitude: number;
   };
+  prediction?: CrossingPrediction; // set for 'predicted' alerts
+  imbl?: ImblAlertDetails; // set for 'imbl' alerts
+}
+
+export interface CrossingPrediction {
+  minutesToCrossing: number;
+  courseDeg: number;
+  speedKnots: number;
+  crossingPoint: { latitude: number; longitude: number };
+}
+
+export interface ImblAlertDetails {
+  stage: ImblStage;
+  neighbour: string;
+  onForeignSide: boolean;
+  bearingToIndiaDeg: number;
+}
+
+// How registry zone kinds show up in boundary alerts
+const REGISTRY_KIND_TYPES: Partial<Record<ZoneKind, BoundaryZone['type']>> = {
+  international_boundary: 'international',
+  protected: 'protected',
+  military: 'military',
+  no_fishing: 'no_fishing',
+  seasonal_ban: 'no_fishing'
+};
+
+// Zones without their own warning distance still get a short approach warning
+const MIN_ALERT_DISTANCE_METERS = 500;
+
+// How far ahead the current course is projected, and how warning severity rises as the crossing nears
+const PREDICTION_HORIZON_MINUTES = 15;
+const PREDICTION_SEVERITY_MINUTES: { maxMinutes: number; severity: BoundaryAlert['severity'] }[] = [
+  { maxMinutes: 3, severity: 'emergency' },
+  { maxMinutes: 7, severity: 'critical' },
+  { maxMinutes: PREDICTION_HORIZON_MINUTES, severity: 'warning' }
+];
+
+// Fixes kept for estimating course and speed over ground
+const MOTION_WINDOW_MS = 2 * 60 * 1000;
+
+// The more serious the zone, the sooner it alerts; all of them need a clear margin and time to clear
+const DEFAULT_HYSTERESIS: Record<BoundaryZone['severity'], ZoneHysteresis> = {
+  emergency: { enterMeters: 0, exitMeters: 75, enterDwellSeconds: 0, exitDwellSeconds: 30 },
+  critical: { enterMeters: 10, exitMeters: 50, enterDwellSeconds: 5, exitDwellSeconds: 30 },
+  warning: { enterMeters: 20, exitMeters: 50, enterDwellSeconds: 10, exitDwellSeconds: 45 }
+};
+
+type AlertLevel = { type: BoundaryAlertType; severity: BoundaryAlert['severity'] } | null;
+
+// Per-zone alert state; a change of level waits in `pending` until its dwell time has passed
+interface ZoneAlertState {
+  zone: BoundaryZone;
+  level: AlertLevel;
+  pending: { level: AlertLevel; since: number } | null;
+}
+
+// IMBL stages: severity, siren vibration (1 s on, 0.5 s off, repeating) and evidence logging
+const IMBL_SEVERITY: Record<ImblStage, BoundaryAlert['severity']> = {
+  warning: 'critical',
+  siren: 'emergency',
+  contacts: 'emergency'
+};
+const IMBL_VIBRATION_PATTERN = [0, 1000, 500];
+const IMBL_TRACK_WINDOW_MS = 30 * 60 * 1000; // raw fixes kept for each evidence record
+const IMBL_EVIDENCE_INTERVAL_MS = 5 * 60 * 1000; // an ongoing IMBL alert is logged this often
+const IMBL_CONTACTS_COOLDOWN_MS = 30 * 60 * 1000; // contacts are not messaged again for the same line sooner
+
+const PREDICTED_RANK: Record<BoundaryAlert['severity'], number> = { warning: 2, critical: 3, emergency: 4 };
+
+function levelRank(level: AlertLevel): number {
+  if (!level) return 0;
+  switch (level.type) {
+    case 'approaching': return 1;
+    case 'predicted': return PREDICTED_RANK[level.severity];
+    case 'entered': return 5;
+    case 'violation':
+    case 'imbl': return 6; // IMBL alerts keep their own stages and never reach zone state
+  }
 }
 
 class MaritimeBoundaryAlertSystem {
   private isInitialized = false;
   private isMonitoring = false;
-  private currentLocation: Location.LocationObject | null = null;
+  private currentLocation: LocationFix | null = null;
+  private unsubscribeLocation: (() => void) | null = null;
+  private pollIntervalSeconds: number | null = null; // set by background monitoring; null for the 5 s / 50 m default
   private boundaryZones: BoundaryZone[] = [];
+  private maxAlertDistance = MIN_ALERT_DISTANCE_METERS; // meters; search radius for nearby zones
   
   // Sound objects
   private warningSound: Audio.Sound | null = null;
@@ -56,7 +161,18 @@ class MaritimeBoundaryAlertSystem {
   
   // Alert state
   private activeAlerts: Map<string, BoundaryAlert> = new Map();
+  private alertListeners: ((alert: BoundaryAlert) => void)[] = [];
   private lastAlertTime: Map<string, number> = new Map();
+  private recentFixes: { lat: number; lon: number; timestamp: number }[] = [];
+  private positionFilter = new PositionFilter();
+  private zoneStates: Map<string, ZoneAlertState> = new Map();
+
+  // IMBL escalation state
+  private imbl: { lineId: string; stage: ImblStage } | null = null;
+  private imblTrack: ImblEvidence['track'] = [];
+  private lastImblEvidenceAt = 0;
+  private imblContactsNotifiedAt: Map<string, number> = new Map();
+  private sirenActive = false;
   
   /**
    * Initialize the boundary alert system
@@ -79,6 +195,11 @@ class MaritimeBoundaryAlertSystem {
       
       // Setup boundary zones
       this.setupBoundaryZones();
+
+      // Follow the location source, e.g. when a recorded track replay starts or stops
+      locationSource.addListener(() => {
+        if (this.isMonitoring) this.subscribeToLocation().catch(error => console.error('❌ Failed to switch location provider:', error));
+      });
       
       this.isInitialized = true;
       console.log('✅ Maritime Boundary Alert System initialized');
@@ -138,71 +259,42 @@ class MaritimeBoundaryAlertSystem {
   }
 
   /**
-   * Setup predefined boundary zones around Mumbai coast
+   * Load the zones to watch from the shared zone registry
    */
   private setupBoundaryZones(): void {
-    this.boundaryZones = [
-      {
-        id: 'intl_waters_west',
-        name: 'International Waters - West',
-        type: 'international',
-        coordinates: [
-          { latitude: 19.2000, longitude: 72.7000 },
-          { latitude: 19.2000, longitude: 72.6000 },
-          { latitude: 18.8000, longitude: 72.6000 },
-          { latitude: 18.8000, longitude: 72.7000 }
-        ],
-        alertDistance: 5000, // 5 km warning
-        severity: 'emergency',
-        description: 'International waters - crossing prohibited without proper documentation'
-      },
-      {
-        id: 'marine_protected_area',
-        name: 'Marine Protected Area',
-        type: 'protected',
-        coordinates: [
-          { latitude: 19.1500, longitude: 72.8200 },
-          { latitude: 19.1500, longitude: 72.8800 },
-          { latitude: 19.1000, longitude: 72.8800 },
-          { latitude: 19.1000, longitude: 72.8200 }
-        ],
-        alertDistance: 2000, // 2 km warning
-        severity: 'critical',
-        description: 'Protected marine sanctuary - fishing prohibited'
-      },
-      {
-        id: 'naval_restricted_zone',
-        name: 'Naval Restricted Zone',
-        type: 'military',
-        coordinates: [
-          { latitude: 18.9500, longitude: 72.8300 },
-          { latitude: 18.9500, longitude: 72.8600 },
-          { latitude: 18.9200, longitude: 72.8600 },
-          { latitude: 18.9200, longitude: 72.8300 }
-        ],
-        alertDistance: 3000, // 3 km warning
-        severity: 'emergency',
-        description: 'Naval operations area - entry strictly prohibited'
-      },
-      {
-        id: 'no_fishing_zone',
-        name: 'Breeding Ground - No Fishing',
-        type: 'no_fishing',
-        coordinates: [
-          { latitude: 19.0800, longitude: 72.8500 },
-          { latitude: 19.0800, longitude: 72.8900 },
-          { latitude: 19.0500, longitude: 72.8900 },
-          { latitude: 19.0500, longitude: 72.8500 }
-        ],
-        alertDistance: 1500, // 1.5 km warning
-        severity: 'warning',
-        description: 'Fish breeding area - no fishing during breeding season'
-      }
-    ];
+    this.refreshBoundaryZones();
+    zoneRegistry.addListener(() => this.refreshBoundaryZones());
     
     console.log(`📍 Loaded ${this.boundaryZones.length} boundary zones`);
   }
 
+  /**
+   * Watch every zone that is closed to fishing right now; seasonal closures change over time
+   */
+  private refreshBoundaryZones(): void {
+    this.boundaryZones = zoneRegistry
+      .getZones({ restrictedAt: new Date(locationSource.now()) })
+      .map(zone => this.toBoundaryZone(zone));
+    // Zones closed later in the season still need to be found, so size the search on all zones
+    this.maxAlertDistance = zoneRegistry
+      .getZones()
+      .reduce((max, zone) => Math.max(max, zone.warningDistanceKm * 1000), MIN_ALERT_DISTANCE_METERS);
+  }
+
+  private toBoundaryZone(zone: RegistryZone): BoundaryZone {
+    return {
+      id: zone.id,
+      name: zone.name,
+      type: REGISTRY_KIND_TYPES[zone.kind] ?? 'restricted',
+      coordinates: zone.polygon.outer.map(p => ({ latitude: p.lat, longitude: p.lon })),
+      holes: zone.polygon.holes?.map(ring => ring.map(p => ({ latitude: p.lat, longitude: p.lon }))),
+      alertDistance: Math.max(zone.warningDistanceKm * 1000, MIN_ALERT_DISTANCE_METERS),
+      severity: zone.severity === 'info' ? 'warning' : zone.severity,
+      description: zone.description ?? zone.name,
+      hysteresis: zone.hysteresis
+    };
+  }
+
   /**
    * Start monitoring current location against boundaries
    */
@@ -218,28 +310,15 @@ class MaritimeBoundaryAlertSystem {
 
     try {
       // Request location permissions
-      const { status } = await Location.requestForegroundPermissionsAsync();
-      if (status !== 'granted') {
+      if (!(await locationSource.provider.requestPermissions())) {
         console.error('❌ Location permission not granted');
         return;
       }
 
       this.isMonitoring = true;
+      await this.subscribeToLocation();
       console.log('📡 Started boundary monitoring');
 
-      // Start location tracking
-      await Location.watchPositionAsync(
-        {
-          accuracy: Location.Accuracy.High,
-          timeInterval: 5000, // Check every 5 seconds
-          distanceInterval: 50, // Or when moved 50 meters
-        },
-        (location) => {
-          this.currentLocation = location;
-          this.checkBoundaries(location);
-        }
-      );
-
     } catch (error) {
       console.error('❌ Failed to start monitoring:', error);
       this.isMonitoring = false;
@@ -251,81 +330,498 @@ class MaritimeBoundaryAlertSystem {
    */
   stopMonitoring(): void {
     this.isMonitoring = false;
+    this.unsubscribeLocation?.();
+    this.unsubscribeLocation = null;
+    this.imbl = null;
+    // Zone levels belong to the track just watched; the next start begins clear
+    this.zoneStates.clear();
+    this.activeAlerts.clear();
+    this.lastAlertTime.clear();
+    this.stopImblSiren();
     this.stopAllSounds();
     console.log('🛑 Stopped boundary monitoring');
   }
 
+  /**
+   * Check once per interval instead of every 5 seconds or 50 meters; null restores the default
+   */
+  async setPollInterval(seconds: number | null): Promise<void> {
+    if (seconds === this.pollIntervalSeconds) return;
+    this.pollIntervalSeconds = seconds;
+    // Same provider and track, so the filter and motion history stay valid
+    if (this.isMonitoring) await this.subscribeToLocation({ keepState: true });
+  }
+
+  /**
+   * (Re)subscribe to the current location provider with fresh filter state
+   */
+  private async subscribeToLocation(options: { keepState?: boolean } = {}): Promise<void> {
+    this.unsubscribeLocation?.();
+    if (!options.keepState) {
+      this.positionFilter.reset();
+      this.recentFixes = [];
+      this.imblTrack = [];
+    }
+    this.unsubscribeLocation = await locationSource.provider.watchPosition(
+      this.pollIntervalSeconds !== null
+        ? { intervalMs: this.pollIntervalSeconds * 1000, highAccuracy: true }
+        : {
+            intervalMs: 5000, // Check every 5 seconds
+            distanceMeters: 50, // Or when moved 50 meters
+            highAccuracy: true
+          },
+      fix => {
+        this.currentLocation = fix;
+        return this.checkBoundaries(fix);
+      }
+    );
+  }
+
   /**
    * Check current location against all boundary zones
    */
-  private async checkBoundaries(location: Location.LocationObject): Promise<void> {
-    const currentPos = {
-      latitude: location.coords.latitude,
-      longitude: location.coords.longitude
-    };
+  private async checkBoundaries(location: LocationFix): Promise<void> {
+    // Evidence keeps what the GPS reported, before any filtering
+    this.recordImblTrack(location);
 
-    for (const zone of this.boundaryZones) {
-      const distance = this.getDistanceToZone(currentPos, zone);
-      const alertType = this.determineAlertType(distance, zone);
-      
-      if (alertType) {
-        await this.handleBoundaryAlert(zone, alertType, distance, currentPos);
-      } else {
-        // Clear any existing alert for this zone
-        this.clearZoneAlert(zone.id);
+    // Noisy, stale and low-accuracy fixes never reach the zone checks
+    const filtered = this.positionFilter.update({
+      lat: location.latitude,
+      lon: location.longitude,
+      timestamp: location.timestamp,
+      accuracyMeters: location.accuracy
+    });
+    if (!filtered.accepted) {
+      console.log(`📡 Ignoring GPS fix (${filtered.reason})`);
+      return;
+    }
+
+    const { fix } = filtered;
+    const currentPos = { latitude: fix.lat, longitude: fix.lon };
+    const point = { lat: fix.lat, lon: fix.lon };
+    const motion = this.updateMotion(fix, location);
+    pollScheduler.update({
+      lat: fix.lat,
+      lon: fix.lon,
+      timestamp: fix.timestamp,
+      speedKnots: motion ? motion.speedKnots : location.speed != null ? location.speed * 1.943844 : null
+    });
+
+    alertRulesEngine.updatePosition(point).catch(error => console.error('❌ Alert rule check failed:', error));
+    // Alerts for areas the boat enters turn active (a replayed track is not where the boat is)
+    if (locationSource.isUsingDevice()) {
+      alertStorage.updatePosition(point).catch(error => console.error('❌ Alert area check failed:', error));
+    }
+
+    // A fast boat needs zones further out than the fixed alert distance
+    const lookaheadKm = motion ? (motion.speedKmh * PREDICTION_HORIZON_MINUTES) / 60 : 0;
+
+    // Only zones whose bounding box is within range are measured (spatial index lookup)
+    const nearby = zoneRegistry.getZonesNear(
+      point,
+      Math.max(this.maxAlertDistance / 1000, lookaheadKm),
+      { restrictedAt: new Date(fix.timestamp) }
+    );
+    const seen = new Set<string>();
+
+    for (const { zone: registryZone, distanceKm } of nearby) {
+      const zone = this.toBoundaryZone(registryZone);
+      const distance = distanceKm * 1000; // negative when inside
+      const prediction = distance > 0 && motion ? this.predictCrossing(point, motion, registryZone) : null;
+      seen.add(zone.id);
+      await this.updateZoneState(zone, distance, prediction, currentPos, fix.timestamp);
+    }
+
+    // Zones now out of range wind down through the same hysteresis
+    for (const state of Array.from(this.zoneStates.values())) {
+      if (!seen.has(state.zone.id)) {
+        await this.updateZoneState(state.zone, Infinity, null, currentPos, fix.timestamp);
       }
     }
+
+    await this.checkImbl(fix);
+  }
+
+  private recordImblTrack(location: LocationFix): void {
+    this.imblTrack = [
+      ...this.imblTrack,
+      { lat: location.latitude, lon: location.longitude, timestamp: location.timestamp, accuracyMeters: location.accuracy }
+    ].filter(point => location.timestamp - point.timestamp <= IMBL_TRACK_WINDOW_MS);
   }
 
   /**
-   * Calculate distance from current position to boundary zone
+   * Escalate through the IMBL stages: a warning, then a siren with vibration, then emergency contacts.
+   * Every change of stage, and an ongoing alert every few minutes, is logged with the recent track.
    */
-  private getDistanceToZone(position: { latitude: number; longitude: number }, zone: BoundaryZone): number {
-    // Simplified distance calculation to nearest boundary point
-    let minDistance = Infinity;
-    
-    for (const coord of zone.coordinates) {
-      const distance = this.calculateDistance(
-        position.latitude, position.longitude,
-        coord.latitude, coord.longitude
+  private async checkImbl(fix: FilteredFix): Promise<void> {
+    const assessment = nearestImbl({ lat: fix.lat, lon: fix.lon });
+    if (!assessment) return;
+    const { line } = assessment;
+
+    // The lines are far apart, but a stage never carries over from one to another
+    if (this.imbl && this.imbl.lineId !== line.id) {
+      this.clearZoneAlert(this.imbl.lineId);
+      await this.closeThread(this.imbl.lineId);
+      this.imbl = null;
+    }
+    const current = this.imbl?.stage ?? null;
+    const next = imblStage(assessment, current);
+    const position = { latitude: fix.lat, longitude: fix.lon };
+
+    if (next === current) {
+      if (next) {
+        this.setImblAlert(assessment, next, position, fix.timestamp);
+        if (fix.timestamp - this.lastImblEvidenceAt >= IMBL_EVIDENCE_INTERVAL_MS) {
+          await this.logImblEvidence('update', assessment, next, next, fix);
+        }
+      }
+      return;
+    }
+
+    const rising = isHigherImblStage(next, current);
+    this.imbl = next ? { lineId: line.id, stage: next } : null;
+    await this.logImblEvidence(!next ? 'cleared' : rising ? 'escalated' : 'de-escalated', assessment, next, current, fix);
+    this.clearZoneAlert(line.id);
+
+    if (!next) {
+      await this.stopImblSiren();
+      await this.closeThread(line.id);
+      console.log(`✅ Clear of the ${line.name} (${assessment.distanceKm.toFixed(1)} km)`);
+      return;
+    }
+
+    const alert = this.setImblAlert(assessment, next, position, fix.timestamp);
+    if (!rising) {
+      if (next === 'warning') await this.stopImblSiren();
+      return;
+    }
+
+    if (next === 'warning') await this.playAlertSound('imbl', IMBL_SEVERITY.warning);
+    else await this.startImblSiren();
+    this.notifyAlertListeners(alert);
+    await this.sendImblNotification(alert, assessment);
+    if (next === 'contacts') await this.notifyImblContacts(assessment, position, fix);
+
+    console.log(`🚨 IMBL ${next}: ${line.name} (${assessment.distanceKm.toFixed(1)} km${assessment.onForeignSide ? ', across' : ''})`);
+  }
+
+  private setImblAlert(
+    assessment: ImblAssessment,
+    stage: ImblStage,
+    location: { latitude: number; longitude: number },
+    now: number
+  ): BoundaryAlert {
+    const { line } = assessment;
+    const id = this.alertId(line.id, 'imbl', IMBL_SEVERITY[stage]);
+    const alert: BoundaryAlert = {
+      id,
+      zoneId: line.id,
+      zoneName: line.name,
+      type: 'imbl',
+      severity: IMBL_SEVERITY[stage],
+      distance: assessment.distanceKm * 1000,
+      timestamp: this.activeAlerts.get(id)?.timestamp ?? now,
+      location,
+      imbl: {
+        stage,
+        neighbour: line.neighbour,
+        onForeignSide: assessment.onForeignSide,
+        bearingToIndiaDeg: assessment.bearingToIndiaDeg
+      }
+    };
+    this.activeAlerts.set(id, alert);
+    return alert;
+  }
+
+  /**
+   * The siren outranks every other alert sound until the boat is back to the warning stage
+   */
+  private async startImblSiren(): Promise<void> {
+    if (this.sirenActive) return;
+    await this.stopAllSounds();
+    this.sirenActive = true;
+    Vibration.vibrate(IMBL_VIBRATION_PATTERN, true);
+    try {
+      await this.buzzerSound?.replayAsync();
+    } catch (error) {
+      console.error('❌ Failed to play IMBL siren:', error);
+    }
+  }
+
+  private async stopImblSiren(): Promise<void> {
+    if (!this.sirenActive) return;
+    this.sirenActive = false;
+    Vibration.cancel();
+    // The buzzer is shared with zone violations
+    await this.stopBuzzerIfClear();
+  }
+
+  private async sendImblNotification(alert: BoundaryAlert, assessment: ImblAssessment): Promise<void> {
+    const { line, distanceKm, onForeignSide, bearingToIndiaDeg } = assessment;
+    const stage = alert.imbl!.stage;
+    const titles: Record<ImblStage, string> = {
+      warning: `⚠️ ${line.neighbour} Border Ahead`,
+      siren: `🚨 ${line.neighbour.toUpperCase()} BORDER CLOSE`,
+      contacts: `🆘 ${onForeignSide ? 'ACROSS' : 'AT'} THE ${line.neighbour.toUpperCase()} BORDER`
+    };
+    const where = onForeignSide
+      ? `You are ${distanceKm.toFixed(1)} km inside ${line.neighbour} waters and risk arrest.`
+      : `You are ${distanceKm.toFixed(1)} km from the ${line.name}.`;
+    const steer = `Steer ${Math.round(bearingToIndiaDeg)}° (${compassPoint(bearingToIndiaDeg)}) for Indian waters.`;
+
+    await notificationService.sendNotification({
+      id: `${alert.id}_${stage}`,
+      type: 'boundary',
+      title: titles[stage],
+      message: `${where} ${steer}${stage === 'contacts' ? ' Your emergency contacts are being notified.' : ''}`,
+      priority: stage === 'warning' ? 'high' : 'critical',
+      timestamp: alert.timestamp,
+      location: alert.location,
+      dedupKey: boundaryDedupKey(line.id),
+      data: {
+        zoneId: line.id,
+        zoneName: line.name,
+        zoneType: 'international',
+        alertType: 'imbl',
+        distance: alert.distance,
+        imbl: alert.imbl
+      }
+    });
+  }
+
+  /**
+   * Tell the emergency contacts where the boat is, at most once per line within the cooldown
+   */
+  private async notifyImblContacts(
+    assessment: ImblAssessment,
+    location: { latitude: number; longitude: number },
+    fix: FilteredFix
+  ): Promise<void> {
+    const { line, distanceKm, onForeignSide, bearingToIndiaDeg } = assessment;
+    if (!locationSource.isUsingDevice()) {
+      console.log(`🎞️ Replayed track at the ${line.name}: emergency contacts not notified`);
+      return;
+    }
+    const last = this.imblContactsNotifiedAt.get(line.id) ?? -Infinity;
+    if (fix.timestamp - last < IMBL_CONTACTS_COOLDOWN_MS) return;
+    this.imblContactsNotifiedAt.set(line.id, fix.timestamp);
+
+    const where = onForeignSide
+      ? `${distanceKm.toFixed(1)} km across the ${line.name} into ${line.neighbour} waters`
+      : `${distanceKm.toFixed(1)} km from the ${line.name}`;
+    try {
+      // The emergency log records whether the contact was actually reached
+      const log = await emergencyService.triggerEmergency(
+        { ...location, accuracy: fix.accuracyMeters },
+        'boundary',
+        `BOUNDARY EMERGENCY! Vessel is ${where}. Heading back on ${Math.round(bearingToIndiaDeg)}° is advised.`
       );
-      minDistance = Math.min(minDistance, distance);
+      if (!log.contact?.sent) {
+        console.warn(`⚠️ IMBL contacts stage: ${log.contact ? log.contact.error : 'no primary emergency contact set'}`);
+      }
+    } catch (error) {
+      console.error('❌ Failed to notify emergency contacts of IMBL alert:', error);
     }
-    
-    return minDistance;
+  }
+
+  private async logImblEvidence(
+    event: ImblEvidence['event'],
+    assessment: ImblAssessment,
+    stage: ImblStage | null,
+    previousStage: ImblStage | null,
+    fix: FilteredFix
+  ): Promise<void> {
+    // Periodic records only need the fixes since the last one
+    const since = event === 'update' ? this.lastImblEvidenceAt : -Infinity;
+    this.lastImblEvidenceAt = fix.timestamp;
+    const record: ImblEvidence = {
+      id: `imbl_${assessment.line.id}_${fix.timestamp}`,
+      timestamp: fix.timestamp,
+      event,
+      lineId: assessment.line.id,
+      lineName: assessment.line.name,
+      stage,
+      previousStage,
+      position: { lat: fix.lat, lon: fix.lon, accuracyMeters: fix.accuracyMeters },
+      distanceKm: assessment.distanceKm,
+      onForeignSide: assessment.onForeignSide,
+      bearingToIndiaDeg: assessment.bearingToIndiaDeg,
+      track: this.imblTrack.filter(point => point.timestamp > since)
+    };
+    // Evidence is only ever what the GPS reported, never a replayed track
+    if (!locationSource.isUsingDevice()) return;
+    try {
+      await Storage.appendImblEvidence(record);
+    } catch (error) {
+      console.error('❌ Failed to log IMBL evidence:', error);
+    }
+    // The signed chain gets the same record, with its position where the chain indexes it
+    const { position, ...rest } = record;
+    await evidenceLog.append('imbl', { ...rest, location: { lat: position.lat, lon: position.lon }, accuracyMeters: position.accuracyMeters });
   }
 
   /**
-   * Calculate distance between two points using Haversine formula
+   * Move a zone's alert level, applying entry/exit hysteresis distances and dwell times.
+   * Raising the level alerts once; lowering it updates the alert quietly; reaching none clears it.
    */
-  private calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-    const R = 6371e3; // Earth's radius in meters
-    const φ1 = lat1 * Math.PI/180;
-    const φ2 = lat2 * Math.PI/180;
-    const Δφ = (lat2-lat1) * Math.PI/180;
-    const Δλ = (lon2-lon1) * Math.PI/180;
+  private async updateZoneState(
+    zone: BoundaryZone,
+    distance: number,
+    prediction: CrossingPrediction | null,
+    location: { latitude: number; longitude: number },
+    now: number
+  ): Promise<void> {
+    const hysteresis = zone.hysteresis ?? DEFAULT_HYSTERESIS[zone.severity];
+    const state = this.zoneStates.get(zone.id) ?? { zone, level: null, pending: null };
+    state.zone = zone;
+    const currentRank = levelRank(state.level);
+
+    // Rising needs the position enterMeters past a threshold; falling needs it exitMeters back
+    const raised = this.determineAlertType(distance + hysteresis.enterMeters, zone, prediction);
+    const lowered = this.determineAlertType(distance - hysteresis.exitMeters, zone, prediction);
+    let candidate = state.level;
+    if (levelRank(raised) > currentRank) candidate = raised;
+    else if (levelRank(lowered) < currentRank) candidate = lowered;
 
-    const a = Math.sin(Δφ/2) * Math.sin(Δφ/2) +
-              Math.cos(φ1) * Math.cos(φ2) *
-              Math.sin(Δλ/2) * Math.sin(Δλ/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+    if (levelRank(candidate) === currentRank) {
+      state.pending = null;
+      if (state.level) this.refreshActiveAlert(zone, state.level, distance, location, prediction);
+      this.saveZoneState(state);
+      return;
+    }
 
-    return R * c; // Distance in meters
+    if (!state.pending || levelRank(state.pending.level) !== levelRank(candidate)) {
+      state.pending = { level: candidate, since: now };
+    }
+    const rising = levelRank(candidate) > currentRank;
+    const dwellMs = (rising ? hysteresis.enterDwellSeconds : hysteresis.exitDwellSeconds) * 1000;
+    if (now - state.pending.since < dwellMs) {
+      this.saveZoneState(state);
+      return;
+    }
+
+    const previous = state.level;
+    state.level = candidate;
+    state.pending = null;
+    this.saveZoneState(state);
+
+    if (!candidate) {
+      this.clearZoneAlert(zone.id);
+      // Out of the zone: coming back is a new crossing, even if this one was dismissed
+      await this.closeThread(zone.id);
+      if (previous?.type === 'violation') await this.stopBuzzerIfClear();
+    } else if (rising) {
+      this.clearZoneAlert(zone.id);
+      await this.handleBoundaryAlert(zone, candidate.type, distance, location, candidate.severity, prediction ?? undefined);
+      // Still listed as active even when the repeat-alert guard kept it quiet
+      this.refreshActiveAlert(zone, candidate, distance, location, prediction);
+    } else {
+      this.clearZoneAlert(zone.id);
+      this.refreshActiveAlert(zone, candidate, distance, location, prediction);
+      if (previous?.type === 'violation') await this.stopBuzzerIfClear();
+    }
+  }
+
+  private saveZoneState(state: ZoneAlertState): void {
+    if (state.level || state.pending?.level) this.zoneStates.set(state.zone.id, state);
+    else this.zoneStates.delete(state.zone.id);
+  }
+
+  /**
+   * Keep the active alert's distance and prediction current without sounding it again
+   */
+  private refreshActiveAlert(
+    zone: BoundaryZone,
+    level: NonNullable<AlertLevel>,
+    distance: number,
+    location: { latitude: number; longitude: number },
+    prediction: CrossingPrediction | null
+  ): void {
+    const alertId = this.alertId(zone.id, level.type, level.severity);
+    const existing = this.activeAlerts.get(alertId);
+    this.activeAlerts.set(alertId, {
+      id: alertId,
+      zoneId: zone.id,
+      zoneName: zone.name,
+      type: level.type,
+      severity: level.severity,
+      distance: Number.isFinite(distance) ? Math.abs(distance) : existing?.distance ?? 0,
+      timestamp: existing?.timestamp ?? locationSource.now(),
+      location,
+      prediction: prediction ?? existing?.prediction
+    });
   }
 
   /**
-   * Determine alert type based on distance and zone
+   * The violation buzzer loops; stop it once no zone is in violation any more
    */
-  private determineAlertType(distance: number, zone: BoundaryZone): 'approaching' | 'entered' | 'violation' | null {
+  private async stopBuzzerIfClear(): Promise<void> {
+    const stillViolating = Array.from(this.zoneStates.values()).some(state => state.level?.type === 'violation');
+    if (!stillViolating && !this.sirenActive) await this.stopAllSounds();
+  }
+
+  /**
+   * Record the fix and estimate course and speed over ground from the recent ones.
+   * Falls back to the receiver's own speed and heading until enough fixes have arrived.
+   */
+  private updateMotion(fix: FilteredFix, location: LocationFix): Motion | null {
+    this.recentFixes = [...this.recentFixes, { lat: fix.lat, lon: fix.lon, timestamp: fix.timestamp }]
+      .filter(f => fix.timestamp - f.timestamp <= MOTION_WINDOW_MS);
+
+    const estimated = estimateMotion(this.recentFixes, { windowMs: MOTION_WINDOW_MS });
+    if (estimated) return estimated;
+
+    const { speed, heading } = location;
+    if (speed != null && speed > 0.5 && heading != null) {
+      const speedKmh = speed * 3.6;
+      return { courseDeg: heading, speedKmh, speedKnots: speedKmh / 1.852, fixes: 1 };
+    }
+    return null;
+  }
+
+  /**
+   * When, if ever, the current course meets the zone within the prediction horizon
+   */
+  private predictCrossing(
+    point: { lat: number; lon: number },
+    motion: Motion,
+    zone: RegistryZone
+  ): CrossingPrediction | null {
+    const rangeKm = (motion.speedKmh * PREDICTION_HORIZON_MINUTES) / 60;
+    const crossing = firstEdgeCrossing(point, motion.courseDeg, rangeKm, zone.polygon);
+    if (!crossing) return null;
+
+    return {
+      minutesToCrossing: (crossing.distanceKm / motion.speedKmh) * 60,
+      courseDeg: motion.courseDeg,
+      speedKnots: motion.speedKnots,
+      crossingPoint: { latitude: crossing.point.lat, longitude: crossing.point.lon }
+    };
+  }
+
+  /**
+   * Determine alert type and severity from distance, and from time to crossing when on a collision course
+   */
+  private determineAlertType(
+    distance: number,
+    zone: BoundaryZone,
+    prediction: CrossingPrediction | null = null
+  ): { type: BoundaryAlertType; severity: BoundaryAlert['severity'] } | null {
     if (distance < 0) {
       // Inside the zone - violation
-      return 'violation';
+      return { type: 'violation', severity: zone.severity };
     } else if (distance < 100) {
       // Very close - entered buffer
-      return 'entered';
-    } else if (distance < zone.alertDistance) {
+      return { type: 'entered', severity: zone.severity };
+    } else if (prediction) {
+      // Heading into the zone - the sooner the crossing, the more urgent
+      const band = PREDICTION_SEVERITY_MINUTES.find(b => prediction.minutesToCrossing <= b.maxMinutes);
+      if (band) return { type: 'predicted', severity: band.severity };
+    }
+
+    if (distance < zone.alertDistance) {
       // Within alert distance - approaching
-      return 'approaching';
+      return { type: 'approaching', severity: zone.severity };
     }
     
     return null; // No alert needed
@@ -336,13 +832,16 @@ class MaritimeBoundaryAlertSystem {
    */
   private async handleBoundaryAlert(
     zone: BoundaryZone, 
-    alertType: 'approaching' | 'entered' | 'violation',
+    alertType: BoundaryAlertType,
     distance: number,
-    location: { latitude: number; longitude: number }
+    location: { latitude: number; longitude: number },
+    severity: BoundaryAlert['severity'] = zone.severity,
+    prediction?: CrossingPrediction
   ): Promise<void> {
     
-    const alertId = `${zone.id}_${alertType}`;
-    const now = Date.now();
+    // A predicted crossing that becomes more urgent alerts again straight away
+    const alertId = this.alertId(zone.id, alertType, severity);
+    const now = locationSource.now();
     const lastAlert = this.lastAlertTime.get(alertId) || 0;
     
     // Prevent spam - only alert every 30 seconds for the same zone/type
@@ -356,16 +855,22 @@ class MaritimeBoundaryAlertSystem {
       zoneId: zone.id,
       zoneName: zone.name,
       type: alertType,
-      severity: zone.severity,
+      severity,
       distance: Math.abs(distance),
       timestamp: now,
-      location
+      location,
+      prediction
     };
 
+    // Only the latest prediction for a zone stays active
+    Array.from(this.activeAlerts.keys())
+      .filter(key => key.startsWith(`${zone.id}_predicted_`))
+      .forEach(key => this.activeAlerts.delete(key));
     this.activeAlerts.set(alertId, alert);
+    this.notifyAlertListeners(alert);
 
     // Play appropriate sound
-    await this.playAlertSound(alertType, zone.severity);
+    await this.playAlertSound(alertType, severity);
 
     // Send notification
     await this.sendBoundaryNotification(alert, zone);
@@ -377,6 +882,7 @@ class MaritimeBoundaryAlertSystem {
    * Play alert sound based on type and severity
    */
   private async playAlertSound(alertType: string, severity: string): Promise<void> {
+    if (this.sirenActive) return;
     try {
       // Stop any currently playing sounds
       await this.stopAllSounds();
@@ -411,19 +917,27 @@ class MaritimeBoundaryAlertSystem {
   }
 
   /**
-   * Send boundary notification and store in alert storage
+   * Send boundary notification; notificationService stores it as the zone's alert thread
    */
   private async sendBoundaryNotification(alert: BoundaryAlert, zone: BoundaryZone): Promise<void> {
     const titles = {
       approaching: '⚠️ Approaching Restricted Area',
       entered: '🚨 Entered Buffer Zone',
-      violation: '🆘 BOUNDARY VIOLATION'
+      violation: '🆘 BOUNDARY VIOLATION',
+      predicted: '🧭 Restricted Area Ahead',
+      imbl: '🆘 International Boundary'
     };
 
+    const { prediction } = alert;
     const messages = {
       approaching: `Warning: You are ${alert.distance.toFixed(0)}m from ${zone.name}. Change course immediately.`,
       entered: `CRITICAL: You have entered the buffer zone of ${zone.name}. Turn back now!`,
-      violation: `VIOLATION: You are inside ${zone.name}. This is illegal - return to safe waters immediately!`
+      violation: `VIOLATION: You are inside ${zone.name}. This is illegal - return to safe waters immediately!`,
+      predicted: prediction
+        ? `You will enter ${zone.name} in ~${Math.max(1, Math.round(prediction.minutesToCrossing))} min on current heading ` +
+          `(${Math.round(prediction.courseDeg)}° at ${prediction.speedKnots.toFixed(1)} kn). Change course now.`
+        : `You are heading into ${zone.name}. Change course now.`,
+      imbl: `You are ${alert.distance.toFixed(0)}m from ${zone.name}. Return to Indian waters immediately.`
     };
 
     // Send notification through notification service (handles both mock and real modes)
@@ -435,30 +949,46 @@ class MaritimeBoundaryAlertSystem {
       priority: alert.severity === 'emergency' ? 'critical' : alert.severity as any,
       timestamp: alert.timestamp,
       location: alert.location,
+      dedupKey: boundaryDedupKey(zone.id),
       data: {
         zoneId: zone.id,
         zoneName: zone.name,
         zoneType: zone.type,
-        distance: alert.distance
+        alertType: alert.type,
+        distance: alert.distance,
+        ...(prediction && { prediction })
       }
     });
+  }
 
-    // Also store directly in alert storage with boundary-specific details
-    await alertStorage.storeBoundaryAlert(
-      zone.id,
-      zone.name,
-      alert.type,
-      alert.distance,
-      alert.location
-    );
+  /**
+   * End a zone's alert thread; replayed alerts are never stored, so a replay leaves the real threads alone
+   */
+  private async closeThread(zoneId: string): Promise<void> {
+    if (locationSource.isUsingDevice()) await alertStorage.closeThread(boundaryDedupKey(zoneId));
+  }
+
+  private notifyAlertListeners(alert: BoundaryAlert): void {
+    this.alertListeners.forEach(callback => {
+      try {
+        callback(alert);
+      } catch (error) {
+        console.error('❌ Error in boundary alert listener:', error);
+      }
+    });
+  }
+
+  private alertId(zoneId: string, type: BoundaryAlertType, severity: BoundaryAlert['severity']): string {
+    return type === 'predicted' ? `${zoneId}_predicted_${severity}` : `${zoneId}_${type}`;
   }
 
   /**
    * Clear alert for a specific zone
    */
   private clearZoneAlert(zoneId: string): void {
-    const alertsToRemove = Array.from(this.activeAlerts.keys())
-      .filter(key => key.startsWith(zoneId));
+    const alertsToRemove = Array.from(this.activeAlerts.values())
+      .filter(alert => alert.zoneId === zoneId)
+      .map(alert => alert.id);
     
     for (const alertId of alertsToRemove) {
       this.activeAlerts.delete(alertId);
@@ -532,6 +1062,16 @@ class MaritimeBoundaryAlertSystem {
     return Array.from(this.activeAlerts.values());
   }
 
+  /**
+   * Called with every alert as it is raised, after the repeat-alert guard
+   */
+  addAlertListener(callback: (alert: BoundaryAlert) => void): () => void {
+    this.alertListeners.push(callback);
+    return () => {
+      this.alertListeners = this.alertListeners.filter(listener => listener !== callback);
+    };
+  }
+
   /**
    * Get boundary zones
    */
@@ -0,0 +1,265 @@
+/**
+ * 📡 CAP Warning Ingestion
+ * Official warnings from IMD, INCOIS and the Coast Guard, published in the Common Alerting Protocol (CAP 1.2)
+ *
+ * Features:
+ * - Reads CAP documents from the configured feeds, from a file the user picks, or from sample fixtures in demo mode
+ * - Each warning is stored with its polygons and circles as alert areas, and expires with the warning
+ * - The alert store shows and notifies a warning only once the boat or its active trip route is in its area
+ * - An update continues the thread of the warning it references; a cancellation withdraws it
+ * - Exercises, tests and drafts never reach the fisherman
+ */
+
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import { CONFIG } from '../config';
+import { alertStorage } from './alertStorage';
+import { notificationService, AlertNotification } from './notificationService';
+import { modeConfig } from './modeConfig';
+import { capFixtureFeed } from '../data/capFixtures';
+import { areaCenter, CapWarning, parseCAP, toAlertAreas, toAlertPriority, toAlertType } from '../utils/cap';
+import type { AlertItem } from '../types';
+
+export interface CapIngestSummary {
+  added: number;
+  updated: number; // updates that went into the thread of the warning they reference, dismissed on board or not
+  known: number; // already stored from an earlier refresh
+  withdrawn: number; // earlier warnings cancelled, or referenced by an update that did not continue them
+  notified: number; // added or updated warnings that apply to the boat's position or route right away
+  skipped: string[]; // alerts that were not used, with the reason
+}
+
+const REFRESH_MS = 30 * 60 * 1000;
+const FETCH_TIMEOUT_MS = 15000;
+// CAP documents fetched per feed refresh; the newest entries come first in the feeds we use
+const MAX_DOCUMENTS_PER_FEED = 20;
+const FILE_TYPES = ['application/xml', 'text/xml', 'application/cap+xml', '*/*'];
+
+const referenceKey = (warning: { sender: string; identifier: string }) => `${warning.sender},${warning.identifier}`;
+const alertId = (warning: CapWarning) => `cap_${warning.id}`;
+
+class CapAlertService {
+  private queue: Promise<unknown> = Promise.resolve();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private fetchedLinks = new Set<string>();
+
+  /**
+   * Refresh the feeds now and every half hour while the app runs
+   */
+  async start(): Promise<void> {
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        this.refresh().catch(error => console.error('❌ CAP feed refresh failed:', error));
+      }, REFRESH_MS);
+    }
+    await this.refresh();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Fetch the official feeds (the sample fixtures in demo mode) and take in what they carry
+   */
+  async refresh(now: number = Date.now()): Promise<CapIngestSummary> {
+    const documents = modeConfig.isMockMode() ? capFixtureFeed(now) : await this.fetchFeeds();
+    const summary = await this.ingestDocuments(documents, now);
+    console.log(
+      `📡 CAP warnings: ${summary.added} new, ${summary.updated} updated, ${summary.withdrawn} withdrawn, ${summary.notified} notified` +
+        (summary.skipped.length ? ` (${summary.skipped.length} skipped)` : '')
+    );
+    return summary;
+  }
+
+  /**
+   * Take in one or more CAP documents
+   */
+  ingestDocuments(documents: string[], now: number = Date.now()): Promise<CapIngestSummary> {
+    return this.exclusive(async () => {
+      await alertStorage.initialize();
+      const summary: CapIngestSummary = { added: 0, updated: 0, known: 0, withdrawn: 0, notified: 0, skipped: [] };
+      const parsed = documents.map(parseCAP);
+      parsed.forEach(result => summary.skipped.push(...result.errors));
+
+      // Oldest first, so an update always finds the alert it replaces
+      const warnings = parsed.flatMap(result => result.warnings).sort((a, b) => a.sent - b.sent);
+      for (const warning of warnings) {
+        await this.ingestWarning(warning, now, summary);
+      }
+      return summary;
+    });
+  }
+
+  ingest(xml: string, now: number = Date.now()): Promise<CapIngestSummary> {
+    return this.ingestDocuments([xml], now);
+  }
+
+  async importFromFile(uri: string): Promise<CapIngestSummary> {
+    const text = await new File(uri).text();
+    return this.ingest(text);
+  }
+
+  /**
+   * Let the user choose a CAP .xml file; null when they cancel
+   */
+  async pickAndImport(): Promise<CapIngestSummary | null> {
+    const picked = await DocumentPicker.getDocumentAsync({ type: FILE_TYPES, copyToCacheDirectory: true });
+    if (picked.canceled || !picked.assets?.length) return null;
+    return this.importFromFile(picked.assets[0].uri);
+  }
+
+  private async ingestWarning(warning: CapWarning, now: number, summary: CapIngestSummary): Promise<void> {
+    if (warning.status !== 'Actual') {
+      summary.skipped.push(`Alert ${warning.identifier}: ${warning.status.toLowerCase()} message, not shown`);
+      return;
+    }
+    if (warning.msgType === 'Ack' || warning.msgType === 'Error') return;
+
+    const stored = alertStorage.getAlerts({ includeInactive: true }).filter(alert => alert.data?.cap);
+    // A thread carries the details of its latest version, so this finds the alert as last updated
+    const referenced = stored.filter(alert => warning.references.includes(referenceKey(alert.data.cap)));
+    if (warning.msgType === 'Cancel') {
+      await this.withdraw(referenced, now, summary);
+      return;
+    }
+
+    if (warning.expires <= now) {
+      summary.skipped.push(`Alert ${warning.identifier}: expired ${new Date(warning.expires).toLocaleString()}`);
+      return;
+    }
+    if (stored.some(alert => alert.id === alertId(warning) || alert.data.cap.id === warning.id)) {
+      summary.known++;
+      return;
+    }
+    // Feeds keep listing an alert after it has been replaced; it must not come back
+    if (stored.some(alert => alert.data.cap.references?.includes(referenceKey(warning)))) {
+      summary.skipped.push(`Alert ${warning.identifier}: already replaced`);
+      return;
+    }
+
+    const notification = this.toNotification(warning, referenced, now);
+    await notificationService.sendNotification(notification);
+    // The thread carries this version once stored, even one dismissed on board, which takes the new area and expiry quietly
+    const thread = alertStorage.findAlert(notification.id, notification.dedupKey);
+    const current = thread?.data?.cap?.id === warning.id ? thread : undefined;
+    if (!current) summary.skipped.push(`Alert ${warning.identifier}: not stored`);
+    else if (current.id !== notification.id) summary.updated++;
+    else summary.added++;
+    if (current && !current.dismissedAt && alertStorage.isAlertActive(current.id)) summary.notified++;
+    // Referenced alerts the update did not go into, e.g. the second of two warnings it replaces
+    await this.withdraw(referenced.filter(alert => alert.id !== current?.id), now, summary);
+  }
+
+  private async withdraw(alerts: AlertItem[], now: number, summary: CapIngestSummary): Promise<void> {
+    for (const alert of alerts.filter(earlier => (earlier.expiresAt ?? Infinity) > now)) {
+      await alertStorage.withdrawAlert(alert.id);
+      summary.withdrawn++;
+    }
+  }
+
+  /**
+   * Thread key of a warning: that of the alert it updates, or its own; each info block is a thread of its own
+   */
+  private dedupKey(warning: CapWarning, referenced: AlertItem[]): string {
+    const index = Number(warning.id.split('#')[1] ?? 0);
+    const root = referenced[0]?.dedupKey?.replace(/#\d+$/, '') ?? `cap:${referenceKey(warning)}`;
+    return index ? `${root}#${index}` : root;
+  }
+
+  private toNotification(warning: CapWarning, referenced: AlertItem[], now: number): AlertNotification {
+    const center = areaCenter(warning.areas[0]);
+    const from = warning.effective > now ? `from ${new Date(warning.effective).toLocaleString()} ` : '';
+    return {
+      id: alertId(warning),
+      type: toAlertType(warning.category),
+      title: warning.headline ?? warning.event,
+      message: [
+        warning.description,
+        warning.instruction,
+        `Area: ${warning.areas.map(area => area.description).join(', ')}`,
+        `In force ${from}until ${new Date(warning.expires).toLocaleString()}`,
+        warning.senderName && `Issued by ${warning.senderName}`
+      ]
+        .filter(Boolean)
+        .join('\n'),
+      priority: toAlertPriority(warning.severity),
+      timestamp: warning.sent,
+      location: { latitude: center.lat, longitude: center.lon },
+      areas: warning.areas.flatMap(toAlertAreas),
+      expiresAt: warning.expires,
+      dedupKey: this.dedupKey(warning, referenced),
+      data: {
+        cap: {
+          id: warning.id,
+          identifier: warning.identifier,
+          sender: warning.sender,
+          references: warning.references,
+          event: warning.event,
+          severity: warning.severity,
+          urgency: warning.urgency,
+          certainty: warning.certainty,
+          sent: warning.sent,
+          effective: warning.effective,
+          expires: warning.expires
+        }
+      }
+    };
+  }
+
+  /**
+   * CAP documents from every configured feed; an RSS or Atom feed is followed to the alerts it links
+   */
+  private async fetchFeeds(): Promise<string[]> {
+    const documents: string[] = [];
+    for (const url of CONFIG.CAP_FEEDS) {
+      try {
+        const feed = await this.fetchText(url);
+        if (/<(?:\w+:)?alert[\s>]/.test(feed)) {
+          documents.push(feed);
+          continue;
+        }
+        const links = [...feed.matchAll(/<link>([^<]+)<\/link>|<link[^>]*\shref="([^"]+)"/g)]
+          .map(match => (match[1] ?? match[2]).trim().replace(/&amp;/g, '&'))
+          .filter(link => link !== url && /\.xml$|cap/i.test(link) && !this.fetchedLinks.has(link))
+          .slice(0, MAX_DOCUMENTS_PER_FEED);
+        for (const link of links) {
+          try {
+            documents.push(await this.fetchText(link));
+            // CAP alerts are never edited in place; a change comes as a new alert
+            this.fetchedLinks.add(link);
+          } catch (error) {
+            console.warn(`⚠️ Could not fetch CAP alert ${link}:`, error);
+          }
+        }
+      } catch (error) {
+        console.warn(`⚠️ CAP feed ${url} unavailable:`, error);
+      }
+    }
+    return documents;
+  }
+
+  private async fetchText(url: string): Promise<string> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+    try {
+      const response = await fetch(url, { signal: controller.signal });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return await response.text();
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  // One ingest at a time, so overlapping refreshes cannot store or withdraw a warning twice
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => {});
+    return run;
+  }
+}
+
+// Export singleton instance
+export const capAlertService = new CapAlertService();
+export default capAlertService;
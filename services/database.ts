@@ -18,6 +18,7 @@ import {
 } from 'firebase/firestore';
 import { db } from './firebase';
 import { UserProfile } from './auth';
+import type { CatchLog, TripPlan } from '../types';
 
 // Trip log interface
 export interface TripLog {
@@ -101,6 +102,16 @@ export interface MarketData {
   createdAt: any;
 }
 
+// Offline-first records mirrored from the device by the sync engine
+export interface SyncedRecord<T> {
+  userId: string;
+  deviceId: string;
+  updatedAt: number; // epoch ms of the edit on the originating device
+  record: T;
+}
+
+export type SyncCollection = 'catchLogs' | 'tripPlans';
+
 class DatabaseService {
   // User operations
   async createUser(userProfile: UserProfile): Promise<void> {
@@ -235,6 +246,45 @@ class DatabaseService {
     }
   }
 
+  // Offline record sync operations; each user's records live under users/{uid}, readable only by that user
+  async getSyncedRecord<T>(userId: string, collectionName: SyncCollection, id: string): Promise<SyncedRecord<T> | null> {
+    try {
+      const recordDoc = await getDoc(doc(db, 'users', userId, collectionName, id));
+      return recordDoc.exists() ? (recordDoc.data() as SyncedRecord<T>) : null;
+    } catch (error) {
+      console.error(`Error fetching ${collectionName} record:`, error);
+      throw error;
+    }
+  }
+
+  async saveSyncedRecord<T extends CatchLog | TripPlan>(
+    userId: string,
+    collectionName: SyncCollection,
+    id: string,
+    data: SyncedRecord<T>
+  ): Promise<void> {
+    try {
+      // Firestore rejects undefined fields, which optional record fields often are
+      const cleaned = JSON.parse(JSON.stringify(data));
+      await setDoc(doc(db, 'users', userId, collectionName, id), {
+        ...cleaned,
+        syncedAt: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error(`Error saving ${collectionName} record:`, error);
+      throw error;
+    }
+  }
+
+  async deleteSyncedRecord(userId: string, collectionName: SyncCollection, id: string): Promise<void> {
+    try {
+      await deleteDoc(doc(db, 'users', userId, collectionName, id));
+    } catch (error) {
+      console.error(`Error deleting ${collectionName} record:`, error);
+      throw error;
+    }
+  }
+
   // Market data operations
   async addMarketData(marketData: Omit<MarketData, 'id'>): Promise<string> {
     try {
@@ -1,6 +1,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Alert } from 'react-native';
+import { Alert, AppState } from 'react-native';
 import * as Location from 'expo-location';
+import * as SMS from 'expo-sms';
 import { authService } from './auth';
 import { notificationService } from './notificationService';
 
@@ -23,7 +24,17 @@ export interface EmergencyLog {
   userId?: string;
   message: string;
   status: 'active' | 'resolved' | 'false_alarm';
-  emergencyType: 'sos' | 'medical' | 'maritime' | 'weather' | 'other';
+  emergencyType: 'sos' | 'medical' | 'maritime' | 'weather' | 'boundary' | 'other';
+  // The primary contact and how the message went; absent when no primary contact is set
+  contact?: { name: string; phoneNumber: string; channel: 'sms' | 'prompt'; sent: boolean; error?: string };
+}
+
+// How a message to the primary contact went; only a text the phone confirmed as sent counts as delivered
+export interface ContactDelivery {
+  contact: EmergencyContact;
+  channel: 'sms' | 'prompt'; // 'prompt': the skipper was asked to call
+  sent: boolean;
+  error?: string; // why it is not confirmed as delivered
 }
 
 class EmergencyService {
@@ -112,6 +123,13 @@ class EmergencyService {
     }
   }
 
+  /**
+   * Replace all emergency contacts (used when restoring a backup)
+   */
+  async saveEmergencyContacts(contacts: EmergencyContact[]): Promise<void> {
+    await AsyncStorage.setItem(this.storageKey, JSON.stringify(contacts));
+  }
+
   /**
    * Trigger emergency alert
    */
@@ -135,11 +153,15 @@ class EmergencyService {
         emergencyType,
       };
 
-      // Store emergency log
-      await this.saveEmergencyLog(emergencyLog);
-
       // Send notifications to emergency contacts
-      await this.notifyEmergencyContacts(emergencyLog);
+      const delivery = await this.notifyEmergencyContacts(emergencyLog);
+      if (delivery) {
+        const { contact, channel, sent, error } = delivery;
+        emergencyLog.contact = { name: contact.name, phoneNumber: contact.phoneNumber, channel, sent, ...(error && { error }) };
+      }
+
+      // Store emergency log, with whether the contact was reached
+      await this.saveEmergencyLog(emergencyLog);
 
       // Send local notification
       await this.sendEmergencyNotification(emergencyLog);
@@ -153,6 +175,57 @@ class EmergencyService {
     }
   }
 
+  /**
+   * Message the primary contact with the boat's position by SMS. expo-sms only opens the composer, so a text
+   * counts as sent only when the phone confirms it (iOS); in every other case, and in the background where
+   * no composer can open, the skipper is also prompted to call. Null when no primary contact is set.
+   */
+  async notifyPrimaryContact(
+    message: string,
+    location?: { latitude: number; longitude: number }
+  ): Promise<ContactDelivery | null> {
+    const contact = (await this.getEmergencyContacts()).find(c => c.isPrimary);
+    if (!contact) {
+      console.log('⚠️ No primary emergency contact set');
+      return null;
+    }
+
+    const where = location
+      ? `\nPosition: ${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)} https://maps.google.com/?q=${location.latitude},${location.longitude}`
+      : '';
+    const body = `${message}${where}`;
+    let error: string;
+    try {
+      if (AppState.currentState !== 'active') {
+        error = 'App in the background, no text could be composed';
+      } else if (!(await SMS.isAvailableAsync())) {
+        error = 'This phone cannot send texts';
+      } else {
+        const { result } = await SMS.sendSMSAsync([contact.phoneNumber], body);
+        if (result === 'sent') {
+          console.log(`📱 SMS sent to primary contact ${contact.name}`);
+          return { contact, channel: 'sms', sent: true };
+        }
+        // Android always answers 'unknown': the text may still be sitting unsent in the messaging app
+        error = result === 'cancelled' ? 'Text cancelled' : 'Text not confirmed as sent';
+      }
+    } catch (smsError) {
+      console.error('❌ Failed to send SMS to emergency contact:', smsError);
+      error = 'Text could not be sent';
+    }
+
+    await notificationService.sendNotification({
+      id: `contact_prompt_${Date.now()}`,
+      type: 'emergency',
+      title: `📞 Call ${contact.name} now`,
+      message: `${error}. Call ${contact.phoneNumber} and tell them: ${body}`,
+      priority: 'critical',
+      timestamp: Date.now(),
+      location
+    });
+    return { contact, channel: 'prompt', sent: false, error: `${error}; skipper asked to call` };
+  }
+
   /**
    * Save emergency log
    */
@@ -184,33 +257,32 @@ class EmergencyService {
   }
 
   /**
-   * Notify emergency contacts
+   * Replace all emergency logs (used when restoring a backup)
+   */
+  async saveEmergencyLogs(logs: EmergencyLog[]): Promise<void> {
+    await AsyncStorage.setItem(this.logStorageKey, JSON.stringify(logs.slice(0, 100)));
+  }
+
+  /**
+   * Notify emergency contacts: the primary contact is texted the message and position,
+   * and the skipper is prompted to call when the text is not confirmed as sent
    */
-  private async notifyEmergencyContacts(emergencyLog: EmergencyLog): Promise<void> {
+  private async notifyEmergencyContacts(emergencyLog: EmergencyLog): Promise<ContactDelivery | null> {
     try {
-      const contacts = await this.getEmergencyContacts();
-      const primaryContact = contacts.find(c => c.isPrimary);
-      
-      if (primaryContact) {
-        // In a real implementation, you would integrate with SMS service
-        console.log(`📱 Notifying primary contact: ${primaryContact.name} (${primaryContact.phoneNumber})`);
-        
-        // Show alert to user about notification attempt
-        Alert.alert(
-          'Emergency Contacts Notified',
-          `Attempting to notify ${primaryContact.name} at ${primaryContact.phoneNumber}\n\nLocation: ${emergencyLog.location.latitude.toFixed(6)}, ${emergencyLog.location.longitude.toFixed(6)}`,
-          [{ text: 'OK' }]
-        );
-      } else {
-        console.log('⚠️ No primary emergency contact set');
+      const delivery = await this.notifyPrimaryContact(emergencyLog.message, emergencyLog.location);
+      if (!delivery) {
         Alert.alert(
           'No Emergency Contact',
           'Please set up emergency contacts in Settings for automatic notifications.',
           [{ text: 'OK' }]
         );
+      } else if (!delivery.sent) {
+        console.warn(`⚠️ Emergency contact ${delivery.contact.name} not confirmed reached: ${delivery.error}`);
       }
+      return delivery;
     } catch (error) {
       console.error('❌ Failed to notify emergency contacts:', error);
+      return null;
     }
   }
 
@@ -279,6 +351,7 @@ class EmergencyService {
       medical: 'MEDICAL EMERGENCY! Require medical assistance.',
       maritime: 'MARITIME EMERGENCY! Vessel in distress.',
       weather: 'WEATHER EMERGENCY! Caught in severe weather conditions.',
+      boundary: 'BOUNDARY EMERGENCY! Vessel at the international maritime boundary.',
       other: 'EMERGENCY! Require assistance.',
     };
 
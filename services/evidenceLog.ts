@@ -0,0 +1,345 @@
+/**
+ * 🔏 Evidence Log
+ * Tamper-evident record of where the boat was and what the crew was told
+ *
+ * Features:
+ * - Append-only, hash-chained log of fixes, alerts, acknowledgements, escalations, violations and IMBL events
+ * - Every entry signed with a device key that stays in the Keychain / Keystore
+ * - Signed JSON (and printable PDF) report for any time range, proving nothing was cut from it
+ * - Reports go out through the share sheet, e.g. to the fisheries office or a lawyer
+ * - Verifier for the on-device log and for exported reports
+ */
+
+import * as Crypto from 'expo-crypto';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Print from 'expo-print';
+import { File, Paths } from 'expo-file-system';
+import { bytesToHex } from '@noble/hashes/utils';
+import { shareFile } from '../utils/shareFile';
+import { Storage } from './storage';
+import { SecureStorage } from './secureStorage';
+import { locationSource } from './locationProvider';
+import {
+  ChainHead,
+  checkHead,
+  createEntry,
+  EvidenceEntry,
+  EvidenceKind,
+  EvidenceProblem,
+  EvidenceReport,
+  publicKeyFor,
+  signReport,
+  VerificationResult,
+  verifyEntries,
+  verifyReport
+} from '../utils/evidenceChain';
+
+const SIGNING_KEY_NAME = 'cfm.evidence_signing_key';
+const HEAD_KEY_NAME = 'cfm.evidence_head';
+
+// Fix rows printed in a PDF report; longer tracks are thinned evenly (the JSON keeps every fix)
+const MAX_PDF_FIXES = 500;
+
+export interface ReportExport {
+  jsonUri: string;
+  pdfUri?: string;
+  entries: number;
+  shared: boolean; // false where there is no share sheet; the files are then only in the app's documents
+}
+
+export interface ReportCheck extends VerificationResult {
+  fromThisDevice: boolean;
+  range?: { from: number; to: number };
+}
+
+class EvidenceLogService {
+  private privateKey: Promise<string> | null = null;
+  private head: ChainHead | null = null;
+  private headLoaded = false;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Add an entry to the end of the chain. Never throws: a failure is logged and null returned,
+   * so recording evidence cannot break the alert that triggered it.
+   */
+  async append(kind: EvidenceKind, payload: Record<string, unknown>): Promise<EvidenceEntry | null> {
+    // A replayed track is not a voyage: nothing it produces goes into the chain
+    if (!locationSource.isUsingDevice()) return null;
+    // One append at a time, so two entries never claim the same place in the chain
+    const run = this.queue.then(() => this.appendNow(kind, payload));
+    this.queue = run.catch(() => undefined);
+    try {
+      return await run;
+    } catch (error) {
+      console.error('❌ Failed to record evidence:', error);
+      return null;
+    }
+  }
+
+  async getPublicKey(): Promise<string> {
+    return publicKeyFor(await this.getPrivateKey());
+  }
+
+  async getEntries(range: { from?: number; to?: number } = {}): Promise<EvidenceEntry[]> {
+    await this.queue;
+    const entries = await Storage.queryEvidence(range);
+    return entries.sort((a, b) => a.seq - b.seq);
+  }
+
+  /**
+   * Check the on-device log, or part of it: contents, signatures, links, and (up to now) the head
+   */
+  async verifyLog(range: { from?: number; to?: number } = {}): Promise<VerificationResult> {
+    const [entries, publicKey, head] = await Promise.all([this.getEntries(range), this.getPublicKey(), this.getHead()]);
+    const previous = range.from !== undefined && entries.length ? await this.entryBefore(range.from) : null;
+    const result = verifyEntries(entries, publicKey, previous);
+    const problems: EvidenceProblem[] = [...result.problems];
+
+    const first = entries[0];
+    if (first && first.seq > 0 && !previous) {
+      problems.unshift({ seq: first.seq, reason: 'missing_entries', detail: `Entries before ${first.seq} are missing` });
+    }
+    if (range.to === undefined) {
+      const headProblem = checkHead(entries[entries.length - 1] ?? null, head);
+      if (headProblem) problems.push(headProblem);
+    }
+
+    const verdict = { valid: problems.length === 0, checked: entries.length, problems };
+    console.log(verdict.valid ? `✅ Evidence log intact (${entries.length} entries)` : `❌ Evidence log has ${problems.length} problem(s)`);
+    return verdict;
+  }
+
+  /**
+   * Signed report of every entry between from and to, with the entries either side as proof of completeness
+   */
+  async buildReport(from: number, to: number): Promise<EvidenceReport> {
+    const [entries, before, after, head, deviceId, privateKey] = await Promise.all([
+      this.getEntries({ from, to }),
+      this.entryBefore(from),
+      Storage.queryEvidence({ from: to + 1, limit: 1 }).then(later => later[0] ?? null),
+      this.getHead(),
+      Storage.getDeviceId(),
+      this.getPrivateKey()
+    ]);
+    if (!head) throw new Error('The evidence log is empty');
+
+    return signReport(
+      {
+        format: 'seasure-evidence-report',
+        version: 1,
+        generatedAt: Date.now(),
+        deviceId,
+        publicKey: publicKeyFor(privateKey),
+        range: { from, to },
+        before,
+        entries,
+        after,
+        head
+      },
+      privateKey
+    );
+  }
+
+  /**
+   * Write a report to the documents folder and share it; the PDF is for reading, the JSON is what verifies
+   */
+  async exportReport(from: number, to: number, options: { pdf?: boolean } = {}): Promise<ReportExport> {
+    const report = await this.buildReport(from, to);
+    const stamp = new Date(report.generatedAt).toISOString().replace(/[:.]/g, '-');
+    const name = `seasure-evidence-${stamp}`;
+
+    const json = new File(Paths.document, `${name}.json`);
+    json.create({ overwrite: true });
+    json.write(JSON.stringify(report, null, 2));
+
+    let pdfUri: string | undefined;
+    if (options.pdf) {
+      const { uri } = await Print.printToFileAsync({ html: this.reportHtml(report, `${name}.json`) });
+      const pdf = new File(Paths.document, `${name}.pdf`);
+      if (pdf.exists) pdf.delete();
+      new File(uri).move(pdf);
+      pdfUri = pdf.uri;
+    }
+
+    console.log(`💾 Evidence report (${report.entries.length} entries) saved to ${json.uri}`);
+
+    // One file per share sheet: the verifiable JSON first, then the PDF to read
+    const shared = await shareFile(json.uri, { mimeType: 'application/json', title: 'Share signed evidence report', uti: 'public.json' });
+    if (shared && pdfUri) {
+      await shareFile(pdfUri, { mimeType: 'application/pdf', title: 'Share printable evidence report', uti: 'com.adobe.pdf' });
+    }
+    return { jsonUri: json.uri, pdfUri, entries: report.entries.length, shared };
+  }
+
+  /**
+   * Verify an exported report; works for reports from any device, not just this one
+   */
+  async verifyReportText(text: string): Promise<ReportCheck> {
+    let report: EvidenceReport;
+    try {
+      report = JSON.parse(text);
+    } catch {
+      return this.unreadableReport('The file is not valid JSON');
+    }
+    if (report?.format !== 'seasure-evidence-report' || !Array.isArray(report.entries)) {
+      return this.unreadableReport('The file is not a SeaSure evidence report');
+    }
+
+    const result = verifyReport(report);
+    return {
+      ...result,
+      fromThisDevice: report.publicKey === (await this.getPublicKey()),
+      range: report.range
+    };
+  }
+
+  /**
+   * Let the user choose a report file and verify it; null when they cancel
+   */
+  async pickAndVerifyReport(): Promise<ReportCheck | null> {
+    const picked = await DocumentPicker.getDocumentAsync({ type: 'application/json', copyToCacheDirectory: true });
+    if (picked.canceled || !picked.assets?.length) return null;
+    return this.verifyReportText(await new File(picked.assets[0].uri).text());
+  }
+
+  private async appendNow(kind: EvidenceKind, payload: Record<string, unknown>): Promise<EvidenceEntry> {
+    const [privateKey, head, last] = await Promise.all([
+      this.getPrivateKey(),
+      this.getHead(),
+      Storage.queryEvidence({ order: 'desc', limit: 1 }).then(entries => entries[0] ?? null)
+    ]);
+    // The head is saved after the entry, so it can lag by one after a crash; a log shorter than
+    // the head means entries were removed, and the chain carries on from the head to show the gap
+    const previous = last && (!head || last.seq > head.seq) ? last : head;
+    const entry = createEntry(previous, kind, payload, Date.now(), privateKey);
+
+    await Storage.appendEvidence([entry]);
+    await this.saveHead({ seq: entry.seq, hash: entry.hash, timestamp: entry.timestamp });
+    return entry;
+  }
+
+  private async entryBefore(time: number): Promise<EvidenceEntry | null> {
+    const [entry] = await Storage.queryEvidence({ to: time - 1, order: 'desc', limit: 1 });
+    return entry ?? null;
+  }
+
+  private getPrivateKey(): Promise<string> {
+    if (!this.privateKey) {
+      this.privateKey = this.loadPrivateKey().catch(error => {
+        this.privateKey = null;
+        throw error;
+      });
+    }
+    return this.privateKey;
+  }
+
+  private async loadPrivateKey(): Promise<string> {
+    const existing = await SecureStorage.getSecret(SIGNING_KEY_NAME);
+    if (existing) return existing;
+    const key = bytesToHex(Crypto.getRandomBytes(32));
+    await SecureStorage.setSecret(SIGNING_KEY_NAME, key);
+    console.log('🔑 Created evidence signing key');
+    return key;
+  }
+
+  private async getHead(): Promise<ChainHead | null> {
+    if (!this.headLoaded) {
+      const stored = await SecureStorage.getSecret(HEAD_KEY_NAME);
+      this.head = stored ? JSON.parse(stored) : null;
+      this.headLoaded = true;
+    }
+    return this.head;
+  }
+
+  private async saveHead(head: ChainHead): Promise<void> {
+    this.head = head;
+    this.headLoaded = true;
+    await SecureStorage.setSecret(HEAD_KEY_NAME, JSON.stringify(head));
+  }
+
+  private unreadableReport(detail: string): ReportCheck {
+    return {
+      valid: false,
+      checked: 0,
+      problems: [{ seq: -1, reason: 'bad_report_signature', detail }],
+      fromThisDevice: false
+    };
+  }
+
+  private reportHtml(report: EvidenceReport, jsonName: string): string {
+    const time = (ms: number) => new Date(ms).toISOString().replace('T', ' ').slice(0, 19) + ' UTC';
+    const escape = (text: unknown) =>
+      String(text ?? '').replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]!);
+    const position = (payload: Record<string, any>) =>
+      payload.location ? `${Number(payload.location.lat).toFixed(5)}, ${Number(payload.location.lon).toFixed(5)}` : '';
+
+    const describe = (entry: EvidenceEntry): string => {
+      const p = entry.payload as Record<string, any>;
+      switch (entry.kind) {
+        case 'fix':
+          return `Fix ±${Math.round(p.accuracy ?? 0)} m, ${Number(p.speedKnots ?? 0).toFixed(1)} kn`;
+        case 'alert':
+          return `${p.title ?? 'Alert'}: ${p.message ?? ''}`;
+        case 'acknowledgement':
+          return `Acknowledged (${p.action ?? 'acknowledged'}) ${p.alertId ?? p.violationId ?? (p.alertIds ?? []).join(', ')}`;
+        case 'escalation':
+          return `Unacknowledged alert ${p.alertId} escalated: ${p.step}` + (p.contact ? ` (${p.contact.channel} to ${p.contact.name})` : '');
+        case 'violation':
+          return `${p.violationType} near ${p.boundaryName} (${p.severity})`;
+        case 'imbl':
+          return `IMBL ${p.event}: ${p.lineName}, stage ${p.stage ?? 'clear'}, ${Number(p.distanceKm).toFixed(2)} km` +
+            (p.onForeignSide ? ' (across)' : '');
+      }
+    };
+
+    const fixes = report.entries.filter(entry => entry.kind === 'fix');
+    const step = Math.max(1, Math.ceil(fixes.length / MAX_PDF_FIXES));
+    const shownFixes = new Set(fixes.filter((_, i) => i % step === 0).map(entry => entry.seq));
+    const rows = report.entries
+      .filter(entry => entry.kind !== 'fix' || shownFixes.has(entry.seq))
+      .map(entry => `
+        <tr class="${entry.kind}">
+          <td>${entry.seq}</td>
+          <td>${time(entry.timestamp)}</td>
+          <td>${escape(position(entry.payload))}</td>
+          <td>${escape(describe(entry))}${entry.payload.simulated ? ' <b>[simulated]</b>' : ''}</td>
+          <td class="hash">${entry.hash.slice(0, 16)}…</td>
+        </tr>`)
+      .join('');
+
+    const counts = report.entries.reduce<Record<string, number>>((acc, entry) => {
+      acc[entry.kind] = (acc[entry.kind] ?? 0) + 1;
+      return acc;
+    }, {});
+
+    return `
+      <html><head><meta charset="utf-8" /><style>
+        body { font-family: sans-serif; font-size: 10px; }
+        table { border-collapse: collapse; width: 100%; }
+        td, th { border: 1px solid #ccc; padding: 3px; text-align: left; vertical-align: top; }
+        tr.violation, tr.imbl { background: #fde8e8; }
+        tr.alert { background: #fff7e0; }
+        .hash, .key { font-family: monospace; word-break: break-all; }
+      </style></head><body>
+        <h2>SeaSure voyage evidence report</h2>
+        <p>Device ${escape(report.deviceId)}<br />
+          Period ${time(report.range.from)} to ${time(report.range.to)}<br />
+          Generated ${time(report.generatedAt)}</p>
+        <p>${report.entries.length} entries: ${Object.entries(counts).map(([kind, n]) => `${n} ${kind}`).join(', ') || 'none'}.
+          ${step > 1 ? `Every ${step}th fix is printed; the JSON file has all of them.` : ''}</p>
+        <p>Chain head: entry ${report.head.seq} <span class="hash">${report.head.hash}</span><br />
+          Device public key <span class="key">${report.publicKey}</span><br />
+          Report signature <span class="key">${report.signature}</span></p>
+        <p>This printout is a summary. The signed file ${escape(jsonName)} holds the complete hash-chained log
+          and can be checked with any SeaSure app (Settings → Verify Evidence).</p>
+        <table>
+          <tr><th>#</th><th>Recorded</th><th>Position</th><th>Event</th><th>Hash</th></tr>
+          ${rows}
+        </table>
+      </body></html>`;
+  }
+}
+
+// Export singleton instance
+export const evidenceLog = new EvidenceLogService();
+export default evidenceLog;
@@ -0,0 +1,190 @@
+/**
+ * 🧭 Exit Route Guidance
+ * Steers the boat out of a restricted zone by the shortest route to safe water
+ *
+ * Features:
+ * - Closest point of safe water on the zone boundary, or a route round other restricted zones
+ * - Re-planned on every fix as the boat moves
+ * - Heading, turn and distance for the full-screen guidance display
+ * - Voice prompts on start, on a change of course and at distance milestones
+ * - Ends by itself once the boat is clear of the zone
+ */
+
+import * as Speech from 'expo-speech';
+import { zoneRegistry } from './zoneRegistry';
+import { locationSource } from './locationProvider';
+import { compassPoint, containsPoint, distanceToPolygonEdgeKm } from '../utils/geodesy';
+import { ExitRoute, planExitRoute } from '../utils/exitRoute';
+import type { LocationFix } from '../types';
+
+export interface ExitGuidance {
+  zoneId: string;
+  zoneName: string;
+  position: { lat: number; lon: number };
+  route: ExitRoute | null; // null once clear, or just outside the edge but not yet confirmed clear
+  bearingDeg: number | null; // course to steer now
+  compass: string | null; // e.g. "WSW"
+  turnDeg: number | null; // from the boat's heading; negative is to port, null when heading is unknown
+  distanceKm: number | null; // along the route to safe water
+  outside: boolean; // clear of the zone; guidance has finished
+  updatedAt: number; // epoch ms of the fix
+}
+
+// Other restricted zones within this distance are routed round
+const OBSTACLE_SEARCH_KM = 50;
+// Clear of the zone only counts once this far outside, so GPS jitter on the edge does not end it
+const EXIT_CONFIRM_KM = 0.05;
+// Speak again when the course changes by this much, or at these distances, or after this long
+const REPROMPT_COURSE_DEG = 30;
+const REPROMPT_DISTANCES_KM = [5, 2, 1, 0.5, 0.2];
+const REPROMPT_INTERVAL_MS = 2 * 60 * 1000;
+
+const COMPASS_WORDS: Record<string, string> = { N: 'north', E: 'east', S: 'south', W: 'west' };
+
+class ExitGuidanceService {
+  private zone: { id: string; name: string } | null = null;
+  private guidance: ExitGuidance | null = null;
+  private unsubscribeLocation: (() => void) | null = null;
+  private unsubscribeProvider: (() => void) | null = null;
+  private lastSpoken: { at: number; bearingDeg: number; distanceKm: number } | null = null;
+  private listeners: Array<(guidance: ExitGuidance | null) => void> = [];
+
+  /**
+   * Guide the boat out of a zone, starting from a known position if there is one
+   */
+  async start(zoneId: string, from?: { lat: number; lon: number }): Promise<boolean> {
+    const zone = zoneRegistry.getZone(zoneId);
+    if (!zone) {
+      console.error(`❌ Exit guidance: unknown zone ${zoneId}`);
+      return false;
+    }
+    this.stop();
+    this.zone = { id: zone.id, name: zone.name };
+    console.log(`🧭 Exit guidance started for ${zone.name}`);
+
+    if (from) {
+      this.update({ latitude: from.lat, longitude: from.lon, accuracy: null, speed: null, heading: null, timestamp: locationSource.now() });
+      if (!this.zone) return true; // already clear
+    }
+    await this.subscribeToLocation();
+    // Follow the location source, e.g. when a recorded track replay starts or stops
+    this.unsubscribeProvider = locationSource.addListener(() => {
+      if (this.zone) this.subscribeToLocation().catch(error => console.error('❌ Exit guidance lost location:', error));
+    });
+    return true;
+  }
+
+  /**
+   * End guidance and close the display
+   */
+  stop(): void {
+    this.unsubscribeLocation?.();
+    this.unsubscribeLocation = null;
+    this.unsubscribeProvider?.();
+    this.unsubscribeProvider = null;
+    this.zone = null;
+    this.lastSpoken = null;
+    Speech.stop().catch(() => {});
+    if (this.guidance) {
+      this.guidance = null;
+      this.notifyListeners();
+    }
+  }
+
+  getGuidance(): ExitGuidance | null {
+    return this.guidance;
+  }
+
+  isActive(): boolean {
+    return this.zone !== null;
+  }
+
+  addListener(callback: (guidance: ExitGuidance | null) => void): () => void {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter(listener => listener !== callback);
+    };
+  }
+
+  private async subscribeToLocation(): Promise<void> {
+    this.unsubscribeLocation?.();
+    this.unsubscribeLocation = await locationSource.provider.watchPosition(
+      { intervalMs: 3000, highAccuracy: true },
+      fix => this.update(fix)
+    );
+  }
+
+  /**
+   * Re-plan from a new fix, speak if the advice has changed, and finish once clear
+   */
+  private update(fix: LocationFix): void {
+    const active = this.zone;
+    const zone = active && zoneRegistry.getZone(active.id);
+    if (!active || !zone) return;
+
+    const point = { lat: fix.latitude, lon: fix.longitude };
+    const nearby = zoneRegistry
+      .getZonesNear(point, OBSTACLE_SEARCH_KM, { restrictedAt: new Date(fix.timestamp) })
+      .map(({ zone: near }) => near);
+    // The zone being left counts even if its closure has just lapsed
+    const polygons = [zone, ...nearby.filter(near => near.id !== zone.id)].map(z => z.polygon);
+    const route = planExitRoute(point, polygons);
+    const outside = !containsPoint(zone.polygon, point) && distanceToPolygonEdgeKm(point, zone.polygon) >= EXIT_CONFIRM_KM;
+
+    const bearingDeg = route && !outside ? route.bearingDeg : null;
+    const heading = fix.heading;
+    this.guidance = {
+      zoneId: active.id,
+      zoneName: active.name,
+      position: point,
+      route: outside ? null : route,
+      bearingDeg,
+      compass: bearingDeg !== null ? compassPoint(bearingDeg) : null,
+      turnDeg: bearingDeg !== null && heading != null ? ((bearingDeg - heading + 540) % 360) - 180 : null,
+      distanceKm: route && !outside ? route.distanceKm : null,
+      outside,
+      updatedAt: fix.timestamp
+    };
+    this.notifyListeners();
+
+    if (outside) {
+      this.speak(`You are clear of ${active.name}.`);
+      console.log(`✅ Exit guidance finished: clear of ${active.name}`);
+      // The display stays up showing the all-clear until the skipper closes it
+      this.unsubscribeLocation?.();
+      this.unsubscribeLocation = null;
+      this.unsubscribeProvider?.();
+      this.unsubscribeProvider = null;
+      this.zone = null;
+      return;
+    }
+    if (route) this.prompt(route, fix.timestamp);
+  }
+
+  private prompt(route: ExitRoute, now: number): void {
+    const last = this.lastSpoken;
+    const courseChange = last ? Math.abs(((route.bearingDeg - last.bearingDeg + 540) % 360) - 180) : Infinity;
+    const passedMilestone = last ? REPROMPT_DISTANCES_KM.some(km => last.distanceKm > km && route.distanceKm <= km) : true;
+    if (last && courseChange < REPROMPT_COURSE_DEG && !passedMilestone && now - last.at < REPROMPT_INTERVAL_MS) return;
+
+    this.lastSpoken = { at: now, bearingDeg: route.bearingDeg, distanceKm: route.distanceKm };
+    const direction = compassPoint(route.bearingDeg).split('').map(letter => COMPASS_WORDS[letter]).join(' ');
+    const distance = route.distanceKm < 1 ? `${Math.round(route.distanceKm * 1000)} meters` : `${route.distanceKm.toFixed(1)} kilometers`;
+    const turns = route.waypoints.length > 2 ? ', then follow the route round the restricted area' : '';
+    this.speak(`Head ${direction}, ${Math.round(route.bearingDeg)} degrees, ${distance} to leave ${this.zone?.name ?? 'the zone'}${turns}.`);
+  }
+
+  private speak(text: string): void {
+    Speech.stop()
+      .catch(() => {})
+      .finally(() => Speech.speak(text, { language: 'en-IN', rate: 0.95 }));
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => listener(this.guidance));
+  }
+}
+
+// Export singleton instance
+export const exitGuidance = new ExitGuidanceService();
+export default exitGuidance;
@@ -0,0 +1,206 @@
+/**
+ * 📍 Location Provider
+ * One source of position fixes for every service that monitors the boat
+ *
+ * Features:
+ * - Device GPS provider backed by expo-location
+ * - Background location updates fan out to the same watchers (see backgroundMonitoring.ts)
+ * - Swappable at runtime, e.g. for a replayed track (see trackReplay.ts)
+ * - Provider clock, so replayed tracks run on track time rather than wall time
+ */
+
+import * as Location from 'expo-location';
+import { haversineKm } from '../utils/geo';
+import type { LocationFix } from '../types';
+
+export interface WatchOptions {
+  intervalMs: number; // deliver at most one fix per interval
+  distanceMeters?: number; // or when moved this far (device GPS only)
+  highAccuracy?: boolean;
+}
+
+export interface LocationProvider {
+  readonly name: string;
+  requestPermissions(options?: { background?: boolean }): Promise<boolean>;
+  getCurrentPosition(options?: { highAccuracy?: boolean }): Promise<LocationFix>;
+  // Resolves to an unsubscribe function
+  watchPosition(options: WatchOptions, callback: (fix: LocationFix) => void | Promise<void>): Promise<() => void>;
+  now(): number; // epoch ms on this provider's clock
+}
+
+export function toLocationFix(location: Location.LocationObject): LocationFix {
+  const { latitude, longitude, accuracy, speed, heading } = location.coords;
+  return {
+    latitude,
+    longitude,
+    accuracy: accuracy ?? null,
+    // expo-location reports -1 when speed or heading is unknown
+    speed: speed != null && speed >= 0 ? speed : null,
+    heading: heading != null && heading >= 0 ? heading : null,
+    timestamp: location.timestamp
+  };
+}
+
+interface DeviceWatcher {
+  options: WatchOptions;
+  callback: (fix: LocationFix) => void | Promise<void>;
+  lastDelivered: LocationFix | null;
+  foreground: Location.LocationSubscription | null;
+  removed: boolean;
+}
+
+class DeviceLocationProvider implements LocationProvider {
+  readonly name = 'device';
+  private watchers = new Set<DeviceWatcher>();
+  // While the background location task runs, its fixes feed every watcher instead of watchPositionAsync
+  private backgroundUpdates = false;
+
+  async requestPermissions(options: { background?: boolean } = {}): Promise<boolean> {
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    if (status !== 'granted') return false;
+    if (options.background) {
+      const background = await Location.requestBackgroundPermissionsAsync();
+      if (background.status !== 'granted') {
+        console.warn('⚠️ Background location not granted; monitoring stops when the app is closed');
+      }
+    }
+    return true;
+  }
+
+  async getCurrentPosition(options: { highAccuracy?: boolean } = {}): Promise<LocationFix> {
+    const location = await Location.getCurrentPositionAsync({
+      accuracy: options.highAccuracy ? Location.Accuracy.BestForNavigation : Location.Accuracy.Balanced
+    });
+    return toLocationFix(location);
+  }
+
+  async watchPosition(options: WatchOptions, callback: (fix: LocationFix) => void | Promise<void>): Promise<() => void> {
+    const watcher: DeviceWatcher = { options, callback, lastDelivered: null, foreground: null, removed: false };
+    this.watchers.add(watcher);
+    if (!this.backgroundUpdates) await this.startForegroundWatch(watcher);
+    return () => {
+      watcher.removed = true;
+      this.watchers.delete(watcher);
+      watcher.foreground?.remove();
+      watcher.foreground = null;
+    };
+  }
+
+  private async startForegroundWatch(watcher: DeviceWatcher): Promise<void> {
+    const { options } = watcher;
+    const subscription = await Location.watchPositionAsync(
+      {
+        accuracy: options.highAccuracy === false ? Location.Accuracy.Balanced : Location.Accuracy.High,
+        timeInterval: options.intervalMs,
+        distanceInterval: options.distanceMeters ?? 0
+      },
+      location => {
+        // iOS ignores timeInterval, so throttle here unless the boat has moved far enough
+        const fix = toLocationFix(location);
+        if (!options.distanceMeters && watcher.lastDelivered && fix.timestamp - watcher.lastDelivered.timestamp < options.intervalMs) return;
+        this.deliver(watcher, fix);
+      }
+    );
+    // Unsubscribed, or switched to background updates, while the watch was starting
+    if (watcher.removed || this.backgroundUpdates) subscription.remove();
+    else watcher.foreground = subscription;
+  }
+
+  private deliver(watcher: DeviceWatcher, fix: LocationFix): Promise<void> {
+    watcher.lastDelivered = fix;
+    return Promise.resolve(watcher.callback(fix)).catch(error => console.error('❌ Location watcher failed:', error));
+  }
+
+  /**
+   * Hand foreground watchers over to the background location task, or back again
+   */
+  async setBackgroundUpdates(active: boolean): Promise<void> {
+    if (this.backgroundUpdates === active) return;
+    this.backgroundUpdates = active;
+    for (const watcher of Array.from(this.watchers)) {
+      if (active) {
+        watcher.foreground?.remove();
+        watcher.foreground = null;
+      } else if (!watcher.foreground) {
+        await this.startForegroundWatch(watcher);
+      }
+    }
+  }
+
+  /**
+   * Fixes from the background location task, applying each watcher's interval and distance
+   */
+  async deliverBackgroundFixes(fixes: LocationFix[]): Promise<void> {
+    if (!this.backgroundUpdates) return;
+    for (const watcher of Array.from(this.watchers)) {
+      for (const fix of fixes) {
+        const last = watcher.lastDelivered;
+        if (last) {
+          if (fix.timestamp <= last.timestamp) continue;
+          const moved = haversineKm({ lat: last.latitude, lon: last.longitude }, { lat: fix.latitude, lon: fix.longitude }) * 1000;
+          const due = fix.timestamp - last.timestamp >= watcher.options.intervalMs;
+          if (!due && !(watcher.options.distanceMeters && moved >= watcher.options.distanceMeters)) continue;
+        }
+        // In order, so each fix is checked against the state the previous one left
+        await this.deliver(watcher, fix);
+      }
+    }
+  }
+
+  now(): number {
+    return Date.now();
+  }
+}
+
+class LocationSource {
+  private device = new DeviceLocationProvider();
+  private active: LocationProvider = this.device;
+  private listeners: Array<(provider: LocationProvider) => void> = [];
+
+  get provider(): LocationProvider {
+    return this.active;
+  }
+
+  /**
+   * Switch every consumer to another provider; monitoring services resubscribe on the change
+   */
+  setProvider(provider: LocationProvider): void {
+    this.active = provider;
+    console.log(`📍 Location provider: ${provider.name}`);
+    this.listeners.forEach(listener => listener(provider));
+  }
+
+  useDevice(): void {
+    if (this.active !== this.device) this.setProvider(this.device);
+  }
+
+  isUsingDevice(): boolean {
+    return this.active === this.device;
+  }
+
+  /**
+   * Route device fixes through the background location task (true) or foreground watchers (false)
+   */
+  setBackgroundUpdates(active: boolean): Promise<void> {
+    return this.device.setBackgroundUpdates(active);
+  }
+
+  deliverBackgroundFixes(fixes: LocationFix[]): Promise<void> {
+    return this.device.deliverBackgroundFixes(fixes);
+  }
+
+  now(): number {
+    return this.active.now();
+  }
+
+  addListener(callback: (provider: LocationProvider) => void): () => void {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter(listener => listener !== callback);
+    };
+  }
+}
+
+// Export singleton instance
+export const locationSource = new LocationSource();
+export default locationSource;
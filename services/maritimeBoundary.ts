@@ -1,8 +1,16 @@
-import * as Location from 'expo-location';
 import { Alert } from 'react-native';
-import { pointInPolygon, haversineKm } from '../utils/geo';
+import { haversineKm } from '../utils/geo';
+import { containsPoint, distanceToPolygonEdgeKm, initialBearingDeg, Polygon } from '../utils/geodesy';
 import { ZONES } from '../data/zones';
 import { Storage } from './storage';
+import { trackRetentionService } from './trackRetention';
+import { zoneRegistry } from './zoneRegistry';
+import { bboxAround, ringBBox, SpatialIndex } from '../utils/spatialIndex';
+import { MARITIME_BOUNDARIES } from '../data/boundaryZones';
+import { locationSource } from './locationProvider';
+import { evidenceLog } from './evidenceLog';
+import { exitGuidance } from './exitGuidance';
+import type { LocationFix } from '../types';
 
 // Maritime boundary types and restrictions
 export interface MaritimeBoundary {
@@ -10,6 +18,7 @@ export interface MaritimeBoundary {
   name: string;
   type: 'territorial_waters' | 'eez' | 'international_boundary' | 'restricted_military' | 'marine_protected' | 'seasonal_ban';
   coordinates: { lat: number; lon: number }[];
+  holes?: { lat: number; lon: number }[][]; // Areas inside the boundary that are excluded from it
   restrictions: {
     fishingAllowed: boolean;
     requiresPermit: boolean;
@@ -50,6 +59,7 @@ export interface BoundaryViolation {
   automaticReported: boolean;
   acknowledged: boolean;
   resolved: boolean;
+  replayed?: boolean; // raised by a replayed track: shown, never saved or reported
 }
 
 // GPS tracking and geofencing
@@ -64,140 +74,41 @@ export interface GPSTrackingData {
   estimatedTimeToViolation: number | null; // minutes
 }
 
+// Retention runs again after this many saved fixes, so a long trip stays near the point budget
+const RETENTION_EVERY_FIXES = 500;
+
 class MaritimeBoundaryService {
   private boundaries: MaritimeBoundary[] = [];
+  private boundaryIndex!: SpatialIndex<MaritimeBoundary>; // built with the boundaries
+  private maxWarningDistance = 0; // km
   private trackingData: GPSTrackingData[] = [];
   private violations: BoundaryViolation[] = [];
   private isTracking = false;
-  private trackingInterval: NodeJS.Timeout | null = null;
+  private trackingOptions: { trackingInterval: number; highAccuracy: boolean } | null = null;
+  private unsubscribeLocation: (() => void) | null = null;
   private lastPosition: { lat: number; lon: number } | null = null;
+  private lastFixTime: number | null = null;
+  private fixesSinceRetention = 0;
 
   constructor() {
     this.initializeBoundaries();
     this.loadViolationHistory();
+
+    // Follow the location source, e.g. when a recorded track replay starts or stops
+    locationSource.addListener(() => {
+      if (!this.isTracking) return;
+      // Speed from the previous fix would mix two different tracks
+      this.lastPosition = null;
+      this.lastFixTime = null;
+      this.subscribeToLocation().catch(error => console.error('Failed to switch location provider:', error));
+    });
   }
 
   // Initialize Indian maritime boundaries
   private initializeBoundaries() {
-    this.boundaries = [
-      {
-        id: 'india_pakistan_boundary',
-        name: 'India-Pakistan Maritime Boundary',
-        type: 'international_boundary',
-        coordinates: [
-          { lat: 24.0, lon: 68.0 },
-          { lat: 23.5, lon: 68.2 },
-          { lat: 23.0, lon: 68.5 },
-          { lat: 22.5, lon: 69.0 }
-        ],
-        restrictions: {
-          fishingAllowed: false,
-          requiresPermit: false,
-          seasonalRestrictions: { banned: [], permitted: [] },
-          timeRestrictions: { allowedHours: [], bannedHours: [] },
-          gearRestrictions: [],
-          speciesRestrictions: []
-        },
-        penalties: {
-          fine: { min: 500000, max: 2000000, currency: 'INR' },
-          imprisonment: { min: 6, max: 24, unit: 'months' },
-          vesselSeizure: true,
-          licenseRevocation: true
-        },
-        warningDistance: 10,
-        criticalDistance: 2
-      },
-      {
-        id: 'mumbai_naval_zone',
-        name: 'Mumbai Naval Restricted Zone',
-        type: 'restricted_military',
-        coordinates: [
-          { lat: 18.95, lon: 72.8 },
-          { lat: 18.95, lon: 72.85 },
-          { lat: 18.92, lon: 72.85 },
-          { lat: 18.92, lon: 72.8 }
-        ],
-        restrictions: {
-          fishingAllowed: false,
-          requiresPermit: false,
-          seasonalRestrictions: { banned: [], permitted: [] },
-          timeRestrictions: { allowedHours: [], bannedHours: [] },
-          gearRestrictions: [],
-          speciesRestrictions: []
-        },
-        penalties: {
-          fine: { min: 100000, max: 500000, currency: 'INR' },
-          imprisonment: { min: 1, max: 6, unit: 'months' },
-          vesselSeizure: true,
-          licenseRevocation: false
-        },
-        warningDistance: 5,
-        criticalDistance: 1
-      },
-      {
-        id: 'goa_monsoon_ban',
-        name: 'Goa Monsoon Fishing Ban Zone',
-        type: 'seasonal_ban',
-        coordinates: [
-          { lat: 15.8, lon: 73.5 },
-          { lat: 15.8, lon: 74.2 },
-          { lat: 15.0, lon: 74.2 },
-          { lat: 15.0, lon: 73.5 }
-        ],
-        restrictions: {
-          fishingAllowed: true,
-          requiresPermit: true,
-          seasonalRestrictions: {
-            banned: [{ start: '2024-06-01', end: '2024-07-31' }],
-            permitted: [{ start: '2024-08-01', end: '2024-05-31' }]
-          },
-          timeRestrictions: { allowedHours: [], bannedHours: [] },
-          gearRestrictions: ['purse_seine', 'trawl_net'],
-          speciesRestrictions: ['juvenile_fish']
-        },
-        penalties: {
-          fine: { min: 50000, max: 200000, currency: 'INR' },
-          imprisonment: { min: 15, max: 90, unit: 'days' },
-          vesselSeizure: false,
-          licenseRevocation: false
-        },
-        warningDistance: 15,
-        criticalDistance: 5
-      },
-      {
-        id: 'kerala_marine_sanctuary',
-        name: 'Kerala Marine Protected Area',
-        type: 'marine_protected',
-        coordinates: [
-          { lat: 10.2, lon: 76.0 },
-          { lat: 10.2, lon: 76.3 },
-          { lat: 9.8, lon: 76.3 },
-          { lat: 9.8, lon: 76.0 }
-        ],
-        restrictions: {
-          fishingAllowed: true,
-          requiresPermit: true,
-          seasonalRestrictions: {
-            banned: [{ start: '2024-04-01', end: '2024-06-30' }],
-            permitted: []
-          },
-          timeRestrictions: {
-            allowedHours: [{ start: '06:00', end: '18:00' }],
-            bannedHours: [{ start: '18:00', end: '06:00' }]
-          },
-          gearRestrictions: ['bottom_trawl', 'dynamite_fishing'],
-          speciesRestrictions: ['turtle', 'shark', 'ray']
-        },
-        penalties: {
-          fine: { min: 75000, max: 300000, currency: 'INR' },
-          imprisonment: { min: 1, max: 12, unit: 'months' },
-          vesselSeizure: false,
-          licenseRevocation: true
-        },
-        warningDistance: 8,
-        criticalDistance: 2
-      }
-    ];
+    this.boundaries = MARITIME_BOUNDARIES;
+    this.boundaryIndex = SpatialIndex.fromBoxes(this.boundaries, boundary => ringBBox(boundary.coordinates));
+    this.maxWarningDistance = Math.max(0, ...this.boundaries.map(boundary => boundary.warningDistance));
   }
 
   // Start real-time GPS tracking and boundary monitoring
@@ -208,28 +119,21 @@ class MaritimeBoundaryService {
   }): Promise<boolean> {
     try {
       // Request location permissions
-      const { status: foregroundStatus } = await Location.requestForegroundPermissionsAsync();
-      if (foregroundStatus !== 'granted') {
+      if (!(await locationSource.provider.requestPermissions({ background: options.backgroundTracking }))) {
         Alert.alert('Permission Required', 'Location access is required for boundary monitoring.');
         return false;
       }
 
-      if (options.backgroundTracking) {
-        const { status: backgroundStatus } = await Location.requestBackgroundPermissionsAsync();
-        if (backgroundStatus !== 'granted') {
-          Alert.alert('Background Location', 'Background location access recommended for continuous monitoring.');
-        }
-      }
-
       this.isTracking = true;
+      this.trackingOptions = { trackingInterval: options.trackingInterval, highAccuracy: options.highAccuracy };
 
-      // Start periodic tracking
-      this.trackingInterval = setInterval(async () => {
-        await this.trackCurrentPosition(options.highAccuracy);
-      }, options.trackingInterval * 1000);
-
-      // Initial position check
-      await this.trackCurrentPosition(options.highAccuracy);
+      // Initial position check, then one fix per tracking interval. Started in the background there may
+      // be no current position to be had, and the subscription still delivers the next fix.
+      await locationSource.provider
+        .getCurrentPosition({ highAccuracy: options.highAccuracy })
+        .then(fix => this.processFix(fix))
+        .catch(error => console.warn('Initial position unavailable:', error));
+      await this.subscribeToLocation();
 
       return true;
     } catch (error) {
@@ -241,38 +145,44 @@ class MaritimeBoundaryService {
   // Stop GPS tracking
   stopBoundaryMonitoring(): void {
     this.isTracking = false;
-    if (this.trackingInterval) {
-      clearInterval(this.trackingInterval);
-      this.trackingInterval = null;
-    }
+    this.unsubscribeLocation?.();
+    this.unsubscribeLocation = null;
+
+    // End of a trip is a good moment to compact the stored track
+    trackRetentionService.applyRetention().catch(error => console.error('Track retention failed:', error));
   }
 
-  // Track current position and check for violations
-  private async trackCurrentPosition(highAccuracy: boolean): Promise<void> {
-    try {
-      const location = await Location.getCurrentPositionAsync({
-        accuracy: highAccuracy ? Location.Accuracy.BestForNavigation : Location.Accuracy.Balanced
-      });
+  // Change the tracking interval of a running monitor, e.g. from the adaptive poll scheduler
+  async setTrackingInterval(seconds: number): Promise<void> {
+    if (!this.isTracking || !this.trackingOptions || this.trackingOptions.trackingInterval === seconds) return;
+    this.trackingOptions = { ...this.trackingOptions, trackingInterval: seconds };
+    await this.subscribeToLocation();
+  }
+
+  private async subscribeToLocation(): Promise<void> {
+    if (!this.trackingOptions) return;
+    this.unsubscribeLocation?.();
+    this.unsubscribeLocation = await locationSource.provider.watchPosition(
+      { intervalMs: this.trackingOptions.trackingInterval * 1000, highAccuracy: this.trackingOptions.highAccuracy },
+      fix => this.processFix(fix)
+    );
+  }
 
+  // Record a position fix and check it for violations
+  private async processFix(fix: LocationFix): Promise<void> {
+    try {
       const currentPos = {
-        lat: location.coords.latitude,
-        lon: location.coords.longitude
+        lat: fix.latitude,
+        lon: fix.longitude
       };
 
-      // Calculate speed and heading if we have previous position
-      let speed = 0;
-      let heading = 0;
-      if (this.lastPosition) {
-        const distance = haversineKm(this.lastPosition, currentPos);
-        const timeDiff = 1; // 1 minute intervals
-        speed = (distance / timeDiff) * 60; // Convert to km/h, then to knots
-        speed = speed * 0.539957; // Convert km/h to knots
-
-        // Calculate heading (simplified)
-        const deltaLon = currentPos.lon - this.lastPosition.lon;
-        const deltaLat = currentPos.lat - this.lastPosition.lat;
-        heading = Math.atan2(deltaLon, deltaLat) * (180 / Math.PI);
-        if (heading < 0) heading += 360;
+      // Prefer the receiver's speed and course; otherwise derive them from the previous fix
+      let speed = fix.speed != null ? fix.speed * 1.943844 : 0; // m/s to knots
+      let heading = fix.heading ?? 0;
+      if (this.lastPosition && this.lastFixTime !== null && fix.timestamp > this.lastFixTime) {
+        const hours = (fix.timestamp - this.lastFixTime) / 3600000;
+        if (fix.speed == null) speed = (haversineKm(this.lastPosition, currentPos) / hours) * 0.539957; // km/h to knots
+        if (fix.heading == null) heading = initialBearingDeg(this.lastPosition, currentPos);
       }
 
       // Check boundary violations
@@ -280,11 +190,11 @@ class MaritimeBoundaryService {
       
       // Create tracking data
       const trackingData: GPSTrackingData = {
-        timestamp: new Date(),
+        timestamp: new Date(fix.timestamp),
         location: currentPos,
         speed,
         heading,
-        accuracy: location.coords.accuracy || 0,
+        accuracy: fix.accuracy || 0,
         insideBoundary: boundaryCheck.insideBoundary,
         distanceToNearestBoundary: boundaryCheck.distanceToNearest,
         estimatedTimeToViolation: boundaryCheck.timeToViolation
@@ -292,6 +202,7 @@ class MaritimeBoundaryService {
 
       this.trackingData.push(trackingData);
       this.lastPosition = currentPos;
+      this.lastFixTime = fix.timestamp;
 
       // Handle violations
       if (boundaryCheck.violations.length > 0) {
@@ -303,7 +214,15 @@ class MaritimeBoundaryService {
         this.trackingData = this.trackingData.slice(-1000);
       }
 
-      await this.saveTrackingData();
+      await this.saveTrackingPoint(trackingData);
+      await evidenceLog.append('fix', {
+        location: currentPos,
+        fixTime: fix.timestamp,
+        accuracy: fix.accuracy,
+        speedKnots: speed,
+        heading,
+        insideBoundary: boundaryCheck.insideBoundary
+      });
 
     } catch (error) {
       console.error('Position tracking error:', error);
@@ -318,17 +237,20 @@ class MaritimeBoundaryService {
     violations: { boundary: MaritimeBoundary; type: string; severity: string }[];
   } {
     let insideBoundary: string | null = null;
-    let distanceToNearest = Infinity;
     let timeToViolation: number | null = null;
     const violations: { boundary: MaritimeBoundary; type: string; severity: string }[] = [];
 
-    for (const boundary of this.boundaries) {
-      const isInside = pointInPolygon(position, boundary.coordinates);
-      const distance = this.distanceToBoundary(position, boundary);
+    const [nearest] = this.boundaryIndex.nearest(position, 1, {
+      distanceKm: (boundary, p) => this.distanceToBoundary(p, boundary)
+    });
+    const distanceToNearest = nearest ? nearest.distanceKm : Infinity;
 
-      if (distance < distanceToNearest) {
-        distanceToNearest = distance;
-      }
+    // Only boundaries whose box is within warning range can produce a violation
+    const candidates = this.boundaryIndex.search(bboxAround(position, this.maxWarningDistance));
+
+    for (const boundary of candidates) {
+      const isInside = containsPoint(this.toPolygon(boundary), position);
+      const distance = this.distanceToBoundary(position, boundary);
 
       // Check if inside restricted boundary
       if (isInside) {
@@ -375,43 +297,19 @@ class MaritimeBoundaryService {
     };
   }
 
-  // Calculate distance to boundary
+  // Calculate distance to the nearest boundary edge (km)
   private distanceToBoundary(position: { lat: number; lon: number }, boundary: MaritimeBoundary): number {
-    let minDistance = Infinity;
-    
-    for (let i = 0; i < boundary.coordinates.length; i++) {
-      const distance = haversineKm(position, boundary.coordinates[i]);
-      if (distance < minDistance) {
-        minDistance = distance;
-      }
-    }
-    
-    return minDistance;
+    return distanceToPolygonEdgeKm(position, this.toPolygon(boundary));
   }
 
-  // Check if fishing is currently allowed in a boundary
-  private isFishingAllowed(boundary: MaritimeBoundary): boolean {
-    if (!boundary.restrictions.fishingAllowed) return false;
-
-    const now = new Date();
-    const currentTime = now.toTimeString().slice(0, 5);
-    const currentDate = now.toISOString().split('T')[0];
-
-    // Check seasonal restrictions
-    for (const ban of boundary.restrictions.seasonalRestrictions.banned) {
-      if (currentDate >= ban.start && currentDate <= ban.end) {
-        return false;
-      }
-    }
-
-    // Check time restrictions
-    for (const bannedHour of boundary.restrictions.timeRestrictions.bannedHours) {
-      if (currentTime >= bannedHour.start && currentTime <= bannedHour.end) {
-        return false;
-      }
-    }
+  private toPolygon(boundary: MaritimeBoundary): Polygon {
+    return { outer: boundary.coordinates, holes: boundary.holes };
+  }
 
-    return true;
+  // Check if fishing is currently allowed in a boundary (rules shared through the zone registry)
+  private isFishingAllowed(boundary: MaritimeBoundary): boolean {
+    const zone = zoneRegistry.getZone(boundary.id);
+    return zone ? zoneRegistry.isFishingAllowed(zone) : boundary.restrictions.fishingAllowed;
   }
 
   // Handle boundary violations
@@ -421,8 +319,8 @@ class MaritimeBoundaryService {
   ): Promise<void> {
     for (const violation of violations) {
       const violationRecord: BoundaryViolation = {
-        id: `violation_${Date.now()}_${Math.random()}`,
-        timestamp: new Date(),
+        id: `violation_${locationSource.now()}_${Math.random()}`,
+        timestamp: new Date(locationSource.now()),
         location: position,
         boundary: violation.boundary,
         violationType: violation.type as any,
@@ -434,16 +332,25 @@ class MaritimeBoundaryService {
         },
         automaticReported: false,
         acknowledged: false,
-        resolved: false
+        resolved: false,
+        replayed: !locationSource.isUsingDevice()
       };
 
       this.violations.push(violationRecord);
+      await evidenceLog.append('violation', {
+        violationId: violationRecord.id,
+        location: position,
+        boundaryId: violation.boundary.id,
+        boundaryName: violation.boundary.name,
+        violationType: violation.type,
+        severity: violation.severity
+      });
 
       // Show alert to user
       await this.showViolationAlert(violationRecord);
 
-      // Auto-report critical violations
-      if (violation.severity === 'critical' || violation.severity === 'emergency') {
+      // Auto-report critical violations (never for a replayed track)
+      if (!violationRecord.replayed && (violation.severity === 'critical' || violation.severity === 'emergency')) {
         await this.reportViolationToAuthorities(violationRecord);
         violationRecord.automaticReported = true;
       }
@@ -481,6 +388,7 @@ class MaritimeBoundaryService {
           onPress: () => {
             violation.acknowledged = true;
             this.saveViolations();
+            evidenceLog.append('acknowledgement', { violationId: violation.id, action: 'acknowledged' });
           }
         },
         {
@@ -492,52 +400,11 @@ class MaritimeBoundaryService {
     );
   }
 
-  // Provide directions to exit restricted area
+  // Full-screen guidance out of the zone by the shortest safe route, updated as the boat moves
   private async provideExitDirections(violation: BoundaryViolation): Promise<void> {
-    const currentPos = violation.location;
-    const boundary = violation.boundary;
-    
-    // Find nearest exit point
-    let nearestExit = boundary.coordinates[0];
-    let minDistance = Infinity;
-    
-    for (const point of boundary.coordinates) {
-      const distance = haversineKm(currentPos, point);
-      if (distance < minDistance) {
-        minDistance = distance;
-        nearestExit = point;
-      }
+    if (!(await exitGuidance.start(violation.boundary.id, violation.location))) {
+      Alert.alert('📍 Exit Directions', 'Could not plan a route out of this area.', [{ text: 'OK' }]);
     }
-
-    // Calculate bearing to exit
-    const bearing = this.calculateBearing(currentPos, nearestExit);
-    const distance = haversineKm(currentPos, nearestExit);
-
-    Alert.alert(
-      '📍 Exit Directions',
-      `Head ${this.bearingToCompass(bearing)} for ${distance.toFixed(2)}km to exit the restricted area.`,
-      [{ text: 'OK' }]
-    );
-  }
-
-  // Calculate bearing between two points
-  private calculateBearing(from: { lat: number; lon: number }, to: { lat: number; lon: number }): number {
-    const deltaLon = (to.lon - from.lon) * Math.PI / 180;
-    const lat1 = from.lat * Math.PI / 180;
-    const lat2 = to.lat * Math.PI / 180;
-    
-    const y = Math.sin(deltaLon) * Math.cos(lat2);
-    const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(deltaLon);
-    
-    let bearing = Math.atan2(y, x) * 180 / Math.PI;
-    return (bearing + 360) % 360;
-  }
-
-  // Convert bearing to compass direction
-  private bearingToCompass(bearing: number): string {
-    const directions = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
-    const index = Math.round(bearing / 22.5) % 16;
-    return directions[index];
   }
 
   // Report violation to authorities
@@ -575,9 +442,15 @@ class MaritimeBoundaryService {
   }
 
   // Data persistence methods
-  private async saveTrackingData(): Promise<void> {
+  private async saveTrackingPoint(point: GPSTrackingData): Promise<void> {
+    // A replayed track is never written over the real one
+    if (!locationSource.isUsingDevice()) return;
     try {
-      await Storage.saveTrackingData?.(this.trackingData.slice(-100)); // Save last 100 points
+      await Storage.appendTrackingData([point]);
+      if (++this.fixesSinceRetention >= RETENTION_EVERY_FIXES) {
+        this.fixesSinceRetention = 0;
+        trackRetentionService.applyRetention().catch(error => console.error('Track retention failed:', error));
+      }
     } catch (error) {
       console.error('Failed to save tracking data:', error);
     }
@@ -585,7 +458,7 @@ class MaritimeBoundaryService {
 
   private async saveViolations(): Promise<void> {
     try {
-      await Storage.saveViolations?.(this.violations);
+      await Storage.saveViolations?.(this.violations.filter(violation => !violation.replayed));
     } catch (error) {
       console.error('Failed to save violations:', error);
     }
@@ -619,10 +492,10 @@ class MaritimeBoundaryService {
 
   async checkCurrentLocation(): Promise<any> {
     try {
-      const location = await Location.getCurrentPositionAsync();
+      const location = await locationSource.provider.getCurrentPosition();
       const position = {
-        lat: location.coords.latitude,
-        lon: location.coords.longitude
+        lat: location.latitude,
+        lon: location.longitude
       };
       return this.checkBoundaryViolations(position);
     } catch (error) {
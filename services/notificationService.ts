@@ -17,13 +17,15 @@ import Constants from 'expo-constants';
 import { Platform } from 'react-native';
 import { alertStorage } from './alertStorage';
 import { modeConfig } from './modeConfig';
+import { locationSource } from './locationProvider';
+import type { AlertArea, AlertEscalationStep, AlertType } from '../types';
 
 // 🎛️ DYNAMIC MODE - Controlled by modeConfig service
 // No longer hardcoded - judges can toggle between MOCK and REAL modes!
 
 export interface AlertNotification {
   id: string;
-  type: 'weather' | 'boundary' | 'emergency' | 'fishing' | 'regulatory' | 'demo';
+  type: AlertType;
   title: string;
   message: string;
   priority: 'low' | 'medium' | 'high' | 'critical';
@@ -33,8 +35,20 @@ export interface AlertNotification {
     longitude: number;
   };
   data?: any;
+  areas?: AlertArea[]; // presented only once the boat or its active trip route is in one
+  validFrom?: number;
+  expiresAt?: number;
+  dedupKey?: string; // raised again under the same key, it updates the stored alert instead of adding one
 }
 
+// Android channels for re-notifying an unacknowledged alert: the loud one plays on the alarm stream,
+// which is louder than notifications and ignores the ringer being silenced
+const ESCALATION_CHANNELS: Record<Exclude<AlertEscalationStep, 'contact'>, string> = {
+  loud: 'alert-escalation-loud',
+  vibration: 'alert-escalation-vibrate'
+};
+const ESCALATION_VIBRATION = [0, 1500, 500, 1500, 500, 1500, 500, 1500];
+
 // Configure notification behavior
 Notifications.setNotificationHandler({
   handleNotification: async () => ({
@@ -49,6 +63,7 @@ Notifications.setNotificationHandler({
 class NotificationService {
   private expoPushToken: string | null = null;
   private isInitialized = false;
+  private unsubscribeActivation: (() => void) | null = null;
 
   /**
    * Initialize the notification service
@@ -60,6 +75,12 @@ class NotificationService {
       
       // Initialize alert storage first
       await alertStorage.initialize();
+      // Alerts stored for an area elsewhere are presented once the boat or its route reaches it
+      if (!this.unsubscribeActivation) {
+        this.unsubscribeActivation = alertStorage.addActivationListener(alert => {
+          this.present(alert).catch(error => console.error('❌ Failed to present activated alert:', error));
+        });
+      }
       
       if (modeConfig.isMockMode()) {
         // Mock mode - just log notifications
@@ -86,6 +107,7 @@ class NotificationService {
 
       // Set up notification categories for different alert types
       await this.setupNotificationCategories();
+      await this.setupEscalationChannels();
       
       this.isInitialized = true;
       console.log('✅ Notification service initialized successfully');
@@ -177,9 +199,36 @@ class NotificationService {
   }
 
   /**
-   * Send a local notification
+   * Android channels for escalated alerts, at maximum importance and through Do Not Disturb
+   */
+  private async setupEscalationChannels(): Promise<void> {
+    if (Platform.OS !== 'android') return;
+    await Notifications.setNotificationChannelAsync(ESCALATION_CHANNELS.loud, {
+      name: 'Unacknowledged danger alerts',
+      importance: Notifications.AndroidImportance.MAX,
+      bypassDnd: true,
+      sound: 'default',
+      audioAttributes: { usage: Notifications.AndroidAudioUsage.ALARM, contentType: Notifications.AndroidAudioContentType.SONIFICATION },
+      enableVibrate: false
+    });
+    await Notifications.setNotificationChannelAsync(ESCALATION_CHANNELS.vibration, {
+      name: 'Unacknowledged danger alerts (vibrate)',
+      importance: Notifications.AndroidImportance.MAX,
+      bypassDnd: true,
+      sound: 'default',
+      audioAttributes: { usage: Notifications.AndroidAudioUsage.ALARM, contentType: Notifications.AndroidAudioContentType.SONIFICATION },
+      enableVibrate: true,
+      vibrationPattern: ESCALATION_VIBRATION
+    });
+  }
+
+  /**
+   * Send a local notification; an escalation re-sends an alert louder, or louder with vibration
    */
-  async sendNotification(alert: AlertNotification): Promise<string> {
+  async sendNotification(
+    alert: AlertNotification,
+    options: { escalation?: Exclude<AlertEscalationStep, 'contact'> } = {}
+  ): Promise<string> {
     if (!this.isInitialized) {
       await this.initialize();
     }
@@ -187,54 +236,78 @@ class NotificationService {
     try {
       console.log(`🚨 Sending ${alert.type} notification:`, alert.title);
 
-      // Store alert in persistent storage (works in both modes)
+      // Alerts raised by a replayed track are shown, never stored, so they cannot escalate or linger
+      if (!locationSource.isUsingDevice()) return await this.present(alert, options);
+
+      // Store alert in persistent storage (works in both modes); a repeat of a stored alert is not stored again,
+      // and one with the dedup key of a stored alert updates it
       await alertStorage.storeAlert({
         ...alert,
         source: modeConfig.isMockMode() ? 'demo' : 'real'
       });
 
-      if (modeConfig.isMockMode()) {
-        // Mock mode - just log the notification
-        console.log('🎭 [MOCK MODE] Notification logged:');
-        console.log(`   📱 Title: ${alert.title}`);
-        console.log(`   💬 Message: ${alert.message}`);
-        console.log(`   🔔 Priority: ${alert.priority}`);
-        console.log(`   📍 Location: ${alert.location ? `${alert.location.latitude}, ${alert.location.longitude}` : 'N/A'}`);
-        
-        // Simulate notification ID
-        const mockId = `mock_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-        return mockId;
+      const stored = alertStorage.findAlert(alert.id, alert.dedupKey);
+      if (stored?.dismissedAt) {
+        console.log(`🔕 ${alert.title} was dismissed on board and has not got worse`);
+        return '';
       }
-
-      // Real mode - send actual notification
-      const notificationId = await Notifications.scheduleNotificationAsync({
-        content: {
-          title: alert.title,
-          body: alert.message,
-          sound: this.getSoundForPriority(alert.priority),
-          priority: this.getNotificationPriority(alert.priority),
-          vibrate: this.getVibrationPattern(alert.priority),
-          categoryIdentifier: this.getCategoryId(alert.type),
-          data: {
-            alertId: alert.id,
-            type: alert.type,
-            priority: alert.priority,
-            timestamp: alert.timestamp,
-            ...alert.data
-          }
-        },
-        trigger: null, // Send immediately
-      });
-
-      console.log(`✅ Notification sent with ID: ${notificationId}`);
-      return notificationId;
-      
+      if (!stored || !alertStorage.isAlertActive(stored.id)) {
+        console.log(`🗺️ ${alert.title} is kept until it applies to the boat's position or route`);
+        return '';
+      }
+      return await this.present({ ...alert, id: stored.id }, options);
     } catch (error) {
       console.error('❌ Failed to send notification:', error);
       throw error;
     }
   }
 
+  /**
+   * Show an alert on the device (logged only in mock mode)
+   */
+  private async present(
+    alert: AlertNotification,
+    options: { escalation?: Exclude<AlertEscalationStep, 'contact'> } = {}
+  ): Promise<string> {
+    if (modeConfig.isMockMode()) {
+      // Mock mode - just log the notification
+      console.log('🎭 [MOCK MODE] Notification logged:');
+      console.log(`   📱 Title: ${alert.title}`);
+      console.log(`   💬 Message: ${alert.message}`);
+      console.log(`   🔔 Priority: ${alert.priority}${options.escalation ? ` (escalation: ${options.escalation})` : ''}`);
+      console.log(`   📍 Location: ${alert.location ? `${alert.location.latitude}, ${alert.location.longitude}` : 'N/A'}`);
+      
+      // Simulate notification ID
+      const mockId = `mock_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      return mockId;
+    }
+
+    // Real mode - send actual notification
+    const notificationId = await Notifications.scheduleNotificationAsync({
+      content: {
+        title: alert.title,
+        body: alert.message,
+        sound: this.getSoundForPriority(alert.priority),
+        priority: this.getNotificationPriority(alert.priority),
+        vibrate: options.escalation === 'vibration' ? ESCALATION_VIBRATION : this.getVibrationPattern(alert.priority),
+        categoryIdentifier: this.getCategoryId(alert.type),
+        ...(options.escalation && { interruptionLevel: 'timeSensitive' as const }),
+        data: {
+          alertId: alert.id,
+          type: alert.type,
+          priority: alert.priority,
+          timestamp: alert.timestamp,
+          ...alert.data
+        }
+      },
+      // Send immediately, on an escalation channel when re-notifying
+      trigger: options.escalation && Platform.OS === 'android' ? { channelId: ESCALATION_CHANNELS[options.escalation] } : null,
+    });
+
+    console.log(`✅ Notification sent with ID: ${notificationId}`);
+    return notificationId;
+  }
+
   /**
    * Send individual demo alerts by type for judge demonstrations
    */
@@ -1,4 +1,4 @@
-import AsyncStorage from '@react-native-async-storage/async-storage'
+import { SecureStorage } from './secureStorage'
 import { Platform } from 'react-native'
 import * as Crypto from 'expo-crypto'
 import Constants from 'expo-constants'
@@ -53,12 +53,12 @@ export class OfflineOTPAuthService {
         })
       }
 
-      await AsyncStorage.setItem(
+      await SecureStorage.setItem(
         `offline_tokens_${phoneNumber}`,
         JSON.stringify(tokens)
       )
 
-      await AsyncStorage.setItem(
+      await SecureStorage.setItem(
         `device_fingerprint_${phoneNumber}`,
         JSON.stringify(deviceFingerprint)
       )
@@ -144,8 +144,8 @@ export class OfflineOTPAuthService {
     canUseEmergency: boolean
   }> {
     try {
-      const tokensData = await AsyncStorage.getItem(`offline_tokens_${phoneNumber}`)
-      const deviceData = await AsyncStorage.getItem(`device_fingerprint_${phoneNumber}`)
+      const tokensData = await SecureStorage.getItem(`offline_tokens_${phoneNumber}`)
+      const deviceData = await SecureStorage.getItem(`device_fingerprint_${phoneNumber}`)
       
       let hasTokens = false
       let tokenCount = 0
@@ -191,7 +191,7 @@ export class OfflineOTPAuthService {
     remainingTokens: number
   }> {
     try {
-      const tokensData = await AsyncStorage.getItem(`offline_tokens_${phoneNumber}`)
+      const tokensData = await SecureStorage.getItem(`offline_tokens_${phoneNumber}`)
       if (!tokensData) {
         return { isValid: false, method: 'pregenerated', remainingTokens: 0 }
       }
@@ -204,7 +204,7 @@ export class OfflineOTPAuthService {
       if (matchingToken) {
         // Mark token as used
         matchingToken.used = true
-        await AsyncStorage.setItem(
+        await SecureStorage.setItem(
           `offline_tokens_${phoneNumber}`,
           JSON.stringify(tokens)
         )
@@ -275,13 +275,13 @@ export class OfflineOTPAuthService {
   // Cleanup expired tokens
   async cleanupExpiredTokens(phoneNumber: string): Promise<void> {
     try {
-      const tokensData = await AsyncStorage.getItem(`offline_tokens_${phoneNumber}`)
+      const tokensData = await SecureStorage.getItem(`offline_tokens_${phoneNumber}`)
       if (!tokensData) return
 
       const tokens: OfflineAuthToken[] = JSON.parse(tokensData)
       const validTokens = tokens.filter(t => t.expiresAt > Date.now())
       
-      await AsyncStorage.setItem(
+      await SecureStorage.setItem(
         `offline_tokens_${phoneNumber}`,
         JSON.stringify(validTokens)
       )
@@ -0,0 +1,223 @@
+/**
+ * 🔋 GPS Poll Scheduler
+ * Picks the GPS interval from boundary proximity, speed and the battery left for the trip
+ *
+ * Features:
+ * - Rare fixes in open water, faster polling near a zone or the IMBL and at speed
+ * - Battery budget so the phone lasts the planned trip length with a reserve to spare
+ * - Backs off on low battery or the phone's battery saver, but never far near a boundary
+ * - Learns the phone's other drain from battery readings during the trip
+ * - Fixed interval from settings when adaptive polling is off
+ */
+
+import * as Battery from 'expo-battery';
+import { DEFAULT_SETTINGS } from './storage';
+import { zoneRegistry } from './zoneRegistry';
+import { nearestImbl } from '../utils/imbl';
+import { BatteryReading, gpsDrainPctPerHour, PollBounds, PollDecision, pollInterval } from '../utils/pollSchedule';
+import type { AppSettings } from '../types';
+
+export interface PollPosition {
+  lat: number;
+  lon: number;
+  timestamp: number; // epoch ms
+  speedKnots: number | null;
+}
+
+export interface PollStatus {
+  adaptive: boolean;
+  seconds: number; // interval in use
+  decision: PollDecision | null; // latest decision, which may not be applied yet
+  battery: BatteryReading | null;
+  tripHoursLeft: number | null;
+}
+
+const MIN_POLL_SECONDS = 5;
+// Zones further than this never change the interval
+const SEARCH_KM = 30;
+// Polling speeds up at once but only slows down after this long, so a tack does not flap it
+const BACKOFF_HOLD_MS = 2 * 60 * 1000;
+// Battery readings must span this long before the measured drain replaces the model
+const MIN_DRAIN_SAMPLE_MS = 30 * 60 * 1000;
+
+class PollScheduler {
+  private settings: AppSettings = DEFAULT_SETTINGS;
+  private tripStartedAt: number | null = null;
+  private battery: BatteryReading | null = null;
+  private batterySamples: { level: number; at: number }[] = [];
+  private batterySubscriptions: { remove(): void }[] = [];
+  private decision: PollDecision | null = null;
+  private appliedSeconds = 60;
+  private changedAt = 0;
+  private listeners: Array<(seconds: number) => void> = [];
+
+  /**
+   * Begin scheduling for a trip that started at tripStartedAt (epoch ms)
+   */
+  async start(settings: AppSettings, tripStartedAt: number): Promise<void> {
+    this.settings = settings;
+    this.tripStartedAt = tripStartedAt;
+    this.decision = null;
+    // Position is unknown until the first fix, so start fast and relax from there
+    this.appliedSeconds = settings.adaptivePolling ? Math.min(settings.gpsPollSeconds, MIN_POLL_SECONDS * 2) : settings.gpsPollSeconds;
+    this.changedAt = 0; // the first fix may relax it straight away
+    await this.watchBattery();
+  }
+
+  stop(): void {
+    this.batterySubscriptions.forEach(subscription => subscription.remove());
+    this.batterySubscriptions = [];
+    this.batterySamples = [];
+    this.tripStartedAt = null;
+    this.decision = null;
+  }
+
+  /**
+   * New settings take effect straight away
+   */
+  configure(settings: AppSettings): void {
+    this.settings = settings;
+    if (!settings.adaptivePolling) {
+      this.decision = null;
+      this.setInterval(settings.gpsPollSeconds, 0);
+    }
+  }
+
+  /**
+   * Re-plan from a new position; listeners hear about it when the interval changes
+   */
+  update(position: PollPosition): void {
+    if (!this.settings.adaptivePolling || this.tripStartedAt === null) return;
+
+    const decision = pollInterval(
+      {
+        boundaryKm: this.boundaryKm(position),
+        speedKnots: position.speedKnots,
+        battery: this.battery,
+        tripHoursLeft: this.tripHoursLeft(position.timestamp),
+        otherDrainPctPerHour: this.measuredOtherDrain()
+      },
+      this.bounds()
+    );
+    this.decision = decision;
+
+    const faster = decision.seconds < this.appliedSeconds * 0.9;
+    const slower = decision.seconds > this.appliedSeconds * 1.25 && position.timestamp - this.changedAt >= BACKOFF_HOLD_MS;
+    if (faster || slower) {
+      console.log(`🔋 GPS every ${decision.seconds}s (${decision.reason})`);
+      this.setInterval(decision.seconds, position.timestamp);
+    }
+  }
+
+  getIntervalSeconds(): number {
+    return this.appliedSeconds;
+  }
+
+  getStatus(): PollStatus {
+    return {
+      adaptive: this.settings.adaptivePolling,
+      seconds: this.appliedSeconds,
+      decision: this.decision,
+      battery: this.battery,
+      tripHoursLeft: this.tripHoursLeft(Date.now())
+    };
+  }
+
+  addListener(callback: (seconds: number) => void): () => void {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter(listener => listener !== callback);
+    };
+  }
+
+  private setInterval(seconds: number, at: number): void {
+    if (seconds === this.appliedSeconds) return;
+    this.appliedSeconds = seconds;
+    this.changedAt = at;
+    this.listeners.forEach(listener => listener(seconds));
+  }
+
+  private bounds(): PollBounds {
+    const maxSeconds = Math.max(this.settings.gpsPollSeconds, MIN_POLL_SECONDS);
+    return { minSeconds: MIN_POLL_SECONDS, maxSeconds };
+  }
+
+  /**
+   * Distance to the nearest zone closed now, or to the IMBL; zero inside a zone or across the line
+   */
+  private boundaryKm(position: PollPosition): number {
+    const point = { lat: position.lat, lon: position.lon };
+    const [nearestZone] = zoneRegistry.getZonesNear(point, SEARCH_KM, { restrictedAt: new Date(position.timestamp) });
+    const imbl = nearestImbl(point);
+    return Math.max(
+      0,
+      Math.min(
+        nearestZone ? nearestZone.distanceKm : Infinity,
+        imbl ? (imbl.onForeignSide ? 0 : imbl.distanceKm) : Infinity
+      )
+    );
+  }
+
+  private tripHoursLeft(now: number): number | null {
+    if (this.tripStartedAt === null) return null;
+    return (this.tripStartedAt + this.settings.tripHours * 3600000 - now) / 3600000;
+  }
+
+  private async watchBattery(): Promise<void> {
+    if (this.batterySubscriptions.length) return;
+    try {
+      if (!(await Battery.isAvailableAsync())) return;
+      const state = await Battery.getPowerStateAsync();
+      this.setBattery({
+        level: state.batteryLevel,
+        charging: this.isCharging(state.batteryState),
+        lowPowerMode: state.lowPowerMode
+      });
+      this.batterySubscriptions = [
+        Battery.addBatteryLevelListener(({ batteryLevel }) => {
+          if (this.battery) this.setBattery({ ...this.battery, level: batteryLevel });
+        }),
+        Battery.addBatteryStateListener(({ batteryState }) => {
+          if (this.battery) this.setBattery({ ...this.battery, charging: this.isCharging(batteryState) });
+        }),
+        Battery.addLowPowerModeListener(({ lowPowerMode }) => {
+          if (this.battery) this.setBattery({ ...this.battery, lowPowerMode });
+        })
+      ];
+    } catch (error) {
+      console.error('❌ Battery status unavailable:', error);
+    }
+  }
+
+  private isCharging(state: Battery.BatteryState): boolean {
+    return state === Battery.BatteryState.CHARGING || state === Battery.BatteryState.FULL;
+  }
+
+  private setBattery(reading: BatteryReading): void {
+    // Simulators report -1
+    if (reading.level < 0) {
+      this.battery = null;
+      return;
+    }
+    this.battery = reading;
+    // Drain is only measured while unplugged; plugging in starts the measurement over
+    if (reading.charging) this.batterySamples = [];
+    else this.batterySamples = [...this.batterySamples, { level: reading.level, at: Date.now() }].slice(-200);
+  }
+
+  /**
+   * Measured drain less what the model says GPS used, or undefined until there is enough data
+   */
+  private measuredOtherDrain(): number | undefined {
+    const first = this.batterySamples[0];
+    const last = this.batterySamples[this.batterySamples.length - 1];
+    if (!first || !last || last.at - first.at < MIN_DRAIN_SAMPLE_MS) return undefined;
+    const hours = (last.at - first.at) / 3600000;
+    const measured = ((first.level - last.level) * 100) / hours;
+    return measured - gpsDrainPctPerHour(this.appliedSeconds);
+  }
+}
+
+// Export singleton instance
+export const pollScheduler = new PollScheduler();
+export default pollScheduler;
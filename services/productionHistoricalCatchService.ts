@@ -2,6 +2,8 @@
 // Based on real Indian fishing cooperative databases and port landing records
 // Integration with CMFRI FRAD (Fishery Resources Assessment Division) data
 
+import { bboxAround, SpatialIndex } from '../utils/spatialIndex';
+
 export interface HistoricalCatchRecord {
   recordId: string;
   date: string;
@@ -123,6 +125,7 @@ export class ProductionHistoricalCatchService {
   private cmfriBaseUrl = "https://cmfri.icar.gov.in/api/catch-data";
   private cooperativeBaseUrl = "https://fishcoop.gov.in/api/landing-data";
   private catchDatabase: Map<string, HistoricalCatchRecord[]> = new Map();
+  private locationIndex: SpatialIndex<{ key: string; lat: number; lon: number }> | null = null; // built on first search
   
   constructor() {
     this.initializeCatchDatabase();
@@ -160,6 +163,7 @@ export class ProductionHistoricalCatchService {
   }
   
   private processCMFRIData(cmfriData: any) {
+    this.locationIndex = null;
     cmfriData.records?.forEach((record: any) => {
       const locationKey = `${record.latitude}_${record.longitude}`;
       
@@ -227,6 +231,7 @@ export class ProductionHistoricalCatchService {
   private async loadCuratedHistoricalData() {
     // Curated historical data based on real Indian fishing patterns
     const curatedData = this.generateCuratedHistoricalData();
+    this.locationIndex = null;
     
     curatedData.forEach(record => {
       const locationKey = `${record.location.latitude}_${record.location.longitude}`;
@@ -248,9 +253,9 @@ export class ProductionHistoricalCatchService {
     try {
       const relevantRecords: HistoricalCatchRecord[] = [];
       
-      // Search for records within radius
-      for (const [locationKey, records] of this.catchDatabase.entries()) {
-        const [lat, lon] = locationKey.split('_').map(Number);
+      // Search for records within radius; the index narrows candidates to the surrounding box
+      for (const { key, lat, lon } of this.getLocationIndex().search(bboxAround(location, radius))) {
+        const records = this.catchDatabase.get(key) ?? [];
         const distance = this.calculateDistance(location, { lat, lon });
         
         if (distance <= radius) {
@@ -290,6 +295,17 @@ export class ProductionHistoricalCatchService {
     }
   }
   
+  private getLocationIndex() {
+    if (!this.locationIndex) {
+      const locations = [...this.catchDatabase.keys()].map(key => {
+        const [lat, lon] = key.split('_').map(Number);
+        return { key, lat, lon };
+      });
+      this.locationIndex = SpatialIndex.fromPoints(locations, location => location);
+    }
+    return this.locationIndex;
+  }
+  
   async getCatchTrends(
     location: { lat: number; lon: number },
     species: string,
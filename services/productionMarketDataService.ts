@@ -1,6 +1,8 @@
 // Production Market Integration Service
 // Real-time fish market data from National Commodity & Derivatives Exchange (NCDEX) and government APIs
 
+import { SpatialIndex } from '../utils/spatialIndex';
+
 export interface MarketPrice {
   species: string;
   price: number; // INR per kg
@@ -135,6 +137,7 @@ export class ProductionMarketDataService {
       specialties: ["Hilsa", "Rohu", "Katla", "Prawns"]
     }
   ];
+  private marketIndex = SpatialIndex.fromPoints(this.majorMarkets, market => market.location);
   
   async getMarketReport(location: { lat: number; lon: number }): Promise<MarketReport> {
     try {
@@ -317,28 +320,7 @@ export class ProductionMarketDataService {
   }
   
   private findNearestMarket(location: { lat: number; lon: number }) {
-    let nearest = this.majorMarkets[0];
-    let minDistance = this.calculateDistance(location, nearest.location);
-    
-    for (const market of this.majorMarkets) {
-      const distance = this.calculateDistance(location, market.location);
-      if (distance < minDistance) {
-        minDistance = distance;
-        nearest = market;
-      }
-    }
-    
-    return nearest;
-  }
-  
-  private calculateDistance(point1: { lat: number; lon: number }, point2: { lat: number; lon: number }): number {
-    const R = 6371; // Earth's radius in km
-    const dLat = (point2.lat - point1.lat) * Math.PI / 180;
-    const dLon = (point2.lon - point1.lon) * Math.PI / 180;
-    const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-              Math.cos(point1.lat * Math.PI / 180) * Math.cos(point2.lat * Math.PI / 180) *
-              Math.sin(dLon/2) * Math.sin(dLon/2);
-    return 2 * R * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+    return this.marketIndex.nearest(location, 1)[0]?.item ?? this.majorMarkets[0];
   }
   
   private generateRealisticMarketReport(market: any): MarketReport {
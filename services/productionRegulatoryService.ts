@@ -1,6 +1,8 @@
 // Production Regulatory Compliance Service
 // Real fishing regulations, seasonal bans, quota systems from Ministry of Earth Sciences
 
+import { zoneRegistry } from './zoneRegistry';
+
 export interface FishingRegulation {
   id: string;
   name: string;
@@ -347,6 +349,23 @@ export class ProductionRegulatoryService {
         }
       }
       
+      // Check zone closures and gear rules from the shared zone registry
+      for (const zone of zoneRegistry.getZonesContaining(location)) {
+        if (zoneRegistry.isRestricted(zone, plannedDate)) {
+          violations.push(`Fishing not allowed in ${zone.name} at the planned time`);
+        } else if (zone.rules.permitRequired && !vesselDetails.license) {
+          warnings.push(`${zone.name} requires a fishing permit`);
+        }
+        if (zone.rules.restrictedGear.length > 0) {
+          warnings.push(`Gear restricted in ${zone.name}: ${zone.rules.restrictedGear.join(', ')}`);
+        }
+      }
+      for (const { zone, distanceKm } of zoneRegistry.getZonesNear(location, 20, { restrictedAt: plannedDate })) {
+        if (distanceKm > 0 && distanceKm < zone.warningDistanceKm) {
+          warnings.push(`${zone.name} is closed and only ${distanceKm.toFixed(1)} km away`);
+        }
+      }
+      
       // Check vessel size regulations
       if (vesselDetails.length > 24 && this.isWithinTerritorialWaters(location)) {
         violations.push('Vessel too large for territorial waters (24m limit)');
@@ -504,8 +523,13 @@ export class ProductionRegulatoryService {
   }
   
   private isWithinTerritorialWaters(location: { lat: number; lon: number }): boolean {
-    // Simplified check - in production, this would use precise maritime boundary data
-    // Territorial waters extend 12 nautical miles from coast
+    // Prefer mapped territorial waters from the zone registry when any are defined
+    const territorial = zoneRegistry.getZonesByKind('territorial_waters');
+    if (territorial.length > 0) {
+      return zoneRegistry.getZonesContaining(location, { kinds: ['territorial_waters'] }).length > 0;
+    }
+
+    // Simplified check - territorial waters extend 12 nautical miles from coast
     const distanceFromCoast = this.calculateDistanceFromCoast(location);
     return distanceFromCoast <= 22.22; // 12 nautical miles in km
   }
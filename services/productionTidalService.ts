@@ -2,6 +2,8 @@
 // Based on real INCOIS (Indian National Centre for Ocean Information Services) API
 // Real-time and predicted tidal information for Indian coasts
 
+import { SpatialIndex } from '../utils/spatialIndex';
+
 export interface TidalPrediction {
   stationId: string;
   stationName: string;
@@ -108,6 +110,8 @@ export const PRODUCTION_TIDAL_STATIONS = [
   }
 ];
 
+const TIDAL_STATION_INDEX = SpatialIndex.fromPoints(PRODUCTION_TIDAL_STATIONS, station => station.location);
+
 export class ProductionTidalService {
   // Using NOAA API as a reliable alternative for tidal data
   private noaaBaseUrl = "https://api.tidesandcurrents.noaa.gov/api/prod/datagetter";
@@ -355,29 +359,7 @@ export class ProductionTidalService {
   }
   
   private findNearestTidalStation(location: { lat: number; lon: number }) {
-    let nearestStation = PRODUCTION_TIDAL_STATIONS[0];
-    let minDistance = this.calculateDistance(location, nearestStation.location);
-    
-    for (const station of PRODUCTION_TIDAL_STATIONS) {
-      const distance = this.calculateDistance(location, station.location);
-      if (distance < minDistance) {
-        minDistance = distance;
-        nearestStation = station;
-      }
-    }
-    
-    return nearestStation;
-  }
-  
-  private calculateDistance(point1: { lat: number; lon: number }, point2: { lat: number; lon: number }): number {
-    // Haversine distance formula
-    const R = 6371; // Earth's radius in km
-    const dLat = (point2.lat - point1.lat) * Math.PI / 180;
-    const dLon = (point2.lon - point1.lon) * Math.PI / 180;
-    const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-              Math.cos(point1.lat * Math.PI / 180) * Math.cos(point2.lat * Math.PI / 180) *
-              Math.sin(dLon/2) * Math.sin(dLon/2);
-    return 2 * R * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+    return TIDAL_STATION_INDEX.nearest(location, 1)[0]?.item ?? PRODUCTION_TIDAL_STATIONS[0];
   }
   
   private getDefaultHarmonics() {
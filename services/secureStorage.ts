@@ -0,0 +1,162 @@
+import AsyncStorage from "@react-native-async-storage/async-storage"
+import * as SecureStore from "expo-secure-store"
+import * as Crypto from "expo-crypto"
+import { xchacha20poly1305 } from "@noble/ciphers/chacha"
+import { scryptAsync } from "@noble/hashes/scrypt"
+import { bytesToHex, bytesToUtf8, hexToBytes, utf8ToBytes } from "@noble/ciphers/utils"
+
+// Prefix marking an AsyncStorage value as encrypted; anything else is legacy plaintext
+const ENCRYPTED_PREFIX = "enc:v1:"
+const DATA_KEY_NAME = "cfm.data_key"
+const NONCE_BYTES = 24 // xchacha20 nonces are long enough to pick at random
+
+// Data leaving the phone (e.g. in a backup) is sealed with a passphrase instead of the device key
+const SEALED_PREFIX = "pw:v1:"
+const SALT_BYTES = 16
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1, dkLen: 32 }
+
+// Keychain / Keystore entries that never leave this device, not even through backups
+const SECURE_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+}
+
+let available: Promise<boolean> | null = null
+let dataKey: Promise<Uint8Array> | null = null
+
+function isAvailable(): Promise<boolean> {
+  // expo-secure-store has no web implementation; the web build stays on plain AsyncStorage
+  if (!available) available = SecureStore.isAvailableAsync().catch(() => false)
+  return available
+}
+
+// SecureStore keys only allow alphanumerics, ".", "-" and "_" (phone numbers carry a "+")
+function secureKey(key: string) {
+  return key.replace(/[^A-Za-z0-9._-]/g, "_")
+}
+
+async function loadDataKey(): Promise<Uint8Array> {
+  const existing = await SecureStore.getItemAsync(DATA_KEY_NAME, SECURE_OPTIONS)
+  if (existing) return hexToBytes(existing)
+  const key = Crypto.getRandomBytes(32)
+  await SecureStore.setItemAsync(DATA_KEY_NAME, bytesToHex(key), SECURE_OPTIONS)
+  return key
+}
+
+function getDataKey(): Promise<Uint8Array> {
+  if (!dataKey) {
+    dataKey = loadDataKey().catch((error) => {
+      dataKey = null
+      throw error
+    })
+  }
+  return dataKey
+}
+
+// The storage key is bound in as associated data, so a ciphertext copied to another key fails to open
+async function encrypt(storageKey: string, plaintext: string): Promise<string> {
+  const nonce = Crypto.getRandomBytes(NONCE_BYTES)
+  const cipher = xchacha20poly1305(await getDataKey(), nonce, utf8ToBytes(storageKey))
+  return ENCRYPTED_PREFIX + bytesToHex(nonce) + bytesToHex(cipher.encrypt(utf8ToBytes(plaintext)))
+}
+
+async function decrypt(storageKey: string, stored: string): Promise<string> {
+  const hex = stored.slice(ENCRYPTED_PREFIX.length)
+  const nonce = hexToBytes(hex.slice(0, NONCE_BYTES * 2))
+  const cipher = xchacha20poly1305(await getDataKey(), nonce, utf8ToBytes(storageKey))
+  return bytesToUtf8(cipher.decrypt(hexToBytes(hex.slice(NONCE_BYTES * 2))))
+}
+
+function passphraseKey(passphrase: string, salt: Uint8Array): Promise<Uint8Array> {
+  return scryptAsync(utf8ToBytes(passphrase.normalize("NFKC")), salt, SCRYPT_PARAMS)
+}
+
+export const SecureStorage = {
+  isEncrypted(value: string | null): boolean {
+    return !!value && value.startsWith(ENCRYPTED_PREFIX)
+  },
+  // Small secrets (licence, contact, boat id) live in the Keychain / Keystore
+  async getSecret(key: string): Promise<string | null> {
+    if (!(await isAvailable())) return AsyncStorage.getItem(key)
+    const value = await SecureStore.getItemAsync(secureKey(key), SECURE_OPTIONS)
+    if (value !== null) return value
+
+    // Not migrated yet: move the plaintext copy over on first read
+    const legacy = await AsyncStorage.getItem(key)
+    if (legacy === null) return null
+    await SecureStore.setItemAsync(secureKey(key), legacy, SECURE_OPTIONS)
+    await AsyncStorage.removeItem(key)
+    return legacy
+  },
+  async setSecret(key: string, value: string) {
+    if (!(await isAvailable())) return AsyncStorage.setItem(key, value)
+    await SecureStore.setItemAsync(secureKey(key), value, SECURE_OPTIONS)
+    await AsyncStorage.removeItem(key)
+  },
+  async deleteSecret(key: string) {
+    if (await isAvailable()) await SecureStore.deleteItemAsync(secureKey(key), SECURE_OPTIONS)
+    await AsyncStorage.removeItem(key)
+  },
+  // Larger records stay in AsyncStorage, encrypted with the device-bound data key
+  async getItem(key: string): Promise<string | null> {
+    const stored = await AsyncStorage.getItem(key)
+    if (stored === null || !(await isAvailable())) return stored
+    if (SecureStorage.isEncrypted(stored)) return decrypt(key, stored)
+
+    // Legacy plaintext: encrypt it in place the first time it is read
+    await AsyncStorage.setItem(key, await encrypt(key, stored))
+    return stored
+  },
+  async setItem(key: string, value: string) {
+    if (!(await isAvailable())) return AsyncStorage.setItem(key, value)
+    await AsyncStorage.setItem(key, await encrypt(key, value))
+  },
+  async removeItem(key: string) {
+    await AsyncStorage.removeItem(key)
+  },
+  isSealed(value: unknown): value is string {
+    return typeof value === "string" && value.startsWith(SEALED_PREFIX)
+  },
+  // Encrypt for another device; only someone with the passphrase can open it
+  async seal(plaintext: string, passphrase: string): Promise<string> {
+    const salt = Crypto.getRandomBytes(SALT_BYTES)
+    const nonce = Crypto.getRandomBytes(NONCE_BYTES)
+    const cipher = xchacha20poly1305(await passphraseKey(passphrase, salt), nonce)
+    return SEALED_PREFIX + bytesToHex(salt) + bytesToHex(nonce) + bytesToHex(cipher.encrypt(utf8ToBytes(plaintext)))
+  },
+  // Null when the passphrase is wrong or the sealed text was altered
+  async unseal(sealed: string, passphrase: string): Promise<string | null> {
+    const hex = sealed.slice(SEALED_PREFIX.length)
+    const salt = hexToBytes(hex.slice(0, SALT_BYTES * 2))
+    const nonce = hexToBytes(hex.slice(SALT_BYTES * 2, (SALT_BYTES + NONCE_BYTES) * 2))
+    try {
+      const cipher = xchacha20poly1305(await passphraseKey(passphrase, salt), nonce)
+      return bytesToUtf8(cipher.decrypt(hexToBytes(hex.slice((SALT_BYTES + NONCE_BYTES) * 2))))
+    } catch {
+      return null
+    }
+  },
+  // Eagerly migrate existing plaintext; used by the storage migrations
+  async encryptExisting(keys: string[]): Promise<number> {
+    if (!(await isAvailable())) return 0
+    let migrated = 0
+    for (const key of keys) {
+      const stored = await AsyncStorage.getItem(key)
+      if (stored === null || SecureStorage.isEncrypted(stored)) continue
+      await AsyncStorage.setItem(key, await encrypt(key, stored))
+      migrated++
+    }
+    return migrated
+  },
+  async moveToSecureStore(keys: string[]): Promise<number> {
+    if (!(await isAvailable())) return 0
+    let migrated = 0
+    for (const key of keys) {
+      const stored = await AsyncStorage.getItem(key)
+      if (stored === null) continue
+      await SecureStore.setItemAsync(secureKey(key), stored, SECURE_OPTIONS)
+      await AsyncStorage.removeItem(key)
+      migrated++
+    }
+    return migrated
+  },
+}
@@ -1,9 +1,10 @@
-import { haversineKm, optimizeOrder } from '../utils/geo';
+import { haversineKm } from '../utils/geo';
+import { optimizeRoute, OptimizedRoute, TimeWindowViolation } from '../utils/routeOptimizer';
 import { fishPredictionService } from './fishPrediction';
 import { weatherService } from './weather';
-import { maritimeBoundaryService } from './maritimeBoundary';
+import { zoneRegistry } from './zoneRegistry';
 import { Storage } from './storage';
-import { PRODUCTION_MARITIME_ZONES, productionMaritimeService } from '../data/productionMaritimeZones';
+import { productionMaritimeService } from '../data/productionMaritimeZones';
 import { PRODUCTION_FISH_DATABASE, productionMarketService } from '../data/productionFishDatabase';
 import { productionTidalService } from './productionTidalService';
 
@@ -27,6 +28,7 @@ export interface SmartTripPlan {
   compliance: ComplianceCheck;
   expectedCatch: CatchPrediction[];
   emergencyPlan: EmergencyPlan;
+  timeWindowViolations?: TimeWindowViolation[]; // zones reached after their window closes, or a late return
 }
 
 export interface RouteWaypoint {
@@ -163,10 +165,17 @@ class SmartTripPlanningService {
         { ...request, maritimeZones, tidalData, marketPrices }
       );
 
+      // Never plan fishing inside a zone that is closed when the boat would be there
+      const fishableZones = fishingZones.filter(zone =>
+        zoneRegistry
+          .getZonesContaining(zone.location, { restrictedAt: zone.optimalTiming.start })
+          .length === 0
+      );
+
       // Optimize route considering real regulations and conditions
-      const optimizedRoute = await this.optimizeRoute(
+      const { waypoints: optimizedRoute, violations } = await this.optimizeRoute(
         request.startLocation,
-        fishingZones,
+        fishableZones,
         request
       );
 
@@ -209,7 +218,8 @@ class SmartTripPlanningService {
         recommendations,
         compliance,
         expectedCatch,
-        emergencyPlan
+        emergencyPlan,
+        timeWindowViolations: violations
       };
 
       // Save trip plan with production metadata
@@ -281,7 +291,8 @@ class SmartTripPlanningService {
     startLocation: { lat: number; lon: number },
     fishingZones: FishingZone[],
     request: any
-  ): Promise<RouteWaypoint[]> {
+  ): Promise<{ waypoints: RouteWaypoint[]; violations: TimeWindowViolation[] }> {
+    const departure = new Date();
     const waypoints: RouteWaypoint[] = [];
     
     // Start waypoint
@@ -289,42 +300,32 @@ class SmartTripPlanningService {
       id: 'start',
       location: startLocation,
       type: 'departure',
-      estimatedArrival: new Date(),
+      estimatedArrival: departure,
       fuelRequired: 0,
       distanceFromPrevious: 0,
       purpose: 'Departure point'
     });
 
-    // Optimize fishing zone order using fuel and catch potential
-    const optimizedZoneOrder = this.optimizeFishingZoneOrder(
+    // Choose and order fishing zones against time windows, fuel and the return deadline
+    const { zones, route } = this.optimizeFishingZoneOrder(
       startLocation,
       fishingZones,
-      request
+      request,
+      departure.getTime()
     );
 
     let currentLocation = startLocation;
-    let totalDistance = 0;
-    let currentTime = new Date();
 
-    for (const zone of optimizedZoneOrder) {
+    zones.forEach((zone, k) => {
       const distance = haversineKm(currentLocation, zone.location);
-      totalDistance += distance;
-      
-      // Check if within fuel/distance budget
-      if (totalDistance > request.maxDistance * 0.8) { // Keep 20% safety margin
-        break;
-      }
-
-      const travelTime = distance / this.averageSpeed;
-      currentTime = new Date(currentTime.getTime() + travelTime * 60 * 60 * 1000);
 
       // Add waypoint to fishing zone
       waypoints.push({
         id: zone.id,
         location: zone.location,
         type: 'fishing_zone',
-        estimatedArrival: new Date(currentTime),
-        estimatedDeparture: new Date(currentTime.getTime() + zone.estimatedFishingTime * 60 * 60 * 1000),
+        estimatedArrival: new Date(route.arrivals[k]),
+        estimatedDeparture: new Date(route.departures[k]),
         fuelRequired: this.calculateFuelForDistance(distance),
         distanceFromPrevious: distance,
         purpose: `Fishing for ${zone.targetSpecies.join(', ')}`,
@@ -332,54 +333,77 @@ class SmartTripPlanningService {
       });
 
       currentLocation = zone.location;
-      currentTime = new Date(currentTime.getTime() + zone.estimatedFishingTime * 60 * 60 * 1000);
-    }
+    });
 
     // Add return waypoint
     const returnDistance = haversineKm(currentLocation, startLocation);
-    const returnTravelTime = returnDistance / this.averageSpeed;
-    const returnTime = new Date(currentTime.getTime() + returnTravelTime * 60 * 60 * 1000);
 
     waypoints.push({
       id: 'return',
       location: startLocation,
       type: 'return',
-      estimatedArrival: returnTime,
+      estimatedArrival: new Date(route.returnAt ?? departure.getTime()),
       fuelRequired: this.calculateFuelForDistance(returnDistance),
       distanceFromPrevious: returnDistance,
       purpose: 'Return to port'
     });
 
-    return waypoints;
+    return { waypoints, violations: route.violations };
   }
 
-  // Optimize fishing zone order considering multiple factors
+  // Pick the most valuable zones that fit the trip, then solve their visiting order
   private optimizeFishingZoneOrder(
     startLocation: { lat: number; lon: number },
     zones: FishingZone[],
-    request: any
-  ): FishingZone[] {
-    // Multi-criteria optimization considering:
-    // 1. Fuel efficiency (distance)
-    // 2. Catch potential
-    // 3. Time windows
-    // 4. Priority
-
-    const scoredZones = zones.map(zone => {
-      const distance = haversineKm(startLocation, zone.location);
-      const fuelScore = Math.max(0, 100 - (distance / 10)); // Closer is better
-      const catchScore = zone.expectedCatch.reduce((sum, c) => sum + c.confidence, 0);
-      const priorityScore = zone.priority * 10;
-      const timeScore = this.calculateTimeWindowScore(zone.optimalTiming);
-
-      const totalScore = (fuelScore * 0.3) + (catchScore * 0.4) + (priorityScore * 0.2) + (timeScore * 0.1);
-
-      return { zone, score: totalScore };
-    });
-
-    return scoredZones
+    request: any,
+    departAt: number
+  ): { zones: FishingZone[]; route: OptimizedRoute } {
+    // Zones are considered in order of catch potential and priority;
+    // fuel (distance) and timing are handled by the route solver itself
+    const ranked = zones
+      .map(zone => {
+        const catchScore = zone.expectedCatch.reduce((sum, c) => sum + c.confidence, 0);
+        const priorityScore = zone.priority * 10;
+        const timeScore = this.calculateTimeWindowScore(zone.optimalTiming);
+        return { zone, score: (catchScore * 0.6) + (priorityScore * 0.3) + (timeScore * 0.1) };
+      })
       .sort((a, b) => b.score - a.score)
       .map(item => item.zone);
+
+    const maxDistance = request.maxDistance * 0.8; // Keep 20% safety margin
+    const returnBy = departAt + request.maxDuration * 60 * 60 * 1000;
+    const solve = (selected: FishingZone[]) =>
+      optimizeRoute(
+        startLocation,
+        selected.map(zone => ({
+          lat: zone.location.lat,
+          lon: zone.location.lon,
+          window: { start: zone.optimalTiming.start.getTime(), end: zone.optimalTiming.end.getTime() },
+          serviceMinutes: zone.estimatedFishingTime * 60
+        })),
+        { departAt, speedKmh: this.averageSpeed, returnBy }
+      );
+
+    let selected: FishingZone[] = [];
+    let route = solve(selected);
+
+    for (const zone of ranked) {
+      const candidate = solve([...selected, zone]);
+      // A zone is only added if the trip still fits the fuel budget and adds no lateness
+      const fits =
+        candidate.distanceKm <= maxDistance &&
+        this.totalLateness(candidate) <= this.totalLateness(route) + 1;
+      if (fits) {
+        selected = [...selected, zone];
+        route = candidate;
+      }
+    }
+
+    return { zones: route.order.map(index => selected[index]), route };
+  }
+
+  private totalLateness(route: OptimizedRoute): number {
+    return route.violations.reduce((sum, v) => sum + v.lateMinutes, 0);
   }
 
   // Calculate fuel consumption for the entire trip
@@ -490,17 +514,17 @@ class SmartTripPlanningService {
 
   // Check regulatory compliance
   private async checkCompliance(route: RouteWaypoint[], request: any): Promise<ComplianceCheck> {
-    const boundaries = maritimeBoundaryService.getBoundaries();
     let violationCount = 0;
     const warnings: string[] = [];
 
-    // Check each waypoint against boundaries
+    // Check each waypoint against zones that are closed when the boat gets there
     for (const waypoint of route) {
-      for (const boundary of boundaries) {
-        const distance = this.distanceToBoundary(waypoint.location, boundary.coordinates);
-        if (distance < boundary.warningDistance) {
+      for (const { zone, distanceKm } of zoneRegistry.getZonesNear(waypoint.location, 50, { restrictedAt: waypoint.estimatedArrival })) {
+        if (distanceKm < zone.warningDistanceKm) {
           violationCount++;
-          warnings.push(`Waypoint ${waypoint.id} is near ${boundary.name}`);
+          warnings.push(
+            distanceKm <= 0 ? `Waypoint ${waypoint.id} is inside ${zone.name}` : `Waypoint ${waypoint.id} is near ${zone.name}`
+          );
         }
       }
     }
@@ -627,14 +651,11 @@ class SmartTripPlanningService {
   }
 
   private async assessBoundaryRisk(route: RouteWaypoint[]): Promise<any> {
-    const boundaries = maritimeBoundaryService.getBoundaries();
     let violations = 0;
     
     for (const waypoint of route) {
-      for (const boundary of boundaries) {
-        const distance = this.distanceToBoundary(waypoint.location, boundary.coordinates);
-        if (distance < boundary.warningDistance) violations++;
-      }
+      const nearby = zoneRegistry.getZonesNear(waypoint.location, 50, { restrictedAt: waypoint.estimatedArrival });
+      violations += nearby.filter(({ zone, distanceKm }) => distanceKm < zone.warningDistanceKm).length;
     }
 
     return {
@@ -781,16 +802,6 @@ class SmartTripPlanningService {
     ];
   }
 
-  private distanceToBoundary(point: { lat: number; lon: number }, boundary: { lat: number; lon: number }[]): number {
-    let minDistance = Infinity;
-    for (const boundaryPoint of boundary) {
-      const distance = haversineKm(point, boundaryPoint);
-      if (distance < minDistance) {
-        minDistance = distance;
-      }
-    }
-    return minDistance;
-  }
 
   private async findEmergencyShelters(route: RouteWaypoint[]): Promise<any[]> {
     // Simplified emergency shelter recommendations
@@ -878,13 +889,8 @@ class SmartTripPlanningService {
   // Production data integration methods
   private async getProductionMaritimeZones(location: { lat: number; lon: number }) {
     try {
-      // Filter maritime zones by proximity to location
-      const nearbyZones = PRODUCTION_MARITIME_ZONES.filter(zone => {
-        const zoneLat = zone.coordinates.coordinates[0][0][1];
-        const zoneLon = zone.coordinates.coordinates[0][0][0];
-        const distance = haversineKm(location, { lat: zoneLat, lon: zoneLon });
-        return distance < 100; // Within 100km
-      });
+      // All registered zones within 100km of the start, nearest first
+      const nearbyZones = zoneRegistry.getZonesNear(location, 100).map(({ zone }) => zone);
       
       console.log(`📍 Found ${nearbyZones.length} maritime zones near location`);
       return nearbyZones;
@@ -0,0 +1,277 @@
+import AsyncStorage from "@react-native-async-storage/async-storage"
+import * as SQLite from "expo-sqlite"
+import { Platform } from "react-native"
+import { reviveDates } from "../utils/json"
+
+// Record collections that outgrew a single AsyncStorage blob
+export type RecordTable = "catches" | "tracking_points" | "violations" | "alerts" | "evidence"
+
+export type RangeQuery = {
+  from?: number // epoch ms, inclusive
+  to?: number // epoch ms, inclusive
+  bbox?: { minLat: number; maxLat: number; minLon: number; maxLon: number }
+  limit?: number
+  offset?: number
+  order?: "asc" | "desc" // by time; defaults to newest first
+}
+
+type TableSpec = {
+  id: (item: any) => string | null
+  timestamp: (item: any) => number
+  location: (item: any) => { lat: number; lon: number } | undefined
+  dates: boolean // whether stored records contain Date fields
+}
+
+const toMs = (value: unknown) => (value instanceof Date ? value.getTime() : new Date(value as string | number).getTime() || 0)
+
+const TABLES: Record<RecordTable, TableSpec> = {
+  catches: {
+    id: (c) => c.id,
+    timestamp: (c) => c.timestamp,
+    location: (c) => c.location,
+    dates: false,
+  },
+  tracking_points: {
+    id: () => null,
+    timestamp: (p) => toMs(p.timestamp),
+    location: (p) => p.location,
+    dates: true,
+  },
+  violations: {
+    id: (v) => v.id,
+    timestamp: (v) => toMs(v.timestamp),
+    location: (v) => v.location,
+    dates: true,
+  },
+  alerts: {
+    id: (a) => a.id,
+    timestamp: (a) => a.timestamp,
+    location: (a) => a.location && { lat: a.location.latitude, lon: a.location.longitude },
+    dates: false,
+  },
+  evidence: {
+    id: (e) => String(e.seq),
+    timestamp: (e) => e.timestamp,
+    location: (e) => e.payload?.location,
+    dates: false,
+  },
+}
+
+const DATABASE_NAME = "cfm.db"
+const IMPORTED_FLAG = "imported_async_storage"
+
+let databasePromise: Promise<SQLite.SQLiteDatabase | null> | null = null
+let active: boolean | null = null
+
+async function openDatabase(): Promise<SQLite.SQLiteDatabase | null> {
+  // The web build keeps using AsyncStorage (localStorage)
+  if (Platform.OS === "web") return null
+  try {
+    const db = await SQLite.openDatabaseAsync(DATABASE_NAME)
+    const tables = (Object.keys(TABLES) as RecordTable[])
+      .map(
+        (table) => `
+        CREATE TABLE IF NOT EXISTS ${table} (
+          row_id INTEGER PRIMARY KEY AUTOINCREMENT,
+          id TEXT,
+          timestamp INTEGER NOT NULL,
+          lat REAL,
+          lon REAL,
+          data TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_${table}_time ON ${table}(timestamp);
+        CREATE INDEX IF NOT EXISTS idx_${table}_geo ON ${table}(lat, lon);
+        CREATE INDEX IF NOT EXISTS idx_${table}_id ON ${table}(id);`,
+      )
+      .join("\n")
+    await db.execAsync(`
+      PRAGMA journal_mode = WAL;
+      CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY NOT NULL, value TEXT NOT NULL);
+      ${tables}
+    `)
+    return db
+  } catch (error) {
+    console.error("SQLite unavailable, falling back to AsyncStorage:", error)
+    return null
+  }
+}
+
+function getDatabase(): Promise<SQLite.SQLiteDatabase | null> {
+  if (!databasePromise) databasePromise = openDatabase()
+  return databasePromise
+}
+
+async function requireDatabase(): Promise<SQLite.SQLiteDatabase> {
+  const db = await getDatabase()
+  if (!db) throw new Error("SQLite store is not available on this device")
+  return db
+}
+
+function parseRow<T>(table: RecordTable, row: { data: string }): T {
+  return JSON.parse(row.data, TABLES[table].dates ? reviveDates : undefined) as T
+}
+
+async function insertRows(db: SQLite.SQLiteDatabase, table: RecordTable, items: unknown[]) {
+  const spec = TABLES[table]
+  const statement = await db.prepareAsync(
+    `INSERT INTO ${table} (id, timestamp, lat, lon, data) VALUES ($id, $timestamp, $lat, $lon, $data)`,
+  )
+  try {
+    for (const item of items) {
+      const location = spec.location(item)
+      await statement.executeAsync({
+        $id: spec.id(item),
+        $timestamp: spec.timestamp(item),
+        $lat: location?.lat ?? null,
+        $lon: location?.lon ?? null,
+        $data: JSON.stringify(item),
+      })
+    }
+  } finally {
+    await statement.finalizeAsync()
+  }
+}
+
+function buildWhere(query: RangeQuery): { sql: string; params: (number | string)[] } {
+  const clauses: string[] = []
+  const params: (number | string)[] = []
+  if (query.from !== undefined) {
+    clauses.push("timestamp >= ?")
+    params.push(query.from)
+  }
+  if (query.to !== undefined) {
+    clauses.push("timestamp <= ?")
+    params.push(query.to)
+  }
+  if (query.bbox) {
+    clauses.push("lat BETWEEN ? AND ? AND lon BETWEEN ? AND ?")
+    params.push(query.bbox.minLat, query.bbox.maxLat, query.bbox.minLon, query.bbox.maxLon)
+  }
+  return { sql: clauses.length ? `WHERE ${clauses.join(" AND ")}` : "", params }
+}
+
+// Same semantics as SqliteStore.query, for data still held in AsyncStorage
+export function applyRangeQuery<T>(table: RecordTable, items: T[], query: RangeQuery): T[] {
+  const spec = TABLES[table]
+  const filtered = items
+    .map((item, index) => ({ item, index, time: spec.timestamp(item), location: spec.location(item) }))
+    .filter(({ time, location }) => {
+      if (query.from !== undefined && time < query.from) return false
+      if (query.to !== undefined && time > query.to) return false
+      if (query.bbox) {
+        if (!location) return false
+        const { minLat, maxLat, minLon, maxLon } = query.bbox
+        if (location.lat < minLat || location.lat > maxLat || location.lon < minLon || location.lon > maxLon) return false
+      }
+      return true
+    })
+    .sort((a, b) => (query.order === "asc" ? a.time - b.time || a.index - b.index : b.time - a.time || b.index - a.index))
+    .map(({ item }) => item)
+
+  const offset = query.offset ?? 0
+  return query.limit !== undefined ? filtered.slice(offset, offset + query.limit) : filtered.slice(offset)
+}
+
+export const SqliteStore = {
+  // True once the AsyncStorage data has been imported; until then Storage keeps using AsyncStorage
+  async isActive(): Promise<boolean> {
+    if (active !== null) return active
+    const db = await getDatabase()
+    if (!db) return (active = false)
+    const row = await db.getFirstAsync<{ value: string }>("SELECT value FROM meta WHERE key = ?", IMPORTED_FLAG)
+    return (active = row?.value === "1")
+  },
+  async getAll<T>(table: RecordTable): Promise<T[]> {
+    const db = await requireDatabase()
+    const rows = await db.getAllAsync<{ data: string }>(`SELECT data FROM ${table} ORDER BY row_id`)
+    return rows.map((row) => parseRow<T>(table, row))
+  },
+  async replaceAll(table: RecordTable, items: unknown[]) {
+    const db = await requireDatabase()
+    await db.withTransactionAsync(async () => {
+      await db.runAsync(`DELETE FROM ${table}`)
+      await insertRows(db, table, items)
+    })
+  },
+  async append(table: RecordTable, items: unknown[]) {
+    const db = await requireDatabase()
+    await db.withTransactionAsync(async () => {
+      await insertRows(db, table, items)
+    })
+  },
+  // Deletes the rows at exactly these items' time and position, in one transaction; rows added since stay
+  async deleteMatching(table: RecordTable, items: unknown[]) {
+    const db = await requireDatabase()
+    const spec = TABLES[table]
+    await db.withTransactionAsync(async () => {
+      const statement = await db.prepareAsync(
+        `DELETE FROM ${table} WHERE timestamp = $timestamp AND lat IS $lat AND lon IS $lon`,
+      )
+      try {
+        for (const item of items) {
+          const location = spec.location(item)
+          await statement.executeAsync({
+            $timestamp: spec.timestamp(item),
+            $lat: location?.lat ?? null,
+            $lon: location?.lon ?? null,
+          })
+        }
+      } finally {
+        await statement.finalizeAsync()
+      }
+    })
+  },
+  async query<T>(table: RecordTable, query: RangeQuery = {}): Promise<T[]> {
+    const db = await requireDatabase()
+    const where = buildWhere(query)
+    const direction = query.order === "asc" ? "ASC" : "DESC"
+    const rows = await db.getAllAsync<{ data: string }>(
+      `SELECT data FROM ${table} ${where.sql} ORDER BY timestamp ${direction}, row_id ${direction} LIMIT ? OFFSET ?`,
+      [...where.params, query.limit ?? -1, query.offset ?? 0],
+    )
+    return rows.map((row) => parseRow<T>(table, row))
+  },
+  async count(table: RecordTable, query: RangeQuery = {}): Promise<number> {
+    const db = await requireDatabase()
+    const where = buildWhere(query)
+    const row = await db.getFirstAsync<{ total: number }>(
+      `SELECT COUNT(*) AS total FROM ${table} ${where.sql}`,
+      where.params,
+    )
+    return row?.total ?? 0
+  },
+  // One-time move of the JSON blobs into SQLite; run from the storage migrations
+  async importFromAsyncStorage(sources: Record<RecordTable, string>): Promise<Record<RecordTable, number> | null> {
+    const db = await getDatabase()
+    if (!db) return null
+
+    const counts = {} as Record<RecordTable, number>
+    const tables = Object.keys(sources) as RecordTable[]
+
+    const readBlob = async (table: RecordTable): Promise<unknown[]> => {
+      const blob = await AsyncStorage.getItem(sources[table])
+      const parsed = blob ? JSON.parse(blob, TABLES[table].dates ? reviveDates : undefined) : []
+      return Array.isArray(parsed) ? parsed : []
+    }
+
+    // Each blob is read inside the transaction that imports it
+    await db.withTransactionAsync(async () => {
+      for (const table of tables) {
+        const items = await readBlob(table)
+        await db.runAsync(`DELETE FROM ${table}`)
+        await insertRows(db, table, items)
+        counts[table] = items.length
+      }
+      await db.runAsync("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)", IMPORTED_FLAG, "1")
+    })
+
+    active = true
+    // Records appended to AsyncStorage until the flag flipped are carried over before the blobs go
+    for (const table of tables) {
+      const late = (await readBlob(table)).slice(counts[table])
+      if (late.length) await SqliteStore.append(table, late)
+    }
+    await AsyncStorage.multiRemove(tables.map((table) => sources[table]))
+    return counts
+  },
+}
@@ -1,7 +1,30 @@
 import AsyncStorage from "@react-native-async-storage/async-storage"
-import type { AlertItem, AppSettings, CatchLog, Forecast, TripPlan } from "../types"
+import type {
+  AlertItem,
+  AlertRule,
+  AlertRuleState,
+  AppSettings,
+  CatchLog,
+  Forecast,
+  ImblEvidence,
+  MonitoringState,
+  SyncEntityKind,
+  SyncQueueEntry,
+  SyncStatus,
+  TrackRetentionPolicy,
+  TripPlan,
+} from "../types"
+import type { BoundaryViolation, GPSTrackingData } from "./maritimeBoundary"
+import type { CatchAnalysis } from "./fishPrediction"
+import type { SmartTripPlan } from "./smartTripPlanning"
+import type { Zone } from "../data/zones"
+import type { Waypoint } from "../data/waypoints"
+import type { EvidenceEntry } from "../utils/evidenceChain"
+import { reviveDates } from "../utils/json"
+import { applyRangeQuery, RangeQuery, RecordTable, SqliteStore } from "./sqliteStore"
+import { SecureStorage } from "./secureStorage"
 
-const KEYS = {
+export const KEYS = {
   CATCHES: "cfm.catches",
   TRIPS: "cfm.trips",
   FORECAST: "cfm.forecast",
@@ -14,33 +37,212 @@ const KEYS = {
   VIOLATIONS: "cfm.violations",
   HISTORICAL_CATCHES: "cfm.historical_catches",
   SMART_TRIP_PLANS: "cfm.smart_trip_plans",
+  SYNC_QUEUE: "cfm.sync_queue",
+  DEVICE_ID: "cfm.device_id",
+  SCHEMA_VERSION: "cfm.schema_version",
+  TRACK_RETENTION: "cfm.track_retention",
+  IMPORTED_ZONES: "cfm.imported_zones",
+  IMPORTED_WAYPOINTS: "cfm.imported_waypoints",
+  IMBL_EVIDENCE: "cfm.imbl_evidence",
+  EVIDENCE_LOG: "cfm.evidence_log",
+  MONITORING_STATE: "cfm.monitoring_state",
+  ALERT_RULES: "cfm.alert_rules",
+  ALERT_RULE_STATE: "cfm.alert_rule_state",
+  ACTIVE_TRIP: "cfm.active_trip",
 }
 
-async function readJSON<T>(key: string, fallback: T): Promise<T> {
+export const DEFAULT_SETTINGS: AppSettings = { lowPowerMode: true, gpsPollSeconds: 60, adaptivePolling: true, tripHours: 14 }
+
+// Oldest IMBL evidence records are dropped past this many
+const MAX_IMBL_EVIDENCE = 500
+
+// Suffix of the key a blob is moved to when it can no longer be parsed
+export const CORRUPT_SUFFIX = ".corrupt"
+
+export type CorruptBlob = {
+  raw: string
+  error: string
+  failedAt: number
+}
+
+// Keeps an unparseable blob aside instead of silently dropping it, so the
+// startup migration can try to salvage it (see storageMigrations.ts)
+export async function quarantine(key: string, raw: string, error: unknown) {
+  const blob: CorruptBlob = {
+    raw,
+    error: error instanceof Error ? error.message : String(error),
+    failedAt: Date.now(),
+  }
+  console.error(`Corrupted data in ${key}, moved to ${key}${CORRUPT_SUFFIX}:`, blob.error)
+  await AsyncStorage.setItem(`${key}${CORRUPT_SUFFIX}`, JSON.stringify(blob))
+  await AsyncStorage.removeItem(key)
+}
+
+async function readJSON<T>(key: string, fallback: T, options: { dates?: boolean } = {}): Promise<T> {
+  let raw: string | null
   try {
-    const raw = await AsyncStorage.getItem(key)
-    return raw ? (JSON.parse(raw) as T) : fallback
+    raw = await AsyncStorage.getItem(key)
   } catch {
     return fallback
   }
+  if (!raw) return fallback
+
+  try {
+    return JSON.parse(raw, options.dates ? reviveDates : undefined) as T
+  } catch (error) {
+    try {
+      await quarantine(key, raw, error)
+    } catch {
+      // Storage itself is failing; nothing more we can do here
+    }
+    return fallback
+  }
 }
 
 async function writeJSON<T>(key: string, value: T): Promise<void> {
   await AsyncStorage.setItem(key, JSON.stringify(value))
 }
 
+// Identity details a finder of a lost phone should not be able to read
+export const SECRET_KEYS = [KEYS.BOAT_ID, KEYS.LICENSE_NUMBER, KEYS.CONTACT_NUMBER]
+
+async function readSecret(key: string): Promise<string> {
+  try {
+    const raw = await SecureStorage.getSecret(key)
+    return raw ? (JSON.parse(raw) as string) : ""
+  } catch {
+    return ""
+  }
+}
+
+async function writeSecret(key: string, value: string): Promise<void> {
+  await SecureStorage.setSecret(key, JSON.stringify(value))
+}
+
+// AsyncStorage key each SQLite table was imported from
+export const RECORD_TABLE_KEYS: Record<RecordTable, string> = {
+  catches: KEYS.CATCHES,
+  tracking_points: KEYS.TRACKING_DATA,
+  violations: KEYS.VIOLATIONS,
+  alerts: KEYS.ALERTS,
+  evidence: KEYS.EVIDENCE_LOG,
+}
+
+// Record collections live in SQLite once imported, and in AsyncStorage before that (or on web)
+async function readRecords<T>(table: RecordTable): Promise<T[]> {
+  if (await SqliteStore.isActive()) return SqliteStore.getAll<T>(table)
+  return readJSON<T[]>(RECORD_TABLE_KEYS[table], [], { dates: table === "tracking_points" || table === "violations" })
+}
+
+async function writeRecords<T>(table: RecordTable, items: T[]): Promise<void> {
+  if (await SqliteStore.isActive()) return SqliteStore.replaceAll(table, items)
+  return writeJSON(RECORD_TABLE_KEYS[table], items)
+}
+
+async function appendRecords<T>(table: RecordTable, items: T[]): Promise<void> {
+  if (await SqliteStore.isActive()) return SqliteStore.append(table, items)
+  if (items.length === 0) return
+  const key = RECORD_TABLE_KEYS[table]
+  const raw = (await AsyncStorage.getItem(key))?.trim()
+  if (!raw) return writeJSON(key, items)
+  // The new records are spliced onto the stored text, so appending a fix does not parse the whole history
+  if (raw.startsWith("[") && raw.endsWith("]")) {
+    const head = raw.slice(0, -1).trimEnd()
+    const tail = JSON.stringify(items).slice(1)
+    return AsyncStorage.setItem(key, head === "[" ? `[${tail}` : `${head},${tail}`)
+  }
+  // Not an array: the full read quarantines it
+  const existing = await readRecords<T>(table)
+  return writeJSON(key, [...existing, ...items])
+}
+
+// Tracking points carry no id; a fix is identified by its time and position
+function trackingKey(point: GPSTrackingData) {
+  return `${new Date(point.timestamp).getTime()}:${point.location.lat}:${point.location.lon}`
+}
+
+async function queryRecords<T>(table: RecordTable, query: RangeQuery): Promise<T[]> {
+  if (await SqliteStore.isActive()) return SqliteStore.query<T>(table, query)
+  return applyRangeQuery(table, await readRecords<T>(table), query)
+}
+
+type SyncTracked = { id: string; syncStatus: SyncStatus; updatedAt?: number; lastSyncedAt?: number }
+
+// Records that are new or differ from their previous version are edits: they are
+// stamped with the edit time and go back to pending. The rest are returned as they were.
+function stampEdits<T extends SyncTracked>(previous: T[], next: T[], now: number): { items: T[]; edited: string[] } {
+  const before = new Map(previous.map((r) => [r.id, JSON.stringify(r)]))
+  const edited: string[] = []
+  const items = next.map((record) => {
+    if (before.get(record.id) === JSON.stringify(record)) return record
+    edited.push(record.id)
+    return { ...record, syncStatus: "pending" as const, updatedAt: now }
+  })
+  return { items, edited }
+}
+
+// Records the edits in the sync queue: edited records become upserts, records that
+// disappeared become deletes. Entries already queued keep their attempts and backoff.
+async function enqueueChanges(kind: SyncEntityKind, previous: SyncTracked[], next: SyncTracked[], edited: string[], now: number) {
+  const nextIds = new Set(next.map((r) => r.id))
+  const changes = new Map<string, SyncQueueEntry["op"]>(edited.map((id) => [id, "upsert"]))
+  for (const record of previous) {
+    // Records that never reached the cloud have nothing to delete remotely
+    if (!nextIds.has(record.id) && record.lastSyncedAt) changes.set(record.id, "delete")
+  }
+  if (changes.size === 0) return
+
+  const queue = await readJSON<SyncQueueEntry[]>(KEYS.SYNC_QUEUE, [])
+  const queued = new Map(queue.filter((e) => e.kind === kind).map((e) => [e.recordId, e]))
+  const kept = queue.filter((e) => e.kind !== kind || !changes.has(e.recordId))
+  const entries = [...changes].map(([recordId, op]): SyncQueueEntry => {
+    const existing = queued.get(recordId)
+    // A fresh queuedAt tells a sync run in progress that this change supersedes its copy
+    if (existing) return { ...existing, op, queuedAt: now }
+    return { kind, recordId, op, queuedAt: now, attempts: 0, nextAttemptAt: now }
+  })
+  await writeJSON(KEYS.SYNC_QUEUE, [...kept, ...entries])
+}
+
 export const Storage = {
   async getCatches(): Promise<CatchLog[]> {
-    return readJSON<CatchLog[]>(KEYS.CATCHES, [])
+    return readRecords<CatchLog>("catches")
   },
-  async saveCatches(items: CatchLog[]) {
-    return writeJSON(KEYS.CATCHES, items)
+  async saveCatches(items: CatchLog[], options: { skipSyncQueue?: boolean } = {}) {
+    if (options.skipSyncQueue) return writeRecords("catches", items)
+    const now = Date.now()
+    const previous = await readRecords<CatchLog>("catches")
+    const { items: stamped, edited } = stampEdits(previous, items, now)
+    await writeRecords("catches", stamped)
+    await enqueueChanges("catch", previous, stamped, edited, now)
+  },
+  // Paged / ranged access, newest first unless order is "asc"
+  async queryCatches(query: RangeQuery = {}): Promise<CatchLog[]> {
+    return queryRecords<CatchLog>("catches", query)
   },
   async getTrips(): Promise<TripPlan[]> {
     return readJSON<TripPlan[]>(KEYS.TRIPS, [])
   },
-  async saveTrips(items: TripPlan[]) {
-    return writeJSON(KEYS.TRIPS, items)
+  async saveTrips(items: TripPlan[], options: { skipSyncQueue?: boolean } = {}) {
+    if (options.skipSyncQueue) return writeJSON(KEYS.TRIPS, items)
+    const now = Date.now()
+    const previous = await readJSON<TripPlan[]>(KEYS.TRIPS, [])
+    const { items: stamped, edited } = stampEdits(previous, items, now)
+    await writeJSON(KEYS.TRIPS, stamped)
+    await enqueueChanges("trip", previous, stamped, edited, now)
+  },
+  async getSyncQueue(): Promise<SyncQueueEntry[]> {
+    return readJSON<SyncQueueEntry[]>(KEYS.SYNC_QUEUE, [])
+  },
+  async saveSyncQueue(entries: SyncQueueEntry[]) {
+    return writeJSON(KEYS.SYNC_QUEUE, entries)
+  },
+  async getDeviceId(): Promise<string> {
+    const existing = await readJSON<string>(KEYS.DEVICE_ID, "")
+    if (existing) return existing
+    const id = `device_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`
+    await writeJSON(KEYS.DEVICE_ID, id)
+    return id
   },
   async getForecast(): Promise<Forecast | null> {
     return readJSON<Forecast | null>(KEYS.FORECAST, null as any)
@@ -49,58 +251,153 @@ export const Storage = {
     return writeJSON(KEYS.FORECAST, f)
   },
   async getAlerts(): Promise<AlertItem[]> {
-    return readJSON<AlertItem[]>(KEYS.ALERTS, [])
+    return readRecords<AlertItem>("alerts")
   },
   async saveAlerts(items: AlertItem[]) {
-    return writeJSON(KEYS.ALERTS, items)
+    return writeRecords("alerts", items)
+  },
+  async queryAlerts(query: RangeQuery = {}): Promise<AlertItem[]> {
+    return queryRecords<AlertItem>("alerts", query)
   },
   async getSettings(): Promise<AppSettings> {
-    return readJSON<AppSettings>(KEYS.SETTINGS, { lowPowerMode: true, gpsPollSeconds: 60 })
+    // Settings saved before a field existed get its default
+    return { ...DEFAULT_SETTINGS, ...(await readJSON<Partial<AppSettings>>(KEYS.SETTINGS, {})) }
   },
   async saveSettings(s: AppSettings) {
     return writeJSON(KEYS.SETTINGS, s)
   },
+  async getMonitoringState(): Promise<MonitoringState> {
+    return readJSON<MonitoringState>(KEYS.MONITORING_STATE, { active: false, startedAt: null, pollSeconds: 60 })
+  },
+  async saveMonitoringState(state: MonitoringState) {
+    return writeJSON(KEYS.MONITORING_STATE, state)
+  },
   // New methods for maritime boundary service
   async getBoatId(): Promise<string> {
-    return readJSON<string>(KEYS.BOAT_ID, "")
+    return readSecret(KEYS.BOAT_ID)
   },
   async saveBoatId(id: string) {
-    return writeJSON(KEYS.BOAT_ID, id)
+    return writeSecret(KEYS.BOAT_ID, id)
   },
   async getLicenseNumber(): Promise<string> {
-    return readJSON<string>(KEYS.LICENSE_NUMBER, "")
+    return readSecret(KEYS.LICENSE_NUMBER)
   },
   async saveLicenseNumber(license: string) {
-    return writeJSON(KEYS.LICENSE_NUMBER, license)
+    return writeSecret(KEYS.LICENSE_NUMBER, license)
   },
   async getContactNumber(): Promise<string> {
-    return readJSON<string>(KEYS.CONTACT_NUMBER, "")
+    return readSecret(KEYS.CONTACT_NUMBER)
   },
   async saveContactNumber(contact: string) {
-    return writeJSON(KEYS.CONTACT_NUMBER, contact)
+    return writeSecret(KEYS.CONTACT_NUMBER, contact)
+  },
+  async getTrackingData(): Promise<GPSTrackingData[]> {
+    return readRecords<GPSTrackingData>("tracking_points")
   },
-  async getTrackingData(): Promise<any[]> {
-    return readJSON<any[]>(KEYS.TRACKING_DATA, [])
+  async saveTrackingData(data: GPSTrackingData[]) {
+    return writeRecords("tracking_points", data)
   },
-  async saveTrackingData(data: any[]) {
-    return writeJSON(KEYS.TRACKING_DATA, data)
+  async appendTrackingData(points: GPSTrackingData[]) {
+    return appendRecords("tracking_points", points)
   },
-  async getViolations(): Promise<any[]> {
-    return readJSON<any[]>(KEYS.VIOLATIONS, [])
+  // For map track rendering: pass a time range and/or the visible bounding box
+  // Deletes just these fixes; any appended since they were read are kept
+  async removeTrackingData(points: GPSTrackingData[]) {
+    if (points.length === 0) return
+    if (await SqliteStore.isActive()) return SqliteStore.deleteMatching("tracking_points", points)
+    const removed = new Set(points.map(trackingKey))
+    const current = await readRecords<GPSTrackingData>("tracking_points")
+    await writeJSON(KEYS.TRACKING_DATA, current.filter((point) => !removed.has(trackingKey(point))))
   },
-  async saveViolations(violations: any[]) {
-    return writeJSON(KEYS.VIOLATIONS, violations)
+  async queryTrackingData(query: RangeQuery = {}): Promise<GPSTrackingData[]> {
+    return queryRecords<GPSTrackingData>("tracking_points", query)
   },
-  async getHistoricalCatches(): Promise<any[]> {
-    return readJSON<any[]>(KEYS.HISTORICAL_CATCHES, [])
+  async getViolations(): Promise<BoundaryViolation[]> {
+    return readRecords<BoundaryViolation>("violations")
   },
-  async saveHistoricalCatches(data: any[]) {
+  async saveViolations(violations: BoundaryViolation[]) {
+    return writeRecords("violations", violations)
+  },
+  async queryViolations(query: RangeQuery = {}): Promise<BoundaryViolation[]> {
+    return queryRecords<BoundaryViolation>("violations", query)
+  },
+  async getHistoricalCatches(): Promise<CatchAnalysis[]> {
+    return readJSON<CatchAnalysis[]>(KEYS.HISTORICAL_CATCHES, [], { dates: true })
+  },
+  async saveHistoricalCatches(data: CatchAnalysis[]) {
     return writeJSON(KEYS.HISTORICAL_CATCHES, data)
   },
-  async getSmartTripPlans(): Promise<any[]> {
-    return readJSON<any[]>(KEYS.SMART_TRIP_PLANS, [])
+  async getSmartTripPlans(): Promise<SmartTripPlan[]> {
+    return readJSON<SmartTripPlan[]>(KEYS.SMART_TRIP_PLANS, [], { dates: true })
   },
-  async saveSmartTripPlans(plans: any[]) {
+  async saveSmartTripPlans(plans: SmartTripPlan[]) {
     return writeJSON(KEYS.SMART_TRIP_PLANS, plans)
   },
+  async getTrackRetentionPolicy(): Promise<TrackRetentionPolicy> {
+    return readJSON<TrackRetentionPolicy>(KEYS.TRACK_RETENTION, {
+      fullResolutionHours: 48,
+      maxAgeDays: 90,
+      protectedMaxAgeDays: 365,
+      maxPoints: 20000,
+      toleranceMeters: 25,
+      protectWindowMinutes: 15,
+    })
+  },
+  async saveTrackRetentionPolicy(policy: TrackRetentionPolicy) {
+    return writeJSON(KEYS.TRACK_RETENTION, policy)
+  },
+  // Zones and marks loaded from cooperative GeoJSON/KML files
+  async getImportedZones(): Promise<Zone[]> {
+    return readJSON<Zone[]>(KEYS.IMPORTED_ZONES, [])
+  },
+  async saveImportedZones(zones: Zone[]) {
+    return writeJSON(KEYS.IMPORTED_ZONES, zones)
+  },
+  async getImportedWaypoints(): Promise<Waypoint[]> {
+    return readJSON<Waypoint[]>(KEYS.IMPORTED_WAYPOINTS, [])
+  },
+  async saveImportedWaypoints(waypoints: Waypoint[]) {
+    return writeJSON(KEYS.IMPORTED_WAYPOINTS, waypoints)
+  },
+  // Position history logged around International Maritime Boundary Line alerts, oldest first
+  async getImblEvidence(): Promise<ImblEvidence[]> {
+    return readJSON<ImblEvidence[]>(KEYS.IMBL_EVIDENCE, [])
+  },
+  async appendImblEvidence(record: ImblEvidence) {
+    const existing = await readJSON<ImblEvidence[]>(KEYS.IMBL_EVIDENCE, [])
+    return writeJSON(KEYS.IMBL_EVIDENCE, [...existing, record].slice(-MAX_IMBL_EVIDENCE))
+  },
+  // Hash-chained evidence log; append-only, so there is deliberately no save or replace
+  async appendEvidence(entries: EvidenceEntry[]) {
+    return appendRecords("evidence", entries)
+  },
+  async queryEvidence(query: RangeQuery = {}): Promise<EvidenceEntry[]> {
+    return queryRecords<EvidenceEntry>("evidence", { order: "asc", ...query })
+  },
+  // Personal alert rules and whether each matched at its last check
+  async getAlertRules(): Promise<AlertRule[]> {
+    return readJSON<AlertRule[]>(KEYS.ALERT_RULES, [])
+  },
+  async saveAlertRules(rules: AlertRule[]) {
+    return writeJSON(KEYS.ALERT_RULES, rules)
+  },
+  async getAlertRuleState(): Promise<AlertRuleState[]> {
+    return readJSON<AlertRuleState[]>(KEYS.ALERT_RULE_STATE, [])
+  },
+  async saveAlertRuleState(state: AlertRuleState[]) {
+    return writeJSON(KEYS.ALERT_RULE_STATE, state)
+  },
+  // The trip plan being sailed; alerts for areas on its route are shown
+  async getActiveTripId(): Promise<string | null> {
+    return readJSON<string | null>(KEYS.ACTIVE_TRIP, null)
+  },
+  async saveActiveTripId(tripId: string | null) {
+    return writeJSON(KEYS.ACTIVE_TRIP, tripId)
+  },
+  async getSchemaVersion(): Promise<number> {
+    return readJSON<number>(KEYS.SCHEMA_VERSION, 0)
+  },
+  async saveSchemaVersion(version: number) {
+    return writeJSON(KEYS.SCHEMA_VERSION, version)
+  },
 }
@@ -0,0 +1,519 @@
+/**
+ * 🧬 Storage Schema Migrations
+ * Versioned upgrades for the AsyncStorage `cfm.*` keys
+ *
+ * Features:
+ * - Stored schema version (cfm.schema_version)
+ * - Ordered migration steps, each committed as it completes
+ * - Salvage of blobs quarantined by Storage after a parse error, merged into data written since
+ * - A blob that no longer parses is salvaged where a step reads it, so it cannot fail that step forever
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CORRUPT_SUFFIX, CorruptBlob, KEYS, quarantine, RECORD_TABLE_KEYS, SECRET_KEYS, Storage } from './storage';
+import { RecordTable, SqliteStore } from './sqliteStore';
+import { SecureStorage } from './secureStorage';
+import { boundaryDedupKey, closurePeriod, isThreadOpen, mergeAlerts, reviseAlert, weatherDedupKey } from '../utils/alerts';
+import { areaCenter, toAlertAreas, toAlertPriority, toAlertType } from '../utils/cap';
+import type { AlertItem, CatchLog } from '../types';
+
+// AsyncStorage key of the alert store that cfm.alerts replaced
+const LEGACY_ALERTS_KEY = 'seasure_alerts';
+// Placeholder the old seeding wrote on first run; real closures are raised from zone data now
+const SAMPLE_BAN_ALERT_ID = 'ban-sample';
+// CAP warnings were kept here, until the boat reached their area, before alerts carried their own area and expiry
+const CAP_WARNINGS_KEY = 'cfm.cap_warnings';
+// LogbookScreen kept its own catch list here, pushed straight to Firestore instead of through the sync queue
+const LEGACY_CATCH_HISTORY_KEY = 'catch_history';
+// Seasonal ban alert ids end in the year and "MM-DD" the closure started
+const SEASONAL_BAN_ID = /^seasonal_ban_.+_(\d{4})-\d{2}-\d{2}$/;
+
+// Dedup key of an alert stored before alerts had one, for the producers that repeat themselves
+function legacyDedupKey(alert: AlertItem): string | undefined {
+  if (alert.type === 'boundary' && alert.data?.zoneId) return boundaryDedupKey(alert.data.zoneId);
+  if (alert.id.startsWith('weather_')) return weatherDedupKey(alert.title);
+  if (alert.data?.ruleId) return `rule:${alert.data.ruleId}`;
+  if (alert.data?.cap) {
+    const index = Number(alert.id.split('#')[1] ?? 0);
+    return `cap:${alert.data.cap.sender},${alert.data.cap.identifier}${index ? `#${index}` : ''}`;
+  }
+  return undefined;
+}
+
+// Offline OTP records written by TrueOfflineOTPService and OfflineOTPAuthService
+const OTP_RECORD_PREFIXES = ['offline_otp_', 'offline_tokens_', 'device_fingerprint_'];
+
+export interface StorageMigration {
+  version: number;
+  description: string;
+  migrate: () => Promise<void>;
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  applied: number[];
+  recoveredKeys: string[];
+  unrecoverableKeys: string[];
+  error?: string;
+}
+
+type RawRecord = Record<string, any>;
+
+// A blob that no longer parses keeps its complete leading records, written back on the spot;
+// one with nothing to salvage is quarantined (unless an earlier copy is) and read as absent
+async function readRawArray(key: string): Promise<RawRecord[] | null> {
+  const raw = await AsyncStorage.getItem(key);
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch (error) {
+    const salvaged = salvageJSONArray(raw) as RawRecord[] | null;
+    if (!salvaged || salvaged.length === 0) {
+      if (!(await AsyncStorage.getItem(`${key}${CORRUPT_SUFFIX}`))) await quarantine(key, raw, error);
+      return null;
+    }
+    await writeRaw(key, salvaged);
+    console.log(`🩹 Salvaged ${salvaged.length} records from unreadable ${key}`);
+    return salvaged;
+  }
+}
+
+async function writeRaw(key: string, value: unknown): Promise<void> {
+  await AsyncStorage.setItem(key, JSON.stringify(value));
+}
+
+// Records with an id match by id; others (e.g. tracking points) only when identical
+function recordKey(record: unknown): string {
+  const id = (record as RawRecord | null)?.id;
+  return typeof id === 'string' ? `id:${id}` : JSON.stringify(record);
+}
+
+function missingFrom(live: unknown[], salvaged: unknown[]): unknown[] {
+  const known = new Set(live.map(recordKey));
+  return salvaged.filter(record => !known.has(recordKey(record)));
+}
+
+function toEpochMs(value: unknown, fallback: number): number {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    if (!Number.isNaN(parsed)) return parsed;
+  }
+  return fallback;
+}
+
+// Catches loaded from Firestore were stored with its Timestamp serialised as { seconds, nanoseconds }
+function firestoreEpochMs(value: unknown, fallback: number): number {
+  const seconds = (value as RawRecord | null)?.seconds;
+  return typeof seconds === 'number' ? seconds * 1000 : toEpochMs(value, fallback);
+}
+
+// CAP warnings still waiting for the boat to reach their area, as the alerts capAlertService stores now.
+// Notified ones are already in cfm.alerts; withdrawn and expired ones are done with.
+function pendingCapAlerts(warnings: RawRecord[], now: number): AlertItem[] {
+  return warnings
+    .filter(w => w && typeof w.id === 'string' && Array.isArray(w.areas) && w.areas.length > 0)
+    .filter(w => !w.notifiedAt && !w.withdrawnAt && toNumber(w.expires) > now)
+    .map(w => {
+      const center = areaCenter(w.areas[0]);
+      return {
+        id: `cap_${w.id}`,
+        type: toAlertType(w.category),
+        title: w.headline ?? w.event,
+        message: [
+          w.description,
+          w.instruction,
+          `Area: ${w.areas.map((area: RawRecord) => area.description).join(', ')}`,
+          `In force until ${new Date(w.expires).toLocaleString()}`,
+          w.senderName && `Issued by ${w.senderName}`,
+        ]
+          .filter(Boolean)
+          .join('\n'),
+        priority: toAlertPriority(w.severity),
+        timestamp: w.sent,
+        location: { latitude: center.lat, longitude: center.lon },
+        source: 'real' as const,
+        isRead: false,
+        areas: w.areas.flatMap(toAlertAreas),
+        expiresAt: w.expires,
+        // Turns active, and is announced, once the boat or its trip route is in the area
+        active: false,
+        data: {
+          cap: {
+            id: w.id,
+            identifier: w.identifier,
+            sender: w.sender,
+            references: w.references ?? [],
+            event: w.event,
+            severity: w.severity,
+            urgency: w.urgency,
+            certainty: w.certainty,
+            sent: w.sent,
+            effective: w.effective,
+            expires: w.expires,
+          },
+        },
+      };
+    });
+}
+
+function toNumber(value: unknown, fallback = 0): number {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : fallback;
+}
+
+function hasLatLon(value: unknown): value is { lat: number; lon: number } {
+  const v = value as RawRecord | null;
+  return !!v && Number.isFinite(toNumber(v.lat, NaN)) && Number.isFinite(toNumber(v.lon, NaN));
+}
+
+/**
+ * Ordered list of migrations. Append new steps with the next version number;
+ * never edit or reorder a step that has shipped.
+ */
+export const MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Add sync bookkeeping to catches and trips',
+    migrate: async () => {
+      const now = Date.now();
+
+      const catches = await readRawArray(KEYS.CATCHES);
+      if (catches) {
+        await writeRaw(
+          KEYS.CATCHES,
+          catches
+            .filter(c => c && typeof c.id === 'string')
+            .map(c => ({
+              ...c,
+              timestamp: toEpochMs(c.timestamp, now),
+              syncStatus: c.syncStatus ?? 'pending',
+            }))
+        );
+      }
+
+      const trips = await readRawArray(KEYS.TRIPS);
+      if (trips) {
+        await writeRaw(
+          KEYS.TRIPS,
+          trips
+            .filter(t => t && typeof t.id === 'string')
+            .map(t => ({
+              ...t,
+              waypoints: Array.isArray(t.waypoints) ? t.waypoints.filter(hasLatLon) : [],
+              createdAt: toEpochMs(t.createdAt, now),
+              syncStatus: t.syncStatus ?? 'pending',
+            }))
+        );
+      }
+    },
+  },
+  {
+    version: 2,
+    description: 'Normalise tracking points and boundary violations',
+    migrate: async () => {
+      const tracking = await readRawArray(KEYS.TRACKING_DATA);
+      if (tracking) {
+        await writeRaw(
+          KEYS.TRACKING_DATA,
+          tracking
+            .filter(p => p && hasLatLon(p.location))
+            .map(p => ({
+              timestamp: new Date(toEpochMs(p.timestamp, 0)).toISOString(),
+              location: { lat: toNumber(p.location.lat), lon: toNumber(p.location.lon) },
+              speed: toNumber(p.speed),
+              heading: toNumber(p.heading),
+              accuracy: toNumber(p.accuracy),
+              insideBoundary: typeof p.insideBoundary === 'string' ? p.insideBoundary : null,
+              distanceToNearestBoundary: toNumber(p.distanceToNearestBoundary, Number.MAX_SAFE_INTEGER),
+              estimatedTimeToViolation:
+                p.estimatedTimeToViolation == null ? null : toNumber(p.estimatedTimeToViolation),
+            }))
+        );
+      }
+
+      const violations = await readRawArray(KEYS.VIOLATIONS);
+      if (violations) {
+        await writeRaw(
+          KEYS.VIOLATIONS,
+          violations
+            .filter(v => v && typeof v.id === 'string' && v.boundary && hasLatLon(v.location))
+            .map(v => ({
+              ...v,
+              timestamp: new Date(toEpochMs(v.timestamp, 0)).toISOString(),
+              automaticReported: !!v.automaticReported,
+              acknowledged: !!v.acknowledged,
+              resolved: !!v.resolved,
+            }))
+        );
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'Move catches, tracking points, violations and alerts into SQLite',
+    migrate: async () => {
+      // A blob no Storage getter has read yet may be truncated: salvage or quarantine it first, so the import can parse it
+      for (const key of Object.values(RECORD_TABLE_KEYS)) {
+        await readRawArray(key);
+      }
+      // Returns null where SQLite is unavailable (web); those keep using AsyncStorage
+      const counts = await SqliteStore.importFromAsyncStorage(RECORD_TABLE_KEYS);
+      if (counts) {
+        console.log('🗃️ Imported into SQLite:', counts);
+      }
+    },
+  },
+  {
+    version: 4,
+    description: 'Move identity secrets to secure storage and encrypt OTP records',
+    migrate: async () => {
+      const secrets = await SecureStorage.moveToSecureStore([...SECRET_KEYS, 'device_id_for_otp']);
+      const allKeys = await AsyncStorage.getAllKeys();
+      const otpKeys = allKeys.filter(key => OTP_RECORD_PREFIXES.some(prefix => key.startsWith(prefix)));
+      const encrypted = await SecureStorage.encryptExisting(otpKeys);
+      console.log(`🔐 Secured ${secrets} secrets and encrypted ${encrypted} OTP records`);
+    },
+  },
+  {
+    version: 5,
+    description: 'Merge the seasure_alerts store into cfm.alerts with the unified alert model',
+    migrate: async () => {
+      const legacy = (await readRawArray(LEGACY_ALERTS_KEY)) ?? [];
+      // cfm.alerts may already be in SQLite (v3), so it is read through Storage
+      const current = (await Storage.getAlerts()) as unknown[];
+      const merged = mergeAlerts(legacy, current).filter(alert => alert.id !== SAMPLE_BAN_ALERT_ID);
+      await Storage.saveAlerts(merged);
+      await AsyncStorage.removeItem(LEGACY_ALERTS_KEY);
+      console.log(`🔔 Merged ${legacy.length} + ${current.length} alerts into ${merged.length}`);
+    },
+  },
+  {
+    version: 6,
+    description: 'Give seasonal ban alerts their zone and closure period; move pending CAP warnings into the alerts',
+    migrate: async () => {
+      let dated = 0;
+      const pendingCap = pendingCapAlerts((await readRawArray(CAP_WARNINGS_KEY)) ?? [], Date.now());
+      const alerts = (await Storage.getAlerts()).map(alert => {
+        const match = SEASONAL_BAN_ID.exec(alert.id);
+        const { zoneId, start, end } = alert.data ?? {};
+        if (alert.type !== 'seasonal_ban' || !match || alert.expiresAt || !zoneId || !start || !end) return alert;
+        dated++;
+        return { ...alert, areas: [{ kind: 'zone' as const, zoneId }], ...closurePeriod({ start, end }, Number(match[1])) };
+      });
+      const known = new Set(alerts.map(alert => alert.id));
+      await Storage.saveAlerts([...pendingCap.filter(alert => !known.has(alert.id)), ...alerts]);
+      await AsyncStorage.removeItem(CAP_WARNINGS_KEY);
+      console.log(`🔔 Dated ${dated} seasonal ban alerts and moved ${pendingCap.length} pending CAP warnings`);
+    },
+  },
+  {
+    version: 7,
+    description: 'Give repeated alerts a dedup key and fold each run of them into one thread',
+    migrate: async () => {
+      const stored = await Storage.getAlerts();
+      const threads: AlertItem[] = [];
+      const open = new Map<string, number>(); // dedup key → index in threads
+
+      // Oldest first, each folded into the thread before it while that thread was still open
+      for (const raw of [...stored].sort((a, b) => a.timestamp - b.timestamp)) {
+        const dedupKey = raw.dedupKey ?? legacyDedupKey(raw);
+        const alert = dedupKey ? { ...raw, dedupKey } : raw;
+        const index = dedupKey ? open.get(dedupKey) : undefined;
+        const thread = index === undefined ? undefined : threads[index];
+        if (!thread || !isThreadOpen(thread, alert.timestamp)) {
+          if (dedupKey) open.set(dedupKey, threads.length);
+          threads.push(alert);
+          continue;
+        }
+        threads[index!] = {
+          ...reviseAlert(thread, alert),
+          isRead: thread.isRead && alert.isRead,
+          dismissedAt: alert.dismissedAt,
+          escalations: [...(thread.escalations ?? []), ...(alert.escalations ?? [])],
+          active: alert.active,
+          activatedAt: alert.activatedAt ?? thread.activatedAt,
+        };
+      }
+
+      await Storage.saveAlerts(threads.sort((a, b) => b.timestamp - a.timestamp));
+      console.log(`🧵 Folded ${stored.length} alerts into ${threads.length} threads`);
+    },
+  },
+  {
+    version: 8,
+    description: 'Move the logbook catch history into the catch log and its sync queue',
+    migrate: async () => {
+      const legacy = (await readRawArray(LEGACY_CATCH_HISTORY_KEY)) ?? [];
+      const catches = await Storage.getCatches();
+      const known = new Set(catches.map(c => c.id));
+      const now = Date.now();
+
+      // Entries marked synced went to the old "catches" collection, so all of them are queued for catchLogs
+      const moved: CatchLog[] = legacy
+        .filter(e => e && typeof e.id === 'string' && typeof e.fishSpecies === 'string' && !known.has(e.id))
+        .map(e => ({
+          id: e.id,
+          species: e.fishSpecies,
+          weightKg: toNumber(e.weight),
+          quantity: toNumber(e.quantity, 1),
+          timestamp: firestoreEpochMs(e.timestamp, now),
+          ...(hasLatLon({ lat: e.location?.latitude, lon: e.location?.longitude })
+            ? { location: { lat: toNumber(e.location.latitude), lon: toNumber(e.location.longitude) } }
+            : {}),
+          syncStatus: 'pending',
+        }));
+
+      await Storage.saveCatches([...moved, ...catches]);
+      await AsyncStorage.removeItem(LEGACY_CATCH_HISTORY_KEY);
+      console.log(`🎣 Moved ${moved.length} logbook catches into the catch log`);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Recover the complete leading elements of a truncated or partly garbled JSON
+ * array, e.g. one cut off by the app being killed mid-write.
+ */
+export function salvageJSONArray(raw: string): unknown[] | null {
+  const start = raw.indexOf('[');
+  if (start === -1 || raw.slice(0, start).trim() !== '') return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let lastCompleteEnd = -1;
+
+  for (let i = start; i < raw.length; i++) {
+    const ch = raw[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '[' || ch === '{') depth++;
+    else if (ch === ']' || ch === '}') {
+      depth--;
+      // Back at array level: everything up to here is a complete element
+      if (depth === 1) lastCompleteEnd = i;
+      if (depth === 0) break;
+    } else if (ch === ',' && depth === 1) {
+      lastCompleteEnd = i - 1;
+    }
+  }
+
+  if (lastCompleteEnd === -1) return null;
+
+  try {
+    const parsed = JSON.parse(raw.slice(start, lastCompleteEnd + 1) + ']');
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function readCorruptBlob(stored: string): CorruptBlob | null {
+  try {
+    const blob = JSON.parse(stored) as Partial<CorruptBlob> | null;
+    return typeof blob?.raw === 'string' ? (blob as CorruptBlob) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Try to restore blobs that Storage quarantined after a parse error.
+ * Records written to the live key since are kept; salvaged ones it lacks are added to them.
+ */
+export async function recoverCorruptedBlobs(): Promise<{ recovered: string[]; unrecoverable: string[] }> {
+  const recovered: string[] = [];
+  const unrecoverable: string[] = [];
+
+  for (const key of Object.values(KEYS)) {
+    const corruptKey = `${key}${CORRUPT_SUFFIX}`;
+    try {
+      const stored = await AsyncStorage.getItem(corruptKey);
+      if (!stored) continue;
+
+      // The quarantined copy itself may be cut short, if the app was killed while writing it
+      const blob = readCorruptBlob(stored);
+      const salvaged = blob ? salvageJSONArray(blob.raw) : null;
+      // Record collections already moved into SQLite are restored there
+      const table = (Object.keys(RECORD_TABLE_KEYS) as RecordTable[]).find(t => RECORD_TABLE_KEYS[t] === key);
+      const inSqlite = table !== undefined && (await SqliteStore.isActive());
+
+      if (salvaged && salvaged.length > 0) {
+        let added: unknown[];
+        if (inSqlite) {
+          added = missingFrom(await SqliteStore.getAll(table!), salvaged);
+          await SqliteStore.append(table!, added);
+        } else {
+          const live = (await readRawArray(key)) ?? [];
+          added = missingFrom(live, salvaged);
+          await writeRaw(key, [...added, ...live]);
+        }
+        await AsyncStorage.removeItem(corruptKey);
+        recovered.push(key);
+        console.log(`🩹 Recovered ${added.length} of ${salvaged.length} records for ${key}`);
+      } else {
+        // Keep the quarantined copy so it can still be exported or inspected
+        unrecoverable.push(key);
+      }
+    } catch (error) {
+      // One key must not keep startup from reaching the migrations and the services after them
+      console.error(`❌ Failed to recover ${key}:`, error);
+      unrecoverable.push(key);
+    }
+  }
+
+  return { recovered, unrecoverable };
+}
+
+/**
+ * Bring stored data up to LATEST_SCHEMA_VERSION. Called once at startup.
+ */
+export async function runStorageMigrations(
+  migrations: StorageMigration[] = MIGRATIONS
+): Promise<MigrationReport> {
+  const fromVersion = await Storage.getSchemaVersion();
+  const { recovered, unrecoverable } = await recoverCorruptedBlobs();
+  const report: MigrationReport = {
+    fromVersion,
+    toVersion: fromVersion,
+    applied: [],
+    recoveredKeys: recovered,
+    unrecoverableKeys: unrecoverable,
+  };
+
+  if (fromVersion > LATEST_SCHEMA_VERSION) {
+    console.warn(`⚠️ Stored schema v${fromVersion} is newer than this app (v${LATEST_SCHEMA_VERSION}); skipping migrations`);
+    return report;
+  }
+
+  const pending = [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .filter(m => m.version > fromVersion);
+
+  for (const migration of pending) {
+    try {
+      console.log(`🧬 Migrating storage to v${migration.version}: ${migration.description}`);
+      await migration.migrate();
+      // Commit after each step so a crash resumes from the next one
+      await Storage.saveSchemaVersion(migration.version);
+      report.applied.push(migration.version);
+      report.toVersion = migration.version;
+    } catch (error) {
+      report.error = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Storage migration v${migration.version} failed:`, error);
+      break;
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,295 @@
+/**
+ * 🔄 Offline Sync Engine
+ * Pushes catch logs and trip plans recorded offline to Firestore
+ *
+ * Features:
+ * - Persistent queue fed by Storage.saveCatches / Storage.saveTrips
+ * - Exponential backoff per record while offline or failing
+ * - Per-record error tracking (syncStatus "failed" + syncError)
+ * - Records kept per user under users/{uid}, so only that user's devices share them
+ * - Last-writer-wins conflict resolution across devices
+ */
+
+import { Storage } from './storage';
+import { databaseService, SyncCollection, SyncedRecord } from './database';
+import { authService } from './auth';
+import { checkConnectivity } from '../utils/networkState';
+import type { CatchLog, SyncEntityKind, SyncQueueEntry, TripPlan } from '../types';
+
+type SyncableRecord = CatchLog | TripPlan;
+
+export interface SyncResult {
+  pushed: number;
+  deleted: number;
+  conflicts: number;
+  failed: number;
+  skipped: number;
+}
+
+const COLLECTIONS: Record<SyncEntityKind, SyncCollection> = {
+  catch: 'catchLogs',
+  trip: 'tripPlans',
+};
+
+class SyncEngine {
+  private static readonly CHECK_INTERVAL_MS = 30000;
+  private static readonly BASE_BACKOFF_MS = 5000;
+  private static readonly MAX_BACKOFF_MS = 30 * 60 * 1000;
+  private static readonly MAX_ATTEMPTS = 8;
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private isSyncing = false;
+  private listeners: ((result: SyncResult) => void)[] = [];
+
+  /**
+   * Start periodic sync attempts; each run first checks connectivity
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.syncNow().catch(error => console.error('❌ Background sync failed:', error));
+    }, SyncEngine.CHECK_INTERVAL_MS);
+
+    this.syncNow().catch(error => console.error('❌ Initial sync failed:', error));
+  }
+
+  /**
+   * Stop periodic sync attempts
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Push every queued change whose backoff has elapsed.
+   * Pass force to ignore backoff, e.g. from the Settings "Sync Now" button.
+   */
+  async syncNow(options: { force?: boolean } = {}): Promise<SyncResult> {
+    const result: SyncResult = { pushed: 0, deleted: 0, conflicts: 0, failed: 0, skipped: 0 };
+    if (this.isSyncing) return result;
+
+    const user = authService.getCurrentUser();
+    if (!user) return result;
+
+    this.isSyncing = true;
+    try {
+      const queue = await Storage.getSyncQueue();
+      if (queue.length === 0) return result;
+
+      if (!(await checkConnectivity())) {
+        result.skipped = queue.length;
+        return result;
+      }
+
+      const deviceId = await Storage.getDeviceId();
+      const now = Date.now();
+      const remaining: SyncQueueEntry[] = [];
+
+      for (const entry of queue) {
+        if (!options.force && entry.nextAttemptAt > now) {
+          remaining.push(entry);
+          result.skipped++;
+          continue;
+        }
+
+        try {
+          if (entry.op === 'delete') {
+            await databaseService.deleteSyncedRecord(user.uid, COLLECTIONS[entry.kind], entry.recordId);
+            result.deleted++;
+          } else {
+            const outcome = await this.pushRecord(entry, user.uid, deviceId);
+            if (outcome === 'conflict') result.conflicts++;
+            if (outcome !== 'missing') result.pushed++;
+          }
+        } catch (error) {
+          const failedEntry = this.scheduleRetry(entry, error);
+          if (failedEntry.attempts >= SyncEngine.MAX_ATTEMPTS) {
+            await this.markRecord(entry.kind, entry.recordId, {
+              syncStatus: 'failed',
+              syncError: failedEntry.lastError,
+            });
+          } else {
+            await this.markRecord(entry.kind, entry.recordId, { syncError: failedEntry.lastError });
+          }
+          remaining.push(failedEntry);
+          result.failed++;
+        }
+      }
+
+      await this.saveRemainingQueue(queue, remaining);
+      console.log(`🔄 Sync finished: ${result.pushed} pushed, ${result.deleted} deleted, ${result.failed} failed`);
+      this.notifyListeners(result);
+      return result;
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  /**
+   * Number of changes still waiting to reach the cloud
+   */
+  async getPendingCount(): Promise<number> {
+    return (await Storage.getSyncQueue()).length;
+  }
+
+  /**
+   * Add listener for completed sync runs
+   */
+  addListener(callback: (result: SyncResult) => void): () => void {
+    this.listeners.push(callback);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners = this.listeners.filter(listener => listener !== callback);
+    };
+  }
+
+  /**
+   * Push a single record, resolving conflicts with the remote copy
+   */
+  private async pushRecord(
+    entry: SyncQueueEntry,
+    userId: string,
+    deviceId: string
+  ): Promise<'pushed' | 'conflict' | 'missing'> {
+    const records = await this.loadRecords(entry.kind);
+    const local = records.find(r => r.id === entry.recordId);
+    if (!local) return 'missing'; // Removed locally before it could sync
+
+    const collectionName = COLLECTIONS[entry.kind];
+    const remote = await databaseService.getSyncedRecord<SyncableRecord>(userId, collectionName, entry.recordId);
+    const localUpdatedAt = this.getUpdatedAt(local);
+
+    // The remote copy changed on another device since we last reconciled with it
+    const editedElsewhere =
+      remote !== null &&
+      remote.deviceId !== deviceId &&
+      remote.updatedAt > (local.lastSyncedAt ?? 0);
+
+    if (editedElsewhere && remote.updatedAt > localUpdatedAt) {
+      // Remote edit is newer: it wins and replaces the local record
+      await this.replaceRecord(entry.kind, local, {
+        ...remote.record,
+        syncStatus: 'synced',
+        updatedAt: remote.updatedAt,
+        lastSyncedAt: remote.updatedAt,
+        syncError: undefined,
+      });
+      return 'conflict';
+    }
+
+    const payload: SyncedRecord<SyncableRecord> = {
+      userId,
+      deviceId,
+      updatedAt: localUpdatedAt,
+      record: { ...local, syncStatus: 'synced', syncError: undefined },
+    };
+    await databaseService.saveSyncedRecord(userId, collectionName, entry.recordId, payload);
+
+    await this.replaceRecord(entry.kind, local, {
+      ...local,
+      syncStatus: 'synced',
+      lastSyncedAt: localUpdatedAt,
+      syncError: undefined,
+    });
+    return editedElsewhere ? 'conflict' : 'pushed';
+  }
+
+  private getUpdatedAt(record: SyncableRecord): number {
+    if (record.updatedAt) return record.updatedAt;
+    return 'timestamp' in record ? record.timestamp : record.createdAt;
+  }
+
+  private scheduleRetry(entry: SyncQueueEntry, error: unknown): SyncQueueEntry {
+    const attempts = entry.attempts + 1;
+    const backoff = Math.min(
+      SyncEngine.BASE_BACKOFF_MS * Math.pow(2, attempts - 1),
+      SyncEngine.MAX_BACKOFF_MS
+    );
+    // Jitter keeps a fleet of boats returning to port from retrying in lockstep
+    const jitter = Math.random() * backoff * 0.2;
+
+    return {
+      ...entry,
+      attempts,
+      nextAttemptAt: Date.now() + backoff + jitter,
+      lastError: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  /**
+   * Save the queue, keeping entries that were added while this run was in progress
+   */
+  private async saveRemainingQueue(processed: SyncQueueEntry[], remaining: SyncQueueEntry[]): Promise<void> {
+    const current = await Storage.getSyncQueue();
+    const processedKeys = new Set(processed.map(e => `${e.kind}:${e.recordId}:${e.queuedAt}`));
+    const added = current.filter(e => !processedKeys.has(`${e.kind}:${e.recordId}:${e.queuedAt}`));
+
+    // A change queued during the run supersedes the retry entry for the same record
+    const addedKeys = new Set(added.map(e => `${e.kind}:${e.recordId}`));
+    await Storage.saveSyncQueue([
+      ...remaining.filter(e => !addedKeys.has(`${e.kind}:${e.recordId}`)),
+      ...added,
+    ]);
+  }
+
+  private async loadRecords(kind: SyncEntityKind): Promise<SyncableRecord[]> {
+    return kind === 'catch' ? Storage.getCatches() : Storage.getTrips();
+  }
+
+  /**
+   * Replace a record, unless it was edited again while the push was in flight
+   */
+  private async replaceRecord(kind: SyncEntityKind, pushed: SyncableRecord, next: SyncableRecord): Promise<void> {
+    const records = await this.loadRecords(kind);
+    const index = records.findIndex(r => r.id === pushed.id);
+    if (index === -1) return;
+    if (JSON.stringify(records[index]) !== JSON.stringify(pushed)) return;
+
+    records[index] = next;
+    await this.saveRecords(kind, records);
+  }
+
+  private async markRecord(kind: SyncEntityKind, id: string, updates: Partial<SyncableRecord>): Promise<void> {
+    const records = await this.loadRecords(kind);
+    const index = records.findIndex(r => r.id === id);
+    if (index === -1) return;
+
+    records[index] = { ...records[index], ...updates } as SyncableRecord;
+    await this.saveRecords(kind, records);
+  }
+
+  private async saveRecords(kind: SyncEntityKind, records: SyncableRecord[]): Promise<void> {
+    // Status bookkeeping must not re-queue the records it describes
+    if (kind === 'catch') {
+      await Storage.saveCatches(records as CatchLog[], { skipSyncQueue: true });
+    } else {
+      await Storage.saveTrips(records as TripPlan[], { skipSyncQueue: true });
+    }
+  }
+
+  /**
+   * Notify all listeners of a completed sync run
+   */
+  private notifyListeners(result: SyncResult): void {
+    this.listeners.forEach(callback => {
+      try {
+        callback(result);
+      } catch (error) {
+        console.error('❌ Error in sync listener:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const syncEngine = new SyncEngine();
+export default syncEngine;
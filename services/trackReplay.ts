@@ -0,0 +1,318 @@
+/**
+ * ⏯️ Track Replay
+ * Feeds a recorded track to the monitoring services in place of the phone's GPS
+ *
+ * Features:
+ * - GPX, NMEA and saved GPSTrackingData input (see utils/trackFormats.ts)
+ * - Real-time or accelerated playback on a controllable track clock
+ * - Pause, seek, single-step and run-to-end for reproducing an alert on a laptop
+ * - Fixes are delivered one at a time and awaited, so a replay is deterministic
+ */
+
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import { locationSource, LocationProvider, WatchOptions } from './locationProvider';
+import { parseTrack } from '../utils/trackFormats';
+import type { LocationFix } from '../types';
+
+export type ReplayState = 'idle' | 'playing' | 'paused' | 'finished';
+
+export interface ReplayProgress {
+  state: ReplayState;
+  delivered: number; // fixes delivered so far
+  total: number;
+  trackTime: number; // epoch ms on the track clock
+  speed: number; // playback multiplier
+}
+
+type FixCallback = (fix: LocationFix) => void | Promise<void>;
+
+/**
+ * Track-time clock: runs at `speed` times wall time while playing, stands still while paused
+ */
+export class ReplayClock {
+  private anchorTrack: number;
+  private anchorWall = 0;
+  private running = false;
+
+  constructor(start: number, private speed = 1) {
+    this.anchorTrack = start;
+  }
+
+  now(): number {
+    return this.running ? this.anchorTrack + (Date.now() - this.anchorWall) * this.speed : this.anchorTrack;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.anchorWall = Date.now();
+    this.running = true;
+  }
+
+  pause(): void {
+    this.anchorTrack = this.now();
+    this.running = false;
+  }
+
+  set(time: number): void {
+    this.anchorTrack = time;
+    this.anchorWall = Date.now();
+  }
+
+  setSpeed(speed: number): void {
+    this.set(this.now());
+    this.speed = speed;
+  }
+
+  getSpeed(): number {
+    return this.speed;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+}
+
+export class ReplayLocationProvider implements LocationProvider {
+  readonly name: string;
+  readonly clock: ReplayClock;
+  private fixes: LocationFix[];
+  private nextIndex = 0;
+  private state: ReplayState = 'idle';
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private watchers: { options: WatchOptions; callback: FixCallback; lastDelivered: number }[] = [];
+  private listeners: Array<(progress: ReplayProgress) => void> = [];
+
+  constructor(fixes: LocationFix[], options: { speed?: number; name?: string } = {}) {
+    if (!fixes.length) throw new Error('A replay needs at least one fix');
+    this.fixes = [...fixes].sort((a, b) => a.timestamp - b.timestamp);
+    this.clock = new ReplayClock(this.fixes[0].timestamp, options.speed ?? 1);
+    this.name = options.name ?? 'replay';
+  }
+
+  async requestPermissions(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * The last fix at or before the track clock
+   */
+  async getCurrentPosition(): Promise<LocationFix> {
+    const now = this.clock.now();
+    let current = this.fixes[0];
+    for (const fix of this.fixes) {
+      if (fix.timestamp > now) break;
+      current = fix;
+    }
+    return current;
+  }
+
+  async watchPosition(options: WatchOptions, callback: FixCallback): Promise<() => void> {
+    const watcher = { options, callback, lastDelivered: -Infinity };
+    this.watchers.push(watcher);
+    return () => {
+      this.watchers = this.watchers.filter(w => w !== watcher);
+    };
+  }
+
+  now(): number {
+    return this.clock.now();
+  }
+
+  play(): void {
+    if (this.state === 'finished') return;
+    this.state = 'playing';
+    this.clock.start();
+    this.scheduleNext();
+    this.notifyListeners();
+  }
+
+  pause(): void {
+    if (this.state !== 'playing') return;
+    this.clearTimer();
+    this.clock.pause();
+    this.state = 'paused';
+    this.notifyListeners();
+  }
+
+  setSpeed(speed: number): void {
+    this.clock.setSpeed(Math.max(0.1, speed));
+    if (this.state === 'playing') this.scheduleNext();
+    this.notifyListeners();
+  }
+
+  /**
+   * Jump the clock without delivering the fixes in between
+   */
+  seek(time: number): void {
+    this.clearTimer();
+    this.clock.set(time);
+    const index = this.fixes.findIndex(fix => fix.timestamp >= time);
+    this.nextIndex = index < 0 ? this.fixes.length : index;
+    if (this.nextIndex < this.fixes.length && this.state === 'finished') this.state = 'paused';
+    if (this.state === 'playing') this.scheduleNext();
+    this.notifyListeners();
+  }
+
+  /**
+   * Deliver the next fix immediately and move the clock to it
+   */
+  async step(): Promise<LocationFix | null> {
+    if (this.nextIndex >= this.fixes.length) return null;
+    const fix = this.fixes[this.nextIndex++];
+    this.clock.set(fix.timestamp);
+    await this.deliver(fix);
+    this.finishIfDone();
+    this.notifyListeners();
+    return fix;
+  }
+
+  /**
+   * Move the clock forward by ms of track time, delivering every fix passed on the way
+   */
+  async advanceBy(ms: number): Promise<void> {
+    const target = this.clock.now() + ms;
+    while (this.nextIndex < this.fixes.length && this.fixes[this.nextIndex].timestamp <= target) {
+      const fix = this.fixes[this.nextIndex++];
+      this.clock.set(fix.timestamp);
+      await this.deliver(fix);
+    }
+    this.clock.set(target);
+    this.finishIfDone();
+    this.notifyListeners();
+  }
+
+  /**
+   * Deliver the rest of the track as fast as the consumers can take it
+   */
+  async runToEnd(): Promise<void> {
+    this.clearTimer();
+    while (this.nextIndex < this.fixes.length) await this.step();
+  }
+
+  getProgress(): ReplayProgress {
+    return {
+      state: this.state,
+      delivered: this.nextIndex,
+      total: this.fixes.length,
+      trackTime: this.clock.now(),
+      speed: this.clock.getSpeed()
+    };
+  }
+
+  addListener(callback: (progress: ReplayProgress) => void): () => void {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter(listener => listener !== callback);
+    };
+  }
+
+  private scheduleNext(): void {
+    this.clearTimer();
+    if (this.finishIfDone()) return;
+    const fix = this.fixes[this.nextIndex];
+    const delay = Math.max(0, (fix.timestamp - this.clock.now()) / this.clock.getSpeed());
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      this.nextIndex++;
+      await this.deliver(fix);
+      this.notifyListeners();
+      if (this.state === 'playing') this.scheduleNext();
+    }, delay);
+  }
+
+  private async deliver(fix: LocationFix): Promise<void> {
+    for (const watcher of [...this.watchers]) {
+      // Mimic the consumer's polling interval on track time
+      if (!watcher.options.distanceMeters && fix.timestamp - watcher.lastDelivered < watcher.options.intervalMs) continue;
+      watcher.lastDelivered = fix.timestamp;
+      try {
+        await watcher.callback(fix);
+      } catch (error) {
+        console.error('❌ Replay consumer failed:', error);
+      }
+    }
+  }
+
+  private finishIfDone(): boolean {
+    if (this.nextIndex < this.fixes.length) return false;
+    if (this.state !== 'finished') {
+      this.state = 'finished';
+      this.clock.pause();
+      console.log(`⏹️ Replay finished after ${this.fixes.length} fixes`);
+      this.notifyListeners();
+    }
+    return true;
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private notifyListeners(): void {
+    const progress = this.getProgress();
+    this.listeners.forEach(listener => listener(progress));
+  }
+}
+
+class TrackReplayService {
+  private provider: ReplayLocationProvider | null = null;
+
+  /**
+   * Parse a track and make it the location source for every monitoring service
+   */
+  start(content: string, fileName?: string, options: { speed?: number; autoplay?: boolean } = {}): {
+    provider: ReplayLocationProvider | null;
+    errors: string[];
+  } {
+    const { fixes, errors } = parseTrack(content, fileName);
+    if (!fixes.length) return { provider: null, errors: errors.length ? errors : ['The track has no fixes'] };
+
+    this.stop();
+    this.provider = new ReplayLocationProvider(fixes, { speed: options.speed, name: `replay:${fileName ?? 'track'}` });
+    locationSource.setProvider(this.provider);
+    if (options.autoplay !== false) this.provider.play();
+    console.log(`⏯️ Replaying ${fixes.length} fixes at ${options.speed ?? 1}x (${errors.length} skipped)`);
+    return { provider: this.provider, errors };
+  }
+
+  async startFromFile(uri: string, fileName?: string, options: { speed?: number; autoplay?: boolean } = {}) {
+    const text = await new File(uri).text();
+    return this.start(text, fileName ?? uri.split('/').pop(), options);
+  }
+
+  /**
+   * Let the user choose a GPX, NMEA or tracking-data file; null when they cancel
+   */
+  async pickAndStart(options: { speed?: number } = {}) {
+    const picked = await DocumentPicker.getDocumentAsync({ type: '*/*', copyToCacheDirectory: true });
+    if (picked.canceled || !picked.assets?.length) return null;
+    const [asset] = picked.assets;
+    return this.startFromFile(asset.uri, asset.name, options);
+  }
+
+  /**
+   * End the replay and hand location back to the phone's GPS
+   */
+  stop(): void {
+    if (!this.provider) return;
+    this.provider.pause();
+    this.provider = null;
+    locationSource.useDevice();
+  }
+
+  getProvider(): ReplayLocationProvider | null {
+    return this.provider;
+  }
+
+  isReplaying(): boolean {
+    return this.provider !== null;
+  }
+}
+
+// Export singleton instance
+export const trackReplay = new TrackReplayService();
+export default trackReplay;
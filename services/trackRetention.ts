@@ -0,0 +1,199 @@
+/**
+ * 🧹 Track Retention Service
+ * Keeps GPS track history within a storage budget
+ *
+ * Features:
+ * - Douglas–Peucker simplification of tracks older than the full-resolution window
+ * - Full resolution kept inside closed zones and around boundary violations and SOS events
+ * - Age limits for ordinary and protected fixes
+ * - Point budget enforced by coarser simplification, then by dropping the oldest fixes
+ * - Deletes only the pruned fixes, so fixes recorded while it runs are never lost
+ */
+
+import { Storage } from './storage';
+import { emergencyService } from './emergencyService';
+import { zoneRegistry } from './zoneRegistry';
+import { simplifyTrack } from '../utils/geo';
+import type { GPSTrackingData } from './maritimeBoundary';
+import type { TrackRetentionPolicy } from '../types';
+
+export interface RetentionResult {
+  before: number;
+  after: number;
+  expired: number;
+  simplified: number;
+  trimmedForBudget: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// A gap this long between fixes starts a new trip; trips are simplified independently
+const TRIP_GAP_MS = 30 * 60 * 1000;
+// Tolerance multiplier ceiling when tightening to meet the point budget
+const MAX_TOLERANCE_SCALE = 32;
+
+class TrackRetentionService {
+  private isRunning = false;
+
+  /**
+   * Apply the stored retention policy to the saved track history
+   */
+  async applyRetention(now: number = Date.now()): Promise<RetentionResult | null> {
+    if (this.isRunning) return null;
+    this.isRunning = true;
+
+    try {
+      const policy = await Storage.getTrackRetentionPolicy();
+      const points = await Storage.getTrackingData();
+      const eventTimes = await this.getProtectedEventTimes();
+
+      const result = this.compact(points, eventTimes, policy, now);
+      if (result.points.length !== points.length) {
+        const kept = new Set(result.points);
+        await Storage.removeTrackingData(points.filter(p => !kept.has(p)));
+        console.log(
+          `🧹 Track retention: ${result.stats.before} → ${result.stats.after} points ` +
+          `(${result.stats.expired} expired, ${result.stats.simplified} simplified, ${result.stats.trimmedForBudget} over budget)`
+        );
+      }
+      return result.stats;
+    } catch (error) {
+      console.error('❌ Track retention failed:', error);
+      return null;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Pure compaction step, separated from storage so it can be reasoned about on its own
+   */
+  compact(
+    points: GPSTrackingData[],
+    eventTimes: number[],
+    policy: TrackRetentionPolicy,
+    now: number
+  ): { points: GPSTrackingData[]; stats: RetentionResult } {
+    const stats: RetentionResult = { before: points.length, after: 0, expired: 0, simplified: 0, trimmedForBudget: 0 };
+    const windowMs = policy.protectWindowMinutes * 60 * 1000;
+    const sortedEvents = [...eventTimes].sort((a, b) => a - b);
+
+    const sorted = [...points].sort((a, b) => this.time(a) - this.time(b));
+    const isProtected = (p: GPSTrackingData) =>
+      this.insideClosedZone(p) || this.nearEvent(this.time(p), sortedEvents, windowMs);
+
+    // 1. Age limits
+    const ordinaryCutoff = now - policy.maxAgeDays * DAY_MS;
+    const protectedCutoff = now - policy.protectedMaxAgeDays * DAY_MS;
+    const alive = sorted.filter(p => {
+      const t = this.time(p);
+      return t >= ordinaryCutoff || (t >= protectedCutoff && isProtected(p));
+    });
+    stats.expired = sorted.length - alive.length;
+
+    // 2. Simplify everything older than the full-resolution window
+    const fullResolutionFrom = now - policy.fullResolutionHours * HOUR_MS;
+    const recent = alive.filter(p => this.time(p) >= fullResolutionFrom);
+    const old = alive.filter(p => this.time(p) < fullResolutionFrom);
+
+    let scale = 1;
+    let compacted = this.simplifyTrips(old, policy.toleranceMeters / 1000, isProtected);
+    stats.simplified = old.length - compacted.length;
+
+    // 3. Budget: simplify harder, then drop the oldest unprotected fixes
+    while (compacted.length + recent.length > policy.maxPoints && scale < MAX_TOLERANCE_SCALE) {
+      scale *= 2;
+      const coarser = this.simplifyTrips(old, (policy.toleranceMeters * scale) / 1000, isProtected);
+      stats.simplified = old.length - coarser.length;
+      compacted = coarser;
+    }
+
+    let overBudget = compacted.length + recent.length - policy.maxPoints;
+    if (overBudget > 0) {
+      compacted = compacted.filter(p => {
+        if (overBudget > 0 && !isProtected(p)) {
+          overBudget--;
+          stats.trimmedForBudget++;
+          return false;
+        }
+        return true;
+      });
+    }
+
+    const result = [...compacted, ...recent];
+    stats.after = result.length;
+    return { points: result, stats };
+  }
+
+  /**
+   * Simplify each trip separately so the gap between trips is never "shortcut"
+   */
+  private simplifyTrips(
+    points: GPSTrackingData[],
+    toleranceKm: number,
+    isProtected: (p: GPSTrackingData) => boolean
+  ): GPSTrackingData[] {
+    const result: GPSTrackingData[] = [];
+    let tripStart = 0;
+
+    for (let i = 1; i <= points.length; i++) {
+      const endOfTrip = i === points.length || this.time(points[i]) - this.time(points[i - 1]) > TRIP_GAP_MS;
+      if (!endOfTrip) continue;
+
+      const trip = points.slice(tripStart, i);
+      const keep = simplifyTrack(
+        trip.map(p => p.location),
+        toleranceKm,
+        index => isProtected(trip[index])
+      );
+      keep.forEach(index => result.push(trip[index]));
+      tripStart = i;
+    }
+
+    return result;
+  }
+
+  /**
+   * Times of boundary violations and SOS events whose surrounding track is evidence
+   */
+  private async getProtectedEventTimes(): Promise<number[]> {
+    const [violations, emergencies] = await Promise.all([
+      Storage.getViolations(),
+      emergencyService.getEmergencyLogs(),
+    ]);
+    return [
+      ...violations.map(v => new Date(v.timestamp).getTime()),
+      ...emergencies.map(e => e.timestamp),
+    ].filter(t => Number.isFinite(t));
+  }
+
+  /**
+   * Inside a zone closed to fishing when the fix was taken; fishing grounds are ordinary track
+   */
+  private insideClosedZone(point: GPSTrackingData): boolean {
+    if (!point.insideBoundary) return false;
+    const zone = zoneRegistry.getZone(point.insideBoundary);
+    // A zone no longer known (e.g. an import since removed) cannot be checked, so it is kept
+    return !zone || zoneRegistry.isRestricted(zone, new Date(this.time(point)));
+  }
+
+  private nearEvent(time: number, sortedEvents: number[], windowMs: number): boolean {
+    // Binary search for the first event not before the window start
+    let lo = 0;
+    let hi = sortedEvents.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (sortedEvents[mid] < time - windowMs) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo < sortedEvents.length && sortedEvents[lo] <= time + windowMs;
+  }
+
+  private time(point: GPSTrackingData): number {
+    return new Date(point.timestamp).getTime();
+  }
+}
+
+// Export singleton instance
+export const trackRetentionService = new TrackRetentionService();
+export default trackRetentionService;
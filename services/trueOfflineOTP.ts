@@ -1,4 +1,4 @@
-import AsyncStorage from '@react-native-async-storage/async-storage'
+import { SecureStorage } from './secureStorage'
 import { Platform } from 'react-native'
 import * as Crypto from 'expo-crypto'
 import Constants from 'expo-constants'
@@ -38,7 +38,7 @@ export class TrueOfflineOTPService {
         masterSeed
       }
 
-      await AsyncStorage.setItem(
+      await SecureStorage.setItem(
         `offline_otp_${phoneNumber}`,
         JSON.stringify(otpData)
       )
@@ -79,7 +79,7 @@ export class TrueOfflineOTPService {
 
       // Update last OTP time
       otpData.lastOTPTime = currentTime
-      await AsyncStorage.setItem(
+      await SecureStorage.setItem(
         `offline_otp_${phoneNumber}`,
         JSON.stringify(otpData)
       )
@@ -137,7 +137,7 @@ export class TrueOfflineOTPService {
             otpData.usedOTPs = otpData.usedOTPs.slice(-this.MAX_USED_OTPS)
           }
 
-          await AsyncStorage.setItem(
+          await SecureStorage.setItem(
             `offline_otp_${phoneNumber}`,
             JSON.stringify(otpData)
           )
@@ -255,7 +255,7 @@ export class TrueOfflineOTPService {
   // Private helper methods
   private async getOTPData(phoneNumber: string): Promise<LocalOTPData | null> {
     try {
-      const data = await AsyncStorage.getItem(`offline_otp_${phoneNumber}`)
+      const data = await SecureStorage.getItem(`offline_otp_${phoneNumber}`)
       return data ? JSON.parse(data) : null
     } catch (error) {
       console.error('Error getting OTP data:', error)
@@ -266,7 +266,7 @@ export class TrueOfflineOTPService {
   private async getDeviceId(): Promise<string> {
     try {
       // Try to get a consistent device identifier
-      let deviceId = await AsyncStorage.getItem('device_id_for_otp')
+      let deviceId = await SecureStorage.getSecret('device_id_for_otp')
       
       if (!deviceId) {
         // Generate a unique device ID based on available info
@@ -275,7 +275,7 @@ export class TrueOfflineOTPService {
         const randomSuffix = Math.random().toString(36).substring(2)
         
         deviceId = `${Platform.OS}-${sessionId}-${installTime}-${randomSuffix}`
-        await AsyncStorage.setItem('device_id_for_otp', deviceId)
+        await SecureStorage.setSecret('device_id_for_otp', deviceId)
       }
       
       return deviceId
@@ -355,7 +355,7 @@ export class TrueOfflineOTPService {
         otpData.usedOTPs = otpData.usedOTPs.slice(-this.MAX_USED_OTPS)
       }
 
-      await AsyncStorage.setItem(
+      await SecureStorage.setItem(
         `offline_otp_${phoneNumber}`,
         JSON.stringify(otpData)
       )
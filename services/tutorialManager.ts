@@ -1,6 +1,6 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
-interface TutorialState {
+export interface TutorialState {
   onboardingCompleted: boolean;
   featuresIntroduced: {
     mapModes: boolean;
@@ -80,6 +80,11 @@ class TutorialManager {
     await this.saveTutorialState();
   }
 
+  async restoreTutorialState(state: TutorialState): Promise<void> {
+    this.state = { ...this.state, ...state };
+    await this.saveTutorialState();
+  }
+
   getTutorialState(): TutorialState {
     return { ...this.state };
   }
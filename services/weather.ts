@@ -1,6 +1,7 @@
 import { CONFIG } from "../config"
 import type { Forecast } from "../types"
 import { Storage } from "./storage"
+import { raiseWeatherWarnings } from "./alerts"
 
 // Marine weather conditions critical for fishing
 export interface MarineWeather {
@@ -30,6 +31,9 @@ export interface ExtendedForecast {
   optimalFishingHours: string[]
 }
 
+// Only warning in the placeholder returned when live weather is unavailable
+export const OFFLINE_WEATHER_WARNING = "Using offline weather data"
+
 class WeatherService {
   private baseUrl = CONFIG.OPENWEATHER_BASE_URL
   private apiKey = CONFIG.OPENWEATHER_API_KEY
@@ -102,6 +106,7 @@ class WeatherService {
       }
       
       console.log('Weather data fetched successfully:', weather)
+      raiseWeatherWarnings(warnings, { lat, lon }).catch((error) => console.error("Failed to store weather warnings:", error))
       return weather
       
     } catch (error) {
@@ -198,7 +203,9 @@ class WeatherService {
     const weatherCode = weatherData.weather[0].id
     const visibility = weatherData.visibility ? weatherData.visibility / 1000 : 10
 
-    if (windSpeed > 30) {
+    if (windSpeed > 50) {
+      warnings.push("Dangerous wind warning - Do not venture out, boats at sea return to harbour")
+    } else if (windSpeed > 30) {
       warnings.push("High wind warning - Consider postponing trip")
     }
 
@@ -288,7 +295,7 @@ class WeatherService {
       humidity: 70,
       uvIndex: 6,
       fishingConditions: "Good",
-      warnings: ["Using offline weather data"]
+      warnings: [OFFLINE_WEATHER_WARNING]
     }
   }
 }
@@ -0,0 +1,246 @@
+/**
+ * 📥 Zone Import Service
+ * Closed areas and marks published by fishing cooperatives as GeoJSON or KML
+ *
+ * Features:
+ * - Validated import of polygons (zones) and points (waypoints)
+ * - Imported zones persist on the phone and join boundary monitoring through the zone registry
+ * - Re-importing a file updates the zones and marks it defined before
+ * - Restored with the rest of a fisherman's data from a backup bundle
+ * - Export of built-in and imported zones and waypoints as GeoJSON or KML, through the share sheet
+ */
+
+import * as DocumentPicker from 'expo-document-picker';
+import { File, Paths } from 'expo-file-system';
+import { Storage } from './storage';
+import { zoneRegistry, fromZone } from './zoneRegistry';
+import { ZONES, Zone } from '../data/zones';
+import { PREDEFINED_WAYPOINTS, Waypoint } from '../data/waypoints';
+import { GeoFormat, parseGeoFile, toGeoJSON, toKML } from '../utils/geoFormats';
+import { shareFile } from '../utils/shareFile';
+
+export interface ZoneImportSummary {
+  zonesAdded: number;
+  zonesUpdated: number;
+  waypointsAdded: number;
+  waypointsUpdated: number;
+  errors: string[]; // features that were skipped, with the reason
+}
+
+// Keeps imported ids apart from the built-in zones and marks
+const IMPORT_ID_PREFIX = 'imported_';
+
+const FILE_TYPES = ['application/vnd.google-earth.kml+xml', 'application/geo+json', 'application/json', '*/*'];
+
+class ZoneImportService {
+  private zones: Zone[] = [];
+  private waypoints: Waypoint[] = [];
+  private loading: Promise<void> | null = null;
+  private listeners: Array<(zones: Zone[], waypoints: Waypoint[]) => void> = [];
+
+  /**
+   * Load previously imported zones and hand them to the zone registry
+   */
+  initialize(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          this.zones = await Storage.getImportedZones();
+          this.waypoints = await Storage.getImportedWaypoints();
+          this.publish();
+          console.log(`✅ Loaded ${this.zones.length} imported zones and ${this.waypoints.length} waypoints`);
+        } catch (error) {
+          console.error('❌ Failed to load imported zones:', error);
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  getImportedZones(): Zone[] {
+    return [...this.zones];
+  }
+
+  getImportedWaypoints(): Waypoint[] {
+    return [...this.waypoints];
+  }
+
+  /**
+   * Built-in marks followed by imported ones, for waypoint pickers
+   */
+  getAllWaypoints(): Waypoint[] {
+    return [...PREDEFINED_WAYPOINTS, ...this.waypoints];
+  }
+
+  /**
+   * Import GeoJSON or KML text; the file name (if known) decides the format
+   */
+  async importText(content: string, fileName?: string): Promise<ZoneImportSummary> {
+    await this.initialize();
+    const result = parseGeoFile(content, fileName);
+    const summary: ZoneImportSummary = {
+      zonesAdded: 0,
+      zonesUpdated: 0,
+      waypointsAdded: 0,
+      waypointsUpdated: 0,
+      errors: result.errors,
+    };
+
+    const zones = this.upsert(
+      this.zones,
+      result.zones.map(zone => ({ ...zone, id: this.importId(zone.id) }))
+    );
+    summary.zonesAdded = zones.added;
+    summary.zonesUpdated = zones.updated;
+
+    const waypoints = this.upsert(
+      this.waypoints,
+      result.waypoints.map(waypoint => ({ ...waypoint, id: this.importId(waypoint.id) }))
+    );
+    summary.waypointsAdded = waypoints.added;
+    summary.waypointsUpdated = waypoints.updated;
+
+    if (zones.added + zones.updated > 0) {
+      this.zones = zones.items;
+      await Storage.saveImportedZones(this.zones);
+    }
+    if (waypoints.added + waypoints.updated > 0) {
+      this.waypoints = waypoints.items;
+      await Storage.saveImportedWaypoints(this.waypoints);
+    }
+    this.publish();
+
+    console.log(
+      `📥 Imported ${result.zones.length} zones and ${result.waypoints.length} waypoints` +
+        (result.errors.length ? ` (${result.errors.length} skipped)` : '')
+    );
+    return summary;
+  }
+
+  async importFromFile(uri: string, fileName?: string): Promise<ZoneImportSummary> {
+    const text = await new File(uri).text();
+    return this.importText(text, fileName ?? uri.split('/').pop());
+  }
+
+  /**
+   * Let the user choose a .kml / .geojson file; null when they cancel
+   */
+  async pickAndImport(): Promise<ZoneImportSummary | null> {
+    const picked = await DocumentPicker.getDocumentAsync({ type: FILE_TYPES, copyToCacheDirectory: true });
+    if (picked.canceled || !picked.assets?.length) return null;
+    const [asset] = picked.assets;
+    return this.importFromFile(asset.uri, asset.name);
+  }
+
+  async removeZone(id: string): Promise<void> {
+    await this.initialize();
+    this.zones = this.zones.filter(zone => zone.id !== id);
+    await Storage.saveImportedZones(this.zones);
+    this.publish();
+  }
+
+  async removeWaypoint(id: string): Promise<void> {
+    await this.initialize();
+    this.waypoints = this.waypoints.filter(waypoint => waypoint.id !== id);
+    await Storage.saveImportedWaypoints(this.waypoints);
+    this.publish();
+  }
+
+  async clearImports(): Promise<void> {
+    await this.initialize();
+    this.zones = [];
+    this.waypoints = [];
+    await Storage.saveImportedZones([]);
+    await Storage.saveImportedWaypoints([]);
+    this.publish();
+  }
+
+  /**
+   * Put back zones and waypoints from a backup bundle, either replacing or merging by id
+   */
+  async restoreImports(zones: Zone[], waypoints: Waypoint[], mode: 'merge' | 'replace'): Promise<void> {
+    await this.initialize();
+    if (mode === 'replace') {
+      this.zones = [...zones];
+      this.waypoints = [...waypoints];
+    } else {
+      const zoneIds = new Set(this.zones.map(zone => zone.id));
+      const waypointIds = new Set(this.waypoints.map(waypoint => waypoint.id));
+      this.zones = [...this.zones, ...zones.filter(zone => !zoneIds.has(zone.id))];
+      this.waypoints = [...this.waypoints, ...waypoints.filter(waypoint => !waypointIds.has(waypoint.id))];
+    }
+    await Storage.saveImportedZones(this.zones);
+    await Storage.saveImportedWaypoints(this.waypoints);
+    this.publish();
+  }
+
+  /**
+   * Serialize zones and waypoints; built-in ones are included unless importedOnly is set
+   */
+  exportText(format: GeoFormat, options: { importedOnly?: boolean } = {}): string {
+    const zones = options.importedOnly ? this.zones : [...ZONES, ...this.zones];
+    const waypoints = options.importedOnly ? this.waypoints : this.getAllWaypoints();
+    return format === 'kml' ? toKML(zones, waypoints) : toGeoJSON(zones, waypoints);
+  }
+
+  /**
+   * Write an export to the app's document directory and offer it to the share sheet, e.g. to send to the cooperative
+   */
+  async exportToFile(
+    format: GeoFormat,
+    options: { importedOnly?: boolean } = {}
+  ): Promise<{ uri: string; shared: boolean }> {
+    await this.initialize();
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const file = new File(Paths.document, `seasure-zones-${stamp}.${format === 'kml' ? 'kml' : 'geojson'}`);
+    file.create({ overwrite: true });
+    file.write(this.exportText(format, options));
+    console.log(`💾 Zones exported to ${file.uri}`);
+
+    const shared = await shareFile(
+      file.uri,
+      format === 'kml'
+        ? { mimeType: 'application/vnd.google-earth.kml+xml', title: 'Share zones', uti: 'com.google.earth.kml' }
+        : { mimeType: 'application/geo+json', title: 'Share zones', uti: 'public.json' }
+    );
+    return { uri: file.uri, shared };
+  }
+
+  addListener(callback: (zones: Zone[], waypoints: Waypoint[]) => void): () => void {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter(listener => listener !== callback);
+    };
+  }
+
+  private importId(id: string): string {
+    return id.startsWith(IMPORT_ID_PREFIX) ? id : `${IMPORT_ID_PREFIX}${id}`;
+  }
+
+  // Same id replaces the earlier import of that feature
+  private upsert<T extends { id: string }>(existing: T[], incoming: T[]) {
+    const items = [...existing];
+    let added = 0;
+    let updated = 0;
+    for (const item of incoming) {
+      const index = items.findIndex(other => other.id === item.id);
+      if (index >= 0) {
+        items[index] = item;
+        updated++;
+      } else {
+        items.push(item);
+        added++;
+      }
+    }
+    return { items, added, updated };
+  }
+
+  private publish(): void {
+    zoneRegistry.registerSource('imported', this.zones.map(fromZone));
+    this.listeners.forEach(listener => listener(this.getImportedZones(), this.getImportedWaypoints()));
+  }
+}
+
+// Export singleton instance
+export const zoneImportService = new ZoneImportService();
+export default zoneImportService;
@@ -0,0 +1,385 @@
+/**
+ * 🗺️ Zone Registry
+ * One canonical list of every zone the app knows about
+ *
+ * Features:
+ * - Canonical zone model with shared restriction rules
+ * - Adapters for ZONES, BoundaryZone, MaritimeBoundary and ProductionMaritimeZone
+ * - Queries: zones containing a point, zones near a point, zones by kind
+ * - Extra sources can be registered at runtime (e.g. imported files)
+ */
+
+import { ZONES, Zone, getSeasonalClosures } from '../data/zones';
+import { PRODUCTION_MARITIME_ZONES, ProductionMaritimeZone } from '../data/productionMaritimeZones';
+import { BOUNDARY_ALERT_ZONES, MARITIME_BOUNDARIES } from '../data/boundaryZones';
+import { containsPoint, nearestEdgePoint, Polygon, signedDistanceToPolygonKm, toLatLon } from '../utils/geodesy';
+import { bboxAround, pointBBox, ringBBox, SpatialIndex } from '../utils/spatialIndex';
+import type { BoundaryZone } from './boundaryAlertSystem';
+import type { MaritimeBoundary } from './maritimeBoundary';
+
+export type ZoneKind =
+  | 'fishing_ground'
+  | 'restricted'
+  | 'military'
+  | 'protected'
+  | 'no_fishing'
+  | 'seasonal_ban'
+  | 'international_boundary'
+  | 'territorial_waters'
+  | 'contiguous_zone'
+  | 'eez'
+  | 'port_limits';
+
+export type ZoneSource = 'zones' | 'boundary_alerts' | 'maritime_boundaries' | 'production' | 'imported';
+
+export type ZoneSeverity = 'info' | 'warning' | 'critical' | 'emergency';
+
+// Keeps alerts from flickering when a noisy position sits on a threshold
+export interface ZoneHysteresis {
+  enterMeters: number; // an alert level is raised only this far past its threshold
+  exitMeters: number; // and dropped only this far back from it
+  enterDwellSeconds: number; // the new level must hold this long before it alerts
+  exitDwellSeconds: number; // and this long before an alert clears
+}
+
+export interface RegistryZone {
+  id: string; // unique across all sources
+  source: ZoneSource;
+  name: string;
+  kind: ZoneKind;
+  polygon: Polygon;
+  rules: {
+    fishingAllowed: boolean; // outside any closure
+    permitRequired: boolean;
+    seasonalClosures: { start: string; end: string; reason?: string }[]; // annual, "MM-DD"
+    bannedHours: { start: string; end: string }[]; // "HH:MM", may wrap past midnight
+    restrictedGear: string[];
+    restrictedSpecies: string[];
+  };
+  warningDistanceKm: number; // start approach warnings at this distance
+  criticalDistanceKm: number;
+  severity: ZoneSeverity; // severity of being inside while fishing is not allowed
+  hysteresis?: ZoneHysteresis; // defaults by severity in the boundary alert system
+  description?: string;
+  species?: string[];
+  depth?: string;
+}
+
+export interface ZoneQuery {
+  kinds?: ZoneKind[];
+  sources?: ZoneSource[];
+  restrictedAt?: Date; // only zones where fishing is not allowed at this time
+}
+
+// Defaults for sources that do not say how far out to warn
+const KIND_DEFAULTS: Record<ZoneKind, { warningKm: number; criticalKm: number; severity: ZoneSeverity }> = {
+  fishing_ground: { warningKm: 0, criticalKm: 0, severity: 'info' },
+  restricted: { warningKm: 3, criticalKm: 1, severity: 'critical' },
+  military: { warningKm: 5, criticalKm: 1, severity: 'emergency' },
+  protected: { warningKm: 2, criticalKm: 0.5, severity: 'critical' },
+  no_fishing: { warningKm: 1.5, criticalKm: 0.5, severity: 'warning' },
+  seasonal_ban: { warningKm: 5, criticalKm: 1, severity: 'warning' },
+  international_boundary: { warningKm: 10, criticalKm: 2, severity: 'emergency' },
+  territorial_waters: { warningKm: 0, criticalKm: 0, severity: 'info' },
+  contiguous_zone: { warningKm: 0, criticalKm: 0, severity: 'info' },
+  eez: { warningKm: 0, criticalKm: 0, severity: 'info' },
+  port_limits: { warningKm: 1, criticalKm: 0.2, severity: 'warning' },
+};
+
+const NO_RULES: RegistryZone['rules'] = {
+  fishingAllowed: true,
+  permitRequired: false,
+  seasonalClosures: [],
+  bannedHours: [],
+  restrictedGear: [],
+  restrictedSpecies: [],
+};
+
+// Dated ranges ("2024-06-01") are treated as annual closures
+function toMonthDay(date: string): string {
+  return date.length > 5 ? date.slice(5, 10) : date;
+}
+
+function withinRange(value: string, start: string, end: string): boolean {
+  return start <= end ? value >= start && value <= end : value >= start || value <= end;
+}
+
+// ---- Adapters ----
+
+export function fromZone(zone: Zone): RegistryZone {
+  const kind: ZoneKind = zone.kind === 'safe' ? 'fishing_ground' : zone.id.includes('boundary') ? 'international_boundary' : 'restricted';
+  const defaults = KIND_DEFAULTS[kind];
+  return {
+    id: zone.id,
+    source: 'zones',
+    name: zone.name,
+    kind,
+    polygon: zone.holes?.length ? { outer: zone.coordinates, holes: zone.holes } : { outer: zone.coordinates },
+    rules: {
+      ...NO_RULES,
+      fishingAllowed: zone.kind === 'safe' && zone.season !== 'banned',
+      permitRequired: !!zone.restrictions && /licen[cs]e|permit/i.test(zone.restrictions),
+      seasonalClosures: getSeasonalClosures(zone),
+    },
+    warningDistanceKm: defaults.warningKm,
+    criticalDistanceKm: defaults.criticalKm,
+    severity: zone.season === 'banned' && kind === 'fishing_ground' ? 'warning' : defaults.severity,
+    description: zone.description ?? zone.restrictions,
+    species: zone.fishSpecies,
+    depth: zone.depth,
+  };
+}
+
+const BOUNDARY_ZONE_KINDS: Record<BoundaryZone['type'], ZoneKind> = {
+  international: 'international_boundary',
+  protected: 'protected',
+  restricted: 'restricted',
+  no_fishing: 'no_fishing',
+  military: 'military',
+};
+
+export function fromBoundaryZone(zone: BoundaryZone): RegistryZone {
+  const kind = BOUNDARY_ZONE_KINDS[zone.type];
+  return {
+    id: zone.id,
+    source: 'boundary_alerts',
+    name: zone.name,
+    kind,
+    polygon: { outer: toLatLon(zone.coordinates), holes: zone.holes?.map(toLatLon) },
+    rules: { ...NO_RULES, fishingAllowed: false },
+    warningDistanceKm: zone.alertDistance / 1000,
+    criticalDistanceKm: Math.min(KIND_DEFAULTS[kind].criticalKm, zone.alertDistance / 1000),
+    severity: zone.severity,
+    description: zone.description,
+  };
+}
+
+const MARITIME_BOUNDARY_KINDS: Record<MaritimeBoundary['type'], ZoneKind> = {
+  territorial_waters: 'territorial_waters',
+  eez: 'eez',
+  international_boundary: 'international_boundary',
+  restricted_military: 'military',
+  marine_protected: 'protected',
+  seasonal_ban: 'seasonal_ban',
+};
+
+export function fromMaritimeBoundary(boundary: MaritimeBoundary): RegistryZone {
+  const kind = MARITIME_BOUNDARY_KINDS[boundary.type];
+  const { restrictions } = boundary;
+  return {
+    id: boundary.id,
+    source: 'maritime_boundaries',
+    name: boundary.name,
+    kind,
+    polygon: { outer: boundary.coordinates, holes: boundary.holes },
+    rules: {
+      fishingAllowed: restrictions.fishingAllowed,
+      permitRequired: restrictions.requiresPermit,
+      seasonalClosures: restrictions.seasonalRestrictions.banned.map(ban => ({
+        start: toMonthDay(ban.start),
+        end: toMonthDay(ban.end),
+      })),
+      bannedHours: restrictions.timeRestrictions.bannedHours,
+      restrictedGear: restrictions.gearRestrictions,
+      restrictedSpecies: restrictions.speciesRestrictions,
+    },
+    warningDistanceKm: boundary.warningDistance,
+    criticalDistanceKm: boundary.criticalDistance,
+    severity: KIND_DEFAULTS[kind].severity,
+  };
+}
+
+const PRODUCTION_ZONE_KINDS: Record<ProductionMaritimeZone['zoneType'], ZoneKind> = {
+  territorial_waters: 'territorial_waters',
+  contiguous_zone: 'contiguous_zone',
+  eez: 'eez',
+  fishing_zone: 'fishing_ground',
+  protected_area: 'protected',
+  port_limits: 'port_limits',
+};
+
+export function fromProductionZone(zone: ProductionMaritimeZone): RegistryZone {
+  const kind = PRODUCTION_ZONE_KINDS[zone.zoneType];
+  const defaults = KIND_DEFAULTS[kind];
+  // GeoJSON rings are [lon, lat]; the first ring is the outline, the rest are holes
+  const [outer = [], ...holes] = zone.coordinates.coordinates.map(ring =>
+    ring.map(([lon, lat]) => ({ lat, lon }))
+  );
+  const { regulations } = zone;
+  return {
+    id: zone.zoneId,
+    source: 'production',
+    name: zone.officialName,
+    kind,
+    polygon: holes.length ? { outer, holes } : { outer },
+    rules: {
+      fishingAllowed: regulations.fishingAllowed,
+      permitRequired: regulations.permitRequired,
+      seasonalClosures: regulations.seasonalClosures.map(closure => ({
+        start: toMonthDay(closure.startDate),
+        end: toMonthDay(closure.endDate),
+        reason: closure.reason,
+      })),
+      bannedHours: [],
+      restrictedGear: regulations.restrictedGears,
+      restrictedSpecies: regulations.restrictedSpecies,
+    },
+    warningDistanceKm: defaults.warningKm,
+    criticalDistanceKm: defaults.criticalKm,
+    severity: defaults.severity,
+    description: zone.environmentalData.protectedStatus ?? undefined,
+    species: zone.economicData.primaryFisheries,
+  };
+}
+
+class ZoneRegistry {
+  private sources: Map<ZoneSource, RegistryZone[]> = new Map();
+  private byId: Map<string, RegistryZone> = new Map();
+  private aliases: Map<string, string> = new Map(); // ids of duplicates folded into another zone
+  private index!: SpatialIndex<RegistryZone>; // rebuilt by reindex()
+  private listeners: Array<(zones: RegistryZone[]) => void> = [];
+
+  constructor() {
+    // Sources with the most detailed rules first; they win when two sources share a polygon
+    this.sources.set('maritime_boundaries', MARITIME_BOUNDARIES.map(fromMaritimeBoundary));
+    this.sources.set('production', PRODUCTION_MARITIME_ZONES.map(fromProductionZone));
+    this.sources.set('boundary_alerts', BOUNDARY_ALERT_ZONES.map(fromBoundaryZone));
+    this.sources.set('zones', ZONES.map(fromZone));
+    this.reindex();
+  }
+
+  /**
+   * Replace every zone from one source
+   */
+  registerSource(source: ZoneSource, zones: RegistryZone[]): void {
+    this.sources.set(source, zones.map(zone => ({ ...zone, source })));
+    this.reindex();
+    this.notifyListeners();
+  }
+
+  getZones(query: ZoneQuery = {}): RegistryZone[] {
+    return [...this.byId.values()].filter(zone => this.matches(zone, query));
+  }
+
+  getZone(id: string): RegistryZone | undefined {
+    return this.byId.get(id) ?? this.byId.get(this.aliases.get(id) ?? '');
+  }
+
+  getZonesByKind(...kinds: ZoneKind[]): RegistryZone[] {
+    return this.getZones({ kinds });
+  }
+
+  /**
+   * Zones whose polygon contains the point (holes excluded)
+   */
+  getZonesContaining(point: { lat: number; lon: number }, query: ZoneQuery = {}): RegistryZone[] {
+    return this.index
+      .search(pointBBox(point))
+      .filter(zone => this.matches(zone, query) && containsPoint(zone.polygon, point));
+  }
+
+  /**
+   * Zones within radiusKm of the point, nearest first; distance is negative inside a zone
+   */
+  getZonesNear(
+    point: { lat: number; lon: number },
+    radiusKm: number,
+    query: ZoneQuery = {}
+  ): { zone: RegistryZone; distanceKm: number }[] {
+    return this.index
+      .search(bboxAround(point, Math.max(0, radiusKm)))
+      .filter(zone => this.matches(zone, query))
+      .map(zone => ({ zone, distanceKm: signedDistanceToPolygonKm(point, zone.polygon) }))
+      .filter(({ distanceKm }) => distanceKm <= radiusKm)
+      .sort((a, b) => a.distanceKm - b.distanceKm);
+  }
+
+  /**
+   * The k closest zones (0 km when inside), however far away they are
+   */
+  getNearestZones(
+    point: { lat: number; lon: number },
+    k: number = 1,
+    query: ZoneQuery = {}
+  ): { zone: RegistryZone; distanceKm: number }[] {
+    return this.index
+      .nearest(point, k, {
+        filter: zone => this.matches(zone, query),
+        distanceKm: (zone, p) => Math.max(0, signedDistanceToPolygonKm(p, zone.polygon)),
+      })
+      .map(({ item, distanceKm }) => ({ zone: item, distanceKm }));
+  }
+
+  /**
+   * Closest point on the zone edge, e.g. for exit directions
+   */
+  getNearestEdgePoint(zone: RegistryZone, point: { lat: number; lon: number }) {
+    return nearestEdgePoint(point, zone.polygon);
+  }
+
+  /**
+   * The single answer to "can I fish here right now?" used across the app
+   */
+  isFishingAllowed(zone: RegistryZone, at: Date = new Date()): boolean {
+    if (!zone.rules.fishingAllowed) return false;
+
+    const monthDay = `${String(at.getMonth() + 1).padStart(2, '0')}-${String(at.getDate()).padStart(2, '0')}`;
+    if (zone.rules.seasonalClosures.some(c => withinRange(monthDay, c.start, c.end))) return false;
+
+    const time = `${String(at.getHours()).padStart(2, '0')}:${String(at.getMinutes()).padStart(2, '0')}`;
+    return !zone.rules.bannedHours.some(h => withinRange(time, h.start, h.end));
+  }
+
+  isRestricted(zone: RegistryZone, at: Date = new Date()): boolean {
+    return !this.isFishingAllowed(zone, at);
+  }
+
+  addListener(callback: (zones: RegistryZone[]) => void): () => void {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter(listener => listener !== callback);
+    };
+  }
+
+  private matches(zone: RegistryZone, query: ZoneQuery): boolean {
+    if (query.kinds && !query.kinds.includes(zone.kind)) return false;
+    if (query.sources && !query.sources.includes(zone.source)) return false;
+    if (query.restrictedAt && this.isFishingAllowed(zone, query.restrictedAt)) return false;
+    return true;
+  }
+
+  private reindex(): void {
+    this.byId.clear();
+    this.aliases.clear();
+    const byShape = new Map<string, string>();
+
+    for (const zones of this.sources.values()) {
+      for (const zone of zones) {
+        if (this.byId.has(zone.id)) {
+          console.warn(`⚠️ Duplicate zone id ${zone.id} from ${zone.source}; keeping the first`);
+          continue;
+        }
+        // The same area defined by two sources is one zone, otherwise it would alert twice
+        const shape = zone.polygon.outer.map(p => `${p.lat.toFixed(5)},${p.lon.toFixed(5)}`).join(';');
+        const existing = byShape.get(shape);
+        if (existing) {
+          this.aliases.set(zone.id, existing);
+          continue;
+        }
+        byShape.set(shape, zone.id);
+        this.byId.set(zone.id, zone);
+      }
+    }
+
+    this.index = SpatialIndex.fromBoxes([...this.byId.values()], zone => ringBBox(zone.polygon.outer));
+  }
+
+  private notifyListeners(): void {
+    const zones = this.getZones();
+    this.listeners.forEach(listener => listener(zones));
+  }
+}
+
+// Export singleton instance
+export const zoneRegistry = new ZoneRegistry();
+export default zoneRegistry;
@@ -1,3 +1,5 @@
+export type SyncStatus = "pending" | "synced" | "failed"
+
 export type CatchLog = {
   id: string
   species: string
@@ -6,7 +8,10 @@ export type CatchLog = {
   notes?: string
   timestamp: number // epoch ms
   location?: { lat: number; lon: number }
-  syncStatus: "pending" | "synced" | "failed"
+  syncStatus: SyncStatus
+  updatedAt?: number // epoch ms of the last local edit
+  lastSyncedAt?: number // epoch ms of the remote version this record was last reconciled with
+  syncError?: string
 }
 
 export type TripPlan = {
@@ -15,7 +20,10 @@ export type TripPlan = {
   waypoints: { lat: number; lon: number; label?: string }[]
   optimizedOrder?: number[] // indexes referencing waypoints
   createdAt: number
-  syncStatus: "pending" | "synced" | "failed"
+  syncStatus: SyncStatus
+  updatedAt?: number
+  lastSyncedAt?: number
+  syncError?: string
 }
 
 export type Forecast = {
@@ -27,14 +35,87 @@ export type Forecast = {
   source: "cache" | "network"
 }
 
+export type AlertType = "weather" | "boundary" | "emergency" | "fishing" | "regulatory" | "seasonal_ban" | "demo"
+export type AlertPriority = "low" | "medium" | "high" | "critical"
+// Where the alert came from: a judges' demo, a live feed or sensor, or the boundary alert system
+export type AlertSource = "demo" | "real" | "boundary_system"
+
+// Steps taken, in order, while a danger alert goes unacknowledged
+export type AlertEscalationStep = "loud" | "vibration" | "contact"
+
+export type AlertEscalation = {
+  step: AlertEscalationStep
+  at: number // epoch ms
+  position?: { latitude: number; longitude: number } // boat position when the step was taken
+  contact?: { name: string; phoneNumber: string; channel: "sms" | "prompt" } // "prompt": the skipper was asked to call
+  error?: string // why the step could not be completed
+}
+
+// An earlier version of an alert thread, kept when an update changed its title or priority
+export type AlertRevision = {
+  title: string
+  message: string
+  priority: AlertPriority
+  timestamp: number // epoch ms
+}
+
+// Where an alert applies; a zone is looked up in the zone registry when the alert is checked
+export type AlertArea =
+  | { kind: "polygon"; coordinates: { lat: number; lon: number }[]; label?: string }
+  | { kind: "circle"; center: { lat: number; lon: number }; radiusKm: number; label?: string }
+  | { kind: "zone"; zoneId: string; label?: string }
+
+// Every alert the app raises, kept in one repository (services/alertStorage)
 export type AlertItem = {
   id: string
-  type: "weather" | "seasonal-ban" | "boundary"
+  type: AlertType
   title: string
   message: string
-  severity: "info" | "warn" | "danger"
+  priority: AlertPriority
   timestamp: number
-  read: boolean
+  location?: { latitude: number; longitude: number }
+  data?: any
+  source: AlertSource
+  isRead: boolean
+  dismissedAt?: number
+  escalations?: AlertEscalation[]
+  areas?: AlertArea[] // shown only while the boat or its active trip route is in one of them
+  validFrom?: number // epoch ms
+  expiresAt?: number // epoch ms; hidden and no longer escalated from then on
+  active?: boolean // in force and relevant at the last check; turning true again re-activates the alert
+  activatedAt?: number // epoch ms of the last time it turned active
+  dedupKey?: string // an alert raised again under the same key updates this one instead of adding a row
+  history?: AlertRevision[] // earlier versions, oldest first
+  closedAt?: number // epoch ms the condition ended, e.g. the boat left the zone; its key then starts a new thread
+}
+
+export type RuleComparison = "above" | "below"
+
+// One test in a user alert rule
+export type RuleCondition =
+  | { kind: "weather"; metric: "windKmh" | "waveM" | "visibilityKm" | "pressureHpa"; op: RuleComparison; value: number }
+  | { kind: "tide"; event: "high" | "low"; withinHours: number }
+  | { kind: "zone_entry"; zoneId?: string } // any restricted zone when there is no id
+  | { kind: "price"; species: string; op: RuleComparison; value: number } // INR per kg at the nearest market
+  | { kind: "date"; daysBefore: number; date?: string } // "MM-DD"; the next seasonal ban start when absent
+
+// A personal alert threshold, e.g. "wind above 25 km/h or waves above 2 m at my spot"
+export type AlertRule = {
+  id: string
+  name: string
+  enabled: boolean
+  match: "any" | "all"
+  conditions: RuleCondition[]
+  spot?: { lat: number; lon: number; label: string } // weather, tides and prices are checked here; otherwise at the boat
+  priority: AlertPriority
+  createdAt: number
+}
+
+// Outcome of a rule's last check; a rule alerts when it starts to match, not on every check
+export type AlertRuleState = {
+  ruleId: string
+  matched: boolean
+  lastFiredAt: number | null
 }
 
 export type ZonePolygon = {
@@ -44,7 +125,65 @@ export type ZonePolygon = {
   coordinates: { lat: number; lon: number }[] // closed polygon assumed
 }
 
+// A position fix from any location provider: the phone's GPS or a replayed track
+export type LocationFix = {
+  latitude: number
+  longitude: number
+  accuracy: number | null // meters
+  speed: number | null // m/s over ground
+  heading: number | null // degrees true
+  timestamp: number // epoch ms
+}
+
 export type AppSettings = {
   lowPowerMode: boolean
-  gpsPollSeconds: number // e.g., 30-180
+  gpsPollSeconds: number // e.g., 30-180; with adaptive polling, the interval far from any zone
+  adaptivePolling: boolean // poll faster near boundaries and at speed, slower on low battery
+  tripHours: number // battery budget: the phone should last this long on one charge
+}
+
+// Whether boundary monitoring was left running, so it can be resumed after the app restarts
+export type MonitoringState = {
+  active: boolean
+  startedAt: number | null // epoch ms
+  pollSeconds: number // interval the background location task was started with
+}
+
+export type SyncEntityKind = "catch" | "trip"
+
+export type SyncQueueEntry = {
+  kind: SyncEntityKind
+  recordId: string
+  op: "upsert" | "delete"
+  queuedAt: number
+  attempts: number
+  nextAttemptAt: number
+  lastError?: string
+}
+
+export type TrackRetentionPolicy = {
+  fullResolutionHours: number // recent fixes are never simplified
+  maxAgeDays: number // ordinary fixes older than this are deleted
+  protectedMaxAgeDays: number // fixes near violations / SOS events are kept this long
+  maxPoints: number // storage budget for the whole track history
+  toleranceMeters: number // Douglas–Peucker tolerance for old tracks
+  protectWindowMinutes: number // full resolution kept this long either side of an event
+}
+
+// Escalation stages near an International Maritime Boundary Line, least to most urgent
+export type ImblStage = "warning" | "siren" | "contacts"
+
+export type ImblEvidence = {
+  id: string
+  timestamp: number // epoch ms
+  event: "escalated" | "de-escalated" | "cleared" | "update"
+  lineId: string
+  lineName: string
+  stage: ImblStage | null // stage after this event; null once back in safe water
+  previousStage: ImblStage | null
+  position: { lat: number; lon: number; accuracyMeters: number | null } // filtered position the stage was decided on
+  distanceKm: number // to the line
+  onForeignSide: boolean
+  bearingToIndiaDeg: number
+  track: { lat: number; lon: number; timestamp: number; accuracyMeters: number | null }[] // raw fixes, oldest first
 }
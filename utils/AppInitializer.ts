@@ -6,6 +6,16 @@
 import { notificationService } from '../services/notificationService';
 import { boundaryAlertSystem } from '../services/boundaryAlertSystem';
 import { modeConfig } from '../services/modeConfig';
+import { syncEngine } from '../services/syncEngine';
+import { runStorageMigrations } from '../services/storageMigrations';
+import { trackRetentionService } from '../services/trackRetention';
+import { zoneImportService } from '../services/zoneImportService';
+import { backgroundMonitoring } from '../services/backgroundMonitoring';
+import { raiseComplianceAlerts, raiseSeasonalBanAlerts } from '../services/alerts';
+import { alertRulesEngine } from '../services/alertRules';
+import { alertEscalation } from '../services/alertEscalation';
+import { capAlertService } from '../services/capAlerts';
+import { Storage } from '../services/storage';
 
 export class AppInitializer {
   private static initialized = false;
@@ -22,7 +32,14 @@ export class AppInitializer {
     try {
       console.log('🚀 Initializing SeaSure services...');
 
-      // Initialize mode configuration first
+      // Upgrade stored data before any service reads it
+      const migration = await runStorageMigrations();
+      console.log(`✅ Storage schema at v${migration.toVersion} (applied: ${migration.applied.join(', ') || 'none'})`);
+
+      // Compact old GPS tracks in the background; it never blocks startup
+      trackRetentionService.applyRetention().catch(console.error);
+
+      // Initialize mode configuration before the services that depend on it
       await modeConfig.initialize();
       console.log(`✅ Mode configuration initialized: ${modeConfig.getCurrentMode()}`);
 
@@ -30,10 +47,35 @@ export class AppInitializer {
       await notificationService.initialize();
       console.log('✅ Notification service initialized');
 
+      // Danger alerts nobody acknowledges get louder, then reach the primary emergency contact
+      alertEscalation.start().catch(console.error);
+
+      // Seasonal bans in force now, and compliance notices near the last known position
+      raiseSeasonalBanAlerts().catch(console.error);
+      Storage.queryTrackingData({ limit: 1 })
+        .then(([last]) => last && raiseComplianceAlerts(last.location))
+        .catch(console.error);
+
+      // The fisherman's own alert rules; fetching weather and prices must not hold up startup
+      alertRulesEngine.start().catch(console.error);
+
+      // Official IMD / INCOIS / Coast Guard warnings for the boat's waters and planned route
+      capAlertService.start().catch(console.error);
+
+      // Imported cooperative zones must be in the registry before monitoring starts
+      await zoneImportService.initialize();
+
       // Initialize boundary alert system
       await boundaryAlertSystem.initialize();
       console.log('✅ Boundary alert system initialized');
 
+      // Monitoring left running when the app was closed carries on
+      if (await backgroundMonitoring.resume()) console.log('✅ Boundary monitoring resumed');
+
+      // Start pushing offline catch logs and trips when connectivity allows
+      syncEngine.start();
+      console.log('✅ Sync engine started');
+
       this.initialized = true;
       console.log('🎉 SeaSure fully initialized and ready for demo!');
 
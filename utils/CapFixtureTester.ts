@@ -0,0 +1,185 @@
+/**
+ * 📡 CAP Fixture Check
+ * Runs the sample CAP documents in data/cap through the parser and the ingest path, and checks what they leave
+ *
+ * Features:
+ * - What each fixture parses to: warnings kept, message type, areas and the errors it reports
+ * - An alert, a same-severity update after the warning was dismissed on board, then its cancellation
+ * - Fixture times are moved up to the present, so expiry is judged as for a live feed
+ * - The alert store is put back as it was afterwards
+ */
+
+import { Asset } from 'expo-asset';
+import { File } from 'expo-file-system';
+import { alertStorage } from '../services/alertStorage';
+import { capAlertService } from '../services/capAlerts';
+import { parseCAP } from './cap';
+
+const FIXTURES = {
+  depressionAlert: require('../data/cap/imd_depression_alert.xml'),
+  depressionUpdate: require('../data/cap/imd_depression_update.xml'),
+  depressionCancel: require('../data/cap/imd_depression_cancel.xml'),
+  highWave: require('../data/cap/incois_high_wave.xml'),
+  tsunamiExercise: require('../data/cap/incois_tsunami_exercise.xml')
+};
+
+type FixtureName = keyof typeof FIXTURES;
+
+interface ParseExpectation {
+  fixture: FixtureName;
+  warnings: number;
+  msgType: string;
+  status: string;
+  areas: string[]; // area descriptions of the first warning
+  errors: number;
+}
+
+export interface CapFixtureResult {
+  id: string;
+  passed: boolean;
+  failures: string[];
+}
+
+const PARSE_CASES: ParseExpectation[] = [
+  // The Hindi info block is dropped; only the English one is shown
+  { fixture: 'depressionAlert', warnings: 1, msgType: 'Alert', status: 'Actual', areas: ['Sea area off Mumbai and north Konkan coast'], errors: 0 },
+  { fixture: 'depressionUpdate', warnings: 1, msgType: 'Update', status: 'Actual', areas: ['Sea area off Konkan and Goa coast'], errors: 0 },
+  { fixture: 'depressionCancel', warnings: 1, msgType: 'Cancel', status: 'Actual', areas: [], errors: 0 },
+  // The Lakshadweep area has a two-point polygon and nothing else to target
+  { fixture: 'highWave', warnings: 1, msgType: 'Alert', status: 'Actual', areas: ['Kerala coast, Kollam to Kozhikode'], errors: 2 },
+  { fixture: 'tsunamiExercise', warnings: 1, msgType: 'Alert', status: 'Exercise', areas: ['Andaman and Nicobar Islands'], errors: 0 }
+];
+
+// The cancellation is sent at this fixture time; the ingest check moves it to the present
+const FIXTURE_NOW = Date.parse('2025-06-11T00:00:00Z');
+const ISO_TIME = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})/g;
+
+const DEPRESSION_THREAD = 'cap_imd.gov.in,IMD-MUM-2025-0412';
+const DEPRESSION_UPDATE = 'imd.gov.in,IMD-MUM-2025-0415';
+
+async function loadFixture(name: FixtureName): Promise<string> {
+  const asset = await Asset.fromModule(FIXTURES[name]).downloadAsync();
+  return new File(asset.localUri ?? asset.uri).text();
+}
+
+// Every time in the document, references included, moved by the same offset
+function shiftTimes(xml: string, offsetMs: number): string {
+  return xml.replace(ISO_TIME, time => new Date(Date.parse(time) + offsetMs).toISOString());
+}
+
+function report(result: CapFixtureResult): CapFixtureResult {
+  if (result.passed) {
+    console.log(`✅ ${result.id}`);
+  } else {
+    console.error(`❌ ${result.id}`);
+    result.failures.forEach(failure => console.error(`   ${failure}`));
+  }
+  return result;
+}
+
+export class CapFixtureTester {
+
+  /**
+   * Parse every fixture, then run the depression alert through update and cancellation; true when all pass
+   */
+  static async runAll(): Promise<{ passed: boolean; results: CapFixtureResult[] }> {
+    console.log(`📡 Running ${PARSE_CASES.length + 1} CAP fixture check(s)...\n`);
+    const results: CapFixtureResult[] = [];
+    for (const expectation of PARSE_CASES) {
+      results.push(await this.checkParse(expectation));
+    }
+    results.push(await this.checkIngest());
+
+    const failed = results.filter(result => !result.passed);
+    if (failed.length) console.error(`❌ ${failed.length} of ${results.length} CAP fixture check(s) failed: ${failed.map(r => r.id).join(', ')}`);
+    else console.log(`✅ All ${results.length} CAP fixture check(s) passed`);
+    return { passed: failed.length === 0, results };
+  }
+
+  /**
+   * What one fixture parses to, against what it should
+   */
+  static async checkParse(expectation: ParseExpectation): Promise<CapFixtureResult> {
+    const failures: string[] = [];
+    try {
+      const { warnings, errors } = parseCAP(await loadFixture(expectation.fixture));
+      const [warning] = warnings;
+      if (warnings.length !== expectation.warnings) failures.push(`${warnings.length} warning(s), expected ${expectation.warnings}`);
+      if (errors.length !== expectation.errors) failures.push(`${errors.length} error(s), expected ${expectation.errors}: ${errors.join('; ')}`);
+      if (warning) {
+        if (warning.msgType !== expectation.msgType) failures.push(`message type ${warning.msgType}, expected ${expectation.msgType}`);
+        if (warning.status !== expectation.status) failures.push(`status ${warning.status}, expected ${expectation.status}`);
+        const areas = warning.areas.map(area => area.description);
+        if (areas.join('|') !== expectation.areas.join('|')) failures.push(`areas "${areas.join(', ')}", expected "${expectation.areas.join(', ')}"`);
+      }
+    } catch (error) {
+      failures.push(`Could not read the fixture: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return report({ id: `parse ${expectation.fixture}`, passed: !failures.length, failures });
+  }
+
+  /**
+   * The depression alert, its update after the boat dismissed it, and the cancellation, through the ingest path
+   */
+  static async checkIngest(): Promise<CapFixtureResult> {
+    const failures: string[] = [];
+    const expect = (ok: boolean, failure: string) => {
+      if (!ok) failures.push(failure);
+    };
+
+    await alertStorage.initialize();
+    const snapshot = alertStorage.getAlerts({ includeInactive: true });
+    try {
+      const now = Date.now();
+      const offset = now - FIXTURE_NOW;
+      const [alert, update, cancel, exercise] = await Promise.all(
+        (['depressionAlert', 'depressionUpdate', 'depressionCancel', 'tsunamiExercise'] as FixtureName[]).map(async name =>
+          shiftTimes(await loadFixture(name), offset)
+        )
+      );
+
+      const first = await capAlertService.ingestDocuments([alert, exercise], now);
+      expect(first.added === 1, `alert: ${first.added} added, expected 1`);
+      expect(
+        first.skipped.some(reason => reason.includes('exercise message')),
+        `exercise: not skipped (${first.skipped.join('; ') || 'nothing skipped'})`
+      );
+      const thread = alertStorage.findAlert(DEPRESSION_THREAD);
+      if (!thread) {
+        failures.push('alert: not stored');
+        return report({ id: 'ingest alert, update, cancel', passed: false, failures });
+      }
+
+      // Dismissed on board, without the evidence entry dismissAlert writes
+      await alertStorage.restoreAlerts(
+        alertStorage.getAlerts({ includeInactive: true }).map(item => (item.id === thread.id ? { ...item, dismissedAt: now } : item)),
+        'replace'
+      );
+
+      const second = await capAlertService.ingestDocuments([update], now);
+      expect(second.updated === 1 && second.added === 0, `update: ${second.updated} updated and ${second.added} added, expected 1 and 0`);
+      expect(second.notified === 0, `update: notified ${second.notified} time(s) on a dismissed thread`);
+      const updated = alertStorage.findAlert(DEPRESSION_THREAD);
+      const expires = Date.parse('2025-06-12T00:00:00Z') + offset;
+      expect(updated?.data?.cap?.id === DEPRESSION_UPDATE, `update: thread carries ${updated?.data?.cap?.id}, expected ${DEPRESSION_UPDATE}`);
+      expect(!!updated?.dismissedAt, 'update: dismissal lost on a same-severity update');
+      expect(updated?.expiresAt === expires, `update: expires ${updated?.expiresAt}, expected ${expires}`);
+      expect(
+        updated?.areas?.[0]?.label === 'Sea area off Konkan and Goa coast',
+        `update: area "${updated?.areas?.[0]?.label}", expected "Sea area off Konkan and Goa coast"`
+      );
+
+      const third = await capAlertService.ingestDocuments([cancel], now);
+      expect(third.withdrawn === 1, `cancel: ${third.withdrawn} withdrawn, expected 1`);
+      const cancelled = alertStorage.findAlert(DEPRESSION_THREAD);
+      expect((cancelled?.expiresAt ?? Infinity) <= Date.now(), 'cancel: thread still in force');
+    } catch (error) {
+      failures.push(`Ingest failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      await alertStorage.restoreAlerts(snapshot, 'replace');
+    }
+    return report({ id: 'ingest alert, update, cancel', passed: !failures.length, failures });
+  }
+}
+
+export default CapFixtureTester;
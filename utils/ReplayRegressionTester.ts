@@ -0,0 +1,165 @@
+/**
+ * 🧪 Replay Regression Suite
+ * Runs recorded tracks through boundary monitoring and checks the alerts they raise
+ *
+ * Features:
+ * - Built-in cases (data/replayCases.ts) for IMBL crossings, near misses and clear water
+ * - Any exported GPX, NMEA or tracking-data file, to reproduce a missed or false alert
+ * - Tracks run to the end on the replay clock, so a case takes seconds however long the trip
+ * - Nothing a replay raises is stored, logged as evidence or sent ashore
+ */
+
+import { boundaryAlertSystem, BoundaryAlertType } from '../services/boundaryAlertSystem';
+import { trackReplay } from '../services/trackReplay';
+import { REPLAY_CASES } from '../data/replayCases';
+import type { ImblStage } from '../types';
+
+// An alert the track must raise; type and stage narrow it, otherwise any alert for the zone matches
+export interface ExpectedAlert {
+  zoneId: string;
+  type?: BoundaryAlertType;
+  stage?: ImblStage;
+}
+
+export interface ReplayCase {
+  id: string;
+  description: string;
+  fileName: string; // tells the parser the track format
+  track: string;
+  expected: ExpectedAlert[];
+  forbidden?: ExpectedAlert[]; // alerts for an expected zone that must still not be raised
+}
+
+export interface RaisedAlert {
+  zoneId: string;
+  type: BoundaryAlertType;
+  severity: string;
+  stage?: ImblStage;
+  timestamp: number; // track time
+}
+
+export interface ReplayCaseResult {
+  id: string;
+  passed: boolean;
+  fixes: number;
+  raised: RaisedAlert[];
+  missed: ExpectedAlert[];
+  unexpected: RaisedAlert[]; // alerts for a zone no expectation names, or matching a forbidden one
+  errors: string[];
+}
+
+function matches(alert: RaisedAlert, expected: ExpectedAlert): boolean {
+  return (
+    alert.zoneId === expected.zoneId &&
+    (!expected.type || alert.type === expected.type) &&
+    (!expected.stage || alert.stage === expected.stage)
+  );
+}
+
+function describeExpected(expected: ExpectedAlert): string {
+  return [expected.zoneId, expected.type, expected.stage].filter(Boolean).join(' ');
+}
+
+export class ReplayRegressionTester {
+
+  /**
+   * Run every built-in case; true when all of them pass
+   */
+  static async runAll(cases: ReplayCase[] = REPLAY_CASES): Promise<{ passed: boolean; results: ReplayCaseResult[] }> {
+    console.log(`🧪 Running ${cases.length} replay regression case(s)...\n`);
+    const results: ReplayCaseResult[] = [];
+    for (const testCase of cases) {
+      results.push(await this.runCase(testCase));
+    }
+
+    const failed = results.filter(result => !result.passed);
+    if (failed.length) console.error(`❌ ${failed.length} of ${results.length} replay case(s) failed: ${failed.map(r => r.id).join(', ')}`);
+    else console.log(`✅ All ${results.length} replay case(s) passed`);
+    return { passed: failed.length === 0, results };
+  }
+
+  /**
+   * Check a track exported from a boat, e.g. from a fisherman reporting a missed or false alert
+   */
+  static async runTrack(
+    content: string,
+    fileName: string,
+    expected: ExpectedAlert[],
+    forbidden: ExpectedAlert[] = []
+  ): Promise<ReplayCaseResult> {
+    return this.runCase({ id: fileName, description: `Exported track ${fileName}`, fileName, track: content, expected, forbidden });
+  }
+
+  /**
+   * Replay one track from a clean monitoring state and compare what it raised with what it should
+   */
+  static async runCase(testCase: ReplayCase): Promise<ReplayCaseResult> {
+    const result: ReplayCaseResult = { id: testCase.id, passed: false, fixes: 0, raised: [], missed: [], unexpected: [], errors: [] };
+    if (trackReplay.isReplaying()) {
+      result.errors.push('A track replay is already running');
+      console.error(`❌ ${testCase.id}: a track replay is already running`);
+      return result;
+    }
+
+    // Alert state from the live GPS must not leak into the case, nor the case's into the live GPS
+    const wasMonitoring = boundaryAlertSystem.isMonitoringActive();
+    if (wasMonitoring) boundaryAlertSystem.stopMonitoring();
+    const unsubscribe = boundaryAlertSystem.addAlertListener(alert => {
+      result.raised.push({
+        zoneId: alert.zoneId,
+        type: alert.type,
+        severity: alert.severity,
+        stage: alert.imbl?.stage,
+        timestamp: alert.timestamp
+      });
+    });
+
+    try {
+      const { provider, errors } = trackReplay.start(testCase.track, testCase.fileName, { autoplay: false });
+      result.errors.push(...errors);
+      if (!provider) {
+        console.error(`❌ ${testCase.id}: ${errors.join('; ')}`);
+        return result;
+      }
+
+      await boundaryAlertSystem.startMonitoring();
+      if (!boundaryAlertSystem.isMonitoringActive()) {
+        result.errors.push('Boundary monitoring did not start');
+        return result;
+      }
+      await provider.runToEnd();
+      result.fixes = provider.getProgress().delivered;
+    } catch (error) {
+      result.errors.push(`Replay failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      unsubscribe();
+      boundaryAlertSystem.stopMonitoring();
+      trackReplay.stop();
+      if (wasMonitoring) await boundaryAlertSystem.startMonitoring();
+    }
+
+    const forbidden = testCase.forbidden ?? [];
+    result.missed = testCase.expected.filter(expected => !result.raised.some(alert => matches(alert, expected)));
+    result.unexpected = result.raised.filter(
+      alert =>
+        !testCase.expected.some(expected => expected.zoneId === alert.zoneId) ||
+        forbidden.some(expected => matches(alert, expected))
+    );
+    // Parse errors are skipped points; the case still stands on the fixes that were read
+    result.passed = result.fixes > 0 && !result.missed.length && !result.unexpected.length;
+
+    if (result.passed) {
+      console.log(`✅ ${testCase.id}: ${result.raised.length} alert(s) over ${result.fixes} fixes as expected`);
+    } else {
+      console.error(`❌ ${testCase.id}: ${testCase.description}`);
+      result.missed.forEach(expected => console.error(`   missed: ${describeExpected(expected)}`));
+      result.unexpected.forEach(alert =>
+        console.error(`   unexpected: ${describeExpected(alert)} at ${new Date(alert.timestamp).toISOString()}`)
+      );
+      if (!result.fixes) console.error(`   no fixes replayed${result.errors.length ? ` (${result.errors[0]})` : ''}`);
+    }
+    return result;
+  }
+}
+
+export default ReplayRegressionTester;
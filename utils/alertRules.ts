@@ -0,0 +1,117 @@
+import type { AlertRule, RuleComparison, RuleCondition } from "../types"
+
+// What a rule is checked against; a missing part means that data could not be had
+export type RuleContext = {
+  now: number // epoch ms
+  weather?: { windKmh: number; waveM: number; visibilityKm: number; pressureHpa: number } | null
+  tides?: { time: number; type: "high" | "low"; heightM: number }[] | null
+  zonesInside?: { id: string; name: string; restricted: boolean }[] | null
+  prices?: Record<string, number> | null // lower-case species name -> INR per kg
+  bans?: { name: string; start: string }[] | null // seasonal closures, start as "MM-DD"
+}
+
+export type RuleEvaluation = {
+  matched: boolean
+  reasons: string[] // one line per condition that is met
+  missing: RuleCondition["kind"][] // conditions that could not be checked for want of data
+}
+
+const METRICS = {
+  windKmh: { label: "Wind", unit: "km/h" },
+  waveM: { label: "Waves", unit: "m" },
+  visibilityKm: { label: "Visibility", unit: "km" },
+  pressureHpa: { label: "Pressure", unit: "hPa" },
+} as const
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function compare(actual: number, op: RuleComparison, value: number) {
+  return op === "above" ? actual > value : actual < value
+}
+
+// Whole days from `now` to the next MM-DD (0 when it is today), in local time
+export function daysUntil(monthDay: string, now: number) {
+  const [month, day] = monthDay.split("-").map(Number)
+  const today = new Date(now)
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate())
+  let target = new Date(today.getFullYear(), month - 1, day)
+  if (target < start) target = new Date(today.getFullYear() + 1, month - 1, day)
+  return Math.round((target.getTime() - start.getTime()) / DAY_MS)
+}
+
+export function describeCondition(condition: RuleCondition) {
+  switch (condition.kind) {
+    case "weather": {
+      const { label, unit } = METRICS[condition.metric]
+      return `${label} ${condition.op} ${condition.value} ${unit}`
+    }
+    case "tide":
+      return `${condition.event === "high" ? "High" : "Low"} tide within ${condition.withinHours} h`
+    case "zone_entry":
+      return condition.zoneId ? `Entering zone ${condition.zoneId}` : "Entering any restricted zone"
+    case "price":
+      return `${condition.species} price ${condition.op} ₹${condition.value}/kg`
+    case "date":
+      return `${condition.daysBefore} days before ${condition.date ?? "a seasonal ban starts"}`
+  }
+}
+
+// Why the condition is met, "" when it is not, or null when the data it needs is missing
+function checkCondition(condition: RuleCondition, context: RuleContext): string | null {
+  switch (condition.kind) {
+    case "weather": {
+      if (!context.weather) return null
+      const actual = context.weather[condition.metric]
+      const { label, unit } = METRICS[condition.metric]
+      return compare(actual, condition.op, condition.value) ? `${label} ${actual} ${unit} (${condition.op} ${condition.value})` : ""
+    }
+    case "tide": {
+      if (!context.tides) return null
+      const until = context.now + condition.withinHours * 60 * 60 * 1000
+      const tide = context.tides.find((t) => t.type === condition.event && t.time >= context.now && t.time <= until)
+      if (!tide) return ""
+      const at = new Date(tide.time).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+      return `${condition.event === "high" ? "High" : "Low"} tide ${tide.heightM.toFixed(1)} m at ${at}`
+    }
+    case "zone_entry": {
+      if (!context.zonesInside) return null
+      const zone = context.zonesInside.find((z) => (condition.zoneId ? z.id === condition.zoneId : z.restricted))
+      return zone ? `Inside ${zone.name}` : ""
+    }
+    case "price": {
+      if (!context.prices) return null
+      const actual = context.prices[condition.species.trim().toLowerCase()]
+      if (actual === undefined) return null
+      return compare(actual, condition.op, condition.value) ? `${condition.species} at ₹${actual}/kg` : ""
+    }
+    case "date": {
+      if (condition.date) {
+        const days = daysUntil(condition.date, context.now)
+        return days <= condition.daysBefore ? `${condition.date} is ${days === 0 ? "today" : `in ${days} days`}` : ""
+      }
+      if (!context.bans) return null
+      const upcoming = context.bans
+        .map((ban) => ({ ...ban, days: daysUntil(ban.start, context.now) }))
+        .filter((ban) => ban.days <= condition.daysBefore)
+        .sort((a, b) => a.days - b.days)[0]
+      return upcoming ? `${upcoming.name} starts ${upcoming.days === 0 ? "today" : `in ${upcoming.days} days`}` : ""
+    }
+  }
+}
+
+// A rule with no conditions never matches; a condition without data counts as not met
+export function evaluateRule(rule: AlertRule, context: RuleContext): RuleEvaluation {
+  const reasons: string[] = []
+  const missing: RuleCondition["kind"][] = []
+  let met = 0
+  for (const condition of rule.conditions) {
+    const reason = checkCondition(condition, context)
+    if (reason === null) missing.push(condition.kind)
+    else if (reason) {
+      met++
+      reasons.push(reason)
+    }
+  }
+  const matched = rule.conditions.length > 0 && (rule.match === "all" ? met === rule.conditions.length : met > 0)
+  return { matched, reasons, missing }
+}
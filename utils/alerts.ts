@@ -0,0 +1,220 @@
+import type { AlertArea, AlertItem, AlertPriority, AlertRevision, AlertSource, AlertType } from "../types"
+import { distanceToSegmentKm, haversineKm } from "./geo"
+import { containsPoint, firstEdgeCrossing, initialBearingDeg, type Polygon } from "./geodesy"
+
+type LatLon = { lat: number; lon: number }
+
+const TYPES: AlertType[] = ["weather", "boundary", "emergency", "fishing", "regulatory", "seasonal_ban", "demo"]
+const PRIORITIES: AlertPriority[] = ["low", "medium", "high", "critical"]
+const SOURCES: AlertSource[] = ["demo", "real", "boundary_system"]
+
+// Severities of the old cfm.alerts records
+const SEVERITY_PRIORITY: Record<string, AlertPriority> = { info: "low", warn: "medium", danger: "high" }
+
+// Bring an alert from either of the old stores (cfm.alerts AlertItem or seasure_alerts StoredAlert),
+// an old backup, or the current model to the current model. Null when it is not an alert at all.
+export function normalizeAlert(raw: any): AlertItem | null {
+  if (!raw || typeof raw !== "object" || typeof raw.id !== "string" || !raw.id) return null
+
+  const rawType = typeof raw.type === "string" ? raw.type.replace("-", "_") : ""
+  const type = (TYPES as string[]).includes(rawType) ? (rawType as AlertType) : "regulatory"
+  const priority: AlertPriority = PRIORITIES.includes(raw.priority)
+    ? raw.priority
+    : SEVERITY_PRIORITY[raw.severity] ?? "medium"
+  const source: AlertSource = SOURCES.includes(raw.source) ? raw.source : "real"
+  const timestamp = typeof raw.timestamp === "number" ? raw.timestamp : new Date(raw.timestamp).getTime() || 0
+  const location =
+    raw.location && typeof raw.location.latitude === "number" && typeof raw.location.longitude === "number"
+      ? { latitude: raw.location.latitude, longitude: raw.location.longitude }
+      : undefined
+
+  return {
+    id: raw.id,
+    type,
+    title: String(raw.title ?? ""),
+    message: String(raw.message ?? ""),
+    priority,
+    timestamp,
+    ...(location && { location }),
+    ...(raw.data !== undefined && { data: raw.data }),
+    source,
+    isRead: !!(raw.isRead ?? raw.read),
+    ...(typeof raw.dismissedAt === "number" && { dismissedAt: raw.dismissedAt }),
+    ...(Array.isArray(raw.escalations) && { escalations: raw.escalations }),
+    ...(Array.isArray(raw.areas) && { areas: raw.areas }),
+    ...(typeof raw.validFrom === "number" && { validFrom: raw.validFrom }),
+    ...(typeof raw.expiresAt === "number" && { expiresAt: raw.expiresAt }),
+    ...(typeof raw.active === "boolean" && { active: raw.active }),
+    ...(typeof raw.activatedAt === "number" && { activatedAt: raw.activatedAt }),
+    ...(typeof raw.dedupKey === "string" && { dedupKey: raw.dedupKey }),
+    ...(Array.isArray(raw.history) && { history: raw.history }),
+    ...(typeof raw.closedAt === "number" && { closedAt: raw.closedAt }),
+  }
+}
+
+// Normalized alerts from any number of lists, one per id (the first list wins), newest first
+export function mergeAlerts(...lists: unknown[][]): AlertItem[] {
+  const byId = new Map<string, AlertItem>()
+  for (const list of lists) {
+    for (const raw of list) {
+      const alert = normalizeAlert(raw)
+      if (alert && !byId.has(alert.id)) byId.set(alert.id, alert)
+    }
+  }
+  return [...byId.values()].sort((a, b) => b.timestamp - a.timestamp)
+}
+
+// ---- Targeting and validity ----
+
+// What targeted alerts are checked against
+export type AlertTarget = {
+  position?: LatLon | null
+  route?: LatLon[] | null // active trip waypoints, in sailing order
+  zonePolygon?: (zoneId: string) => Polygon | null
+}
+
+type Shape = { polygon: Polygon } | { center: LatLon; radiusKm: number }
+
+// Null for a zone that is not (or no longer) known
+function resolveArea(area: AlertArea, zonePolygon: AlertTarget["zonePolygon"]): Shape | null {
+  switch (area.kind) {
+    case "polygon":
+      return area.coordinates.length >= 3 ? { polygon: { outer: area.coordinates } } : null
+    case "circle":
+      return { center: area.center, radiusKm: area.radiusKm }
+    case "zone": {
+      const polygon = zonePolygon?.(area.zoneId)
+      return polygon ? { polygon } : null
+    }
+  }
+}
+
+function shapeContains(shape: Shape, point: LatLon) {
+  return "polygon" in shape ? containsPoint(shape.polygon, point) : haversineKm(shape.center, point) <= shape.radiusKm
+}
+
+// Whether any leg of the route passes through the shape, including legs that cross it without a waypoint inside
+function shapeTouchesRoute(shape: Shape, route: LatLon[]) {
+  if (route.some((point) => shapeContains(shape, point))) return true
+  for (let i = 1; i < route.length; i++) {
+    const [a, b] = [route[i - 1], route[i]]
+    if ("polygon" in shape) {
+      if (firstEdgeCrossing(a, initialBearingDeg(a, b), haversineKm(a, b), shape.polygon)) return true
+    } else if (distanceToSegmentKm(shape.center, a, b) <= shape.radiusKm) {
+      return true
+    }
+  }
+  return false
+}
+
+// Areas of the alert that hold the boat or cross its active trip route
+export function matchingAreas(alert: Pick<AlertItem, "areas">, target: AlertTarget): AlertArea[] {
+  return (alert.areas ?? []).filter((area) => {
+    const shape = resolveArea(area, target.zonePolygon)
+    if (!shape) return false
+    return (!!target.position && shapeContains(shape, target.position)) || (!!target.route?.length && shapeTouchesRoute(shape, target.route))
+  })
+}
+
+export function isInForce(alert: Pick<AlertItem, "validFrom" | "expiresAt">, now: number) {
+  return (alert.validFrom ?? -Infinity) <= now && (alert.expiresAt ?? Infinity) > now
+}
+
+// In force, and either untargeted or targeted at where the boat is or is headed
+export function isAlertLive(alert: AlertItem, now: number, target: AlertTarget) {
+  return isInForce(alert, now) && (!alert.areas?.length || matchingAreas(alert, target).length > 0)
+}
+
+// Validity of an annual "MM-DD" closure starting in `year`, in local time; the end day is included
+export function closurePeriod(closure: { start: string; end: string }, year: number) {
+  const [startMonth, startDay] = closure.start.split("-").map(Number)
+  const [endMonth, endDay] = closure.end.split("-").map(Number)
+  const endYear = closure.end < closure.start ? year + 1 : year
+  return {
+    validFrom: new Date(year, startMonth - 1, startDay).getTime(),
+    expiresAt: new Date(endYear, endMonth - 1, endDay + 1).getTime(),
+  }
+}
+
+// ---- Threads and groups ----
+
+// A thread takes updates while it is in force or was raised within this time; after that its key starts a new thread
+export const THREAD_GAP_MS = 2 * 60 * 60 * 1000
+// Earlier versions kept per thread; boundary alerts can be raised every few seconds
+const MAX_HISTORY = 20
+
+const SOURCE_LABELS: Record<AlertSource, string> = { real: "Live", demo: "Demo", boundary_system: "Boundary system" }
+
+export const boundaryDedupKey = (zoneId: string) => `boundary:${zoneId}`
+
+// One thread per hazard, so "High wind" upgraded to "Dangerous wind" updates the same alert
+export function weatherDedupKey(title: string) {
+  const hazard = /wind|thunderstorm|rain|visibility|pressure/i.exec(title)?.[0] ?? title
+  return `weather:${hazard.toLowerCase()}`
+}
+
+// Alerts sharing a dedup key are one thread; an alert without one is a thread of its own
+export const threadKey = (alert: Pick<AlertItem, "id" | "dedupKey">) => alert.dedupKey ?? alert.id
+
+export function isUpgrade(from: AlertPriority, to: AlertPriority) {
+  return PRIORITIES.indexOf(to) > PRIORITIES.indexOf(from)
+}
+
+// Whether an update is a new version of the thread rather than fresh details of the same one
+export function isRevision(thread: AlertItem, update: Pick<AlertItem, "title" | "priority">) {
+  return thread.title !== update.title || thread.priority !== update.priority
+}
+
+// Whether an alert raised at `now` under the thread's key continues it
+export function isThreadOpen(thread: AlertItem, now: number) {
+  if (thread.closedAt !== undefined) return false
+  return now - thread.timestamp < THREAD_GAP_MS || (thread.expiresAt ?? -Infinity) > now - THREAD_GAP_MS
+}
+
+// The thread with an update applied: a new version moves the current one into the history, and the update's
+// details, area and validity replace the thread's. Id, source, read, dismissal and escalation state stay.
+export function reviseAlert(thread: AlertItem, update: AlertItem): AlertItem {
+  const previous: AlertRevision = { title: thread.title, message: thread.message, priority: thread.priority, timestamp: thread.timestamp }
+  const history = isRevision(thread, update) ? [...(thread.history ?? []), previous].slice(-MAX_HISTORY) : thread.history
+  return {
+    ...thread,
+    title: update.title,
+    message: update.message,
+    priority: update.priority,
+    timestamp: Math.max(thread.timestamp, update.timestamp),
+    location: update.location ?? thread.location,
+    data: update.data,
+    areas: update.areas,
+    validFrom: update.validFrom,
+    expiresAt: update.expiresAt,
+    ...(history && { history }),
+  }
+}
+
+// The newest row of each thread, newest first
+export function threadHeads(alerts: AlertItem[]) {
+  const heads = new Map<string, AlertItem>()
+  for (const alert of [...alerts].sort((a, b) => b.timestamp - a.timestamp)) {
+    if (!heads.has(threadKey(alert))) heads.set(threadKey(alert), alert)
+  }
+  return [...heads.values()]
+}
+
+// Source and zone an alert is grouped under; alerts without a zone are grouped by their area's name, if any
+export function alertGroup(alert: AlertItem) {
+  const zone: string | undefined = alert.data?.zoneName ?? alert.data?.zoneId ?? alert.areas?.find((area) => area.label)?.label
+  const source = SOURCE_LABELS[alert.source] ?? alert.source
+  return { key: `${alert.source}|${alert.data?.zoneId ?? zone ?? ""}`, title: zone ? `${source} · ${zone}` : source }
+}
+
+// Alerts in groups by source and zone, in the order the groups first appear
+export function groupAlerts(alerts: AlertItem[]) {
+  const groups = new Map<string, { key: string; title: string; data: AlertItem[] }>()
+  for (const alert of alerts) {
+    const { key, title } = alertGroup(alert)
+    const group = groups.get(key) ?? { key, title, data: [] }
+    group.data.push(alert)
+    groups.set(key, group)
+  }
+  return [...groups.values()]
+}
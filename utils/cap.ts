@@ -0,0 +1,264 @@
+import type { AlertArea, AlertPriority, AlertType } from "../types"
+
+type LatLon = { lat: number; lon: number }
+
+// An <area>: polygons and circles that can be tested against a position; geocodes alone cannot
+export type CapArea = {
+  description: string
+  polygons: LatLon[][]
+  circles: { center: LatLon; radiusKm: number }[]
+}
+
+// One <info> block of a CAP 1.2 <alert>, flattened into what the app needs
+export type CapWarning = {
+  id: string // sender and identifier, plus the info index when an alert has several
+  identifier: string
+  sender: string
+  senderName?: string
+  sent: number // epoch ms
+  status: "Actual" | "Exercise" | "System" | "Test" | "Draft"
+  msgType: "Alert" | "Update" | "Cancel" | "Ack" | "Error"
+  references: string[] // "sender,identifier" of earlier alerts this one updates or cancels
+  category: string
+  event: string
+  urgency: string
+  severity: string
+  certainty: string
+  headline?: string
+  description?: string
+  instruction?: string
+  effective: number // epoch ms
+  expires: number // epoch ms
+  areas: CapArea[]
+}
+
+export type CapParseResult = {
+  warnings: CapWarning[]
+  errors: string[] // alerts and areas that were skipped, with the reason
+}
+
+// CAP makes <expires> optional; a warning without one is kept for a day
+export const DEFAULT_VALIDITY_MS = 24 * 60 * 60 * 1000
+
+const STATUSES = ["Actual", "Exercise", "System", "Test", "Draft"]
+const MSG_TYPES = ["Alert", "Update", "Cancel", "Ack", "Error"]
+
+// ---- XML ----
+
+function decodeXml(value: string) {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim()
+}
+
+// Elements with the given tag (any namespace prefix); not for tags that nest inside themselves
+function elements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, "g")
+  return [...xml.matchAll(pattern)].map((m) => m[1])
+}
+
+function texts(xml: string, tag: string) {
+  return elements(xml, tag).map(decodeXml)
+}
+
+function firstText(xml: string, tag: string) {
+  const value = texts(xml, tag)[0]
+  return value ? value : undefined
+}
+
+function toTime(value: string | undefined) {
+  if (!value) return undefined
+  const time = Date.parse(value)
+  return Number.isFinite(time) ? time : undefined
+}
+
+// ---- Areas ----
+
+// "lat,lon lat,lon ..." with the first pair repeated at the end
+function parsePolygon(value: string): LatLon[] | string {
+  const points = value
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((pair) => {
+      const [lat, lon] = pair.split(",").map(Number)
+      return { lat, lon }
+    })
+  if (points.some((p) => !Number.isFinite(p.lat) || !Number.isFinite(p.lon) || Math.abs(p.lat) > 90 || Math.abs(p.lon) > 180)) {
+    return "polygon has an invalid coordinate"
+  }
+  const last = points[points.length - 1]
+  if (points.length > 1 && last.lat === points[0].lat && last.lon === points[0].lon) points.pop()
+  return points.length >= 3 ? points : "polygon needs at least 3 points"
+}
+
+// "lat,lon radius" with the radius in km
+function parseCircle(value: string): CapArea["circles"][number] | string {
+  const [center, radius] = value.trim().split(/\s+/)
+  const [lat, lon] = (center ?? "").split(",").map(Number)
+  const radiusKm = Number(radius)
+  if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) return "circle has an invalid centre"
+  if (!Number.isFinite(radiusKm) || radiusKm < 0) return "circle has an invalid radius"
+  return { center: { lat, lon }, radiusKm }
+}
+
+function parseArea(xml: string, errors: string[], label: string): CapArea | null {
+  const description = firstText(xml, "areaDesc") ?? "Unnamed area"
+  const area: CapArea = { description, polygons: [], circles: [] }
+  for (const value of texts(xml, "polygon")) {
+    const polygon = parsePolygon(value)
+    if (typeof polygon === "string") errors.push(`${label}, ${description}: ${polygon}`)
+    else area.polygons.push(polygon)
+  }
+  for (const value of texts(xml, "circle")) {
+    const circle = parseCircle(value)
+    if (typeof circle === "string") errors.push(`${label}, ${description}: ${circle}`)
+    else area.circles.push(circle)
+  }
+  if (!area.polygons.length && !area.circles.length) {
+    errors.push(`${label}, ${description}: no polygon or circle to target`)
+    return null
+  }
+  return area
+}
+
+// ---- Alerts ----
+
+function parseAlert(xml: string, errors: string[]): CapWarning[] {
+  const identifier = firstText(xml, "identifier")
+  const sender = firstText(xml, "sender")
+  const sent = toTime(firstText(xml, "sent"))
+  if (!identifier || !sender || sent === undefined) {
+    errors.push(`Alert ${identifier ?? "without identifier"}: missing identifier, sender or sent time`)
+    return []
+  }
+  const status = firstText(xml, "status") ?? ""
+  const msgType = firstText(xml, "msgType") ?? ""
+  if (!STATUSES.includes(status) || !MSG_TYPES.includes(msgType)) {
+    errors.push(`Alert ${identifier}: unknown status "${status}" or message type "${msgType}"`)
+    return []
+  }
+  // "sender,identifier,sent" triples separated by spaces
+  const references = (firstText(xml, "references") ?? "")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((triple) => triple.split(",").slice(0, 2).join(","))
+
+  // Bilingual alerts repeat each <info> per language; English is used when there is one
+  const allInfos = elements(xml, "info")
+  const english = allInfos.filter((info) => (firstText(info, "language") ?? "en-US").toLowerCase().startsWith("en"))
+  const infos = english.length ? english : allInfos
+  if (!infos.length && msgType !== "Cancel") {
+    errors.push(`Alert ${identifier}: no <info> block`)
+    return []
+  }
+
+  const base = {
+    identifier,
+    sender,
+    sent,
+    status: status as CapWarning["status"],
+    msgType: msgType as CapWarning["msgType"],
+    references,
+  }
+  // A cancellation may come without any info; it still has to reach the alerts it cancels
+  if (!infos.length) {
+    return [
+      {
+        ...base,
+        id: `${sender},${identifier}`,
+        category: "Other",
+        event: "Cancelled",
+        urgency: "Past",
+        severity: "Unknown",
+        certainty: "Unknown",
+        effective: sent,
+        expires: sent + DEFAULT_VALIDITY_MS,
+        areas: [],
+      },
+    ]
+  }
+
+  const warnings: CapWarning[] = []
+  infos.forEach((info, index) => {
+    const label = `Alert ${identifier}${infos.length > 1 ? ` info ${index + 1}` : ""}`
+    const areas = elements(info, "area")
+      .map((area) => parseArea(area, errors, label))
+      .filter((area): area is CapArea => area !== null)
+    if (!areas.length && msgType !== "Cancel") {
+      errors.push(`${label}: no area that can be targeted`)
+      return
+    }
+    const effective = toTime(firstText(info, "onset")) ?? toTime(firstText(info, "effective")) ?? sent
+    warnings.push({
+      ...base,
+      id: `${sender},${identifier}${infos.length > 1 ? `#${index}` : ""}`,
+      senderName: firstText(info, "senderName"),
+      category: firstText(info, "category") ?? "Other",
+      event: firstText(info, "event") ?? "Warning",
+      urgency: firstText(info, "urgency") ?? "Unknown",
+      severity: firstText(info, "severity") ?? "Unknown",
+      certainty: firstText(info, "certainty") ?? "Unknown",
+      headline: firstText(info, "headline"),
+      description: firstText(info, "description"),
+      instruction: firstText(info, "instruction"),
+      effective,
+      expires: toTime(firstText(info, "expires")) ?? sent + DEFAULT_VALIDITY_MS,
+      areas,
+    })
+  })
+  return warnings
+}
+
+// Every <alert> in a CAP document (a single alert, or several bundled by a feed)
+export function parseCAP(xml: string): CapParseResult {
+  const errors: string[] = []
+  const alerts = elements(xml, "alert")
+  if (!alerts.length) return { warnings: [], errors: ["No CAP <alert> found"] }
+  return { warnings: alerts.flatMap((alert) => parseAlert(alert, errors)), errors }
+}
+
+// ---- Mapping ----
+
+export function toAlertPriority(severity: string): AlertPriority {
+  switch (severity) {
+    case "Extreme":
+      return "critical"
+    case "Severe":
+      return "high"
+    case "Moderate":
+      return "medium"
+    default:
+      return "low"
+  }
+}
+
+// CAP categories are space-separated when there is more than one, e.g. "Met Safety"
+export function toAlertType(category: string): AlertType {
+  const categories = category.split(/\s+/)
+  if (categories.includes("Met")) return "weather"
+  if (categories.some((c) => ["Geo", "Safety", "Rescue", "Security", "Fire", "Health"].includes(c))) return "emergency"
+  return "regulatory"
+}
+
+// A point to show the warning at: the first circle's centre, or the mean of the first polygon's points
+export function areaCenter(area: CapArea): LatLon {
+  if (area.circles.length) return area.circles[0].center
+  const polygon = area.polygons[0]
+  return {
+    lat: polygon.reduce((sum, p) => sum + p.lat, 0) / polygon.length,
+    lon: polygon.reduce((sum, p) => sum + p.lon, 0) / polygon.length,
+  }
+}
+
+// The area's polygons and circles as alert areas, labelled with its description
+export function toAlertAreas(area: CapArea): AlertArea[] {
+  return [
+    ...area.polygons.map((coordinates): AlertArea => ({ kind: "polygon", coordinates, label: area.description })),
+    ...area.circles.map((circle): AlertArea => ({ kind: "circle", ...circle, label: area.description })),
+  ]
+}
@@ -0,0 +1,199 @@
+import { ed25519 } from "@noble/curves/ed25519"
+import { sha256 } from "@noble/hashes/sha2"
+import { bytesToHex, hexToBytes, utf8ToBytes } from "@noble/hashes/utils"
+
+export type EvidenceKind = "fix" | "alert" | "acknowledgement" | "escalation" | "violation" | "imbl"
+
+export type EvidenceEntry = {
+  seq: number // 0 for the first entry, then +1 per entry with no gaps
+  timestamp: number // epoch ms when the entry was recorded
+  kind: EvidenceKind
+  payload: Record<string, unknown>
+  prevHash: string // hash of the previous entry; GENESIS_HASH for the first
+  hash: string // sha256 over everything above
+  signature: string // ed25519 signature of the hash by the device key
+}
+
+// Last entry of the chain, kept apart from the log so that cutting entries off the end shows up
+export type ChainHead = { seq: number; hash: string; timestamp: number }
+
+export type EvidenceProblem = {
+  seq: number
+  reason: "hash_mismatch" | "bad_signature" | "broken_link" | "missing_entries" | "head_mismatch" | "bad_report_signature"
+  detail: string
+}
+
+export type VerificationResult = { valid: boolean; checked: number; problems: EvidenceProblem[] }
+
+export type EvidenceReport = {
+  format: "seasure-evidence-report"
+  version: 1
+  generatedAt: number
+  deviceId: string
+  publicKey: string // hex ed25519 public key of the device
+  range: { from: number; to: number }
+  before: EvidenceEntry | null // entry just before the range, proving nothing was cut from its start
+  entries: EvidenceEntry[]
+  after: EvidenceEntry | null // entry just after the range, proving nothing was cut from its end
+  head: ChainHead
+  signature: string // over the canonical JSON of every field above
+}
+
+export const GENESIS_HASH = "0".repeat(64)
+
+// JSON with object keys sorted at every level, so the same data always hashes the same
+export function canonicalJSON(value: unknown): string {
+  if (value === null || typeof value !== "object") return JSON.stringify(value) ?? "null"
+  if (Array.isArray(value)) return `[${value.map((item) => canonicalJSON(item === undefined ? null : item)).join(",")}]`
+  const record = value as Record<string, unknown>
+  const fields = Object.keys(record)
+    .filter((key) => record[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalJSON(record[key])}`)
+  return `{${fields.join(",")}}`
+}
+
+function sha256Hex(text: string) {
+  return bytesToHex(sha256(utf8ToBytes(text)))
+}
+
+export function hashEntry(entry: Omit<EvidenceEntry, "hash" | "signature">) {
+  const { seq, timestamp, kind, payload, prevHash } = entry
+  return sha256Hex(canonicalJSON({ seq, timestamp, kind, payload, prevHash }))
+}
+
+export function publicKeyFor(privateKeyHex: string) {
+  return bytesToHex(ed25519.getPublicKey(hexToBytes(privateKeyHex)))
+}
+
+function sign(messageHex: string, privateKeyHex: string) {
+  return bytesToHex(ed25519.sign(hexToBytes(messageHex), hexToBytes(privateKeyHex)))
+}
+
+function signatureValid(signatureHex: string, messageHex: string, publicKeyHex: string) {
+  try {
+    return ed25519.verify(hexToBytes(signatureHex), hexToBytes(messageHex), hexToBytes(publicKeyHex))
+  } catch {
+    return false // malformed hex or key
+  }
+}
+
+// The next entry after `previous` (null to start a chain), hashed and signed
+export function createEntry(
+  previous: EvidenceEntry | ChainHead | null,
+  kind: EvidenceKind,
+  payload: Record<string, unknown>,
+  timestamp: number,
+  privateKeyHex: string,
+): EvidenceEntry {
+  const body = {
+    seq: previous ? previous.seq + 1 : 0,
+    // Never earlier than the previous entry, even if the phone clock is set back
+    timestamp: previous ? Math.max(timestamp, previous.timestamp) : timestamp,
+    kind,
+    // Round-tripped so the stored copy hashes exactly like the signed one (no undefined, no Dates)
+    payload: JSON.parse(JSON.stringify(payload)) as Record<string, unknown>,
+    prevHash: previous ? previous.hash : GENESIS_HASH,
+  }
+  const hash = hashEntry(body)
+  return { ...body, hash, signature: sign(hash, privateKeyHex) }
+}
+
+// Each entry's own hash and signature, and its link to the one before.
+// `previous` is the entry before the first one given, when the check starts mid-chain.
+export function verifyEntries(
+  entries: EvidenceEntry[],
+  publicKeyHex: string,
+  previous: EvidenceEntry | null = null,
+): VerificationResult {
+  const problems: EvidenceProblem[] = []
+  let prev = previous
+  for (const entry of entries) {
+    if (hashEntry(entry) !== entry.hash) {
+      problems.push({ seq: entry.seq, reason: "hash_mismatch", detail: "Entry contents were changed after it was recorded" })
+    }
+    if (!signatureValid(entry.signature, entry.hash, publicKeyHex)) {
+      problems.push({ seq: entry.seq, reason: "bad_signature", detail: "Signature does not match the device key" })
+    }
+    if (prev === null) {
+      if (entry.seq === 0 && entry.prevHash !== GENESIS_HASH) {
+        problems.push({ seq: entry.seq, reason: "broken_link", detail: "First entry does not start the chain" })
+      }
+    } else if (entry.seq !== prev.seq + 1) {
+      problems.push({
+        seq: entry.seq,
+        reason: "missing_entries",
+        detail: `Entries ${prev.seq + 1}-${entry.seq - 1} are missing`,
+      })
+    } else if (entry.prevHash !== prev.hash) {
+      problems.push({ seq: entry.seq, reason: "broken_link", detail: "Entry does not follow on from the one before" })
+    }
+    prev = entry
+  }
+  return { valid: problems.length === 0, checked: entries.length, problems }
+}
+
+// The chain must end exactly at the recorded head; fewer entries means some were cut off the end
+export function checkHead(last: EvidenceEntry | null, head: ChainHead | null): EvidenceProblem | null {
+  if (!head) return null
+  if (!last || last.seq < head.seq) {
+    return {
+      seq: head.seq,
+      reason: "missing_entries",
+      detail: `Log ends at ${last ? last.seq : "nothing"} but entry ${head.seq} was recorded`,
+    }
+  }
+  if (last.seq === head.seq && last.hash !== head.hash) {
+    return { seq: head.seq, reason: "head_mismatch", detail: "Last entry differs from the one recorded" }
+  }
+  return null
+}
+
+function reportBody(report: Omit<EvidenceReport, "signature">) {
+  const { format, version, generatedAt, deviceId, publicKey, range, before, entries, after, head } = report
+  return canonicalJSON({ format, version, generatedAt, deviceId, publicKey, range, before, entries, after, head })
+}
+
+export function signReport(report: Omit<EvidenceReport, "signature">, privateKeyHex: string): EvidenceReport {
+  return { ...report, signature: sign(sha256Hex(reportBody(report)), privateKeyHex) }
+}
+
+// Everything a third party can check from the report alone: the report signature, every entry,
+// that the entries run unbroken from `before` to `after`, and that they sit inside the chain head
+export function verifyReport(report: EvidenceReport): VerificationResult {
+  const problems: EvidenceProblem[] = []
+  const { publicKey, range, before, entries, after, head } = report
+
+  if (!signatureValid(report.signature, sha256Hex(reportBody(report)), publicKey)) {
+    problems.push({ seq: -1, reason: "bad_report_signature", detail: "Report was changed after it was exported" })
+  }
+
+  const chain = [...(before ? [before] : []), ...entries, ...(after ? [after] : [])]
+  const checked = verifyEntries(chain, publicKey)
+  problems.push(...checked.problems)
+
+  const first = chain[0]
+  if (!before && first && first.seq !== 0) {
+    problems.push({ seq: first.seq, reason: "missing_entries", detail: "Nothing shows what came before this report" })
+  }
+  if (before && before.timestamp >= range.from) {
+    problems.push({ seq: before.seq, reason: "missing_entries", detail: "Entry before the range is inside it" })
+  }
+  if (after && after.timestamp <= range.to) {
+    problems.push({ seq: after.seq, reason: "missing_entries", detail: "Entry after the range is inside it" })
+  }
+  for (const entry of entries) {
+    if (entry.timestamp < range.from || entry.timestamp > range.to) {
+      problems.push({ seq: entry.seq, reason: "missing_entries", detail: "Entry lies outside the report range" })
+    }
+  }
+  // Without a following entry the report must run to the head as it was at export
+  if (after && after.seq > head.seq) {
+    problems.push({ seq: after.seq, reason: "head_mismatch", detail: "Entry after the range is newer than the chain head" })
+  } else if (!after) {
+    const headProblem = checkHead(chain[chain.length - 1] ?? null, head)
+    if (headProblem) problems.push(headProblem)
+  }
+
+  return { valid: problems.length === 0, checked: chain.length, problems }
+}
@@ -0,0 +1,179 @@
+import { haversineKm } from "./geo"
+import { bufferPolygon, containsPoint, initialBearingDeg, nearestEdgePoint, Polygon } from "./geodesy"
+
+type LatLon = { lat: number; lon: number }
+
+export type ExitRoute = {
+  waypoints: LatLon[] // from the boat's position to the exit point, both included
+  exitPoint: LatLon // first point clear of every restricted zone
+  distanceKm: number // along the route
+  bearingDeg: number // of the first leg
+  direct: boolean // one straight leg to the nearest point of safe water
+  avoidsRestricted: boolean // false when no way round other zones was found and the route cuts through one
+}
+
+export type ExitRouteOptions = {
+  marginKm?: number // exit and turning points are kept this far clear of zone edges; defaults to 0.1
+  maxCandidates?: number // exit points sampled along the boundary; defaults to 200
+}
+
+type XY = { x: number; y: number }
+
+const EARTH_RADIUS_KM = 6371
+const toRad = (x: number) => (x * Math.PI) / 180
+
+// Local flat projection in km around an origin; good to well under 1% over the tens of km involved
+function projection(origin: LatLon) {
+  const kmPerDegLat = (Math.PI * EARTH_RADIUS_KM) / 180
+  const kmPerDegLon = kmPerDegLat * Math.cos(toRad(origin.lat))
+  return {
+    toXY: (p: LatLon): XY => ({ x: (p.lon - origin.lon) * kmPerDegLon, y: (p.lat - origin.lat) * kmPerDegLat }),
+    toLatLon: (q: XY): LatLon => ({ lat: origin.lat + q.y / kmPerDegLat, lon: origin.lon + q.x / kmPerDegLon }),
+  }
+}
+
+function cross(o: XY, a: XY, b: XY) {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x)
+}
+
+// Segments p1-p2 and q1-q2 cross at a point strictly inside both
+function properlyIntersect(p1: XY, p2: XY, q1: XY, q2: XY) {
+  const d1 = cross(q1, q2, p1)
+  const d2 = cross(q1, q2, p2)
+  const d3 = cross(p1, p2, q1)
+  const d4 = cross(p1, p2, q2)
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))
+}
+
+function rings(polygon: Polygon) {
+  return [polygon.outer, ...(polygon.holes ?? [])]
+}
+
+// Points along every ring of the polygon, about evenly spaced, moved off the edge to the side away from it
+function boundarySamples(polygon: Polygon, maxCount: number, marginKm: number, toXY: (p: LatLon) => XY) {
+  const edges: { a: XY; b: XY; length: number }[] = []
+  for (const ring of rings(polygon)) {
+    for (let i = 0; i < ring.length; i++) {
+      const a = toXY(ring[i])
+      const b = toXY(ring[(i + 1) % ring.length])
+      const length = Math.hypot(b.x - a.x, b.y - a.y)
+      if (length > 0) edges.push({ a, b, length })
+    }
+  }
+  const perimeter = edges.reduce((sum, edge) => sum + edge.length, 0)
+  const spacing = Math.max(perimeter / maxCount, marginKm)
+  const samples: { point: XY; offsets: XY[] }[] = []
+  for (const { a, b, length } of edges) {
+    const steps = Math.max(1, Math.round(length / spacing))
+    const normal = { x: -(b.y - a.y) / length, y: (b.x - a.x) / length }
+    for (let s = 0; s < steps; s++) {
+      const t = (s + 0.5) / steps
+      const point = { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t }
+      // Which side is outside depends on the ring's winding, so both are offered
+      samples.push({
+        point,
+        offsets: [
+          { x: point.x + normal.x * marginKm, y: point.y + normal.y * marginKm },
+          { x: point.x - normal.x * marginKm, y: point.y - normal.y * marginKm },
+        ],
+      })
+    }
+  }
+  return samples
+}
+
+// Shortest way out of every zone containing `position` into water outside all `zones`, without
+// crossing zones the boat is not already in. Returns null when the position is in none of them.
+export function planExitRoute(position: LatLon, zones: Polygon[], options: ExitRouteOptions = {}): ExitRoute | null {
+  const marginKm = options.marginKm ?? 0.1
+  const maxCandidates = options.maxCandidates ?? 200
+  const current = zones.filter((zone) => containsPoint(zone, position))
+  if (!current.length) return null
+  const obstacles = zones.filter((zone) => !current.includes(zone))
+
+  const { toXY, toLatLon } = projection(position)
+  const start = toXY(position)
+  const inSafeWater = (p: LatLon) => !zones.some((zone) => containsPoint(zone, p))
+  const obstacleEdges = obstacles.flatMap((zone) =>
+    rings(zone).flatMap((ring) => ring.map((p, i) => [toXY(p), toXY(ring[(i + 1) % ring.length])] as const)),
+  )
+  const clear = (a: XY, b: XY) => {
+    if (obstacleEdges.some(([q1, q2]) => properlyIntersect(a, b, q1, q2))) return false
+    // A leg between two points on the same side of an obstacle can still lie wholly inside it
+    const mid = toLatLon({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 })
+    return !obstacles.some((zone) => containsPoint(zone, mid))
+  }
+
+  // Candidate exit points: the nearest point of each zone's edge, then samples all round it
+  const targets: XY[] = []
+  for (const zone of current) {
+    const nearest = nearestEdgePoint(position, zone)
+    if (nearest) {
+      const at = toXY(nearest.point)
+      const length = Math.hypot(at.x - start.x, at.y - start.y)
+      if (length > 0) {
+        const scale = (length + marginKm) / length
+        targets.push({ x: start.x + (at.x - start.x) * scale, y: start.y + (at.y - start.y) * scale })
+      }
+    }
+    for (const sample of boundarySamples(zone, maxCandidates, marginKm, toXY)) {
+      const outside = sample.offsets.find((offset) => inSafeWater(toLatLon(offset)))
+      if (outside) targets.push(outside)
+    }
+  }
+  const safeTargets = targets.filter((t) => inSafeWater(toLatLon(t)))
+  if (!safeTargets.length) return null
+
+  const distance = (a: XY, b: XY) => Math.hypot(b.x - a.x, b.y - a.y)
+  const byDistance = [...safeTargets].sort((a, b) => distance(start, a) - distance(start, b))
+  const toRoute = (path: XY[], direct: boolean, avoidsRestricted: boolean): ExitRoute => {
+    const waypoints = [position, ...path.slice(1).map(toLatLon)]
+    let km = 0
+    for (let i = 1; i < waypoints.length; i++) km += haversineKm(waypoints[i - 1], waypoints[i])
+    return {
+      waypoints,
+      exitPoint: waypoints[waypoints.length - 1],
+      distanceKm: km,
+      bearingDeg: initialBearingDeg(waypoints[0], waypoints[1]),
+      direct,
+      avoidsRestricted,
+    }
+  }
+
+  // No route can be shorter than the straight line to the nearest safe water
+  if (clear(start, byDistance[0])) return toRoute([start, byDistance[0]], true, true)
+
+  // Otherwise search a visibility graph of the exits and the corners of the zones in the way
+  const corners = obstacles
+    .flatMap((zone) => rings(bufferPolygon(zone, marginKm, 45)).flat())
+    .filter((p) => !obstacles.some((zone) => containsPoint(zone, p)))
+    .map(toXY)
+  const nodes = [start, ...corners, ...safeTargets]
+  const firstTarget = 1 + corners.length
+  const dist = nodes.map((_, i) => (i === 0 ? 0 : Infinity))
+  const previous: number[] = nodes.map(() => -1)
+  const done = nodes.map(() => false)
+
+  for (;;) {
+    let u = -1
+    for (let i = 0; i < nodes.length; i++) if (!done[i] && dist[i] < Infinity && (u < 0 || dist[i] < dist[u])) u = i
+    if (u < 0) break
+    if (u >= firstTarget) {
+      const path: XY[] = []
+      for (let i = u; i >= 0; i = previous[i]) path.unshift(nodes[i])
+      return toRoute(path, false, true)
+    }
+    done[u] = true
+    for (let v = 1; v < nodes.length; v++) {
+      if (done[v]) continue
+      const alt = dist[u] + distance(nodes[u], nodes[v])
+      if (alt < dist[v] && clear(nodes[u], nodes[v])) {
+        dist[v] = alt
+        previous[v] = u
+      }
+    }
+  }
+
+  // Boxed in: point the way to the nearest safe water and say it crosses another zone
+  return toRoute([start, byDistance[0]], true, false)
+}
@@ -25,24 +25,60 @@ export function pointInPolygon(point: { lat: number; lon: number }, polygon: { l
   return inside
 }
 
-// Simple nearest-neighbor path order (greedy)
-export function optimizeOrder(start: { lat: number; lon: number }, points: { lat: number; lon: number }[]) {
-  const remaining = points.map((p, idx) => ({ p, idx }))
-  const order: number[] = []
-  let current = start
-  while (remaining.length) {
-    let best = 0
-    let bestDist = Number.POSITIVE_INFINITY
-    for (let i = 0; i < remaining.length; i++) {
-      const d = haversineKm(current, remaining[i].p)
-      if (d < bestDist) {
-        best = i
-        bestDist = d
+// Distance from p to segment a-b, on a local equirectangular projection (fine for short track segments)
+export function distanceToSegmentKm(
+  p: { lat: number; lon: number },
+  a: { lat: number; lon: number },
+  b: { lat: number; lon: number },
+) {
+  const kmPerDegLat = 111.32
+  const kmPerDegLon = 111.32 * Math.cos((p.lat * Math.PI) / 180)
+  const ax = (a.lon - p.lon) * kmPerDegLon,
+    ay = (a.lat - p.lat) * kmPerDegLat
+  const bx = (b.lon - p.lon) * kmPerDegLon,
+    by = (b.lat - p.lat) * kmPerDegLat
+  const dx = bx - ax,
+    dy = by - ay
+  const len2 = dx * dx + dy * dy
+  const t = len2 === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / len2))
+  return Math.hypot(ax + t * dx, ay + t * dy)
+}
+
+// Douglas–Peucker simplification; returns the indexes of the points to keep.
+// Points for which keep(i) is true are never dropped and split the track into independent runs.
+export function simplifyTrack(
+  points: { lat: number; lon: number }[],
+  toleranceKm: number,
+  keep: (index: number) => boolean = () => false,
+) {
+  if (points.length <= 2) return points.map((_, i) => i)
+
+  const kept = new Array<boolean>(points.length).fill(false)
+  kept[0] = true
+  kept[points.length - 1] = true
+  for (let i = 1; i < points.length - 1; i++) if (keep(i)) kept[i] = true
+
+  // Iterative to stay safe on tracks with tens of thousands of fixes
+  const anchors = kept.map((k, i) => (k ? i : -1)).filter((i) => i >= 0)
+  const stack: [number, number][] = []
+  for (let i = 0; i < anchors.length - 1; i++) stack.push([anchors[i], anchors[i + 1]])
+
+  while (stack.length) {
+    const [start, end] = stack.pop()!
+    let maxDist = 0
+    let index = -1
+    for (let i = start + 1; i < end; i++) {
+      const d = distanceToSegmentKm(points[i], points[start], points[end])
+      if (d > maxDist) {
+        maxDist = d
+        index = i
       }
     }
-    const next = remaining.splice(best, 1)[0]
-    order.push(next.idx)
-    current = next.p
+    if (index !== -1 && maxDist > toleranceKm) {
+      kept[index] = true
+      stack.push([start, index], [index, end])
+    }
   }
-  return order
+
+  return kept.map((k, i) => (k ? i : -1)).filter((i) => i >= 0)
 }
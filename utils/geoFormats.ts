@@ -0,0 +1,496 @@
+import { getSeasonalClosures, type Zone } from "../data/zones"
+import type { Waypoint } from "../data/waypoints"
+import { pointInPolygon } from "./geo"
+
+type LatLon = { lat: number; lon: number }
+type Closure = { start: string; end: string; reason: string }
+
+export type GeoFormat = "geojson" | "kml"
+
+export type GeoImportResult = {
+  zones: Zone[]
+  waypoints: Waypoint[]
+  errors: string[] // one line per feature that was skipped, with the reason
+}
+
+const IMPORTED_REGION = "Imported"
+const MONTH_DAY = /^(\d{4}-)?(\d{2})-(\d{2})$/
+
+// ---- Geometry validation ----
+
+// Drops the repeated closing vertex and consecutive duplicates
+function cleanRing(ring: LatLon[]): LatLon[] {
+  const cleaned = ring.filter((p, i) => i === 0 || p.lat !== ring[i - 1].lat || p.lon !== ring[i - 1].lon)
+  const first = cleaned[0]
+  const last = cleaned[cleaned.length - 1]
+  if (cleaned.length > 1 && first.lat === last.lat && first.lon === last.lon) cleaned.pop()
+  return cleaned
+}
+
+function ringArea(ring: LatLon[]) {
+  let area = 0
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += (ring[j].lon - ring[i].lon) * (ring[j].lat + ring[i].lat)
+  }
+  return area / 2
+}
+
+function cross(o: LatLon, a: LatLon, b: LatLon) {
+  return (a.lon - o.lon) * (b.lat - o.lat) - (a.lat - o.lat) * (b.lon - o.lon)
+}
+
+function onSegment(p: LatLon, a: LatLon, b: LatLon) {
+  return (
+    Math.min(a.lon, b.lon) <= p.lon && p.lon <= Math.max(a.lon, b.lon) &&
+    Math.min(a.lat, b.lat) <= p.lat && p.lat <= Math.max(a.lat, b.lat)
+  )
+}
+
+function segmentsIntersect(a: LatLon, b: LatLon, c: LatLon, d: LatLon) {
+  const d1 = cross(c, d, a)
+  const d2 = cross(c, d, b)
+  const d3 = cross(a, b, c)
+  const d4 = cross(a, b, d)
+  if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) return true
+  return (
+    (d1 === 0 && onSegment(a, c, d)) ||
+    (d2 === 0 && onSegment(b, c, d)) ||
+    (d3 === 0 && onSegment(c, a, b)) ||
+    (d4 === 0 && onSegment(d, a, b))
+  )
+}
+
+// Reason the ring cannot be used as a zone outline, or null when it is fine
+export function validateRing(ring: LatLon[]): string | null {
+  if (ring.some((p) => !Number.isFinite(p.lat) || !Number.isFinite(p.lon))) return "has a coordinate that is not a number"
+  if (ring.some((p) => Math.abs(p.lat) > 90 || Math.abs(p.lon) > 180)) return "has a coordinate out of range"
+
+  const cleaned = cleanRing(ring)
+  if (cleaned.length < 3) return "needs at least 3 distinct points"
+  if (ringArea(cleaned) === 0) return "has no area"
+
+  const n = cleaned.length
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      // Neighbouring edges share a vertex, which is not a crossing
+      if (j === i + 1 || (i === 0 && j === n - 1)) continue
+      if (segmentsIntersect(cleaned[i], cleaned[(i + 1) % n], cleaned[j], cleaned[(j + 1) % n])) {
+        return "has edges that cross each other"
+      }
+    }
+  }
+  return null
+}
+
+// Validates every ring and returns the cleaned polygon, or the reason it was rejected
+function buildPolygon(rings: LatLon[][]): { outer: LatLon[]; holes: LatLon[][] } | string {
+  const [outerRing, ...holeRings] = rings
+  if (!outerRing) return "has no outline"
+  const outerError = validateRing(outerRing)
+  if (outerError) return `outline ${outerError}`
+
+  const outer = cleanRing(outerRing)
+  const holes: LatLon[][] = []
+  for (const [i, holeRing] of holeRings.entries()) {
+    const holeError = validateRing(holeRing)
+    if (holeError) return `hole ${i + 1} ${holeError}`
+    const hole = cleanRing(holeRing)
+    if (!hole.every((p) => pointInPolygon(p, outer))) return `hole ${i + 1} lies outside the outline`
+    holes.push(hole)
+  }
+  return { outer, holes }
+}
+
+// ---- Property mapping ----
+
+function text(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined
+  const s = String(value).trim()
+  return s ? s : undefined
+}
+
+function slug(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+}
+
+// Anything not clearly open for fishing is treated as restricted; a false "safe" is the costly mistake
+function toKind(value: unknown): Zone["kind"] {
+  const kind = slug(text(value) ?? "")
+  return ["safe", "open", "fishing", "fishing_ground", "fishing_zone", "fishing_area"].includes(kind) ? "safe" : "restricted"
+}
+
+function toSeason(value: unknown, hasClosures: boolean): Zone["season"] {
+  const season = slug(text(value) ?? "")
+  if (["all_year", "year_round", "open"].includes(season)) return "all_year"
+  if (["banned", "closed", "ban"].includes(season)) return "banned"
+  if (season === "seasonal" || hasClosures) return "seasonal"
+  return undefined
+}
+
+function toMonthDay(value: unknown): string | null {
+  const match = MONTH_DAY.exec(text(value) ?? "")
+  if (!match) return null
+  const month = Number(match[2])
+  const day = Number(match[3])
+  return month >= 1 && month <= 12 && day >= 1 && day <= 31 ? `${match[2]}-${match[3]}` : null
+}
+
+// Closures come as [{ start, end, reason }], as "06-01/07-31 Monsoon ban; ..." text, or as closedFrom/closedTo
+function toClosures(props: Record<string, unknown>): Closure[] | string {
+  const raw = props.closures ?? props.seasonalClosures
+  const entries: { start: unknown; end: unknown; reason?: unknown }[] = []
+
+  if (Array.isArray(raw)) {
+    entries.push(...raw.map((c: any) => ({ start: c?.start, end: c?.end, reason: c?.reason })))
+  } else if (text(raw)) {
+    for (const part of text(raw)!.split(";")) {
+      const [range, ...reason] = part.trim().split(/\s+/)
+      const [start, end] = (range ?? "").split("/")
+      if (range) entries.push({ start, end, reason: reason.join(" ") })
+    }
+  } else if (text(props.closedFrom) || text(props.closedTo)) {
+    entries.push({ start: props.closedFrom, end: props.closedTo, reason: props.closureReason })
+  }
+
+  const closures: Closure[] = []
+  for (const entry of entries) {
+    const start = toMonthDay(entry.start)
+    const end = toMonthDay(entry.end)
+    if (!start || !end) return `has a closure that is not an MM-DD range (${text(entry.start)} to ${text(entry.end)})`
+    closures.push({ start, end, reason: text(entry.reason) ?? "Seasonal closure" })
+  }
+  return closures
+}
+
+function toList(value: unknown): string[] | undefined {
+  const list = Array.isArray(value) ? value.map((v) => text(v)) : text(value)?.split(/[,;]/).map((v) => text(v))
+  const items = list?.filter((v): v is string => !!v)
+  return items?.length ? items : undefined
+}
+
+function toZone(
+  id: string,
+  name: string,
+  polygon: { outer: LatLon[]; holes: LatLon[][] },
+  props: Record<string, unknown>,
+  closures: Closure[],
+): Zone {
+  const zone: Zone = {
+    id,
+    kind: toKind(props.kind ?? props.type ?? props.zoneType),
+    name,
+    coordinates: polygon.outer,
+    season: toSeason(props.season, closures.length > 0),
+    restrictions: text(props.restrictions),
+    fishSpecies: toList(props.fishSpecies ?? props.species),
+    depth: text(props.depth),
+    description: text(props.description),
+  }
+  if (polygon.holes.length) zone.holes = polygon.holes
+  if (closures.length) zone.closures = closures
+  // Keep the stored object free of undefined fields
+  return Object.fromEntries(Object.entries(zone).filter(([, v]) => v !== undefined)) as Zone
+}
+
+type RawFeature = {
+  id?: string
+  name?: string
+  props: Record<string, unknown>
+  polygons: LatLon[][][]
+  points: LatLon[]
+  unsupported: string[]
+}
+
+// Shared by both formats once their geometry has been read into rings and points
+function collect(features: RawFeature[]): GeoImportResult {
+  const result: GeoImportResult = { zones: [], waypoints: [], errors: [] }
+
+  features.forEach((feature, index) => {
+    const name = text(feature.name ?? feature.props.name ?? feature.props.title) ?? `Imported feature ${index + 1}`
+    const id = text(feature.id ?? feature.props.id) ?? (slug(name) || `feature_${index + 1}`)
+    const label = `"${name}"`
+
+    for (const type of feature.unsupported) result.errors.push(`${label}: ${type} geometry is not supported`)
+
+    if (feature.polygons.length) {
+      const closures = toClosures(feature.props)
+      if (typeof closures === "string") {
+        result.errors.push(`${label} ${closures}`)
+      } else {
+        const multi = feature.polygons.length > 1
+        feature.polygons.forEach((rings, part) => {
+          const polygon = buildPolygon(rings)
+          if (typeof polygon === "string") {
+            result.errors.push(`${label}${multi ? ` part ${part + 1}` : ""} ${polygon}`)
+            return
+          }
+          result.zones.push(
+            toZone(multi ? `${id}_${part + 1}` : id, multi ? `${name} (${part + 1})` : name, polygon, feature.props, closures),
+          )
+        })
+      }
+    }
+
+    feature.points.forEach((point, part) => {
+      if (!Number.isFinite(point.lat) || !Number.isFinite(point.lon) || Math.abs(point.lat) > 90 || Math.abs(point.lon) > 180) {
+        result.errors.push(`${label} has a point out of range`)
+        return
+      }
+      const multi = feature.points.length > 1
+      result.waypoints.push({
+        id: multi ? `${id}_${part + 1}` : id,
+        lat: point.lat,
+        lon: point.lon,
+        label: multi ? `${name} (${part + 1})` : name,
+        region: text(feature.props.region) ?? IMPORTED_REGION,
+      })
+    })
+  })
+
+  return result
+}
+
+// ---- GeoJSON ----
+
+function positionsToRing(positions: unknown): LatLon[] {
+  if (!Array.isArray(positions)) return []
+  return positions.map((p: any) => ({ lat: Number(p?.[1]), lon: Number(p?.[0]) }))
+}
+
+function readGeometry(geometry: any, feature: RawFeature) {
+  switch (geometry?.type) {
+    case "Polygon":
+      feature.polygons.push((geometry.coordinates ?? []).map(positionsToRing))
+      break
+    case "MultiPolygon":
+      for (const polygon of geometry.coordinates ?? []) feature.polygons.push((polygon ?? []).map(positionsToRing))
+      break
+    case "Point":
+      feature.points.push(...positionsToRing([geometry.coordinates]))
+      break
+    case "MultiPoint":
+      feature.points.push(...positionsToRing(geometry.coordinates))
+      break
+    case "GeometryCollection":
+      for (const child of geometry.geometries ?? []) readGeometry(child, feature)
+      break
+    default:
+      feature.unsupported.push(geometry?.type ?? "Missing")
+  }
+}
+
+export function parseGeoJSON(input: string | unknown): GeoImportResult {
+  let doc: any = input
+  if (typeof input === "string") {
+    try {
+      doc = JSON.parse(input)
+    } catch (error) {
+      return { zones: [], waypoints: [], errors: [`Not valid JSON: ${error instanceof Error ? error.message : error}`] }
+    }
+  }
+
+  const features: any[] =
+    doc?.type === "FeatureCollection" ? doc.features ?? [] : doc?.type === "Feature" ? [doc] : doc?.type ? [{ geometry: doc }] : []
+  if (!features.length) return { zones: [], waypoints: [], errors: ["No GeoJSON features found"] }
+
+  return collect(
+    features.map((f) => {
+      const feature: RawFeature = {
+        id: text(f?.id),
+        props: f?.properties && typeof f.properties === "object" ? f.properties : {},
+        polygons: [],
+        points: [],
+        unsupported: [],
+      }
+      readGeometry(f?.geometry, feature)
+      return feature
+    }),
+  )
+}
+
+function closeRing(ring: LatLon[]) {
+  return ring.length ? [...ring, ring[0]] : ring
+}
+
+function zoneClosures(zone: Zone): Closure[] {
+  return zone.closures ?? getSeasonalClosures(zone)
+}
+
+export function toGeoJSON(zones: Zone[], waypoints: Waypoint[] = []): string {
+  const features = [
+    ...zones.map((zone) => ({
+      type: "Feature",
+      id: zone.id,
+      properties: {
+        id: zone.id,
+        name: zone.name,
+        kind: zone.kind,
+        season: zone.season,
+        restrictions: zone.restrictions,
+        fishSpecies: zone.fishSpecies,
+        depth: zone.depth,
+        description: zone.description,
+        closures: zoneClosures(zone),
+      },
+      geometry: {
+        type: "Polygon",
+        coordinates: [zone.coordinates, ...(zone.holes ?? [])].map((ring) => closeRing(ring).map((p) => [p.lon, p.lat])),
+      },
+    })),
+    ...waypoints.map((waypoint) => ({
+      type: "Feature",
+      id: waypoint.id,
+      properties: { id: waypoint.id, name: waypoint.label, region: waypoint.region },
+      geometry: { type: "Point", coordinates: [waypoint.lon, waypoint.lat] },
+    })),
+  ]
+  return JSON.stringify({ type: "FeatureCollection", features }, null, 2)
+}
+
+// ---- KML ----
+
+function decodeXml(value: string) {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim()
+}
+
+function escapeXml(value: string) {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+// Elements with the given tag (any namespace prefix); not for tags that nest inside themselves
+function elements(xml: string, tag: string): { attrs: string; body: string }[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}(\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, "g")
+  return [...xml.matchAll(pattern)].map((m) => ({ attrs: m[1] ?? "", body: m[2] }))
+}
+
+function firstText(xml: string, tag: string) {
+  const [element] = elements(xml, tag)
+  return element ? decodeXml(element.body) : undefined
+}
+
+function attr(attrs: string, name: string) {
+  const match = new RegExp(`\\b${name}="([^"]*)"`).exec(attrs)
+  return match ? decodeXml(match[1]) : undefined
+}
+
+function kmlCoordinates(xml: string): LatLon[] {
+  return (firstText(xml, "coordinates") ?? "")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((tuple) => {
+      const [lon, lat] = tuple.split(",").map(Number)
+      return { lat, lon }
+    })
+}
+
+export function parseKML(xml: string): GeoImportResult {
+  const placemarks = elements(xml, "Placemark")
+  if (!placemarks.length) return { zones: [], waypoints: [], errors: ["No KML placemarks found"] }
+
+  return collect(
+    placemarks.map(({ attrs, body }) => {
+      const props: Record<string, unknown> = {}
+      for (const data of elements(body, "Data")) {
+        const key = attr(data.attrs, "name")
+        if (key) props[key] = firstText(data.body, "value")
+      }
+      for (const data of elements(body, "SimpleData")) {
+        const key = attr(data.attrs, "name")
+        if (key) props[key] = decodeXml(data.body)
+      }
+      if (props.description === undefined) props.description = firstText(body, "description")
+
+      const feature: RawFeature = {
+        id: attr(attrs, "id"),
+        name: firstText(body, "name"),
+        props,
+        polygons: elements(body, "Polygon").map((polygon) => [
+          ...elements(polygon.body, "outerBoundaryIs").map((ring) => kmlCoordinates(ring.body)),
+          ...elements(polygon.body, "innerBoundaryIs").map((ring) => kmlCoordinates(ring.body)),
+        ]),
+        points: elements(body, "Point").map((point) => kmlCoordinates(point.body)[0] ?? { lat: NaN, lon: NaN }),
+        unsupported: ["LineString", "LinearRing", "Model", "Track"].filter(
+          // A LinearRing inside a Polygon is part of it, not a separate geometry
+          (type) => elements(type === "LinearRing" ? body.replace(/<(?:\w+:)?Polygon[\s\S]*?<\/(?:\w+:)?Polygon>/g, "") : body, type).length > 0,
+        ),
+      }
+      return feature
+    }),
+  )
+}
+
+function kmlRing(ring: LatLon[]) {
+  return `<LinearRing><coordinates>${closeRing(ring).map((p) => `${p.lon},${p.lat}`).join(" ")}</coordinates></LinearRing>`
+}
+
+function kmlData(values: Record<string, string | undefined>) {
+  const entries = Object.entries(values).filter(([, v]) => v !== undefined)
+  if (!entries.length) return ""
+  return `<ExtendedData>${entries.map(([k, v]) => `<Data name="${k}"><value>${escapeXml(v!)}</value></Data>`).join("")}</ExtendedData>`
+}
+
+export function toKML(zones: Zone[], waypoints: Waypoint[] = [], documentName = "SeaSure zones"): string {
+  const placemarks = [
+    ...zones.map((zone) => {
+      const closures = zoneClosures(zone)
+      return [
+        `<Placemark id="${escapeXml(zone.id)}">`,
+        `<name>${escapeXml(zone.name)}</name>`,
+        zone.description ? `<description>${escapeXml(zone.description)}</description>` : "",
+        kmlData({
+          kind: zone.kind,
+          season: zone.season,
+          restrictions: zone.restrictions,
+          fishSpecies: zone.fishSpecies?.join(", "),
+          depth: zone.depth,
+          closures: closures.length ? closures.map((c) => `${c.start}/${c.end} ${c.reason}`).join("; ") : undefined,
+        }),
+        "<Polygon>",
+        `<outerBoundaryIs>${kmlRing(zone.coordinates)}</outerBoundaryIs>`,
+        ...(zone.holes ?? []).map((hole) => `<innerBoundaryIs>${kmlRing(hole)}</innerBoundaryIs>`),
+        "</Polygon>",
+        "</Placemark>",
+      ].join("")
+    }),
+    ...waypoints.map((waypoint) =>
+      [
+        `<Placemark id="${escapeXml(waypoint.id)}">`,
+        `<name>${escapeXml(waypoint.label)}</name>`,
+        kmlData({ region: waypoint.region }),
+        `<Point><coordinates>${waypoint.lon},${waypoint.lat}</coordinates></Point>`,
+        "</Placemark>",
+      ].join(""),
+    ),
+  ]
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    `<Document><name>${escapeXml(documentName)}</name>`,
+    ...placemarks,
+    "</Document>",
+    "</kml>",
+  ].join("\n")
+}
+
+// ---- Either format ----
+
+export function detectFormat(content: string, fileName?: string): GeoFormat {
+  const extension = fileName?.toLowerCase().split(".").pop()
+  if (extension === "kml") return "kml"
+  if (extension === "geojson" || extension === "json") return "geojson"
+  return content.trimStart().startsWith("<") ? "kml" : "geojson"
+}
+
+export function parseGeoFile(content: string, fileName?: string): GeoImportResult {
+  return detectFormat(content, fileName) === "kml" ? parseKML(content) : parseGeoJSON(content)
+}
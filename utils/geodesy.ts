@@ -0,0 +1,237 @@
+import { haversineKm, pointInPolygon } from "./geo"
+
+type LatLon = { lat: number; lon: number }
+
+// A polygon ring is a closed list of vertices; the closing edge back to the first vertex is implied
+export type Polygon = { outer: LatLon[]; holes?: LatLon[][] }
+
+export type NearestEdgePoint = {
+  point: LatLon // closest point on the polygon edge
+  distanceKm: number
+  ring: number // 0 for the outer ring, 1.. for holes
+  edge: number // index of the edge's first vertex within that ring
+}
+
+const EARTH_RADIUS_KM = 6371
+const toRad = (x: number) => (x * Math.PI) / 180
+const toDeg = (x: number) => (x * 180) / Math.PI
+
+// Initial great-circle bearing from a to b, in degrees clockwise from north
+export function initialBearingDeg(a: LatLon, b: LatLon) {
+  const dLon = toRad(b.lon - a.lon)
+  const lat1 = toRad(a.lat)
+  const lat2 = toRad(b.lat)
+  const y = Math.sin(dLon) * Math.cos(lat2)
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon)
+  return (toDeg(Math.atan2(y, x)) + 360) % 360
+}
+
+// Nearest of the 16 compass points, e.g. 250° -> "WSW"
+export function compassPoint(bearingDeg: number) {
+  const points = ["N", "NNE", "NE", "ENE", "E", "ESE", "SE", "SSE", "S", "SSW", "SW", "WSW", "W", "WNW", "NW", "NNW"]
+  return points[Math.round((((bearingDeg % 360) + 360) % 360) / 22.5) % 16]
+}
+
+// Point reached by travelling distanceKm from p along a great circle with the given initial bearing
+export function destinationPoint(p: LatLon, bearingDeg: number, distanceKm: number): LatLon {
+  const delta = distanceKm / EARTH_RADIUS_KM
+  const theta = toRad(bearingDeg)
+  const lat1 = toRad(p.lat)
+  const lon1 = toRad(p.lon)
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(delta) + Math.cos(lat1) * Math.sin(delta) * Math.cos(theta))
+  const lon2 =
+    lon1 + Math.atan2(Math.sin(theta) * Math.sin(delta) * Math.cos(lat1), Math.cos(delta) - Math.sin(lat1) * Math.sin(lat2))
+  return { lat: toDeg(lat2), lon: ((toDeg(lon2) + 540) % 360) - 180 }
+}
+
+// Closest point to p on the great-circle segment a-b, using cross-track and along-track distances
+export function closestPointOnSegment(p: LatLon, a: LatLon, b: LatLon): { point: LatLon; distanceKm: number } {
+  const d12 = haversineKm(a, b)
+  const d13 = haversineKm(a, p)
+  if (d12 === 0 || d13 === 0) return { point: a, distanceKm: d13 }
+
+  const angle = toRad(initialBearingDeg(a, p) - initialBearingDeg(a, b))
+  // p projects to before a
+  if (Math.cos(angle) <= 0) return { point: a, distanceKm: d13 }
+
+  const crossTrack = Math.asin(Math.sin(d13 / EARTH_RADIUS_KM) * Math.sin(angle))
+  const ratio = Math.cos(d13 / EARTH_RADIUS_KM) / Math.cos(crossTrack)
+  const alongTrackKm = Math.acos(Math.max(-1, Math.min(1, ratio))) * EARTH_RADIUS_KM
+  // p projects to beyond b
+  if (alongTrackKm >= d12) return { point: b, distanceKm: haversineKm(p, b) }
+
+  return {
+    point: destinationPoint(a, initialBearingDeg(a, b), alongTrackKm),
+    distanceKm: Math.abs(crossTrack) * EARTH_RADIUS_KM,
+  }
+}
+
+export function distanceToSegmentGeodesicKm(p: LatLon, a: LatLon, b: LatLon) {
+  return closestPointOnSegment(p, a, b).distanceKm
+}
+
+export type PolylinePoint = {
+  point: LatLon // closest point on the line
+  distanceKm: number
+  segment: number // index of the segment's first vertex
+  side: "left" | "right" // side of p, walking from the first vertex to the last
+  beyondEnd: boolean // p lies past the first or last vertex rather than alongside the line
+}
+
+// Closest point on an open polyline and which side of it p is on. Past either end the side comes
+// from the end segment carried on, and beyondEnd says so.
+export function nearestPolylinePoint(p: LatLon, line: LatLon[]): PolylinePoint | null {
+  if (line.length < 2) return null
+  let best: { point: LatLon; distanceKm: number; segment: number } | null = null
+  for (let i = 0; i < line.length - 1; i++) {
+    const candidate = closestPointOnSegment(p, line[i], line[i + 1])
+    if (!best || candidate.distanceKm < best.distanceKm) best = { ...candidate, segment: i }
+  }
+  const { segment, point } = best!
+  const a = line[segment]
+  const b = line[segment + 1]
+  const same = (q: LatLon, r: LatLon) => q.lat === r.lat && q.lon === r.lon
+
+  // Nearest to an interior vertex: p is on the outside of the turn there
+  const vertex = same(point, b) && segment + 2 < line.length ? segment + 1 : same(point, a) && segment > 0 ? segment : -1
+  let side: PolylinePoint["side"]
+  if (vertex > 0) {
+    const turn =
+      ((initialBearingDeg(line[vertex], line[vertex + 1]) - initialBearingDeg(line[vertex - 1], line[vertex]) + 540) % 360) - 180
+    side = turn > 0 ? "left" : "right"
+  } else {
+    side = Math.sin(toRad(initialBearingDeg(a, p) - initialBearingDeg(a, b))) >= 0 ? "right" : "left"
+  }
+  const beyondEnd = (segment === 0 && same(point, a)) || (segment === line.length - 2 && same(point, b))
+  return { ...best!, side, beyondEnd }
+}
+
+function rings(polygon: Polygon) {
+  return [polygon.outer, ...(polygon.holes ?? [])]
+}
+
+// Closest point on any edge of the polygon, holes included
+export function nearestEdgePoint(p: LatLon, polygon: Polygon): NearestEdgePoint | null {
+  let best: NearestEdgePoint | null = null
+  rings(polygon).forEach((ring, r) => {
+    if (ring.length === 0) return
+    for (let i = 0; i < ring.length; i++) {
+      const candidate = closestPointOnSegment(p, ring[i], ring[(i + 1) % ring.length])
+      if (!best || candidate.distanceKm < best.distanceKm) {
+        best = { point: candidate.point, distanceKm: candidate.distanceKm, ring: r, edge: i }
+      }
+    }
+  })
+  return best
+}
+
+// Inside the outer ring and not inside any hole
+export function containsPoint(polygon: Polygon, p: LatLon) {
+  if (polygon.outer.length < 3 || !pointInPolygon(p, polygon.outer)) return false
+  return !(polygon.holes ?? []).some((hole) => hole.length >= 3 && pointInPolygon(p, hole))
+}
+
+// Distance to the polygon edge in km; zero or positive outside, negative inside
+export function signedDistanceToPolygonKm(p: LatLon, polygon: Polygon) {
+  const nearest = nearestEdgePoint(p, polygon)
+  if (!nearest) return Number.POSITIVE_INFINITY
+  return containsPoint(polygon, p) ? -nearest.distanceKm : nearest.distanceKm
+}
+
+export function distanceToPolygonEdgeKm(p: LatLon, polygon: Polygon) {
+  return Math.abs(signedDistanceToPolygonKm(p, polygon))
+}
+
+// Where a straight run of distanceKm from p on the given bearing first meets the polygon edge.
+// Uses a local flat projection around p, which is accurate over the few km a boat covers in minutes.
+export function firstEdgeCrossing(
+  p: LatLon,
+  bearingDeg: number,
+  distanceKm: number,
+  polygon: Polygon,
+): { point: LatLon; distanceKm: number } | null {
+  if (distanceKm <= 0) return null
+  const kmPerDegLat = (Math.PI * EARTH_RADIUS_KM) / 180
+  const kmPerDegLon = kmPerDegLat * Math.cos(toRad(p.lat))
+  const project = (q: LatLon) => ({ x: (q.lon - p.lon) * kmPerDegLon, y: (q.lat - p.lat) * kmPerDegLat })
+  const dx = distanceKm * Math.sin(toRad(bearingDeg))
+  const dy = distanceKm * Math.cos(toRad(bearingDeg))
+
+  let nearest = Infinity
+  for (const ring of rings(polygon)) {
+    for (let i = 0; i < ring.length; i++) {
+      const a = project(ring[i])
+      const b = project(ring[(i + 1) % ring.length])
+      const ex = b.x - a.x
+      const ey = b.y - a.y
+      const denom = dx * ey - dy * ex
+      if (denom === 0) continue // parallel to the edge
+      const t = (a.x * ey - a.y * ex) / denom // fraction along the run
+      const u = (a.x * dy - a.y * dx) / denom // fraction along the edge
+      if (t >= 0 && t <= 1 && u >= 0 && u <= 1) nearest = Math.min(nearest, t)
+    }
+  }
+  if (nearest === Infinity) return null
+  return { point: destinationPoint(p, bearingDeg, nearest * distanceKm), distanceKm: nearest * distanceKm }
+}
+
+// Positive for counter-clockwise rings in lon/lat space
+function signedArea(ring: LatLon[]) {
+  let area = 0
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += (ring[j].lon - ring[i].lon) * (ring[j].lat + ring[i].lat)
+  }
+  return area / 2
+}
+
+// Offset a ring outward (distanceKm > 0) or inward (distanceKm < 0).
+// Corners on the outside of the turn are rounded with arcs; inside corners keep both offset points.
+export function bufferRing(ring: LatLon[], distanceKm: number, arcStepDeg = 15): LatLon[] {
+  const n = ring.length
+  if (n < 3 || distanceKm === 0) return [...ring]
+
+  // Outward is to the right of travel for counter-clockwise rings
+  const outwardTurn = signedArea(ring) > 0 ? 90 : -90
+  const side = distanceKm > 0 ? outwardTurn : -outwardTurn
+  const offset = Math.abs(distanceKm)
+  const result: LatLon[] = []
+
+  for (let i = 0; i < n; i++) {
+    const prev = ring[(i - 1 + n) % n]
+    const vertex = ring[i]
+    const next = ring[(i + 1) % n]
+    const inBearing = (initialBearingDeg(prev, vertex) + 180) % 360 // arriving, measured from the vertex
+    const outBearing = initialBearingDeg(vertex, next)
+    const from = (inBearing + 180 + side + 360) % 360
+    const to = (outBearing + side + 360) % 360
+
+    // Signed sweep from the incoming offset direction to the outgoing one, in the direction of travel
+    const sweep = ((to - from + 540) % 360) - 180
+    // The arc is only needed on the outside of the turn; on the inside the offset edges overlap
+    const outsideOfTurn = Math.sign(sweep) !== Math.sign(side)
+    if (!outsideOfTurn || Math.abs(sweep) < 1e-6) {
+      result.push(destinationPoint(vertex, from, offset), destinationPoint(vertex, to, offset))
+      continue
+    }
+    const steps = Math.max(1, Math.ceil(Math.abs(sweep) / arcStepDeg))
+    for (let s = 0; s <= steps; s++) {
+      result.push(destinationPoint(vertex, from + (sweep * s) / steps, offset))
+    }
+  }
+  return result
+}
+
+// Grow the polygon by distanceKm (holes shrink by the same amount); negative distances shrink it
+export function bufferPolygon(polygon: Polygon, distanceKm: number, arcStepDeg = 15): Polygon {
+  const outer = bufferRing(polygon.outer, distanceKm, arcStepDeg)
+  const holes = (polygon.holes ?? [])
+    .map((hole) => bufferRing(hole, -distanceKm, arcStepDeg))
+    // A hole smaller than the buffer disappears; its offset ring turns inside out
+    .filter((hole, i) => Math.sign(signedArea(hole)) === Math.sign(signedArea(polygon.holes![i])))
+  return holes.length ? { outer, holes } : { outer }
+}
+
+// Convenience for services that keep {latitude, longitude} coordinates
+export function toLatLon(points: { latitude: number; longitude: number }[]): LatLon[] {
+  return points.map((p) => ({ lat: p.latitude, lon: p.longitude }))
+}
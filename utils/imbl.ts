@@ -0,0 +1,87 @@
+import { IMBL_LINES, ImblLine } from "../data/imbl"
+import { initialBearingDeg, nearestPolylinePoint } from "./geodesy"
+import type { ImblStage } from "../types"
+
+type LatLon = { lat: number; lon: number }
+
+export type ImblAssessment = {
+  line: ImblLine
+  distanceKm: number
+  nearestPoint: LatLon
+  onForeignSide: boolean
+  bearingToIndiaDeg: number // course that leads straight back into (or further into) Indian waters
+}
+
+const KM_PER_NM = 1.852
+
+// Each stage starts this close to the line; being across it always means "contacts"
+export const IMBL_STAGE_DISTANCE_KM: Record<ImblStage, number> = {
+  warning: 5 * KM_PER_NM,
+  siren: 2 * KM_PER_NM,
+  contacts: 0.5 * KM_PER_NM,
+}
+
+const STAGES: ImblStage[] = ["warning", "siren", "contacts"]
+
+// A stage only drops once the boat is this much further out than where it started
+const EXIT_MARGIN_KM = 0.5
+
+// Below this the nearest point gives no usable direction, so steer square off the line instead
+const ON_LINE_KM = 0.05
+
+function stageRank(stage: ImblStage | null) {
+  return stage ? STAGES.indexOf(stage) + 1 : 0
+}
+
+// Where the boat stands relative to one line
+export function assessImblLine(p: LatLon, line: ImblLine): ImblAssessment | null {
+  const nearest = nearestPolylinePoint(p, line.points)
+  if (!nearest) return null
+  // Past either end the line says nothing about which country's waters these are
+  const onForeignSide = !nearest.beyondEnd && nearest.side !== line.indiaSide
+
+  let bearingToIndiaDeg: number
+  if (nearest.distanceKm > ON_LINE_KM) {
+    const towardLine = initialBearingDeg(p, nearest.point)
+    bearingToIndiaDeg = onForeignSide ? towardLine : (towardLine + 180) % 360
+  } else {
+    const along = initialBearingDeg(line.points[nearest.segment], line.points[nearest.segment + 1])
+    bearingToIndiaDeg = (along + (line.indiaSide === "right" ? 90 : 270)) % 360
+  }
+
+  return { line, distanceKm: nearest.distanceKm, nearestPoint: nearest.point, onForeignSide, bearingToIndiaDeg }
+}
+
+// The line that matters most right now: any line the boat is across, otherwise the nearest
+export function nearestImbl(p: LatLon, lines: ImblLine[] = IMBL_LINES): ImblAssessment | null {
+  let best: ImblAssessment | null = null
+  for (const line of lines) {
+    const assessment = assessImblLine(p, line)
+    if (!assessment) continue
+    const across = assessment.onForeignSide
+    if (!best || (across && !best.onForeignSide) || (across === best.onForeignSide && assessment.distanceKm < best.distanceKm)) {
+      best = assessment
+    }
+  }
+  return best
+}
+
+function stageAt(distanceKm: number, onForeignSide: boolean): ImblStage | null {
+  if (onForeignSide) return "contacts"
+  for (let i = STAGES.length - 1; i >= 0; i--) {
+    if (distanceKm <= IMBL_STAGE_DISTANCE_KM[STAGES[i]]) return STAGES[i]
+  }
+  return null
+}
+
+// Next stage given the current one: rises as soon as a threshold is passed, falls only with a margin
+export function imblStage(assessment: ImblAssessment, current: ImblStage | null): ImblStage | null {
+  const raised = stageAt(assessment.distanceKm, assessment.onForeignSide)
+  if (stageRank(raised) >= stageRank(current)) return raised
+  const lowered = stageAt(Math.max(0, assessment.distanceKm - EXIT_MARGIN_KM), assessment.onForeignSide)
+  return stageRank(lowered) < stageRank(current) ? lowered : current
+}
+
+export function isHigherImblStage(next: ImblStage | null, current: ImblStage | null) {
+  return stageRank(next) > stageRank(current)
+}
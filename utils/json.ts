@@ -0,0 +1,6 @@
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/
+
+// JSON.stringify turns Date fields into ISO strings; pass this to JSON.parse to turn them back
+export function reviveDates(_key: string, value: unknown) {
+  return typeof value === "string" && ISO_DATE.test(value) ? new Date(value) : value
+}
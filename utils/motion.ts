@@ -0,0 +1,67 @@
+type Fix = { lat: number; lon: number; timestamp: number } // timestamp in epoch ms
+
+export type Motion = {
+  courseDeg: number // course over ground, degrees clockwise from north
+  speedKmh: number
+  speedKnots: number
+  fixes: number // how many fixes the estimate is based on
+}
+
+export type MotionOptions = {
+  windowMs?: number // only fixes this recent are used; defaults to 2 minutes
+  minSpanMs?: number // fixes must cover at least this long; defaults to 15 s
+  minSpeedKmh?: number // slower than this is drift or GPS jitter, not a course; defaults to 1.5 km/h
+}
+
+const KM_PER_DEG_LAT = 111.32
+const KMH_PER_KNOT = 1.852
+
+// Course and speed over ground from recent fixes, by a least-squares fit of position against time.
+// A fit over several fixes is far steadier than the last two fixes, whose noise dominates at low speed.
+// Returns null when there are too few fixes or the boat is not making way.
+export function estimateMotion(fixes: Fix[], options: MotionOptions = {}): Motion | null {
+  const windowMs = options.windowMs ?? 2 * 60 * 1000
+  const minSpanMs = options.minSpanMs ?? 15 * 1000
+  const minSpeedKmh = options.minSpeedKmh ?? 1.5
+  if (fixes.length < 2) return null
+
+  const latest = fixes.reduce((a, b) => (b.timestamp > a.timestamp ? b : a))
+  const recent = fixes.filter((f) => latest.timestamp - f.timestamp <= windowMs)
+  if (recent.length < 2) return null
+  const span = latest.timestamp - Math.min(...recent.map((f) => f.timestamp))
+  if (span < minSpanMs) return null
+
+  // Local flat projection around the latest fix, in km, with time in hours
+  const kmPerDegLon = KM_PER_DEG_LAT * Math.cos((latest.lat * Math.PI) / 180)
+  const points = recent.map((f) => ({
+    t: (f.timestamp - latest.timestamp) / 3600000,
+    x: (f.lon - latest.lon) * kmPerDegLon,
+    y: (f.lat - latest.lat) * KM_PER_DEG_LAT,
+  }))
+
+  const n = points.length
+  const meanT = points.reduce((sum, p) => sum + p.t, 0) / n
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / n
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / n
+  let varT = 0
+  let covX = 0
+  let covY = 0
+  for (const p of points) {
+    varT += (p.t - meanT) ** 2
+    covX += (p.t - meanT) * (p.x - meanX)
+    covY += (p.t - meanT) * (p.y - meanY)
+  }
+  if (varT === 0) return null
+
+  const vx = covX / varT // km/h east
+  const vy = covY / varT // km/h north
+  const speedKmh = Math.hypot(vx, vy)
+  if (speedKmh < minSpeedKmh) return null
+
+  return {
+    courseDeg: ((Math.atan2(vx, vy) * 180) / Math.PI + 360) % 360,
+    speedKmh,
+    speedKnots: speedKmh / KMH_PER_KNOT,
+    fixes: n,
+  }
+}
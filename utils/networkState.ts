@@ -1,48 +1,45 @@
 import { useState, useEffect } from 'react'
 
+// Basic connectivity check, usable outside of React components
+export const checkConnectivity = async (): Promise<boolean> => {
+  try {
+    const response = await fetch('https://www.google.com/favicon.ico', {
+      method: 'HEAD',
+      cache: 'no-cache',
+    })
+    return response.ok
+  } catch (error) {
+    return false
+  }
+}
+
 // Simple network state hook for basic connectivity detection
 export const useNetworkState = () => {
   const [isConnected, setIsConnected] = useState(true)
 
   useEffect(() => {
     // Basic connectivity check
-    const checkConnectivity = async () => {
-      try {
-        const response = await fetch('https://www.google.com/favicon.ico', {
-          method: 'HEAD',
-          cache: 'no-cache',
-        })
-        setIsConnected(response.ok)
-      } catch (error) {
-        setIsConnected(false)
-      }
+    const runCheck = async () => {
+      setIsConnected(await checkConnectivity())
     }
 
     // Check immediately
-    checkConnectivity()
+    runCheck()
 
     // Check every 30 seconds
-    const interval = setInterval(checkConnectivity, 30000)
+    const interval = setInterval(runCheck, 30000)
 
     return () => clearInterval(interval)
   }, [])
 
   const refreshNetworkState = async () => {
-    try {
-      const response = await fetch('https://www.google.com/favicon.ico', {
-        method: 'HEAD',
-        cache: 'no-cache',
-      })
-      setIsConnected(response.ok)
-      return response.ok
-    } catch (error) {
-      setIsConnected(false)
-      return false
-    }
+    const connected = await checkConnectivity()
+    setIsConnected(connected)
+    return connected
   }
 
   return {
     isConnected,
     refreshNetworkState
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,105 @@
+// How often to take a GPS fix: often near a boundary or at speed, rarely in open water, and no more
+// often than the battery can afford for the rest of the trip
+
+export type BatteryReading = {
+  level: number // 0-1
+  charging: boolean
+  lowPowerMode: boolean // the phone's own battery saver
+}
+
+export type PollInputs = {
+  boundaryKm: number // to the nearest zone edge or IMBL; 0 inside a zone or across the line; Infinity if none near
+  speedKnots: number | null // null when unknown
+  battery: BatteryReading | null // null when the phone cannot report it
+  tripHoursLeft: number | null // null when no battery budget applies
+  otherDrainPctPerHour?: number // measured drain from everything but GPS, when known
+}
+
+export type PollBounds = {
+  minSeconds: number // fastest polling, used right at a boundary
+  maxSeconds: number // slowest polling, used in open water
+}
+
+export type PollReason = "close" | "approaching" | "open_water" | "budget" | "low_battery"
+
+export type PollDecision = {
+  seconds: number
+  reason: PollReason
+  proximitySeconds: number // what the boundary distance alone asks for
+  budgetSeconds: number // the fastest the battery budget allows
+}
+
+// Within this distance of a boundary the fastest rate is used whatever the speed
+export const CLOSE_KM = 1
+// Fixes wanted between now and reaching the boundary at the current speed
+const FIXES_BEFORE_BOUNDARY = 4
+// A stopped or drifting boat may get under way at any moment
+const ASSUMED_MIN_KNOTS = 6
+// Near a boundary the battery may not stretch polling beyond this
+export const SAFETY_CEILING_SECONDS = 30
+
+// Rough phone model: a fix costs ~0.01 % including the receiver warming up again, so polling every 5 s costs ~7 %/h
+// and every minute ~0.6 %/h, on top of ~1.5 %/h for a locked phone. It holds for the intervals polled here, not
+// for 1 Hz tracking, where the receiver stays warm and each fix costs far less.
+const GPS_DRAIN_PCT_PER_FIX = 0.01
+const BASE_DRAIN_PCT_PER_HOUR = 1.5
+// Battery kept back for an emergency call at the end of the trip
+export const RESERVE_PCT = 15
+
+const KMH_PER_KNOT = 1.852
+
+// GPS drain for one fix every `seconds`, in % per hour
+export function gpsDrainPctPerHour(seconds: number) {
+  return (3600 / seconds) * GPS_DRAIN_PCT_PER_FIX
+}
+
+// Interval that gives FIXES_BEFORE_BOUNDARY fixes before the boat can reach the boundary
+export function proximitySeconds(boundaryKm: number, speedKnots: number | null, bounds: PollBounds) {
+  if (boundaryKm <= CLOSE_KM) return bounds.minSeconds
+  if (!Number.isFinite(boundaryKm)) return bounds.maxSeconds
+  const speedKmh = Math.max(speedKnots ?? 0, ASSUMED_MIN_KNOTS) * KMH_PER_KNOT
+  const secondsToBoundary = ((boundaryKm - CLOSE_KM) / speedKmh) * 3600
+  return clamp(secondsToBoundary / FIXES_BEFORE_BOUNDARY, bounds.minSeconds, bounds.maxSeconds)
+}
+
+// Fastest interval that leaves RESERVE_PCT at the end of the trip; low battery backs off further
+export function budgetSeconds(
+  battery: BatteryReading | null,
+  tripHoursLeft: number | null,
+  bounds: PollBounds,
+  otherDrainPctPerHour = BASE_DRAIN_PCT_PER_HOUR,
+) {
+  if (!battery || battery.charging) return bounds.minSeconds
+  let seconds = bounds.minSeconds
+  if (tripHoursLeft !== null) {
+    const hours = Math.max(tripHoursLeft, 1)
+    const gpsAllowance = (battery.level * 100 - RESERVE_PCT) / hours - Math.max(otherDrainPctPerHour, 0)
+    seconds = gpsAllowance > 0 ? (3600 * GPS_DRAIN_PCT_PER_FIX) / gpsAllowance : bounds.maxSeconds
+  }
+  if (battery.level <= 0.1) seconds *= 4
+  else if (battery.level <= 0.2 || battery.lowPowerMode) seconds *= 2
+  return clamp(seconds, bounds.minSeconds, bounds.maxSeconds)
+}
+
+export function pollInterval(inputs: PollInputs, bounds: PollBounds): PollDecision {
+  const proximity = proximitySeconds(inputs.boundaryKm, inputs.speedKnots, bounds)
+  const budget = budgetSeconds(inputs.battery, inputs.tripHoursLeft, bounds, inputs.otherDrainPctPerHour)
+  const close = inputs.boundaryKm <= CLOSE_KM
+
+  let seconds = Math.max(proximity, budget)
+  // Missing a crossing costs more than a flat battery at the dock
+  if (close) seconds = Math.min(seconds, Math.max(bounds.minSeconds, SAFETY_CEILING_SECONDS))
+  seconds = Math.round(seconds)
+
+  const lowBattery = !!inputs.battery && !inputs.battery.charging && (inputs.battery.level <= 0.2 || inputs.battery.lowPowerMode)
+  let reason: PollReason
+  if (close) reason = "close"
+  else if (budget > proximity) reason = lowBattery ? "low_battery" : "budget"
+  else reason = proximity >= bounds.maxSeconds ? "open_water" : "approaching"
+
+  return { seconds, reason, proximitySeconds: Math.round(proximity), budgetSeconds: Math.round(budget) }
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(Math.max(value, min), max)
+}
@@ -0,0 +1,156 @@
+type RawFix = {
+  lat: number
+  lon: number
+  timestamp: number // epoch ms
+  accuracyMeters?: number | null // horizontal accuracy reported by the receiver
+}
+
+export type FilteredFix = {
+  lat: number
+  lon: number
+  timestamp: number
+  accuracyMeters: number // estimated position error after filtering
+  speedMps: number
+}
+
+export type RejectReason = "low_accuracy" | "outlier" | "stale"
+
+export type FilterResult = { accepted: true; fix: FilteredFix } | { accepted: false; reason: RejectReason }
+
+export type PositionFilterOptions = {
+  maxAccuracyMeters?: number // fixes reported worse than this are ignored; defaults to 50 m
+  accelerationMps2?: number // expected manoeuvring; larger follows turns faster; defaults to 0.5 m/s²
+  gateSigma?: number // fixes further than this many standard deviations from the prediction are outliers; defaults to 4
+  maxConsecutiveOutliers?: number // after this many in a row the filter restarts at the new fix; defaults to 3
+  defaultAccuracyMeters?: number // used when the receiver reports none; defaults to 15 m
+}
+
+const METERS_PER_DEG_LAT = 111320
+
+// One axis of a constant-velocity Kalman filter: position (m) and velocity (m/s)
+type Axis = { p: number; v: number; pp: number; pv: number; vv: number }
+
+function predict(axis: Axis, dt: number, q: number) {
+  axis.p += axis.v * dt
+  // P = F P F' + Q for F = [[1, dt], [0, 1]] and white-noise acceleration
+  const pp = axis.pp + 2 * dt * axis.pv + dt * dt * axis.vv + (q * dt ** 4) / 4
+  const pv = axis.pv + dt * axis.vv + (q * dt ** 3) / 2
+  const vv = axis.vv + q * dt * dt
+  axis.pp = pp
+  axis.pv = pv
+  axis.vv = vv
+}
+
+function correct(axis: Axis, z: number, r: number) {
+  const s = axis.pp + r
+  const kp = axis.pp / s
+  const kv = axis.pv / s
+  const y = z - axis.p
+  axis.p += kp * y
+  axis.v += kv * y
+  const pp = (1 - kp) * axis.pp
+  const pv = (1 - kp) * axis.pv
+  const vv = axis.vv - kv * axis.pv
+  axis.pp = pp
+  axis.pv = pv
+  axis.vv = vv
+}
+
+// Smooths GPS fixes for geofencing: drops low-accuracy and out-of-order fixes, gates outliers against
+// the predicted position, and tracks position and velocity with a constant-velocity Kalman filter
+export class PositionFilter {
+  private options: Required<PositionFilterOptions>
+  private origin: { lat: number; lon: number } | null = null
+  private x: Axis = { p: 0, v: 0, pp: 0, pv: 0, vv: 0 } // east
+  private y: Axis = { p: 0, v: 0, pp: 0, pv: 0, vv: 0 } // north
+  private lastTimestamp = 0
+  private outliers = 0
+
+  constructor(options: PositionFilterOptions = {}) {
+    this.options = {
+      maxAccuracyMeters: options.maxAccuracyMeters ?? 50,
+      accelerationMps2: options.accelerationMps2 ?? 0.5,
+      gateSigma: options.gateSigma ?? 4,
+      maxConsecutiveOutliers: options.maxConsecutiveOutliers ?? 3,
+      defaultAccuracyMeters: options.defaultAccuracyMeters ?? 15,
+    }
+  }
+
+  reset() {
+    this.origin = null
+    this.outliers = 0
+    this.lastTimestamp = 0
+  }
+
+  // Last filtered position, or null before the first accepted fix
+  get current(): FilteredFix | null {
+    return this.origin ? this.toFix() : null
+  }
+
+  update(raw: RawFix): FilterResult {
+    const accuracy = raw.accuracyMeters != null && raw.accuracyMeters > 0 ? raw.accuracyMeters : this.options.defaultAccuracyMeters
+    if (accuracy > this.options.maxAccuracyMeters) return { accepted: false, reason: "low_accuracy" }
+
+    if (!this.origin) {
+      this.start(raw, accuracy)
+      return { accepted: true, fix: this.toFix() }
+    }
+    if (raw.timestamp <= this.lastTimestamp) return { accepted: false, reason: "stale" }
+
+    const dt = (raw.timestamp - this.lastTimestamp) / 1000
+    const q = this.options.accelerationMps2 ** 2
+    const predicted = { x: { ...this.x }, y: { ...this.y } }
+    predict(predicted.x, dt, q)
+    predict(predicted.y, dt, q)
+
+    // Mahalanobis distance of the fix from the prediction, axes treated as independent
+    const z = this.project(raw)
+    const r = accuracy * accuracy
+    const d2 = (z.x - predicted.x.p) ** 2 / (predicted.x.pp + r) + (z.y - predicted.y.p) ** 2 / (predicted.y.pp + r)
+    if (d2 > this.options.gateSigma ** 2) {
+      this.outliers++
+      // A run of consistent "outliers" means the filter is wrong (e.g. after a long gap), not the GPS
+      if (this.outliers < this.options.maxConsecutiveOutliers) return { accepted: false, reason: "outlier" }
+      this.start(raw, accuracy)
+      return { accepted: true, fix: this.toFix() }
+    }
+
+    this.outliers = 0
+    this.x = predicted.x
+    this.y = predicted.y
+    correct(this.x, z.x, r)
+    correct(this.y, z.y, r)
+    this.lastTimestamp = raw.timestamp
+    return { accepted: true, fix: this.toFix() }
+  }
+
+  private start(raw: RawFix, accuracy: number) {
+    this.origin = { lat: raw.lat, lon: raw.lon }
+    const r = accuracy * accuracy
+    // Unknown velocity: allow up to ~10 m/s (about 20 knots) either way
+    this.x = { p: 0, v: 0, pp: r, pv: 0, vv: 100 }
+    this.y = { p: 0, v: 0, pp: r, pv: 0, vv: 100 }
+    this.lastTimestamp = raw.timestamp
+    this.outliers = 0
+  }
+
+  private metersPerDegLon() {
+    return METERS_PER_DEG_LAT * Math.cos(((this.origin?.lat ?? 0) * Math.PI) / 180)
+  }
+
+  private project(p: { lat: number; lon: number }) {
+    const origin = this.origin!
+    return { x: (p.lon - origin.lon) * this.metersPerDegLon(), y: (p.lat - origin.lat) * METERS_PER_DEG_LAT }
+  }
+
+  private toFix(): FilteredFix {
+    const origin = this.origin!
+    return {
+      lat: origin.lat + this.y.p / METERS_PER_DEG_LAT,
+      lon: origin.lon + this.x.p / this.metersPerDegLon(),
+      timestamp: this.lastTimestamp,
+      accuracyMeters: Math.sqrt((this.x.pp + this.y.pp) / 2),
+      speedMps: Math.hypot(this.x.v, this.y.v),
+    }
+  }
+}
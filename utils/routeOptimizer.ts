@@ -0,0 +1,271 @@
+import { haversineKm } from "./geo"
+
+type LatLon = { lat: number; lon: number }
+
+export type RouteStop = LatLon & {
+  window?: { start: number; end: number } // epoch ms; arriving early means waiting for the start
+  serviceMinutes?: number // time spent at the stop (fishing, hauling nets)
+}
+
+export type RouteOptions = {
+  departAt?: number // epoch ms; defaults to now
+  speedKmh?: number // defaults to 15 km/h, a typical small fishing boat
+  returnToStart?: boolean // closed tour back to the start (port); defaults to true
+  returnBy?: number // epoch ms deadline for getting back to port
+  exactLimit?: number // solve exactly up to this many stops; defaults to 8
+}
+
+export type TimeWindowViolation = {
+  stop: number // index into the input stops, or -1 for the return-by deadline
+  arrival: number // epoch ms
+  deadline: number // epoch ms
+  lateMinutes: number
+}
+
+export type OptimizedRoute = {
+  order: number[] // indexes into the input stops, in visiting order
+  distanceKm: number
+  arrivals: number[] // epoch ms arrival at each stop, aligned with order
+  departures: number[] // epoch ms departure from each stop, after waiting and service
+  returnAt: number | null // epoch ms back at the start, when returnToStart
+  violations: TimeWindowViolation[]
+  exact: boolean // true when the order is provably optimal
+}
+
+type Evaluation = { lateMinutes: number; distanceKm: number }
+
+const DEFAULT_SPEED_KMH = 15
+const DEFAULT_EXACT_LIMIT = 8
+const EPSILON = 1e-9
+// Safety cap on local-search passes; each pass is O(n^3) at worst
+const MAX_IMPROVEMENT_PASSES = 200
+
+// Lateness dominates: a shorter route that misses a window is never preferred
+function better(a: Evaluation, b: Evaluation) {
+  if (a.lateMinutes < b.lateMinutes - EPSILON) return true
+  if (a.lateMinutes > b.lateMinutes + EPSILON) return false
+  return a.distanceKm < b.distanceKm - EPSILON
+}
+
+class RouteProblem {
+  // Node 0 is the start; node i + 1 is stops[i]
+  private dist: number[][]
+  private msPerKm: number
+
+  constructor(
+    start: LatLon,
+    private stops: RouteStop[],
+    private departAt: number,
+    speedKmh: number,
+    private returnToStart: boolean,
+    private returnBy: number | undefined,
+  ) {
+    const nodes = [start, ...stops]
+    this.dist = nodes.map((a) => nodes.map((b) => haversineKm(a, b)))
+    this.msPerKm = (60 * 60 * 1000) / speedKmh
+  }
+
+  evaluate(order: number[]): Evaluation {
+    return this.walk(order, order.length)
+  }
+
+  // Cost of visiting order[0..length); the return leg is only counted for a full route
+  walk(order: number[], length: number): Evaluation {
+    let time = this.departAt
+    let node = 0
+    let distanceKm = 0
+    let lateMinutes = 0
+
+    for (let k = 0; k < length; k++) {
+      const stop = this.stops[order[k]]
+      const leg = this.dist[node][order[k] + 1]
+      distanceKm += leg
+      time += leg * this.msPerKm
+      if (stop.window) {
+        if (time < stop.window.start) time = stop.window.start
+        else if (time > stop.window.end) lateMinutes += (time - stop.window.end) / 60000
+      }
+      time += (stop.serviceMinutes ?? 0) * 60000
+      node = order[k] + 1
+    }
+
+    if (length === order.length && this.returnToStart) {
+      const leg = this.dist[node][0]
+      distanceKm += leg
+      time += leg * this.msPerKm
+      if (this.returnBy !== undefined && time > this.returnBy) lateMinutes += (time - this.returnBy) / 60000
+    }
+    return { lateMinutes, distanceKm }
+  }
+
+  schedule(order: number[], exact: boolean): OptimizedRoute {
+    const arrivals: number[] = []
+    const departures: number[] = []
+    const violations: TimeWindowViolation[] = []
+    let time = this.departAt
+    let node = 0
+    let distanceKm = 0
+
+    for (const index of order) {
+      const stop = this.stops[index]
+      const leg = this.dist[node][index + 1]
+      distanceKm += leg
+      time += leg * this.msPerKm
+      arrivals.push(time)
+      if (stop.window) {
+        if (time < stop.window.start) time = stop.window.start
+        else if (time > stop.window.end) {
+          violations.push({ stop: index, arrival: time, deadline: stop.window.end, lateMinutes: (time - stop.window.end) / 60000 })
+        }
+      }
+      time += (stop.serviceMinutes ?? 0) * 60000
+      departures.push(time)
+      node = index + 1
+    }
+
+    let returnAt: number | null = null
+    if (this.returnToStart) {
+      const leg = this.dist[node][0]
+      distanceKm += leg
+      returnAt = time + leg * this.msPerKm
+      if (this.returnBy !== undefined && returnAt > this.returnBy) {
+        violations.push({ stop: -1, arrival: returnAt, deadline: this.returnBy, lateMinutes: (returnAt - this.returnBy) / 60000 })
+      }
+    }
+
+    return { order, distanceKm, arrivals, departures, returnAt, violations, exact }
+  }
+
+  // Depth-first search over all orders; partial lateness and distance only grow, so they prune
+  solveExact(): number[] {
+    const n = this.stops.length
+    let bestOrder = this.nearestNeighbour()
+    let best = this.evaluate(bestOrder)
+    const order: number[] = []
+    const used = new Array<boolean>(n).fill(false)
+
+    const search = () => {
+      if (order.length === n) {
+        const cost = this.evaluate(order)
+        if (better(cost, best)) {
+          best = cost
+          bestOrder = [...order]
+        }
+        return
+      }
+      for (let i = 0; i < n; i++) {
+        if (used[i]) continue
+        order.push(i)
+        const partial = this.walk(order, order.length)
+        if (!better(best, partial)) {
+          used[i] = true
+          search()
+          used[i] = false
+        }
+        order.pop()
+      }
+    }
+
+    search()
+    return bestOrder
+  }
+
+  solveHeuristic(): number[] {
+    const seeds = [this.nearestNeighbour(), this.earliestDeadlineFirst()]
+    let bestOrder = seeds[0]
+    let best = this.evaluate(bestOrder)
+    for (const seed of seeds) {
+      const improved = this.improve(seed)
+      const cost = this.evaluate(improved)
+      if (better(cost, best)) {
+        best = cost
+        bestOrder = improved
+      }
+    }
+    return bestOrder
+  }
+
+  private nearestNeighbour(): number[] {
+    const remaining = this.stops.map((_, i) => i)
+    const order: number[] = []
+    let node = 0
+    while (remaining.length) {
+      let best = 0
+      for (let k = 1; k < remaining.length; k++) {
+        if (this.dist[node][remaining[k] + 1] < this.dist[node][remaining[best] + 1]) best = k
+      }
+      const next = remaining.splice(best, 1)[0]
+      order.push(next)
+      node = next + 1
+    }
+    return order
+  }
+
+  private earliestDeadlineFirst(): number[] {
+    return this.stops
+      .map((stop, i) => ({ i, end: stop.window?.end ?? Number.POSITIVE_INFINITY }))
+      .sort((a, b) => a.end - b.end || a.i - b.i)
+      .map(({ i }) => i)
+  }
+
+  // 2-opt (reverse a segment) and Or-opt (move a run of 1-3 stops) until neither helps
+  private improve(initial: number[]): number[] {
+    let order = [...initial]
+    let best = this.evaluate(order)
+    const n = order.length
+
+    for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+      let improved = false
+
+      for (let i = 0; i < n - 1; i++) {
+        for (let j = i + 1; j < n; j++) {
+          const candidate = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)]
+          const cost = this.evaluate(candidate)
+          if (better(cost, best)) {
+            order = candidate
+            best = cost
+            improved = true
+          }
+        }
+      }
+
+      for (let length = 1; length <= 3 && length < n; length++) {
+        for (let i = 0; i + length <= n; i++) {
+          const run = order.slice(i, i + length)
+          const rest = [...order.slice(0, i), ...order.slice(i + length)]
+          for (let k = 0; k <= rest.length; k++) {
+            if (k === i) continue
+            const candidate = [...rest.slice(0, k), ...run, ...rest.slice(k)]
+            const cost = this.evaluate(candidate)
+            if (better(cost, best)) {
+              order = candidate
+              best = cost
+              improved = true
+              break
+            }
+          }
+        }
+      }
+
+      if (!improved) break
+    }
+    return order
+  }
+}
+
+// Visiting order that minimises lateness against time windows first, then distance.
+// Small problems are solved exactly; larger ones by local search from two seed orders.
+export function optimizeRoute(start: LatLon, stops: RouteStop[], options: RouteOptions = {}): OptimizedRoute {
+  const problem = new RouteProblem(
+    start,
+    stops,
+    options.departAt ?? Date.now(),
+    options.speedKmh ?? DEFAULT_SPEED_KMH,
+    options.returnToStart ?? true,
+    options.returnBy,
+  )
+  if (stops.length === 0) return problem.schedule([], true)
+
+  const exact = stops.length <= (options.exactLimit ?? DEFAULT_EXACT_LIMIT)
+  return problem.schedule(exact ? problem.solveExact() : problem.solveHeuristic(), exact)
+}
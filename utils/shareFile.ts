@@ -0,0 +1,9 @@
+import * as Sharing from "expo-sharing"
+
+// Hands a file to the system share sheet (WhatsApp, email, Drive, Files...) so it can leave the phone.
+// False where there is no share sheet (e.g. some web browsers); the file is still on disk then.
+export async function shareFile(uri: string, options: { mimeType: string; title: string; uti?: string }): Promise<boolean> {
+  if (!(await Sharing.isAvailableAsync())) return false
+  await Sharing.shareAsync(uri, { mimeType: options.mimeType, dialogTitle: options.title, UTI: options.uti })
+  return true
+}
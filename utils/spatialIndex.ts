@@ -0,0 +1,209 @@
+import { haversineKm } from "./geo"
+
+type LatLon = { lat: number; lon: number }
+
+export type BBox = { minLat: number; minLon: number; maxLat: number; maxLon: number }
+
+type Node<T> = {
+  box: BBox
+  children: Node<T>[] | null // null for leaves
+  items: { item: T; box: BBox }[]
+}
+
+const KM_PER_DEG_LAT = 111.32
+const DEFAULT_NODE_SIZE = 16
+
+export function pointBBox(p: LatLon): BBox {
+  return { minLat: p.lat, minLon: p.lon, maxLat: p.lat, maxLon: p.lon }
+}
+
+export function ringBBox(ring: LatLon[]): BBox {
+  const box = { minLat: Infinity, minLon: Infinity, maxLat: -Infinity, maxLon: -Infinity }
+  for (const p of ring) {
+    box.minLat = Math.min(box.minLat, p.lat)
+    box.maxLat = Math.max(box.maxLat, p.lat)
+    box.minLon = Math.min(box.minLon, p.lon)
+    box.maxLon = Math.max(box.maxLon, p.lon)
+  }
+  return box
+}
+
+// Box that contains every point within radiusKm of p (generous near the poles, fine at Indian latitudes)
+export function bboxAround(p: LatLon, radiusKm: number): BBox {
+  const dLat = radiusKm / KM_PER_DEG_LAT
+  const dLon = radiusKm / (KM_PER_DEG_LAT * Math.max(0.01, Math.cos((p.lat * Math.PI) / 180)))
+  return { minLat: p.lat - dLat, minLon: p.lon - dLon, maxLat: p.lat + dLat, maxLon: p.lon + dLon }
+}
+
+function intersects(a: BBox, b: BBox) {
+  return a.minLat <= b.maxLat && a.maxLat >= b.minLat && a.minLon <= b.maxLon && a.maxLon >= b.minLon
+}
+
+function union(boxes: BBox[]): BBox {
+  const box = { minLat: Infinity, minLon: Infinity, maxLat: -Infinity, maxLon: -Infinity }
+  for (const b of boxes) {
+    box.minLat = Math.min(box.minLat, b.minLat)
+    box.maxLat = Math.max(box.maxLat, b.maxLat)
+    box.minLon = Math.min(box.minLon, b.minLon)
+    box.maxLon = Math.max(box.maxLon, b.maxLon)
+  }
+  return box
+}
+
+// Distance to the nearest point of the box; never more than the distance to anything inside it
+function distanceToBoxKm(p: LatLon, box: BBox) {
+  const lat = Math.min(Math.max(p.lat, box.minLat), box.maxLat)
+  const lon = Math.min(Math.max(p.lon, box.minLon), box.maxLon)
+  return lat === p.lat && lon === p.lon ? 0 : haversineKm(p, { lat, lon })
+}
+
+// Minimal binary min-heap for best-first nearest-neighbour search
+class MinHeap<V> {
+  private entries: { key: number; value: V }[] = []
+
+  get size() {
+    return this.entries.length
+  }
+
+  push(key: number, value: V) {
+    const entries = this.entries
+    entries.push({ key, value })
+    let i = entries.length - 1
+    while (i > 0) {
+      const parent = (i - 1) >> 1
+      if (entries[parent].key <= entries[i].key) break
+      ;[entries[parent], entries[i]] = [entries[i], entries[parent]]
+      i = parent
+    }
+  }
+
+  pop(): { key: number; value: V } | undefined {
+    const entries = this.entries
+    const top = entries[0]
+    const last = entries.pop()
+    if (entries.length > 0 && last) {
+      entries[0] = last
+      let i = 0
+      for (;;) {
+        const left = 2 * i + 1
+        const right = left + 1
+        let smallest = i
+        if (left < entries.length && entries[left].key < entries[smallest].key) smallest = left
+        if (right < entries.length && entries[right].key < entries[smallest].key) smallest = right
+        if (smallest === i) break
+        ;[entries[smallest], entries[i]] = [entries[i], entries[smallest]]
+        i = smallest
+      }
+    }
+    return top
+  }
+}
+
+// Static R-tree, bulk-loaded with Sort-Tile-Recursive packing. Rebuild it when the data changes.
+export class SpatialIndex<T> {
+  private root: Node<T> | null
+  readonly size: number
+
+  private constructor(entries: { item: T; box: BBox }[], nodeSize: number) {
+    this.size = entries.length
+    this.root = entries.length ? SpatialIndex.build(entries, Math.max(2, nodeSize)) : null
+  }
+
+  static fromPoints<T>(items: T[], getPoint: (item: T) => LatLon, nodeSize = DEFAULT_NODE_SIZE) {
+    return new SpatialIndex(
+      items.map((item) => ({ item, box: pointBBox(getPoint(item)) })),
+      nodeSize,
+    )
+  }
+
+  static fromBoxes<T>(items: T[], getBox: (item: T) => BBox, nodeSize = DEFAULT_NODE_SIZE) {
+    return new SpatialIndex(
+      items.map((item) => ({ item, box: getBox(item) })),
+      nodeSize,
+    )
+  }
+
+  private static build<T>(entries: { item: T; box: BBox }[], nodeSize: number): Node<T> {
+    let level: Node<T>[] = SpatialIndex.pack(entries, nodeSize, (e) => e.box).map((group) => ({
+      box: union(group.map((e) => e.box)),
+      children: null,
+      items: group,
+    }))
+    while (level.length > 1) {
+      level = SpatialIndex.pack(level, nodeSize, (n) => n.box).map((group) => ({
+        box: union(group.map((n) => n.box)),
+        children: group,
+        items: [],
+      }))
+    }
+    return level[0]
+  }
+
+  // Sort into vertical slices by longitude, then each slice by latitude, and cut into runs of nodeSize
+  private static pack<E>(entries: E[], nodeSize: number, box: (e: E) => BBox): E[][] {
+    const centerLon = (e: E) => (box(e).minLon + box(e).maxLon) / 2
+    const centerLat = (e: E) => (box(e).minLat + box(e).maxLat) / 2
+    const groups = Math.ceil(entries.length / nodeSize)
+    const sliceSize = nodeSize * Math.ceil(Math.sqrt(groups))
+
+    const sorted = [...entries].sort((a, b) => centerLon(a) - centerLon(b))
+    const result: E[][] = []
+    for (let s = 0; s < sorted.length; s += sliceSize) {
+      const slice = sorted.slice(s, s + sliceSize).sort((a, b) => centerLat(a) - centerLat(b))
+      for (let i = 0; i < slice.length; i += nodeSize) result.push(slice.slice(i, i + nodeSize))
+    }
+    return result
+  }
+
+  // Items whose bounding box intersects the query box
+  search(box: BBox): T[] {
+    const result: T[] = []
+    if (!this.root) return result
+    const stack: Node<T>[] = [this.root]
+    while (stack.length) {
+      const node = stack.pop()!
+      if (!intersects(node.box, box)) continue
+      if (node.children) stack.push(...node.children)
+      else for (const entry of node.items) if (intersects(entry.box, box)) result.push(entry.item)
+    }
+    return result
+  }
+
+  // k nearest items, nearest first. distanceKm gives the exact distance to an item (e.g. to a polygon
+  // edge); it must never be less than the distance to the item's bounding box.
+  nearest(
+    p: LatLon,
+    k = 1,
+    options: { maxDistanceKm?: number; distanceKm?: (item: T, p: LatLon) => number; filter?: (item: T) => boolean } = {},
+  ): { item: T; distanceKm: number }[] {
+    const result: { item: T; distanceKm: number }[] = []
+    if (!this.root || k <= 0) return result
+
+    const maxDistance = options.maxDistanceKm ?? Infinity
+    const heap = new MinHeap<{ node?: Node<T>; item?: T; exact: boolean }>()
+    heap.push(distanceToBoxKm(p, this.root.box), { node: this.root, exact: false })
+
+    while (heap.size && result.length < k) {
+      const { key, value } = heap.pop()!
+      if (key > maxDistance) break
+
+      if (value.node) {
+        const node = value.node
+        if (node.children) {
+          for (const child of node.children) heap.push(distanceToBoxKm(p, child.box), { node: child, exact: false })
+        } else {
+          for (const entry of node.items) {
+            if (options.filter && !options.filter(entry.item)) continue
+            heap.push(distanceToBoxKm(p, entry.box), { item: entry.item, exact: false })
+          }
+        }
+      } else if (value.exact || !options.distanceKm) {
+        result.push({ item: value.item as T, distanceKm: key })
+      } else {
+        // Re-queue with the exact distance; it can only be further than the box
+        heap.push(options.distanceKm(value.item as T, p), { item: value.item, exact: true })
+      }
+    }
+    return result
+  }
+}
@@ -0,0 +1,228 @@
+import type { LocationFix } from "../types"
+
+type TrackingPoint = {
+  timestamp: Date | string | number
+  location: { lat: number; lon: number }
+  speed: number // knots
+  heading: number
+  accuracy: number
+}
+
+export type TrackFormat = "gpx" | "nmea" | "tracking_data"
+
+export type ParsedTrack = {
+  fixes: LocationFix[] // sorted by time
+  errors: string[] // lines or points that were skipped
+}
+
+const MPS_PER_KNOT = 1852 / 3600
+// Rough horizontal error per unit of HDOP for a consumer receiver
+const METERS_PER_HDOP = 5
+
+function sortFixes(fixes: LocationFix[]) {
+  return fixes.sort((a, b) => a.timestamp - b.timestamp)
+}
+
+function validFix(fix: LocationFix) {
+  return (
+    Number.isFinite(fix.latitude) &&
+    Number.isFinite(fix.longitude) &&
+    Math.abs(fix.latitude) <= 90 &&
+    Math.abs(fix.longitude) <= 180 &&
+    Number.isFinite(fix.timestamp)
+  )
+}
+
+// ---- GPX ----
+
+function tagValue(xml: string, tag: string) {
+  const match = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([^<]*)</(?:\\w+:)?${tag}>`).exec(xml)
+  return match ? match[1].trim() : undefined
+}
+
+function attrValue(attrs: string, name: string) {
+  const match = new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`).exec(attrs)
+  return match ? match[1] : undefined
+}
+
+function optionalNumber(value: string | undefined) {
+  if (value === undefined || value === "") return null
+  const n = Number(value)
+  return Number.isFinite(n) ? n : null
+}
+
+// Track points (or route points when there is no track); speed and course come from GPX 1.0 or extensions
+export function parseGPX(xml: string): ParsedTrack {
+  const errors: string[] = []
+  const fixes: LocationFix[] = []
+  const pattern = /<(trkpt|rtept)(\s[^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/g
+  const points = [...xml.matchAll(pattern)]
+  const usable = points.some((m) => m[1] === "trkpt") ? points.filter((m) => m[1] === "trkpt") : points
+
+  usable.forEach((m, i) => {
+    const attrs = m[2]
+    const body = m[3] ?? ""
+    const time = tagValue(body, "time")
+    const hdop = optionalNumber(tagValue(body, "hdop"))
+    const fix: LocationFix = {
+      latitude: Number(attrValue(attrs, "lat")),
+      longitude: Number(attrValue(attrs, "lon")),
+      accuracy: hdop !== null ? hdop * METERS_PER_HDOP : null,
+      speed: optionalNumber(tagValue(body, "speed")),
+      heading: optionalNumber(tagValue(body, "course")),
+      timestamp: time ? Date.parse(time) : NaN,
+    }
+    if (!time) errors.push(`Point ${i + 1} has no time`)
+    else if (!validFix(fix)) errors.push(`Point ${i + 1} has an invalid position or time`)
+    else fixes.push(fix)
+  })
+
+  if (!usable.length) errors.push("No GPX track or route points found")
+  return { fixes: sortFixes(fixes), errors }
+}
+
+// ---- NMEA 0183 ----
+
+function checksumOk(sentence: string) {
+  const star = sentence.lastIndexOf("*")
+  if (star < 0) return true // checksum is optional
+  let sum = 0
+  for (let i = 1; i < star; i++) sum ^= sentence.charCodeAt(i)
+  return sum === parseInt(sentence.slice(star + 1, star + 3), 16)
+}
+
+// ddmm.mmmm / dddmm.mmmm with hemisphere
+function nmeaCoordinate(value: string, hemisphere: string) {
+  if (!value) return NaN
+  const dot = value.indexOf(".")
+  const degreeDigits = (dot < 0 ? value.length : dot) - 2
+  const degrees = Number(value.slice(0, degreeDigits))
+  const minutes = Number(value.slice(degreeDigits))
+  const decimal = degrees + minutes / 60
+  return hemisphere === "S" || hemisphere === "W" ? -decimal : decimal
+}
+
+function nmeaTimeOfDay(value: string) {
+  const h = Number(value.slice(0, 2))
+  const m = Number(value.slice(2, 4))
+  const s = Number(value.slice(4))
+  return ((h * 60 + m) * 60 + s) * 1000
+}
+
+// RMC sentences give position, date, speed and course; GGA adds HDOP for the same second.
+// Sentences without a date are dated from the last RMC date or baseDate, rolling over at midnight.
+export function parseNMEA(text: string, options: { baseDate?: Date } = {}): ParsedTrack {
+  const errors: string[] = []
+  const byTime = new Map<number, LocationFix>()
+  const base = options.baseDate ?? new Date()
+  let dayStart = Date.UTC(base.getUTCFullYear(), base.getUTCMonth(), base.getUTCDate())
+  let lastTimeOfDay = -1
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim()
+    if (!line.startsWith("$")) return
+    if (!checksumOk(line)) {
+      errors.push(`Line ${i + 1}: bad checksum`)
+      return
+    }
+    const fields = line.replace(/\*[0-9A-Fa-f]{2}$/, "").split(",")
+    const type = fields[0].slice(3)
+
+    if (type === "RMC") {
+      const [, time, status, lat, ns, lon, ew, knots, course, date] = fields
+      if (status !== "A") return // receiver has no fix
+      const timeOfDay = nmeaTimeOfDay(time)
+      if (date && date.length === 6) {
+        dayStart = Date.UTC(2000 + Number(date.slice(4, 6)), Number(date.slice(2, 4)) - 1, Number(date.slice(0, 2)))
+      } else if (lastTimeOfDay >= 0 && timeOfDay < lastTimeOfDay - 12 * 3600 * 1000) {
+        dayStart += 24 * 3600 * 1000
+      }
+      lastTimeOfDay = timeOfDay
+      const timestamp = dayStart + timeOfDay
+      const fix: LocationFix = {
+        ...(byTime.get(timestamp) ?? { accuracy: null }),
+        latitude: nmeaCoordinate(lat, ns),
+        longitude: nmeaCoordinate(lon, ew),
+        speed: knots ? Number(knots) * MPS_PER_KNOT : null,
+        heading: course ? Number(course) : null,
+        timestamp,
+      }
+      if (validFix(fix)) byTime.set(timestamp, fix)
+      else errors.push(`Line ${i + 1}: invalid RMC position`)
+    } else if (type === "GGA") {
+      const [, time, lat, ns, lon, ew, quality, , hdop] = fields
+      if (!quality || quality === "0") return // no fix
+      const timeOfDay = nmeaTimeOfDay(time)
+      // Without a date from RMC, a jump back in time means the track ran past midnight
+      if (lastTimeOfDay >= 0 && timeOfDay < lastTimeOfDay - 12 * 3600 * 1000) dayStart += 24 * 3600 * 1000
+      lastTimeOfDay = timeOfDay
+      const timestamp = dayStart + timeOfDay
+      const existing = byTime.get(timestamp)
+      const fix: LocationFix = {
+        latitude: existing?.latitude ?? nmeaCoordinate(lat, ns),
+        longitude: existing?.longitude ?? nmeaCoordinate(lon, ew),
+        speed: existing?.speed ?? null,
+        heading: existing?.heading ?? null,
+        accuracy: hdop ? Number(hdop) * METERS_PER_HDOP : existing?.accuracy ?? null,
+        timestamp,
+      }
+      if (validFix(fix)) byTime.set(timestamp, fix)
+      else errors.push(`Line ${i + 1}: invalid GGA position`)
+    }
+  })
+
+  if (!byTime.size) errors.push("No NMEA RMC or GGA fixes found")
+  return { fixes: sortFixes([...byTime.values()]), errors }
+}
+
+// ---- Saved GPSTrackingData ----
+
+export function fromTrackingData(points: TrackingPoint[]): ParsedTrack {
+  const errors: string[] = []
+  const fixes: LocationFix[] = []
+  points.forEach((point, i) => {
+    const fix: LocationFix = {
+      latitude: point.location?.lat,
+      longitude: point.location?.lon,
+      accuracy: point.accuracy > 0 ? point.accuracy : null,
+      speed: Number.isFinite(point.speed) ? point.speed * MPS_PER_KNOT : null,
+      heading: Number.isFinite(point.heading) ? point.heading : null,
+      timestamp: new Date(point.timestamp).getTime(),
+    }
+    if (validFix(fix)) fixes.push(fix)
+    else errors.push(`Point ${i + 1} has an invalid position or time`)
+  })
+  return { fixes: sortFixes(fixes), errors }
+}
+
+// ---- Any format ----
+
+export function detectTrackFormat(content: string, fileName?: string): TrackFormat {
+  const extension = fileName?.toLowerCase().split(".").pop()
+  if (extension === "gpx") return "gpx"
+  if (extension === "nmea" || extension === "nma" || extension === "log") return "nmea"
+  if (extension === "json") return "tracking_data"
+  const start = content.trimStart()
+  if (start.startsWith("<")) return "gpx"
+  if (start.startsWith("[") || start.startsWith("{")) return "tracking_data"
+  return "nmea"
+}
+
+export function parseTrack(content: string, fileName?: string): ParsedTrack {
+  switch (detectTrackFormat(content, fileName)) {
+    case "gpx":
+      return parseGPX(content)
+    case "nmea":
+      return parseNMEA(content)
+    case "tracking_data":
+      try {
+        const parsed = JSON.parse(content)
+        // A backup bundle or a bare array of tracking points
+        const points = Array.isArray(parsed) ? parsed : parsed?.data?.trackingData ?? parsed?.trackingData
+        if (!Array.isArray(points)) return { fixes: [], errors: ["No tracking points found in the JSON file"] }
+        return fromTrackingData(points)
+      } catch (error) {
+        return { fixes: [], errors: [`Not valid JSON: ${error instanceof Error ? error.message : error}`] }
+      }
+  }
+}